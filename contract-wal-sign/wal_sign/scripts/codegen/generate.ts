@@ -0,0 +1,297 @@
+import { SuiMoveNormalizedModule, SuiMoveNormalizedType } from '@mysten/sui/client';
+
+type StructType = Extract<SuiMoveNormalizedType, { Struct: unknown }>['Struct'];
+
+const HEADER = `// Generated from the wal_sign module ABI by contract-wal-sign/wal_sign/scripts/codegen.
+// Do not edit by hand: run \`npm run codegen\` there after publishing changes to wal_sign.move.
+import { bcs } from '@mysten/sui/bcs';
+import { Transaction, TransactionObjectInput } from '@mysten/sui/transactions';
+`;
+
+const camelCase = (name: string) => name.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+
+const isFramework = (struct: StructType, module: string, name: string) =>
+    /^0x0*2$/.test(struct.address) && struct.module === module && struct.name === name;
+
+const isStd = (struct: StructType, module: string, name: string) =>
+    /^0x0*1$/.test(struct.address) && struct.module === module && struct.name === name;
+
+const isLocal = (struct: StructType, abi: SuiMoveNormalizedModule) =>
+    struct.module === abi.name && BigInt(struct.address) === BigInt(abi.address);
+
+const describe = (type: SuiMoveNormalizedType): string => {
+    if (typeof type === 'string') return type;
+    if ('Struct' in type) return `${type.Struct.module}::${type.Struct.name}`;
+    if ('Vector' in type) return `vector<${describe(type.Vector)}>`;
+    if ('Reference' in type) return `&${describe(type.Reference)}`;
+    if ('MutableReference' in type) return `&mut ${describe(type.MutableReference)}`;
+    return `T${type.TypeParameter}`;
+};
+
+/**
+ * Map a Move type to the BCS schema expression that decodes it
+ * Local structs refer to the generated constant of the same name
+ */
+const toBcs = (type: SuiMoveNormalizedType, abi: SuiMoveNormalizedModule): string => {
+    switch (type) {
+        case 'Bool':
+            return 'bcs.bool()';
+        case 'U8':
+        case 'U16':
+        case 'U32':
+        case 'U64':
+        case 'U128':
+        case 'U256':
+            return `bcs.${type.toLowerCase()}()`;
+        case 'Address':
+            return 'bcs.Address';
+    }
+
+    if (typeof type === 'object' && 'Vector' in type) {
+        return `bcs.vector(${toBcs(type.Vector, abi)})`;
+    }
+
+    if (typeof type === 'object' && 'Struct' in type) {
+        const struct = type.Struct;
+        const [first] = struct.typeArguments;
+
+        if (isLocal(struct, abi)) return struct.name;
+        // UID wraps an ID, which wraps an address, so all three share one encoding
+        if (isFramework(struct, 'object', 'UID') || isFramework(struct, 'object', 'ID')) return 'bcs.Address';
+        if (isStd(struct, 'string', 'String')) return 'bcs.string()';
+        if (isStd(struct, 'option', 'Option')) return `bcs.option(${toBcs(first, abi)})`;
+        // Table contents live in dynamic fields; the object only holds their parent ID and count
+        if (isFramework(struct, 'table', 'Table')) {
+            return "bcs.struct('Table', { id: bcs.Address, size: bcs.u64() })";
+        }
+        if (isFramework(struct, 'linked_table', 'LinkedTable')) {
+            const key = toBcs(first, abi);
+            return `bcs.struct('LinkedTable', { id: bcs.Address, size: bcs.u64(), head: bcs.option(${key}), tail: bcs.option(${key}) })`;
+        }
+    }
+
+    throw new Error(`No BCS mapping for ${describe(type)}`);
+};
+
+/**
+ * Map a Move type to the TypeScript type accepted when serializing it
+ */
+const toInput = (type: SuiMoveNormalizedType, abi: SuiMoveNormalizedModule): string => {
+    switch (type) {
+        case 'Bool':
+            return 'boolean';
+        case 'U8':
+        case 'U16':
+        case 'U32':
+            return 'number';
+        case 'U64':
+        case 'U128':
+        case 'U256':
+            return 'number | bigint | string';
+        case 'Address':
+            return 'string';
+    }
+
+    if (typeof type === 'object' && 'Vector' in type) {
+        if (type.Vector === 'U8') return 'Uint8Array | number[]';
+        const element = toInput(type.Vector, abi);
+        return element.includes('|') ? `(${element})[]` : `${element}[]`;
+    }
+
+    if (typeof type === 'object' && 'Struct' in type) {
+        const struct = type.Struct;
+        if (isFramework(struct, 'object', 'ID') || isStd(struct, 'string', 'String')) return 'string';
+        if (isStd(struct, 'option', 'Option')) return `${toInput(struct.typeArguments[0], abi)} | null`;
+    }
+
+    throw new Error(`No pure argument mapping for ${describe(type)}`);
+};
+
+/**
+ * Order structs so each one is declared after the structs its fields use
+ */
+const sortStructs = (abi: SuiMoveNormalizedModule): string[] => {
+    const sorted: string[] = [];
+    const visiting = new Set<string>();
+
+    const localStructs = (type: SuiMoveNormalizedType): string[] => {
+        if (typeof type === 'string' || 'TypeParameter' in type) return [];
+        if ('Vector' in type) return localStructs(type.Vector);
+        if ('Reference' in type) return localStructs(type.Reference);
+        if ('MutableReference' in type) return localStructs(type.MutableReference);
+        const nested = type.Struct.typeArguments.flatMap(localStructs);
+        return isLocal(type.Struct, abi) ? [type.Struct.name, ...nested] : nested;
+    };
+
+    const visit = (name: string) => {
+        if (sorted.includes(name)) return;
+        if (visiting.has(name)) throw new Error(`Recursive struct ${name}`);
+        visiting.add(name);
+        abi.structs[name].fields.forEach((field) => localStructs(field.type).forEach(visit));
+        sorted.push(name);
+    };
+
+    Object.keys(abi.structs).sort().forEach(visit);
+    return sorted;
+};
+
+/**
+ * Read parameter names from the Move source, since the ABI only has types
+ * @returns Parameter names keyed by function name
+ */
+const parseParameterNames = (source: string): Map<string, string[]> => {
+    const names = new Map<string, string[]>();
+    const withoutComments = source.replace(/\/\/.*$/gm, '');
+    const declaration = /\bfun\s+(\w+)\s*(?:<[^>]*>)?\s*\(([^)]*)\)/g;
+
+    for (const match of withoutComments.matchAll(declaration)) {
+        const params: string[] = [];
+        let depth = 0;
+        let current = '';
+        for (const char of match[2]) {
+            if (char === '<') depth++;
+            if (char === '>') depth--;
+            if (char === ',' && depth === 0) {
+                params.push(current);
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+        params.push(current);
+
+        names.set(
+            match[1],
+            params.map((param) => param.split(':')[0].trim()).filter(Boolean)
+        );
+    }
+
+    return names;
+};
+
+/**
+ * Check that the published ABI still matches the Move source
+ * The ABI comes from the package on-chain, so local changes only show up
+ * once they are published; generating from an older package would silently
+ * drop them
+ */
+const assertMatchesSource = (abi: SuiMoveNormalizedModule, source: string) => {
+    const withoutComments = source.replace(/\/\/.*$/gm, '');
+    const stale: string[] = [];
+
+    const declaration = /(#\[test_only\]\s*)?\b(?:public\s+(?:entry\s+)?|entry\s+)fun\s+(\w+)/g;
+    for (const [, testOnly, name] of withoutComments.matchAll(declaration)) {
+        if (!testOnly && !abi.exposedFunctions[name]) stale.push(`function ${name}`);
+    }
+
+    const struct = /\bpublic\s+struct\s+(\w+)[^{]*\{([^}]*)\}/g;
+    for (const [, name, body] of withoutComments.matchAll(struct)) {
+        const fields = [...body.matchAll(/(?<![:\w])(\w+)\s*:(?!:)/g)].map((match) => match[1]);
+        const published = abi.structs[name]?.fields.map((field) => field.name);
+        if (published?.join() !== fields.join()) stale.push(`struct ${name}`);
+    }
+
+    if (stale.length) {
+        throw new Error(
+            `The published package does not match wal_sign.move (${stale.join(', ')}). ` +
+            'Publish your changes and point PACKAGE_ID at the new package before running codegen.'
+        );
+    }
+};
+
+const generateStruct = (abi: SuiMoveNormalizedModule, name: string): string => {
+    const struct = abi.structs[name];
+    if (struct.typeParameters.length) {
+        throw new Error(`Generic struct ${name} is not supported`);
+    }
+
+    const fields = struct.fields.map((field) => `  ${field.name}: ${toBcs(field.type, abi)},`).join('\n');
+    return `export const ${name} = bcs.struct('${name}', {\n${fields}\n});\nexport type ${name} = typeof ${name}.$inferType;\n`;
+};
+
+const generateFunction = (abi: SuiMoveNormalizedModule, name: string, parameterNames: string[]): string => {
+    const fn = abi.exposedFunctions[name];
+    if (fn.typeParameters.length) {
+        throw new Error(`Generic function ${name} is not supported`);
+    }
+    if (parameterNames.length !== fn.parameters.length) {
+        throw new Error(`${name} has ${fn.parameters.length} parameters in the ABI but ${parameterNames.length} in the source`);
+    }
+
+    const fields: string[] = [];
+    const args: string[] = [];
+
+    fn.parameters.forEach((param, i) => {
+        // Unused parameters are named `_` in Move
+        const key = parameterNames[i] === '_' ? `arg${i}` : camelCase(parameterNames[i].replace(/^_+/, ''));
+        const inner = typeof param === 'object' && 'Reference' in param
+            ? param.Reference
+            : typeof param === 'object' && 'MutableReference' in param
+                ? param.MutableReference
+                : param;
+        const struct = typeof inner === 'object' && 'Struct' in inner ? inner.Struct : null;
+
+        if (struct && isFramework(struct, 'tx_context', 'TxContext')) return;
+        if (struct && isFramework(struct, 'clock', 'Clock')) {
+            args.push("tx.object('0x6')");
+            return;
+        }
+        // Local structs and any framework object other than the ones above are passed as objects
+        const isObject = inner !== param || (struct !== null && isLocal(struct, abi));
+        if (isObject) {
+            fields.push(`    ${key}: TransactionObjectInput;`);
+            args.push(`tx.object(args.${key})`);
+        } else {
+            fields.push(`    ${key}: ${toInput(param, abi)};`);
+            args.push(`tx.pure(${toBcs(param, abi)}.serialize(args.${key}))`);
+        }
+    });
+
+    const signature = fields.length
+        ? `tx: Transaction,\n  packageId: string,\n  args: {\n${fields.join('\n')}\n  }`
+        : 'tx: Transaction,\n  packageId: string';
+    const argumentList = args.length ? `[\n      ${args.join(',\n      ')},\n    ]` : '[]';
+
+    return `/** Call wal_sign::${name} */
+export function ${camelCase(name)}(
+  ${signature}
+) {
+  return tx.moveCall({
+    target: \`\${packageId}::${abi.name}::${name}\`,
+    arguments: ${argumentList},
+  });
+}
+`;
+};
+
+/**
+ * Generate the typed client for a module
+ * @param abi - The module's normalized ABI, as returned by getNormalizedMoveModule
+ * @param source - The module's Move source, for parameter names
+ * @returns The contents of the generated TypeScript file
+ */
+const generate = (abi: SuiMoveNormalizedModule, source: string): string => {
+    assertMatchesSource(abi, source);
+    const parameterNames = parseParameterNames(source);
+
+    const structs = sortStructs(abi).map((name) => generateStruct(abi, name));
+
+    const functions = Object.keys(abi.exposedFunctions)
+        .filter((name) => abi.exposedFunctions[name].visibility === 'Public' || abi.exposedFunctions[name].isEntry)
+        .sort()
+        .map((name) => {
+            const names = parameterNames.get(name);
+            if (!names) throw new Error(`${name} was not found in the Move source`);
+            return generateFunction(abi, name, names);
+        });
+
+    return [
+        HEADER,
+        '// ======== Structs ========\n',
+        ...structs,
+        '// ======== Move calls ========\n',
+        ...functions,
+    ].join('\n');
+};
+
+export default generate;
@@ -0,0 +1,37 @@
+import { getFullnodeUrl, SuiClient } from '@mysten/sui/client';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { packageId as publishedPackageId } from '../utils/packageInfo';
+import generate from './generate';
+dotenv.config();
+
+type network_type = "mainnet" | "testnet" | "devnet" | "localnet";
+
+const NETWORK = (process.env.NETWORK || 'testnet') as network_type;
+// Defaults to the package written by setup.ts
+const PACKAGE_ID = process.env.PACKAGE_ID || publishedPackageId;
+
+const SOURCE_PATH = path.resolve(__dirname, '../../sources/wal_sign.move');
+const OUTPUT_PATH = path.resolve(__dirname, '../../../../walsign-sdk/src/generated/walSign.ts');
+
+/**
+ * Regenerate the SDK's typed wal_sign client from the published
+ * package's ABI, taking parameter names from the Move source
+ * Changes to wal_sign.move must be published first (localnet is enough);
+ * the run fails if the package's ABI does not match the source
+ */
+const main = async () => {
+    const client = new SuiClient({ url: getFullnodeUrl(NETWORK) });
+    const abi = await client.getNormalizedMoveModule({ package: PACKAGE_ID, module: 'wal_sign' });
+    const source = await fs.readFile(SOURCE_PATH, 'utf-8');
+
+    await fs.mkdir(path.dirname(OUTPUT_PATH), { recursive: true });
+    await fs.writeFile(OUTPUT_PATH, generate(abi, source));
+    console.log(`Generated ${path.relative(process.cwd(), OUTPUT_PATH)} from ${PACKAGE_ID} on ${NETWORK}`);
+};
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
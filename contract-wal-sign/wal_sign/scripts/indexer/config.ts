@@ -0,0 +1,17 @@
+import * as dotenv from 'dotenv';
+import { packageId } from '../utils/packageInfo';
+dotenv.config();
+
+type network_type = "mainnet" | "testnet" | "devnet" | "localnet";
+
+const config = {
+    network: (process.env.NETWORK || 'testnet') as network_type,
+    // Defaults to the package written by setup.ts
+    packageId: process.env.PACKAGE_ID || packageId,
+    dbPath: process.env.INDEXER_DB_PATH || 'indexer.db',
+    port: Number(process.env.INDEXER_PORT || 4000),
+    // How long to wait before polling again once the node has no new events
+    pollIntervalMs: Number(process.env.INDEXER_POLL_MS || 2000),
+};
+
+export default config;
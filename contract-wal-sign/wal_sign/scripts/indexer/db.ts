@@ -0,0 +1,263 @@
+import Database from 'better-sqlite3';
+import { EventId, SuiEvent } from '@mysten/sui/client';
+import { DocumentSummary } from '../../../../walsign-sdk/src/registry';
+
+export type IndexerDb = Database.Database;
+
+export interface DocumentQuery {
+    creator?: string;
+    participant?: string; // Current authorized signer, like assigned_to_user in the registry
+    organization?: string;
+    search?: string; // Full-text search on title and description
+    statuses?: number[]; // Effective statuses, where 3 also covers documents past their deadline
+    limit: number;
+    offset: number;
+}
+
+// Fields every wal_sign event about a document has; the rest depend on its type
+export interface DocumentEventData {
+    document_id: string;
+    [field: string]: unknown;
+}
+
+export type DocumentEvent = SuiEvent & { parsedJson: DocumentEventData };
+
+export interface IndexedEvent {
+    txDigest: string;
+    eventSeq: string;
+    type: string;
+    timestamp: number;
+    data: DocumentEventData;
+}
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS documents (
+        document_id TEXT PRIMARY KEY,
+        creator TEXT NOT NULL,
+        organization TEXT,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        status INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        summary TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS documents_by_creator ON documents (creator, created_at);
+    CREATE INDEX IF NOT EXISTS documents_by_organization ON documents (organization, created_at);
+
+    CREATE TABLE IF NOT EXISTS participants (
+        document_id TEXT NOT NULL,
+        address TEXT NOT NULL,
+        role INTEGER NOT NULL,
+        PRIMARY KEY (document_id, address)
+    );
+    CREATE INDEX IF NOT EXISTS participants_by_address ON participants (address);
+
+    CREATE TABLE IF NOT EXISTS signatures (
+        document_id TEXT NOT NULL,
+        signer TEXT NOT NULL,
+        delegate TEXT,
+        signed_blob_id TEXT NOT NULL,
+        signed_at INTEGER NOT NULL,
+        tx_digest TEXT,
+        PRIMARY KEY (document_id, signer)
+    );
+
+    CREATE TABLE IF NOT EXISTS events (
+        tx_digest TEXT NOT NULL,
+        event_seq TEXT NOT NULL,
+        document_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (tx_digest, event_seq)
+    );
+    CREATE INDEX IF NOT EXISTS events_by_document ON events (document_id, timestamp);
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5 (document_id UNINDEXED, title, description);
+
+    CREATE TABLE IF NOT EXISTS sync_state (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        cursor TEXT,
+        updated_at INTEGER NOT NULL
+    );
+`;
+
+// Expired is not stored on-chain until someone calls expire_document, and a
+// passing deadline emits no event, so it is worked out at query time
+const EFFECTIVE_STATUS = `
+    CASE WHEN status IN (0, 1) AND expires_at IS NOT NULL AND expires_at < @now THEN 3 ELSE status END
+`;
+
+export const openDatabase = (path: string): IndexerDb => {
+    const db = new Database(path);
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+    return db;
+};
+
+export const loadCursor = (db: IndexerDb): EventId | null => {
+    const row = db.prepare('SELECT cursor FROM sync_state WHERE id = 1').get() as { cursor: string | null } | undefined;
+    return row?.cursor ? JSON.parse(row.cursor) : null;
+};
+
+export const getSyncState = (db: IndexerDb) => {
+    const row = db.prepare('SELECT cursor, updated_at FROM sync_state WHERE id = 1').get() as
+        | { cursor: string | null; updated_at: number }
+        | undefined;
+    const { count } = db.prepare('SELECT COUNT(*) AS count FROM documents').get() as { count: number };
+    return {
+        cursor: row?.cursor ? (JSON.parse(row.cursor) as EventId) : null,
+        updatedAt: row?.updated_at ?? null,
+        documents: count,
+    };
+};
+
+/**
+ * Store a page of events, the refreshed documents they touched and the
+ * cursor after them in one transaction, so a crash never skips events
+ */
+export const savePage = (db: IndexerDb, events: DocumentEvent[], documents: DocumentSummary[], cursor: EventId | null) => {
+    const insertEvent = db.prepare(`
+        INSERT OR IGNORE INTO events (tx_digest, event_seq, document_id, type, timestamp, data)
+        VALUES (@txDigest, @eventSeq, @documentId, @type, @timestamp, @data)
+    `);
+    const upsertDocument = db.prepare(`
+        INSERT INTO documents (document_id, creator, organization, title, description, status, created_at, expires_at, summary)
+        VALUES (@documentId, @creator, @organization, @title, @description, @status, @createdAt, @expiresAt, @summary)
+        ON CONFLICT (document_id) DO UPDATE SET
+            creator = excluded.creator,
+            organization = excluded.organization,
+            title = excluded.title,
+            description = excluded.description,
+            status = excluded.status,
+            expires_at = excluded.expires_at,
+            summary = excluded.summary
+    `);
+    const insertParticipant = db.prepare(
+        'INSERT INTO participants (document_id, address, role) VALUES (?, ?, ?)'
+    );
+    const insertSignature = db.prepare(`
+        INSERT INTO signatures (document_id, signer, delegate, signed_blob_id, signed_at, tx_digest)
+        VALUES (@documentId, @signer, @delegate, @signedBlobId, @signedAt,
+            (SELECT tx_digest FROM events
+             WHERE document_id = @documentId AND type LIKE '%::DocumentSigned'
+               AND json_extract(data, '$.signed_blob_id') = @signedBlobId))
+    `);
+    const insertFts = db.prepare('INSERT INTO documents_fts (document_id, title, description) VALUES (?, ?, ?)');
+
+    db.transaction(() => {
+        for (const event of events) {
+            insertEvent.run({
+                txDigest: event.id.txDigest,
+                eventSeq: event.id.eventSeq,
+                documentId: event.parsedJson.document_id,
+                type: event.type,
+                timestamp: Number(event.timestampMs ?? 0),
+                data: JSON.stringify(event.parsedJson),
+            });
+        }
+
+        for (const document of documents) {
+            const id = document.documentId;
+            upsertDocument.run({ ...document, summary: JSON.stringify(document) });
+
+            // Signers, signatures and search text are replaced with the current state
+            db.prepare('DELETE FROM participants WHERE document_id = ?').run(id);
+            document.authorizedSigners.forEach((address, i) => insertParticipant.run(id, address, document.roles[i]));
+
+            db.prepare('DELETE FROM signatures WHERE document_id = ?').run(id);
+            for (const signature of document.signatures) {
+                insertSignature.run({ documentId: id, ...signature });
+            }
+
+            db.prepare('DELETE FROM documents_fts WHERE document_id = ?').run(id);
+            insertFts.run(id, document.title, document.description);
+        }
+
+        db.prepare(`
+            INSERT INTO sync_state (id, cursor, updated_at) VALUES (1, ?, ?)
+            ON CONFLICT (id) DO UPDATE SET cursor = excluded.cursor, updated_at = excluded.updated_at
+        `).run(cursor ? JSON.stringify(cursor) : null, Date.now());
+    })();
+};
+
+/**
+ * Turn user input into an FTS5 query that matches every word as a prefix
+ */
+const toFtsQuery = (search: string) =>
+    search
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((word) => `"${word.replace(/"/g, '""')}"*`)
+        .join(' ');
+
+/**
+ * List documents, newest first
+ * @returns The page and the number of documents matching the query
+ */
+export const queryDocuments = (db: IndexerDb, query: DocumentQuery) => {
+    const where: string[] = [];
+    const params: Record<string, unknown> = { now: Date.now(), limit: query.limit, offset: query.offset };
+
+    if (query.creator) {
+        where.push('creator = @creator');
+        params.creator = query.creator;
+    }
+    if (query.participant) {
+        where.push('document_id IN (SELECT document_id FROM participants WHERE address = @participant)');
+        params.participant = query.participant;
+    }
+    if (query.organization) {
+        where.push('organization = @organization');
+        params.organization = query.organization;
+    }
+    const ftsQuery = query.search ? toFtsQuery(query.search) : '';
+    if (ftsQuery) {
+        where.push('document_id IN (SELECT document_id FROM documents_fts WHERE documents_fts MATCH @search)');
+        params.search = ftsQuery;
+    }
+    if (query.statuses?.length) {
+        where.push(`(${EFFECTIVE_STATUS}) IN (${query.statuses.map((_, i) => `@status${i}`).join(', ')})`);
+        query.statuses.forEach((status, i) => (params[`status${i}`] = status));
+    }
+
+    const clause = where.length ? `WHERE ${where.join(' AND ')}` : '';
+    const rows = db
+        .prepare(`SELECT summary FROM documents ${clause} ORDER BY created_at DESC, document_id LIMIT @limit OFFSET @offset`)
+        .all(params) as { summary: string }[];
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM documents ${clause}`).get(params) as { total: number };
+
+    return {
+        documents: rows.map((row) => JSON.parse(row.summary) as DocumentSummary),
+        total,
+    };
+};
+
+export const getDocument = (db: IndexerDb, documentId: string): DocumentSummary | null => {
+    const row = db.prepare('SELECT summary FROM documents WHERE document_id = ?').get(documentId) as
+        | { summary: string }
+        | undefined;
+    return row ? JSON.parse(row.summary) : null;
+};
+
+/**
+ * Get the events recorded for a document, oldest first
+ * Events are stored in chain order, so insertion order is enough
+ */
+export const getDocumentEvents = (db: IndexerDb, documentId: string): IndexedEvent[] => {
+    const rows = db
+        .prepare(`
+            SELECT tx_digest, event_seq, type, timestamp, data FROM events
+            WHERE document_id = ? ORDER BY rowid
+        `)
+        .all(documentId) as { tx_digest: string; event_seq: string; type: string; timestamp: number; data: string }[];
+
+    return rows.map((row) => ({
+        txDigest: row.tx_digest,
+        eventSeq: row.event_seq,
+        type: row.type,
+        timestamp: row.timestamp,
+        data: JSON.parse(row.data),
+    }));
+};
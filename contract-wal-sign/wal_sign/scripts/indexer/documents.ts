@@ -0,0 +1,35 @@
+import { SuiClient } from '@mysten/sui/client';
+import { fromBase64 } from '@mysten/bcs';
+import { DocumentSummary, toDocumentSummary } from '../../../../walsign-sdk/src/registry';
+import * as walSign from '../../../../walsign-sdk/src/generated/walSign';
+
+// multiGetObjects accepts at most 50 IDs per call
+const OBJECTS_PER_REQUEST = 50;
+
+/**
+ * Read the current state of documents from the node
+ * Documents that cannot be read are left out
+ */
+const fetchDocuments = async (client: SuiClient, documentIds: string[]): Promise<DocumentSummary[]> => {
+    const documents: DocumentSummary[] = [];
+
+    for (let i = 0; i < documentIds.length; i += OBJECTS_PER_REQUEST) {
+        const objects = await client.multiGetObjects({
+            ids: documentIds.slice(i, i + OBJECTS_PER_REQUEST),
+            options: { showBcs: true },
+        });
+
+        for (const object of objects) {
+            const content = object.data?.bcs;
+            if (content?.dataType !== 'moveObject') {
+                console.warn('Skipping unreadable document', object.error ?? object.data?.objectId);
+                continue;
+            }
+            documents.push(toDocumentSummary(walSign.Document.parse(fromBase64(content.bcsBytes))));
+        }
+    }
+
+    return documents;
+};
+
+export default fetchDocuments;
@@ -0,0 +1,19 @@
+import { getFullnodeUrl, SuiClient } from '@mysten/sui/client';
+import config from './config';
+import { openDatabase } from './db';
+import startServer from './server';
+import startSync from './sync';
+
+const main = async () => {
+    const client = new SuiClient({ url: getFullnodeUrl(config.network) });
+    const db = openDatabase(config.dbPath);
+
+    console.log(`Indexing package ${config.packageId} on ${config.network} into ${config.dbPath}`);
+    startServer(db, config.port);
+    await startSync(client, db, config.packageId, config.pollIntervalMs);
+};
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
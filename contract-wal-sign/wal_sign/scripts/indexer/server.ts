@@ -0,0 +1,92 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { IndexerDb, getDocument, getDocumentEvents, getSyncState, queryDocuments } from './db';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        // The frontend is served from another origin
+        'Access-Control-Allow-Origin': '*',
+    });
+    res.end(JSON.stringify(body));
+};
+
+const parseNumber = (value: string | null, fallback: number) => {
+    const parsed = Number(value);
+    return value !== null && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * GET /documents?creator=&participant=&organization=&q=&status=0,1&limit=&offset=
+ *   Newest first: { documents, total, nextOffset }
+ * GET /documents/:id
+ * GET /documents/:id/events
+ *   Events recorded for the document, oldest first
+ * GET /status
+ *   Sync cursor, last sync time and number of indexed documents
+ */
+const handle = (db: IndexerDb, req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET') {
+        return send(res, 405, { error: 'Method not allowed' });
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean);
+
+    if (parts.length === 1 && parts[0] === 'status') {
+        return send(res, 200, getSyncState(db));
+    }
+
+    if (parts.length === 1 && parts[0] === 'documents') {
+        const params = url.searchParams;
+        const limit = Math.min(parseNumber(params.get('limit'), DEFAULT_LIMIT), MAX_LIMIT);
+        const offset = parseNumber(params.get('offset'), 0);
+        const statuses = params.get('status')?.split(',').filter(Boolean).map(Number);
+        if (statuses?.some((status) => !Number.isInteger(status))) {
+            return send(res, 400, { error: 'status must be a comma-separated list of numbers' });
+        }
+
+        const { documents, total } = queryDocuments(db, {
+            creator: params.get('creator') || undefined,
+            participant: params.get('participant') || undefined,
+            organization: params.get('organization') || undefined,
+            search: params.get('q') || undefined,
+            statuses,
+            limit,
+            offset,
+        });
+        return send(res, 200, {
+            documents,
+            total,
+            nextOffset: offset + documents.length < total ? offset + documents.length : null,
+        });
+    }
+
+    if (parts.length === 2 && parts[0] === 'documents') {
+        const document = getDocument(db, parts[1]);
+        return document ? send(res, 200, document) : send(res, 404, { error: 'Document not found' });
+    }
+
+    if (parts.length === 3 && parts[0] === 'documents' && parts[2] === 'events') {
+        return send(res, 200, getDocumentEvents(db, parts[1]));
+    }
+
+    send(res, 404, { error: 'Not found' });
+};
+
+const startServer = (db: IndexerDb, port: number) => {
+    const server = createServer((req, res) => {
+        try {
+            handle(db, req, res);
+        } catch (error) {
+            console.error('Request failed:', error);
+            send(res, 500, { error: 'Internal error' });
+        }
+    });
+    server.listen(port, () => console.log(`Indexer API listening on http://localhost:${port}`));
+    return server;
+};
+
+export default startServer;
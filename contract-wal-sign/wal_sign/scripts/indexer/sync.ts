@@ -0,0 +1,57 @@
+import { SuiClient, SuiEvent } from '@mysten/sui/client';
+import fetchDocuments from './documents';
+import { DocumentEvent, IndexerDb, loadCursor, savePage } from './db';
+
+const EVENTS_PER_PAGE = 50;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Organization and template events carry no document
+const isDocumentEvent = (event: SuiEvent): event is DocumentEvent =>
+    typeof (event.parsedJson as { document_id?: unknown } | null)?.document_id === 'string';
+
+/**
+ * Apply the next page of wal_sign events
+ * Documents are re-read from the node rather than rebuilt from events.
+ * Every change to a document emits an event naming it, so the index
+ * follows on-chain state; a passed deadline is left to EFFECTIVE_STATUS
+ * @returns Whether the node has more events after this page
+ */
+const syncPage = async (client: SuiClient, db: IndexerDb, packageId: string): Promise<boolean> => {
+    const page = await client.queryEvents({
+        query: { MoveEventModule: { package: packageId, module: 'wal_sign' } },
+        cursor: loadCursor(db),
+        limit: EVENTS_PER_PAGE,
+        order: 'ascending',
+    });
+
+    const events = page.data.filter(isDocumentEvent);
+    const documentIds = [...new Set(events.map((event) => event.parsedJson.document_id))];
+    const documents = await fetchDocuments(client, documentIds);
+
+    const cursor = page.nextCursor ?? (page.data.length ? page.data[page.data.length - 1].id : loadCursor(db));
+    savePage(db, events, documents, cursor);
+
+    if (documentIds.length) {
+        console.log(`Indexed ${events.length} events, ${documents.length} documents updated`);
+    }
+    return page.hasNextPage;
+};
+
+/**
+ * Follow the node's wal_sign events forever, resuming from the stored cursor
+ * Errors are logged and retried after the poll interval
+ */
+const startSync = async (client: SuiClient, db: IndexerDb, packageId: string, pollIntervalMs: number) => {
+    for (;;) {
+        try {
+            const hasMore = await syncPage(client, db, packageId);
+            if (hasMore) continue;
+        } catch (error) {
+            console.error('Sync failed, retrying:', error);
+        }
+        await sleep(pollIntervalMs);
+    }
+};
+
+export default startSync;
@@ -6,12 +6,85 @@ use sui::event;
 use std::string::String;
 use sui::clock::{Clock};
 use sui::table::{Self, Table};
+use sui::linked_table::{Self, LinkedTable};
 // ======== Error codes ========
 
 /// Error: User is not authorized to perform the operation
 const E_NOT_AUTHORIZED: u64 = 1;
 /// Error: User has already signed this document
 const E_ALREADY_SIGNED: u64 = 2;
+/// Error: Sequential signing is enabled and it is not the sender's turn
+const E_NOT_YOUR_TURN: u64 = 3;
+/// Error: The document's signing deadline has passed
+const E_DOCUMENT_EXPIRED: u64 = 4;
+/// Error: The signing deadline is not in the future
+const E_INVALID_DEADLINE: u64 = 5;
+/// Error: The document's signing deadline has not passed yet
+const E_NOT_EXPIRED: u64 = 6;
+/// Error: The document has been declined by a signer
+const E_DOCUMENT_DECLINED: u64 = 7;
+/// Error: The document has been voided by its creator
+const E_DOCUMENT_VOIDED: u64 = 8;
+/// Error: The content hash is not a 32-byte SHA-256 digest
+const E_INVALID_HASH: u64 = 9;
+/// Error: The signer's authorization has been revoked
+const E_SIGNER_REVOKED: u64 = 10;
+/// Error: The address is already an authorized signer
+const E_ALREADY_AUTHORIZED: u64 = 11;
+/// Error: The zero address cannot be a signer
+const E_INVALID_SIGNER: u64 = 12;
+/// Error: The signature threshold is zero or larger than the number of approvers
+const E_INVALID_THRESHOLD: u64 = 13;
+/// Error: The document has already been completed
+const E_DOCUMENT_COMPLETED: u64 = 14;
+/// Error: The role is unknown or the roles do not match the signers
+const E_INVALID_ROLE: u64 = 15;
+/// Error: The participant's role does not allow signing
+const E_ROLE_CANNOT_SIGN: u64 = 16;
+/// Error: A witness can only sign after an approver has signed
+const E_NOTHING_TO_WITNESS: u64 = 17;
+/// Error: The delegation has expired
+const E_DELEGATION_EXPIRED: u64 = 18;
+/// Error: The delegation has been revoked or already used
+const E_DELEGATION_REVOKED: u64 = 19;
+/// Error: The proposed creator is the zero address or already the creator
+const E_INVALID_CREATOR: u64 = 20;
+/// Error: No ownership transfer is pending for the sender
+const E_NO_PENDING_TRANSFER: u64 = 21;
+/// Error: The address is already a member of the organization
+const E_ALREADY_MEMBER: u64 = 22;
+/// Error: The address is not a member of the organization
+const E_NOT_MEMBER: u64 = 23;
+/// Error: An organization must keep at least one admin
+const E_LAST_ADMIN: u64 = 24;
+/// Error: The slots, roles or signers of a template do not line up
+const E_SLOT_MISMATCH: u64 = 25;
+/// Error: A template field is malformed or refers to an unknown slot
+const E_INVALID_FIELD: u64 = 26;
+/// Error: The library entry kind is unknown or the index is out of range
+const E_INVALID_ENTRY: u64 = 27;
+/// Error: The sender already has a signature library
+const E_LIBRARY_EXISTS: u64 = 28;
+/// Error: The page cursor is not in the list being paged
+const E_INVALID_CURSOR: u64 = 29;
+
+// ======== Constants ========
+
+/// Length of a SHA-256 digest in bytes
+const HASH_LENGTH: u64 = 32;
+
+/// Participant role: must sign, counts towards completion
+const ROLE_APPROVER: u8 = 0;
+/// Participant role: can decrypt and read (CC), never signs
+const ROLE_VIEWER: u8 = 1;
+/// Participant role: signs to attest an approver's signature, does not count
+/// towards completion
+const ROLE_WITNESS: u8 = 2;
+
+/// Signature library entry kind: full signature
+const ENTRY_SIGNATURE: u8 = 0;
+/// Signature library entry kind: initials
+const ENTRY_INITIALS: u8 = 1;
 
 // ======== Structs ========
 
@@ -19,14 +92,26 @@ const E_ALREADY_SIGNED: u64 = 2;
 ///
 /// This shared object serves as the central index for all documents, mapping
 /// user addresses to the documents they created or are authorized to sign.
-/// It provides efficient lookup capabilities for querying user-specific
-/// document lists.
+/// Each list of IDs is kept in a `LinkedTable` in insertion order, so lists
+/// grow without bound, entries are removed in constant time, and the view
+/// functions return them a page at a time.
 public struct DocumentRegistry has key {
     id: UID,
-    /// Map of user address -> list of document IDs they created
-    created_by_user: Table<address, vector<ID>>,
-    /// Map of user address -> list of document IDs they can sign
-    assigned_to_user: Table<address, vector<ID>>,
+    /// Map of user address -> document IDs they created
+    created_by_user: Table<address, LinkedTable<ID, bool>>,
+    /// Map of user address -> document IDs they can sign
+    assigned_to_user: Table<address, LinkedTable<ID, bool>>,
+    /// Map of user address -> document IDs offered to them by a pending
+    /// ownership transfer
+    pending_transfers: Table<address, LinkedTable<ID, bool>>,
+    /// Map of organization ID -> document IDs created under it
+    documents_by_org: Table<ID, LinkedTable<ID, bool>>,
+    /// Map of user address -> organization IDs they belong to
+    orgs_by_member: Table<address, LinkedTable<ID, bool>>,
+    /// Map of user address -> template IDs they created
+    templates_by_user: Table<address, LinkedTable<ID, bool>>,
+    /// Map of user address -> ID of their signature library
+    libraries: Table<address, ID>,
     /// Total document count across all users
     total_documents: u64,
 }
@@ -41,40 +126,125 @@ public struct Document has key, store {
     id: UID,
     /// Creator of the document
     creator: address,
+    /// Address proposed to take over as creator (none = no transfer pending)
+    pending_creator: Option<address>,
+    /// Organization whose admins can administer the document (none = creator only)
+    organization: Option<ID>,
+    /// Template the document was instantiated from (none = uploaded directly)
+    template: Option<ID>,
+    /// Address filling each template slot, parallel to the template's slots
+    /// (empty if the document was uploaded directly)
+    slot_signers: vector<address>,
     /// Walrus blob ID where encrypted document is stored
     walrus_blob_id: String,
+    /// SHA-256 of the original plaintext PDF
+    content_hash: vector<u8>,
+    /// Walrus blob ID of the encrypted field definitions placed by the creator
+    /// (empty = signers place their signature freely)
+    fields_blob_id: String,
     /// Document title/description
     title: String,
     /// Description (optional)
     description: String,
     /// List of addresses authorized to decrypt and sign
     authorized_signers: vector<address>,
+    /// Role of each authorized signer, parallel to `authorized_signers`
+    /// (0=approver, 1=viewer, 2=witness)
+    roles: vector<u8>,
+    /// Addresses whose authorization was revoked by the creator
+    revoked_signers: vector<address>,
+    /// Whether signers must sign in the order of `authorized_signers`
+    sequential: bool,
+    /// Number of signatures needed to complete the document (none = all signers)
+    threshold: Option<u64>,
     /// Collected signatures from authorized signers
     signatures: vector<Signature>,
     /// Timestamp when document was created (in milliseconds)
     created_at: u64,
-    /// Status: 0=pending, 1=partial, 2=complete
+    /// Signing deadline in milliseconds (none = no deadline)
+    expires_at: Option<u64>,
+    /// Status: 0=pending, 1=partial, 2=complete, 3=expired, 4=declined, 5=voided
     status: u8,
     /// Vector of blob IDs for signed document versions (newest last)
     signed_blob_id: vector<String>,
+    /// SHA-256 of each signed plaintext PDF, parallel to `signed_blob_id`
+    signed_blob_hashes: vector<vector<u8>>,
+    /// Decline record if a signer refused to sign (none = not declined)
+    decline: Option<Decline>,
+    /// Void record if the creator withdrew the document (none = not voided)
+    voided: Option<VoidRecord>,
+    /// Delegations that can still be used to sign
+    delegations: vector<DelegationRecord>,
 }
 
 /// Signature record for a document
 ///
 /// This struct represents a single signature on a document, recording
-/// who signed and when. Multiple signatures are collected in the
-/// document's signatures vector.
+/// who signed, when, and which signed version of the document the signer
+/// produced. Multiple signatures are collected in the document's
+/// signatures vector. When a delegate signs, `signer` is the principal
+/// the signature counts for and `delegate` is who actually signed.
 public struct Signature has store, drop, copy {
     /// Address that signed the document
     signer: address,
+    /// Address that signed on behalf of `signer` (none = signed in person)
+    delegate: Option<address>,
     /// Timestamp of signature (in milliseconds)
     signed_at: u64,
+    /// Walrus blob ID of the signed version produced by this signer
+    signed_blob_id: String,
+    /// SHA-256 of the signed plaintext PDF
+    signed_blob_hash: vector<u8>,
+}
+
+/// Decline record for a document
+///
+/// Records which authorized signer refused to sign the document, why,
+/// and when. A document can be declined at most once.
+public struct Decline has store, drop, copy {
+    /// Address that declined the document
+    signer: address,
+    /// Reason given by the signer
+    reason: String,
+    /// Timestamp of the decline (in milliseconds)
+    declined_at: u64,
+}
+
+/// Void record for a document
+///
+/// Records why and when the creator withdrew a document, and whether the
+/// creator kept the ability to decrypt it afterwards.
+public struct VoidRecord has store, drop, copy {
+    /// Reason given by the creator
+    reason: String,
+    /// Timestamp of the void (in milliseconds)
+    voided_at: u64,
+    /// Whether the creator can still decrypt the document
+    keep_creator_access: bool,
+}
+
+/// Delegation record for a document
+///
+/// Records an active delegation so the principal can revoke it and so the
+/// delegate can decrypt the document before signing. The record is
+/// removed when the delegation is revoked or used, or when the principal
+/// signs in person.
+public struct DelegationRecord has store, drop, copy {
+    /// ID of the `Delegation` object held by the delegate
+    delegation_id: ID,
+    /// Signer the delegate signs for
+    principal: address,
+    /// Address allowed to sign on the principal's behalf
+    delegate: address,
+    /// Time after which the delegation can no longer be used (in milliseconds)
+    expires_at: u64,
 }
 
 /// Capability object given to authorized signers
 ///
 /// This capability object is issued to each authorized signer when a document
-/// is created or when a new signer is added. It serves as proof of authorization
+/// is created or when a new signer is added. Viewers do not receive one since
+/// they never sign. It serves as proof of authorization
 /// and must be presented when signing the document. Each SignerCap is tied to
 /// a specific document via the document_id field.
 public struct SignerCap has key, store {
@@ -83,33 +253,323 @@ public struct SignerCap has key, store {
     document_id: ID,
 }
 
+/// Delegation object that lets another address sign for a signer
+///
+/// Created by `delegate_signing` and sent to the delegate, who presents it
+/// to `sign_as_delegate`. It has no `store` ability, so only this module can
+/// move it and the delegate recorded on the document is always its holder.
+public struct Delegation has key {
+    id: UID,
+    /// Document this delegation is for
+    document_id: ID,
+    /// Signer the delegate signs for
+    principal: address,
+    /// Time after which the delegation can no longer be used (in milliseconds)
+    expires_at: u64,
+}
+
+/// Shared workspace for a team
+///
+/// Documents created under an organization are listed for all of its
+/// members, and any of its admins can add or revoke signers and void them
+/// as if they were the creator. Every admin is also a member.
+public struct Organization has key {
+    id: UID,
+    /// Display name of the organization
+    name: String,
+    /// Addresses that can administer the organization and its documents
+    admins: vector<address>,
+    /// Addresses that can see the organization's documents
+    members: vector<address>,
+}
+
+/// Reusable document template
+///
+/// Holds an encrypted base PDF, named signer slots with their roles, and
+/// signature field positions. New documents are instantiated from it by
+/// filling each slot with an address. Only the creator can decrypt the
+/// base PDF, so only the creator can instantiate it from the frontend.
+public struct Template has key {
+    id: UID,
+    /// Creator of the template
+    creator: address,
+    /// Display name of the template
+    name: String,
+    /// Walrus blob ID where the encrypted base PDF is stored
+    walrus_blob_id: String,
+    /// SHA-256 of the plaintext base PDF
+    content_hash: vector<u8>,
+    /// Name of each signer slot, e.g. "Employee"
+    slots: vector<String>,
+    /// Role of each slot, parallel to `slots`
+    slot_roles: vector<u8>,
+    /// Pre-placed signature fields
+    fields: vector<TemplateField>,
+    /// Whether documents from this template are signed in slot order
+    sequential: bool,
+    /// Signature threshold for documents from this template (none = all approvers)
+    threshold: Option<u64>,
+    /// Timestamp when the template was created (in milliseconds)
+    created_at: u64,
+}
+
+/// Signature field position in a template
+///
+/// Coordinates are in PDF points from the top-left corner of the page.
+public struct TemplateField has store, drop, copy {
+    /// Index of the slot expected to sign here
+    slot: u64,
+    /// Page number, starting at 1
+    page: u64,
+    x: u64,
+    y: u64,
+    width: u64,
+    height: u64,
+}
+
+/// Personal library of saved signature and initials images
+///
+/// Owned by the wallet that created it and never shared, so it follows the
+/// wallet across devices without revealing anything to other users. Each
+/// image is Seal-encrypted under the library ID and stored on Walrus; only
+/// the owner passes `seal_approve_library`. No events are emitted for it.
+public struct SignatureLibrary has key {
+    id: UID,
+    /// Wallet the library belongs to
+    owner: address,
+    /// Saved images, in the order they were added
+    entries: vector<LibraryEntry>,
+}
+
+/// Saved image in a signature library
+public struct LibraryEntry has store, drop, copy {
+    /// ENTRY_SIGNATURE or ENTRY_INITIALS
+    kind: u8,
+    /// Display name chosen by the owner
+    label: String,
+    /// Walrus blob ID where the encrypted image is stored
+    walrus_blob_id: String,
+    /// Timestamp when the entry was added (in milliseconds)
+    added_at: u64,
+}
+
 // ======== Events ========
 
 /// Event emitted when a new document is created
 ///
 /// Emitted when a document is created and registered in the system.
-/// Includes the document ID, creator address, title, list of authorized
-/// signers, and creation timestamp.
+/// Includes the document ID, creator address, content hash, title, list of
+/// authorized signers with their roles, the organization and template if
+/// any, and creation timestamp.
 public struct DocumentCreated has copy, drop {
     document_id: ID,
     creator: address,
+    content_hash: vector<u8>,
     title: String,
     authorized_signers: vector<address>,
+    roles: vector<u8>,
+    organization: Option<ID>,
+    template: Option<ID>,
     timestamp: u64,
 }
 
 /// Event emitted when a document is signed
 ///
 /// Emitted when an authorized signer signs a document. Includes the
-/// document ID, signer address, timestamp of signature, and the total
-/// number of signatures collected so far.
+/// document ID, signer address, the delegate if one signed on the signer's
+/// behalf, the signed version's blob ID, timestamp of signature, and the
+/// total number of signatures collected so far.
 public struct DocumentSigned has copy, drop {
     document_id: ID,
     signer: address,
+    delegate: Option<address>,
+    signed_blob_id: String,
     timestamp: u64,
     total_signatures: u64,
 }
 
+/// Event emitted when a signer delegates signing
+///
+/// Emitted when a signer grants another address the right to sign on
+/// their behalf. Includes the document ID, delegation ID, both addresses,
+/// and when the delegation expires.
+public struct SigningDelegated has copy, drop {
+    document_id: ID,
+    delegation_id: ID,
+    principal: address,
+    delegate: address,
+    expires_at: u64,
+}
+
+/// Event emitted when a delegation is revoked
+///
+/// Emitted when a principal withdraws a delegation before it was used.
+/// Includes the document ID, delegation ID, and both addresses.
+public struct DelegationRevoked has copy, drop {
+    document_id: ID,
+    delegation_id: ID,
+    principal: address,
+    delegate: address,
+}
+
+/// Event emitted when a participant is added to a document
+///
+/// Emitted when the creator or an organization admin authorizes a new
+/// address after creation. Includes the document ID, the admin's address,
+/// the new participant's address, and their role.
+public struct SignerAdded has copy, drop {
+    document_id: ID,
+    creator: address,
+    signer: address,
+    role: u8,
+}
+
+/// Event emitted when a document's blob ID is updated
+///
+/// Emitted when the creator points the document at a new encrypted
+/// original on Walrus. Includes the document ID, creator address, and the
+/// previous and new blob IDs.
+public struct DocumentBlobUpdated has copy, drop {
+    document_id: ID,
+    creator: address,
+    previous_blob_id: String,
+    walrus_blob_id: String,
+}
+
+/// Event emitted when a document's field definitions are updated
+///
+/// Emitted when the creator points the document at new encrypted field
+/// definitions on Walrus. Includes the document ID, creator address, and
+/// the new blob ID.
+public struct FieldsBlobUpdated has copy, drop {
+    document_id: ID,
+    creator: address,
+    fields_blob_id: String,
+}
+
+/// Event emitted when a signer is revoked
+///
+/// Emitted when the creator revokes a signer's authorization. Includes
+/// the document ID, creator address, and the revoked signer's address.
+public struct SignerRevoked has copy, drop {
+    document_id: ID,
+    creator: address,
+    signer: address,
+}
+
+/// Event emitted when a document is voided
+///
+/// Emitted when the creator withdraws a document. Includes the document
+/// ID, creator address, the reason given, and the timestamp.
+public struct DocumentVoided has copy, drop {
+    document_id: ID,
+    creator: address,
+    reason: String,
+    timestamp: u64,
+}
+
+/// Event emitted when a document is marked as expired
+///
+/// Emitted when anyone records that the signing deadline has passed.
+/// Includes the document ID and the timestamp.
+public struct DocumentExpired has copy, drop {
+    document_id: ID,
+    timestamp: u64,
+}
+
+/// Event emitted when a document's signing deadline is extended
+///
+/// Emitted when the creator pushes the deadline further into the future.
+/// Includes the document ID, creator address, the previous deadline if
+/// any, and the new deadline.
+public struct DeadlineExtended has copy, drop {
+    document_id: ID,
+    creator: address,
+    previous_expires_at: Option<u64>,
+    expires_at: u64,
+}
+
+/// Event emitted when the creator proposes an ownership transfer
+///
+/// Emitted when the creator names a new creator for a document. Includes
+/// the document ID, the current creator, and the proposed creator.
+public struct OwnershipTransferProposed has copy, drop {
+    document_id: ID,
+    creator: address,
+    new_creator: address,
+}
+
+/// Event emitted when the creator cancels a pending ownership transfer
+///
+/// Includes the document ID, the creator, and the address that had been
+/// proposed.
+public struct OwnershipTransferCancelled has copy, drop {
+    document_id: ID,
+    creator: address,
+    new_creator: address,
+}
+
+/// Event emitted when ownership of a document is transferred
+///
+/// Emitted when the proposed creator accepts a transfer. Includes the
+/// document ID and the previous and new creator addresses.
+public struct OwnershipTransferred has copy, drop {
+    document_id: ID,
+    previous_creator: address,
+    new_creator: address,
+}
+
+/// Event emitted when an organization is created
+///
+/// Emitted when a user creates an organization. Includes the organization
+/// ID, its name, and the creator, who becomes its first admin.
+public struct OrganizationCreated has copy, drop {
+    organization_id: ID,
+    name: String,
+    creator: address,
+}
+
+/// Event emitted when a member joins an organization
+///
+/// Emitted when an admin adds a member or promotes one to admin. Includes
+/// the organization ID, the member address, and whether they are an admin.
+public struct OrgMemberAdded has copy, drop {
+    organization_id: ID,
+    member: address,
+    is_admin: bool,
+}
+
+/// Event emitted when a member leaves an organization
+///
+/// Emitted when an admin removes a member. Includes the organization ID
+/// and the member address.
+public struct OrgMemberRemoved has copy, drop {
+    organization_id: ID,
+    member: address,
+}
+
+/// Event emitted when a template is created
+///
+/// Emitted when a user registers a template. Includes the template ID,
+/// creator address, name, and slot names.
+public struct TemplateCreated has copy, drop {
+    template_id: ID,
+    creator: address,
+    name: String,
+    slots: vector<String>,
+}
+
+/// Event emitted when a document is declined
+///
+/// Emitted when an authorized signer refuses to sign a document. Includes
+/// the document ID, signer address, the reason given, and the timestamp.
+public struct DocumentDeclined has copy, drop {
+    document_id: ID,
+    signer: address,
+    reason: String,
+    timestamp: u64,
+}
+
 // ======== Init Function ========
 
 /// Initializes the WalSign document signing system
@@ -129,6 +589,11 @@ fun init(ctx: &mut TxContext) {
         id: object::new(ctx),
         created_by_user: table::new(ctx),
         assigned_to_user: table::new(ctx),
+        pending_transfers: table::new(ctx),
+        documents_by_org: table::new(ctx),
+        orgs_by_member: table::new(ctx),
+        templates_by_user: table::new(ctx),
+        libraries: table::new(ctx),
         total_documents: 0,
     };
     
@@ -141,91 +606,124 @@ fun init(ctx: &mut TxContext) {
 ///
 /// Creates a new document record in the system, registers it in the
 /// `DocumentRegistry`, and issues `SignerCap` capability objects to
-/// all authorized signers. The document is stored as a shared object
+/// all approvers and witnesses. The document is stored as a shared object
 /// and can be accessed by authorized parties.
 ///
 /// # Parameters
 /// * `registry` - Mutable reference to the document registry
 /// * `walrus_blob_id` - Blob ID where the encrypted document is stored on Walrus
+/// * `content_hash` - SHA-256 of the plaintext PDF
 /// * `title` - Document title
 /// * `description` - Document description
-/// * `authorized_signers` - List of addresses authorized to decrypt and sign
+/// * `authorized_signers` - List of addresses authorized to decrypt and sign,
+///   repeated addresses are ignored
+/// * `roles` - Role of each authorized signer, parallel to `authorized_signers`
+/// * `sequential` - If `true`, signers must sign in the order they are listed
+/// * `threshold` - Optional number of signatures that completes the document
+///   (`none` requires every signer)
+/// * `expires_at` - Optional signing deadline (in milliseconds)
 /// * `clock` - Clock object for timestamp generation
 /// * `ctx` - Transaction context for object creation and sender identification
 ///
+/// # Panics
+/// * If the content hash is not 32 bytes long
+/// * If the deadline is not in the future
+/// * If any authorized signer is the zero address
+/// * If `roles` does not have one known role per authorized signer
+/// * If the threshold is zero or larger than the number of approvers
+///
 /// # Creates
 /// * A shared `Document` object with initial state
-/// * `SignerCap` objects for each authorized signer (transferred to them)
+/// * One `SignerCap` object for each unique approver and witness (transferred to them)
 ///
 /// # Emits
 /// * `DocumentCreated` event with document details
 public fun create_document(
     registry: &mut DocumentRegistry,
     walrus_blob_id: String,
+    content_hash: vector<u8>,
     title: String,
     description: String,
     authorized_signers: vector<address>,
+    roles: vector<u8>,
+    sequential: bool,
+    threshold: Option<u64>,
+    expires_at: Option<u64>,
     clock: &Clock,
     ctx: &mut TxContext
 ) {
-    let sender = ctx.sender();
-    
-    // Create document object
-    let document = Document {
-        id: object::new(ctx),
-        creator: sender,
+    new_document(
+        registry,
+        option::none(),
+        option::none(),
+        vector::empty(),
         walrus_blob_id,
+        content_hash,
         title,
         description,
         authorized_signers,
-        signatures: vector::empty(),
-        created_at: clock.timestamp_ms(),
-        status: 0, // pending
-        signed_blob_id: vector::empty(),
-    };
-
-    // Update registry - add to creator's list
-    if (!registry.created_by_user.contains(sender)) {
-        registry.created_by_user.add(sender, vector::empty());
-    };
-    let creator_docs = table::borrow_mut(&mut registry.created_by_user, sender);
-    creator_docs.push_back(object::id(&document));
-
-    // Add to each authorized signer's list
-    let mut i = 0;
-    let len = document.authorized_signers.length();
-    while (i < len) {
-        let signer_addr = document.authorized_signers[i];
-        if (!registry.assigned_to_user.contains(signer_addr)) {
-            registry.assigned_to_user.add(signer_addr, vector::empty());
-        };
-        let signer_docs = registry.assigned_to_user.borrow_mut(signer_addr);
-        signer_docs.push_back(object::id(&document));
-        
-        let cap = SignerCap {
-            id: object::new(ctx),
-            document_id: object::id(&document)
-        };
-
-        transfer::public_transfer(cap, signer_addr);
-        
-        i = i + 1;
-    };
-
-    // Increment total
-    registry.total_documents = registry.total_documents + 1;
-
-    // Emit event
-    event::emit(DocumentCreated {
-        document_id: object::id(&document),
-        creator: sender,
-        title: document.title,
-        authorized_signers: document.authorized_signers,
-        timestamp: document.created_at,
-    });
+        roles,
+        sequential,
+        threshold,
+        expires_at,
+        clock,
+        ctx,
+    );
+}
 
-    // Share document object
-    transfer::share_object(document);
+/// Creates a new encrypted document under an organization
+///
+/// Works like `create_document`, but the document is listed for every
+/// member of the organization and can be administered by its admins.
+///
+/// # Parameters
+/// * `registry` - Mutable reference to the document registry
+/// * `organization` - Organization the document belongs to
+/// * Remaining parameters as for `create_document`
+///
+/// # Panics
+/// * If the sender is not a member of the organization
+/// * In the same cases as `create_document`
+///
+/// # Creates
+/// * A shared `Document` object with initial state
+/// * One `SignerCap` object for each unique approver and witness (transferred to them)
+///
+/// # Emits
+/// * `DocumentCreated` event with document details
+public fun create_org_document(
+    registry: &mut DocumentRegistry,
+    organization: &Organization,
+    walrus_blob_id: String,
+    content_hash: vector<u8>,
+    title: String,
+    description: String,
+    authorized_signers: vector<address>,
+    roles: vector<u8>,
+    sequential: bool,
+    threshold: Option<u64>,
+    expires_at: Option<u64>,
+    clock: &Clock,
+    ctx: &mut TxContext
+) {
+    assert!(organization.members.contains(&ctx.sender()), E_NOT_AUTHORIZED);
+    new_document(
+        registry,
+        option::some(object::id(organization)),
+        option::none(),
+        vector::empty(),
+        walrus_blob_id,
+        content_hash,
+        title,
+        description,
+        authorized_signers,
+        roles,
+        sequential,
+        threshold,
+        expires_at,
+        clock,
+        ctx,
+    );
 }
 
 /// Updates the Walrus blob ID for a document
@@ -241,37 +739,58 @@ public fun create_document(
 ///
 /// # Panics
 /// * If the sender is not the document creator
+///
+/// # Emits
+/// * `DocumentBlobUpdated` event with the previous and new blob IDs
 public fun update_blob_id(
     document: &mut Document,
     walrus_blob_id: String,
     ctx: &mut TxContext
 ) {
     assert!(ctx.sender() == document.creator, E_NOT_AUTHORIZED);
+    let previous_blob_id = document.walrus_blob_id;
     document.walrus_blob_id = walrus_blob_id;
+
+    event::emit(DocumentBlobUpdated {
+        document_id: object::id(document),
+        creator: ctx.sender(),
+        previous_blob_id,
+        walrus_blob_id,
+    });
 }
 
-/// Updates the signed blob ID vector with a new signed document version
+/// Updates the Walrus blob ID of the document's field definitions
 ///
-/// Allows authorized signers to append a new blob ID to the `signed_blob_id`
-/// vector after they have signed and uploaded a new version of the document
-/// to Walrus. This maintains a history of all signed document versions.
+/// The creator uploads the signature, initials, date, text and checkbox
+/// fields for each signer as a separate encrypted blob, readable by the
+/// same participants as the document. Fields can only change before
+/// anyone signs, so every signer fills in the same layout.
 ///
 /// # Parameters
-/// * `_` - SignerCap capability for authorization (must match the document)
 /// * `document` - Mutable reference to the document
-/// * `signed_blob_id` - New blob ID for the signed document version
+/// * `fields_blob_id` - Walrus blob ID of the encrypted field definitions
 /// * `ctx` - Transaction context for sender identification
 ///
 /// # Panics
-/// * If the sender is not an authorized signer
-public fun update_signed_blob_id(
-    _: &SignerCap,
+/// * If the sender is not the document creator
+/// * If the document already has a signature
+///
+/// # Emits
+/// * `FieldsBlobUpdated` event with the new blob ID
+public fun update_fields_blob_id(
     document: &mut Document,
-    signed_blob_id: String,
+    fields_blob_id: String,
     ctx: &mut TxContext
 ) {
-    assert!(document.authorized_signers.contains(&ctx.sender()), E_NOT_AUTHORIZED);
-    document.signed_blob_id.push_back(signed_blob_id);
+    assert!(ctx.sender() == document.creator, E_NOT_AUTHORIZED);
+    assert!(document.signatures.is_empty(), E_ALREADY_SIGNED);
+    document.fields_blob_id = fields_blob_id;
+
+    event::emit(FieldsBlobUpdated {
+        document_id: object::id(document),
+        creator: ctx.sender(),
+        fields_blob_id,
+    });
 }
 
 /// Issues signer capabilities to a new authorized address
@@ -279,66 +798,80 @@ public fun update_signed_blob_id(
 /// Allows the document creator to add a new authorized signer to an
 /// existing document. This function creates a new `SignerCap` and
 /// transfers it to the recipient, while also updating the registry
-/// and document's authorized signers list.
+/// and document's authorized signers list. Viewers are added without
+/// a `SignerCap`.
 ///
 /// # Parameters
 /// * `document_registry` - Mutable reference to the document registry
 /// * `document` - Mutable reference to the document
 /// * `recipient` - Address of the new authorized signer
+/// * `role` - Role of the recipient (approver, viewer or witness)
 /// * `ctx` - Transaction context for object creation and sender identification
 ///
 /// # Panics
 /// * If the sender is not the document creator
+/// * If the document has been voided
+/// * If the recipient is the zero address
+/// * If the recipient is already an authorized signer
+/// * If the role is unknown
 ///
 /// # Creates
-/// * A new `SignerCap` object (transferred to the recipient)
+/// * A new `SignerCap` object (transferred to the recipient) unless the
+///   recipient is a viewer
+///
+/// # Emits
+/// * `SignerAdded` event with the recipient and their role
 public fun issue_signer_capability(
     document_registry: &mut DocumentRegistry,
     document: &mut Document,
     recipient: address,
+    role: u8,
     ctx: &mut TxContext
 ) {
     assert!(ctx.sender() == document.creator, E_NOT_AUTHORIZED);
-    let document_id = object::id(document);
-
-    // Add to registry - assigned_to_user
-    if (!document_registry.assigned_to_user.contains(recipient)) {
-        document_registry.assigned_to_user.add(recipient, vector::empty());
-    };
-    let signer_docs = document_registry.assigned_to_user.borrow_mut(recipient);
-    signer_docs.push_back(object::id(document));
-    document.authorized_signers.push_back(recipient);
-
-    let cap = SignerCap {
-        id: object::new(ctx),
-        document_id,
-    };
-
-    transfer::public_transfer(cap, recipient);
+    add_participant(document_registry, document, recipient, role, ctx);
 }
 
 /// Signs a document using a SignerCap capability
 ///
-/// Records a signature on the document from an authorized signer. The
-/// signer must present a valid `SignerCap` that matches the document.
-/// The document status is automatically updated based on the number of
-/// collected signatures versus required signers.
+/// Records a signature on the document from an authorized signer together
+/// with the signed version they uploaded to Walrus. The signed blob ID and
+/// hash are stored in the `Signature` and appended to the document's
+/// version history in the same call, so every version is tied to a
+/// signature. The signer must present a valid `SignerCap` that matches the
+/// document. For sequential documents an approver must also be the next
+/// pending approver. Witnesses can sign once an approver has signed, and
+/// viewers cannot sign. The document status is automatically updated based
+/// on the number of approver signatures versus the required signatures
+/// (the threshold, or every approver if there is none). Remaining signers
+/// may still sign a document that has reached its threshold.
 ///
 /// # Parameters
 /// * `document` - Mutable reference to the document
 /// * `cap` - SignerCap capability proving authorization
+/// * `signed_blob_id` - Walrus blob ID of the signed document version
+/// * `signed_blob_hash` - SHA-256 of the signed plaintext PDF
 /// * `clock` - Clock object for timestamp generation
 /// * `ctx` - Transaction context for sender identification
 ///
 /// # Panics
 /// * If the SignerCap does not match the document
+/// * If the signed blob hash is not 32 bytes long
+/// * If the signer's authorization has been revoked
+/// * If the signer is a viewer
+/// * If the signer is a witness and no approver has signed yet
 /// * If the signer has already signed the document
+/// * If the document is sequential and the sender is not the next signer
+/// * If the document has been declined or voided
+/// * If the document has expired
 ///
 /// # Emits
 /// * `DocumentSigned` event with signature details
 public fun sign_document(
     document: &mut Document,
     cap: &SignerCap,
+    signed_blob_id: String,
+    signed_blob_hash: vector<u8>,
     clock: &Clock,
     ctx: &mut TxContext
 ) {
@@ -347,253 +880,2535 @@ public fun sign_document(
         E_NOT_AUTHORIZED
     );
 
-    let signer = ctx.sender();
-
-    let already_signed = has_signed(document, signer);
-    assert!(!already_signed, E_ALREADY_SIGNED);
-
-    // Add signature
-    let signature = Signature {
-        signer,
-        signed_at: clock.timestamp_ms(),
-    };
-    
-    document.signatures.push_back(signature);
-
-    // Update status
-    let total_sigs = document.signatures.length();
-    let total_required = document.authorized_signers.length();
-    
-    if (total_sigs == total_required) {
-        document.status = 2; // completed
-    } else {
-        document.status = 1; // partially signed
-    };
-
-    // Emit event
-    event::emit(DocumentSigned {
-        document_id: object::id(document),
-        signer,
-        timestamp: clock.timestamp_ms(),
-        total_signatures: total_sigs,
-    });
+    record_signature(
+        document,
+        ctx.sender(),
+        option::none(),
+        signed_blob_id,
+        signed_blob_hash,
+        clock,
+    );
 }
 
-/// Seal approval function for document decryption
+/// Lets a signer delegate their signature to another address
 ///
-/// This entry function is called by the Seal encryption system to verify
-/// that a user has permission to decrypt a document. Only the document
-/// creator or authorized signers can decrypt.
+/// Creates a `Delegation` for the sender and transfers it to the delegate,
+/// who can then sign with `sign_as_delegate` until `expires_at`. The
+/// principal can revoke the delegation at any time before it is used.
+/// Signing in person stays possible and removes the delegation.
 ///
 /// # Parameters
-/// * `_` - Encrypted object ID (unused, required by Seal API)
-/// * `document` - Reference to the document
-/// * `ctx` - Transaction context for sender identification
+/// * `document` - Mutable reference to the document
+/// * `cap` - SignerCap capability proving authorization
+/// * `delegate` - Address allowed to sign on the sender's behalf
+/// * `expires_at` - Time after which the delegation can no longer be used (in milliseconds)
+/// * `clock` - Clock object for timestamp validation
+/// * `ctx` - Transaction context for object creation and sender identification
 ///
 /// # Panics
-/// * If the sender is not the creator or an authorized signer
-entry fun seal_approve(_: vector<u8>, document: &Document, ctx: &TxContext) {
+/// * If the SignerCap does not match the document
+/// * If the sender's authorization has been revoked or they are a viewer
+/// * If the sender has already signed the document
+/// * If the delegate is the zero address or the sender
+/// * If `expires_at` is not in the future
+/// * If the document has been declined or voided
+///
+/// # Creates
+/// * A `Delegation` object (transferred to the delegate)
+///
+/// # Emits
+/// * `SigningDelegated` event with delegation details
+public fun delegate_signing(
+    document: &mut Document,
+    cap: &SignerCap,
+    delegate: address,
+    expires_at: u64,
+    clock: &Clock,
+    ctx: &mut TxContext
+) {
     assert!(
-        vector::contains(&document.authorized_signers, &ctx.sender()) || 
-        ctx.sender() == document.creator, 
+        cap.document_id == object::id(document),
         E_NOT_AUTHORIZED
     );
+
+    let principal = ctx.sender();
+    assert!(!document.revoked_signers.contains(&principal), E_SIGNER_REVOKED);
+    assert!(document.authorized_signers.contains(&principal), E_NOT_AUTHORIZED);
+    assert!(*get_role(document, principal).borrow() != ROLE_VIEWER, E_ROLE_CANNOT_SIGN);
+    assert!(!has_signed(document, principal), E_ALREADY_SIGNED);
+    assert!(delegate != @0x0 && delegate != principal, E_INVALID_SIGNER);
+    assert!(expires_at > clock.timestamp_ms(), E_INVALID_DEADLINE);
+    assert!(document.status != 4, E_DOCUMENT_DECLINED);
+    assert!(document.status != 5, E_DOCUMENT_VOIDED);
+
+    let document_id = object::id(document);
+    let delegation = Delegation {
+        id: object::new(ctx),
+        document_id,
+        principal,
+        expires_at,
+    };
+    let delegation_id = object::id(&delegation);
+
+    document.delegations.push_back(DelegationRecord {
+        delegation_id,
+        principal,
+        delegate,
+        expires_at,
+    });
+
+    transfer::transfer(delegation, delegate);
+
+    event::emit(SigningDelegated {
+        document_id,
+        delegation_id,
+        principal,
+        delegate,
+        expires_at,
+    });
 }
 
-/// Revokes a signer's authorization from a document
+/// Revokes a delegation before it is used
 ///
-/// Allows the document creator to remove an authorized signer from the
-/// document's authorized signers list. This prevents the revoked signer
-/// from signing the document, but does not affect existing signatures.
+/// Only the principal who created the delegation can revoke it. The
+/// delegate keeps the `Delegation` object but can no longer sign or
+/// decrypt with it, and can delete it with `burn_delegation`.
 ///
 /// # Parameters
 /// * `document` - Mutable reference to the document
-/// * `signer_to_revoke` - Address of the signer to revoke
+/// * `delegation_id` - ID of the delegation to revoke
 /// * `ctx` - Transaction context for sender identification
 ///
 /// # Panics
-/// * If the sender is not the document creator
-public fun revoke_signer(
+/// * If the delegation is not active on this document
+/// * If the sender is not the principal of the delegation
+///
+/// # Emits
+/// * `DelegationRevoked` event with delegation details
+public fun revoke_delegation(
     document: &mut Document,
-    signer_to_revoke: address,
+    delegation_id: ID,
     ctx: &mut TxContext
 ) {
-    let sender = ctx.sender();
-    assert!(sender == document.creator, E_NOT_AUTHORIZED);
-    
-    let (found, index) = document.authorized_signers.index_of(&signer_to_revoke);
-    if (found) {
-        vector::remove(&mut document.authorized_signers, index);
-    };
-}
+    let (found, index) = find_delegation(document, delegation_id);
+    assert!(found, E_DELEGATION_REVOKED);
 
-// ======== View Functions ========
+    assert!(document.delegations[index].principal == ctx.sender(), E_NOT_AUTHORIZED);
+    let record = document.delegations.remove(index);
+
+    event::emit(DelegationRevoked {
+        document_id: object::id(document),
+        delegation_id,
+        principal: record.principal,
+        delegate: record.delegate,
+    });
+}
 
-/// Returns all document IDs created by a specific user
+/// Signs a document on behalf of a principal using a Delegation
 ///
-/// Queries the registry to find all documents that were created by
-/// the specified user address.
+/// Records the principal's signature with the sender as delegate. All the
+/// checks of `sign_document` apply to the principal, so a delegate cannot
+/// sign out of turn, twice, or for a revoked signer. The delegation is
+/// used up by signing.
 ///
 /// # Parameters
-/// * `registry` - Reference to the document registry
-/// * `user` - Address of the user
+/// * `document` - Mutable reference to the document
+/// * `delegation` - Delegation held by the sender
+/// * `signed_blob_id` - Walrus blob ID of the signed document version
+/// * `signed_blob_hash` - SHA-256 of the signed plaintext PDF
+/// * `clock` - Clock object for timestamp generation
+/// * `ctx` - Transaction context for sender identification
 ///
-/// # Returns
-/// * Vector of document IDs created by the user (empty if none)
-public fun get_created_documents(
-    registry: &DocumentRegistry,
-    user: address
-): vector<ID> {
-    if (table::contains(&registry.created_by_user, user)) {
-        *table::borrow(&registry.created_by_user, user)
-    } else {
-        vector::empty()
-    }
+/// # Panics
+/// * If the Delegation does not match the document
+/// * If the delegation has been revoked, already used, or has expired
+/// * Any reason `sign_document` would abort for the principal
+///
+/// # Emits
+/// * `DocumentSigned` event with signature details
+public fun sign_as_delegate(
+    document: &mut Document,
+    delegation: &Delegation,
+    signed_blob_id: String,
+    signed_blob_hash: vector<u8>,
+    clock: &Clock,
+    ctx: &mut TxContext
+) {
+    assert!(
+        delegation.document_id == object::id(document),
+        E_NOT_AUTHORIZED
+    );
+
+    let (found, index) = find_delegation(document, object::id(delegation));
+    assert!(found, E_DELEGATION_REVOKED);
+    assert!(clock.timestamp_ms() < delegation.expires_at, E_DELEGATION_EXPIRED);
+    document.delegations.remove(index);
+
+    record_signature(
+        document,
+        delegation.principal,
+        option::some(ctx.sender()),
+        signed_blob_id,
+        signed_blob_hash,
+        clock,
+    );
 }
 
-/// Returns all document IDs assigned to a user for signing
+/// Burns a Delegation that is no longer needed
 ///
-/// Queries the registry to find all documents that the specified user
-/// is authorized to sign.
+/// Allows the delegate to delete a delegation after it was used, revoked
+/// or expired.
 ///
 /// # Parameters
-/// * `registry` - Reference to the document registry
-/// * `user` - Address of the user
-///
-/// # Returns
-/// * Vector of document IDs assigned to the user (empty if none)
-public fun get_assigned_documents(
-    registry: &DocumentRegistry,
-    user: address
-): vector<ID> {
-    if (table::contains(&registry.assigned_to_user, user)) {
-        *table::borrow(&registry.assigned_to_user, user)
-    } else {
-        vector::empty()
-    }
+/// * `delegation` - Delegation to destroy
+public fun burn_delegation(delegation: Delegation) {
+    let Delegation { id, document_id: _, principal: _, expires_at: _ } = delegation;
+    id.delete();
 }
 
-/// Returns the total number of documents in the system
+/// Declines a document using a SignerCap capability
+///
+/// Allows an authorized signer to formally refuse to sign a document.
+/// The decline is recorded on the document together with the reason,
+/// and the document moves to the declined status so no further
+/// signatures can be collected.
 ///
 /// # Parameters
-/// * `registry` - Reference to the document registry
+/// * `document` - Mutable reference to the document
+/// * `cap` - SignerCap capability proving authorization
+/// * `reason` - Reason for declining
+/// * `clock` - Clock object for timestamp generation
+/// * `ctx` - Transaction context for sender identification
 ///
-/// # Returns
-/// * Total count of all documents created
-public fun get_total_documents(registry: &DocumentRegistry): u64 {
-    registry.total_documents
+/// # Panics
+/// * If the SignerCap does not match the document
+/// * If the signer's authorization has been revoked
+/// * If the sender is not an authorized signer
+/// * If the sender is a viewer
+/// * If the signer has already signed the document
+/// * If the document has already been completed
+/// * If the document has already been declined or has been voided
+/// * If the document has expired
+///
+/// # Emits
+/// * `DocumentDeclined` event with decline details
+public fun decline_document(
+    document: &mut Document,
+    cap: &SignerCap,
+    reason: String,
+    clock: &Clock,
+    ctx: &mut TxContext
+) {
+    assert!(
+        cap.document_id == object::id(document),
+        E_NOT_AUTHORIZED
+    );
+
+    let signer = ctx.sender();
+    assert!(!document.revoked_signers.contains(&signer), E_SIGNER_REVOKED);
+    assert!(document.authorized_signers.contains(&signer), E_NOT_AUTHORIZED);
+    assert!(*get_role(document, signer).borrow() != ROLE_VIEWER, E_ROLE_CANNOT_SIGN);
+    assert!(document.status != 2, E_DOCUMENT_COMPLETED);
+    assert!(document.status != 4, E_DOCUMENT_DECLINED);
+    assert!(document.status != 5, E_DOCUMENT_VOIDED);
+    assert!(!is_expired(document, clock), E_DOCUMENT_EXPIRED);
+    assert!(!has_signed(document, signer), E_ALREADY_SIGNED);
+
+    document.decline = option::some(Decline {
+        signer,
+        reason,
+        declined_at: clock.timestamp_ms(),
+    });
+    document.status = 4; // declined
+
+    // Emit event
+    event::emit(DocumentDeclined {
+        document_id: object::id(document),
+        signer,
+        reason,
+        timestamp: clock.timestamp_ms(),
+    });
 }
 
-/// Checks if a signer has already signed a document
+/// Seal approval function for document decryption
+///
+/// This entry function is called by the Seal encryption system to verify
+/// that a user has permission to decrypt a document. Only the document
+/// creator or authorized signers can decrypt, whatever their role, so
+/// viewers and witnesses can read the document too. Delegates with an
+/// unexpired delegation can decrypt so they can review what they sign. Once
+/// a document is voided, only the creator can decrypt, and only if they
+/// kept access.
 ///
 /// # Parameters
+/// * `_` - Encrypted object ID (unused, required by Seal API)
 /// * `document` - Reference to the document
-/// * `signer` - Address of the signer to check
+/// * `clock` - Clock object for delegation expiry checks
+/// * `ctx` - Transaction context for sender identification
 ///
-/// # Returns
-/// * `true` if the signer has signed, `false` otherwise
-public fun has_signed(document: &Document, signer: address): bool {
-    let mut i = 0;
-    let len = document.signatures.length();
-    
-    while (i < len) {
-        let sig = document.signatures[i];
-        if (sig.signer == signer) {
-            return true
-        };
-        i = i + 1;
+/// # Panics
+/// * If the sender is not the creator, an authorized signer or a delegate
+/// * If the document has been voided and the sender has no remaining access
+entry fun seal_approve(_: vector<u8>, document: &Document, clock: &Clock, ctx: &TxContext) {
+    if (document.voided.is_some()) {
+        assert!(
+            ctx.sender() == document.creator &&
+            document.voided.borrow().keep_creator_access,
+            E_DOCUMENT_VOIDED
+        );
+        return
     };
-    
-    false
-}
 
-/// Checks if an address is authorized to sign a document
-///
-/// # Parameters
-/// * `document` - Reference to the document
-/// * `addr` - Address to check
-///
-/// # Returns
-/// * `true` if the address is in the authorized signers list, `false` otherwise
-public fun is_authorized(document: &Document, addr: address): bool {
-    vector::contains(&document.authorized_signers, &addr)
+    assert!(
+        vector::contains(&document.authorized_signers, &ctx.sender()) || 
+        ctx.sender() == document.creator ||
+        is_delegate(document, ctx.sender(), clock),
+        E_NOT_AUTHORIZED
+    );
 }
 
-/// Returns the current status of a document
+/// Revokes a signer's authorization from a document
+///
+/// Allows the document creator to remove an authorized signer from the
+/// document's authorized signers list and the signer's registry entry.
+/// The address is recorded as revoked so that its `SignerCap` can no
+/// longer be used to sign or decline. Existing signatures are kept, and
+/// the status is recomputed from the remaining signers: the document
+/// becomes complete if they already meet the required signatures, and a
+/// completed document falls back to partially signed if they no longer do.
 ///
 /// # Parameters
-/// * `document` - Reference to the document
+/// * `document_registry` - Mutable reference to the document registry
+/// * `document` - Mutable reference to the document
+/// * `signer_to_revoke` - Address of the signer to revoke
+/// * `ctx` - Transaction context for sender identification
 ///
-/// # Returns
-/// * Status code: 0=pending, 1=partial, 2=complete
-public fun get_status(document: &Document): u8 {
-    document.status
+/// # Panics
+/// * If the sender is not the document creator
+///
+/// # Emits
+/// * `SignerRevoked` event if the address was an authorized signer
+public fun revoke_signer(
+    document_registry: &mut DocumentRegistry,
+    document: &mut Document,
+    signer_to_revoke: address,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    assert!(sender == document.creator, E_NOT_AUTHORIZED);
+    remove_participant(document_registry, document, signer_to_revoke, sender);
 }
 
-/// Returns the number of signatures collected on a document
+/// Burns a SignerCap that is no longer needed
 ///
-/// # Parameters
-/// * `document` - Reference to the document
+/// Allows the holder of a `SignerCap` to delete it, e.g. after their
+/// authorization was revoked or the document was completed or voided.
 ///
-/// # Returns
-/// * Count of signatures collected
-public fun signatures_count(document: &Document): u64 {
-    vector::length(&document.signatures)
+/// # Parameters
+/// * `cap` - SignerCap to destroy
+public fun burn_signer_cap(cap: SignerCap) {
+    let SignerCap { id, document_id: _ } = cap;
+    id.delete();
 }
 
-/// Returns the Walrus blob ID where the document is stored
+/// Voids a document on behalf of its creator
+///
+/// Allows the document creator to withdraw a document, e.g. one sent by
+/// mistake. A voided document can no longer be signed or declined, and
+/// signers lose decryption access. The creator can optionally keep the
+/// ability to decrypt the document.
 ///
 /// # Parameters
-/// * `document` - Reference to the document
+/// * `document` - Mutable reference to the document
+/// * `reason` - Reason for voiding
+/// * `keep_creator_access` - If `true`, the creator can still decrypt the document
+/// * `clock` - Clock object for timestamp generation
+/// * `ctx` - Transaction context for sender identification
 ///
-/// # Returns
-/// * Walrus blob ID string
-public fun get_walrus_blob_id(document: &Document): String {
-    document.walrus_blob_id
+/// # Panics
+/// * If the sender is not the document creator
+/// * If the document has already been voided
+///
+/// # Emits
+/// * `DocumentVoided` event with void details
+public fun void_document(
+    document: &mut Document,
+    reason: String,
+    keep_creator_access: bool,
+    clock: &Clock,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    assert!(sender == document.creator, E_NOT_AUTHORIZED);
+    mark_voided(document, reason, keep_creator_access, clock, sender);
 }
 
-/// Returns the creator address of a document
+/// Marks a document as expired once its signing deadline has passed
+///
+/// Anyone may call this after the deadline so that the on-chain status
+/// reflects the expiry. Completed documents are never expired.
 ///
 /// # Parameters
-/// * `document` - Reference to the document
+/// * `document` - Mutable reference to the document
+/// * `clock` - Clock object for deadline checks
 ///
-/// # Returns
-/// * Address of the document creator
-public fun get_creator(document: &Document): address {
-    document.creator
+/// # Panics
+/// * If the document has already been marked as expired
+/// * If the document has no deadline, is complete, declined or voided, or the deadline has not passed
+///
+/// # Emits
+/// * `DocumentExpired` event with the timestamp
+public fun expire_document(document: &mut Document, clock: &Clock) {
+    assert!(document.status != 3, E_DOCUMENT_EXPIRED);
+    assert!(is_expired(document, clock), E_NOT_EXPIRED);
+    document.status = 3; // expired
+
+    event::emit(DocumentExpired {
+        document_id: object::id(document),
+        timestamp: clock.timestamp_ms(),
+    });
 }
 
-/// Returns the title of a document
+/// Extends the signing deadline of a document
+///
+/// Allows the document creator to push the deadline further into the
+/// future. If the document was already marked as expired, its status is
+/// restored to pending or partial based on the collected signatures.
 ///
 /// # Parameters
-/// * `document` - Reference to the document
+/// * `document` - Mutable reference to the document
+/// * `new_expires_at` - New signing deadline (in milliseconds)
+/// * `clock` - Clock object for deadline checks
+/// * `ctx` - Transaction context for sender identification
 ///
-/// # Returns
-/// * Document title string
-public fun get_title(document: &Document): String {
-    document.title
+/// # Panics
+/// * If the sender is not the document creator
+/// * If the document has been voided
+/// * If the new deadline is not in the future or not later than the current one
+///
+/// # Emits
+/// * `DeadlineExtended` event with the previous and new deadline
+public fun extend_deadline(
+    document: &mut Document,
+    new_expires_at: u64,
+    clock: &Clock,
+    ctx: &mut TxContext
+) {
+    assert!(ctx.sender() == document.creator, E_NOT_AUTHORIZED);
+    assert!(document.status != 5, E_DOCUMENT_VOIDED);
+    assert!(new_expires_at > clock.timestamp_ms(), E_INVALID_DEADLINE);
+    if (document.expires_at.is_some()) {
+        assert!(new_expires_at > *document.expires_at.borrow(), E_INVALID_DEADLINE);
+    };
+
+    let previous_expires_at = document.expires_at;
+    document.expires_at = option::some(new_expires_at);
+
+    if (document.status == 3) {
+        if (document.signatures.is_empty()) {
+            document.status = 0; // pending
+        } else {
+            document.status = 1; // partially signed
+        };
+    };
+
+    event::emit(DeadlineExtended {
+        document_id: object::id(document),
+        creator: ctx.sender(),
+        previous_expires_at,
+        expires_at: new_expires_at,
+    });
 }
 
-/// Returns the list of authorized signers for a document
+/// Proposes handing a document over to a new creator
+///
+/// Allows the document creator to name the address that should take over
+/// the document, e.g. when the creator leaves the organization. Nothing
+/// changes until the proposed creator accepts with `accept_ownership`.
+/// Proposing again replaces the pending proposal. The document is listed
+/// under the proposed creator's `pending_transfers` entry in the registry.
 ///
 /// # Parameters
-/// * `document` - Reference to the document
+/// * `document_registry` - Mutable reference to the document registry
+/// * `document` - Mutable reference to the document
+/// * `new_creator` - Address proposed to become the creator
+/// * `ctx` - Transaction context for sender identification
+///
+/// # Panics
+/// * If the sender is not the document creator
+/// * If the new creator is the zero address or the current creator
+///
+/// # Emits
+/// * `OwnershipTransferProposed` event with both addresses
+public fun propose_ownership_transfer(
+    document_registry: &mut DocumentRegistry,
+    document: &mut Document,
+    new_creator: address,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    assert!(sender == document.creator, E_NOT_AUTHORIZED);
+    assert!(new_creator != @0x0 && new_creator != sender, E_INVALID_CREATOR);
+
+    // A replaced proposal is no longer offered to its recipient
+    let document_id = object::id(document);
+    if (document.pending_creator.is_some()) {
+        unlist_id(&mut document_registry.pending_transfers, *document.pending_creator.borrow(), document_id);
+    };
+    list_id(&mut document_registry.pending_transfers, new_creator, document_id, ctx);
+
+    document.pending_creator = option::some(new_creator);
+
+    event::emit(OwnershipTransferProposed {
+        document_id,
+        creator: sender,
+        new_creator,
+    });
+}
+
+/// Cancels a pending ownership transfer
+///
+/// # Parameters
+/// * `document_registry` - Mutable reference to the document registry
+/// * `document` - Mutable reference to the document
+/// * `ctx` - Transaction context for sender identification
+///
+/// # Panics
+/// * If the sender is not the document creator
+/// * If no transfer is pending
+///
+/// # Emits
+/// * `OwnershipTransferCancelled` event with the address that was proposed
+public fun cancel_ownership_transfer(
+    document_registry: &mut DocumentRegistry,
+    document: &mut Document,
+    ctx: &mut TxContext
+) {
+    assert!(ctx.sender() == document.creator, E_NOT_AUTHORIZED);
+    assert!(document.pending_creator.is_some(), E_NO_PENDING_TRANSFER);
+    let document_id = object::id(document);
+    let new_creator = document.pending_creator.extract();
+    unlist_id(&mut document_registry.pending_transfers, new_creator, document_id);
+
+    event::emit(OwnershipTransferCancelled {
+        document_id,
+        creator: ctx.sender(),
+        new_creator,
+    });
+}
+
+/// Accepts a pending ownership transfer
+///
+/// Makes the sender the creator of the document and moves the document
+/// from the previous creator's entry in the registry to the sender's.
+/// The document is removed from the sender's `pending_transfers` entry.
+///
+/// # Parameters
+/// * `document_registry` - Mutable reference to the document registry
+/// * `document` - Mutable reference to the document
+/// * `ctx` - Transaction context for sender identification
+///
+/// # Panics
+/// * If the sender is not the proposed creator
+///
+/// # Emits
+/// * `OwnershipTransferred` event with the previous and new creator
+public fun accept_ownership(
+    document_registry: &mut DocumentRegistry,
+    document: &mut Document,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    assert!(document.pending_creator == option::some(sender), E_NO_PENDING_TRANSFER);
+
+    let document_id = object::id(document);
+    let previous_creator = document.creator;
+
+    // Move the document between created_by_user entries
+    unlist_id(&mut document_registry.created_by_user, previous_creator, document_id);
+    list_id(&mut document_registry.created_by_user, sender, document_id, ctx);
+    unlist_id(&mut document_registry.pending_transfers, sender, document_id);
+
+    document.creator = sender;
+    document.pending_creator = option::none();
+
+    event::emit(OwnershipTransferred {
+        document_id,
+        previous_creator,
+        new_creator: sender,
+    });
+}
+
+/// Creates an organization
+///
+/// The sender becomes its first admin and member.
+///
+/// # Parameters
+/// * `registry` - Mutable reference to the document registry
+/// * `name` - Display name of the organization
+/// * `ctx` - Transaction context for object creation and sender identification
+///
+/// # Creates
+/// * A shared `Organization` object
+///
+/// # Emits
+/// * `OrganizationCreated` event with organization details
+public fun create_organization(
+    registry: &mut DocumentRegistry,
+    name: String,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    let organization = Organization {
+        id: object::new(ctx),
+        name,
+        admins: vector[sender],
+        members: vector[sender],
+    };
+    let organization_id = object::id(&organization);
+    list_id(&mut registry.orgs_by_member, sender, organization_id, ctx);
+
+    event::emit(OrganizationCreated {
+        organization_id,
+        name,
+        creator: sender,
+    });
+
+    transfer::share_object(organization);
+}
+
+/// Adds a member to an organization, or promotes one to admin
+///
+/// # Parameters
+/// * `registry` - Mutable reference to the document registry
+/// * `organization` - Mutable reference to the organization
+/// * `member` - Address to add
+/// * `is_admin` - If `true`, the member can also administer the organization
+/// * `ctx` - Transaction context for sender identification
+///
+/// # Panics
+/// * If the sender is not an admin of the organization
+/// * If the member is the zero address
+/// * If the member already belongs to the organization with the same rights
+///
+/// # Emits
+/// * `OrgMemberAdded` event with the member's rights
+public fun add_org_member(
+    registry: &mut DocumentRegistry,
+    organization: &mut Organization,
+    member: address,
+    is_admin: bool,
+    ctx: &mut TxContext
+) {
+    assert!(organization.admins.contains(&ctx.sender()), E_NOT_AUTHORIZED);
+    assert!(member != @0x0, E_INVALID_SIGNER);
+
+    let already_member = organization.members.contains(&member);
+    assert!(!already_member || (is_admin && !organization.admins.contains(&member)), E_ALREADY_MEMBER);
+
+    if (!already_member) {
+        organization.members.push_back(member);
+        list_id(&mut registry.orgs_by_member, member, object::id(organization), ctx);
+    };
+    if (is_admin) {
+        organization.admins.push_back(member);
+    };
+
+    event::emit(OrgMemberAdded {
+        organization_id: object::id(organization),
+        member,
+        is_admin,
+    });
+}
+
+/// Removes a member, and their admin rights, from an organization
+///
+/// Documents the member created under the organization stay with it.
+///
+/// # Parameters
+/// * `registry` - Mutable reference to the document registry
+/// * `organization` - Mutable reference to the organization
+/// * `member` - Address to remove
+/// * `ctx` - Transaction context for sender identification
+///
+/// # Panics
+/// * If the sender is not an admin of the organization
+/// * If the address is not a member
+/// * If the member is the last admin
+///
+/// # Emits
+/// * `OrgMemberRemoved` event
+public fun remove_org_member(
+    registry: &mut DocumentRegistry,
+    organization: &mut Organization,
+    member: address,
+    ctx: &mut TxContext
+) {
+    assert!(organization.admins.contains(&ctx.sender()), E_NOT_AUTHORIZED);
+    let (found, index) = organization.members.index_of(&member);
+    assert!(found, E_NOT_MEMBER);
+
+    let (was_admin, admin_index) = organization.admins.index_of(&member);
+    if (was_admin) {
+        assert!(organization.admins.length() > 1, E_LAST_ADMIN);
+        organization.admins.remove(admin_index);
+    };
+    organization.members.remove(index);
+
+    let organization_id = object::id(organization);
+    unlist_id(&mut registry.orgs_by_member, member, organization_id);
+
+    event::emit(OrgMemberRemoved {
+        organization_id,
+        member,
+    });
+}
+
+/// Issues signer capabilities on behalf of an organization admin
+///
+/// Works like `issue_signer_capability` for documents created under
+/// `organization`.
+///
+/// # Panics
+/// * If the sender is not an admin of the organization
+/// * If the document does not belong to the organization
+/// * In the same cases as `issue_signer_capability`
+public fun org_issue_signer_capability(
+    document_registry: &mut DocumentRegistry,
+    organization: &Organization,
+    document: &mut Document,
+    recipient: address,
+    role: u8,
+    ctx: &mut TxContext
+) {
+    assert_org_admin(organization, document, ctx.sender());
+    add_participant(document_registry, document, recipient, role, ctx);
+}
+
+/// Revokes a signer on behalf of an organization admin
+///
+/// Works like `revoke_signer` for documents created under `organization`.
+///
+/// # Panics
+/// * If the sender is not an admin of the organization
+/// * If the document does not belong to the organization
+public fun org_revoke_signer(
+    document_registry: &mut DocumentRegistry,
+    organization: &Organization,
+    document: &mut Document,
+    signer_to_revoke: address,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    assert_org_admin(organization, document, sender);
+    remove_participant(document_registry, document, signer_to_revoke, sender);
+}
+
+/// Voids a document on behalf of an organization admin
+///
+/// Works like `void_document` for documents created under `organization`.
+/// `keep_creator_access` still refers to the document creator.
+///
+/// # Panics
+/// * If the sender is not an admin of the organization
+/// * If the document does not belong to the organization
+/// * If the document has already been voided
+public fun org_void_document(
+    organization: &Organization,
+    document: &mut Document,
+    reason: String,
+    keep_creator_access: bool,
+    clock: &Clock,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    assert_org_admin(organization, document, sender);
+    mark_voided(document, reason, keep_creator_access, clock, sender);
+}
+
+/// Registers a reusable document template
+///
+/// The base PDF is encrypted and uploaded like a document's. As with
+/// documents, the blob ID can be set afterwards with
+/// `update_template_blob_id` once the template ID is known for encryption.
+/// Fields are passed as parallel vectors, one entry per field.
+///
+/// # Parameters
+/// * `registry` - Mutable reference to the document registry
+/// * `name` - Template name
+/// * `walrus_blob_id` - Blob ID where the encrypted base PDF is stored on Walrus
+/// * `content_hash` - SHA-256 of the plaintext base PDF
+/// * `slots` - Name of each signer slot
+/// * `slot_roles` - Role of each slot, parallel to `slots`
+/// * `field_slots` / `field_pages` / `field_xs` / `field_ys` / `field_widths` /
+///   `field_heights` - Slot index, page and rectangle of each signature field
+/// * `sequential` - If `true`, documents are signed in slot order
+/// * `threshold` - Optional number of approver signatures that completes a document
+/// * `clock` - Clock object for timestamp generation
+/// * `ctx` - Transaction context for object creation and sender identification
+///
+/// # Panics
+/// * If the content hash is not 32 bytes long
+/// * If `slot_roles` does not have one known role per slot
+/// * If the field vectors differ in length, a field refers to an unknown
+///   slot, or a field is on page 0
+/// * If the threshold is zero or larger than the number of approver slots
+///
+/// # Creates
+/// * A shared `Template` object
+///
+/// # Emits
+/// * `TemplateCreated` event with template details
+public fun create_template(
+    registry: &mut DocumentRegistry,
+    name: String,
+    walrus_blob_id: String,
+    content_hash: vector<u8>,
+    slots: vector<String>,
+    slot_roles: vector<u8>,
+    field_slots: vector<u64>,
+    field_pages: vector<u64>,
+    field_xs: vector<u64>,
+    field_ys: vector<u64>,
+    field_widths: vector<u64>,
+    field_heights: vector<u64>,
+    sequential: bool,
+    threshold: Option<u64>,
+    clock: &Clock,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    assert!(content_hash.length() == HASH_LENGTH, E_INVALID_HASH);
+    assert!(slots.length() == slot_roles.length(), E_SLOT_MISMATCH);
+    let mut i = 0;
+    while (i < slot_roles.length()) {
+        assert!(slot_roles[i] <= ROLE_WITNESS, E_INVALID_ROLE);
+        i = i + 1;
+    };
+    if (threshold.is_some()) {
+        let required = *threshold.borrow();
+        assert!(required > 0 && required <= approver_count(&slot_roles), E_INVALID_THRESHOLD);
+    };
+
+    let field_count = field_slots.length();
+    assert!(
+        field_pages.length() == field_count &&
+        field_xs.length() == field_count &&
+        field_ys.length() == field_count &&
+        field_widths.length() == field_count &&
+        field_heights.length() == field_count,
+        E_INVALID_FIELD
+    );
+    let mut fields = vector::empty();
+    let mut j = 0;
+    while (j < field_count) {
+        assert!(field_slots[j] < slots.length() && field_pages[j] > 0, E_INVALID_FIELD);
+        fields.push_back(TemplateField {
+            slot: field_slots[j],
+            page: field_pages[j],
+            x: field_xs[j],
+            y: field_ys[j],
+            width: field_widths[j],
+            height: field_heights[j],
+        });
+        j = j + 1;
+    };
+
+    let template = Template {
+        id: object::new(ctx),
+        creator: sender,
+        name,
+        walrus_blob_id,
+        content_hash,
+        slots,
+        slot_roles,
+        fields,
+        sequential,
+        threshold,
+        created_at: clock.timestamp_ms(),
+    };
+
+    let template_id = object::id(&template);
+    list_id(&mut registry.templates_by_user, sender, template_id, ctx);
+
+    event::emit(TemplateCreated {
+        template_id,
+        creator: sender,
+        name: template.name,
+        slots: template.slots,
+    });
+
+    transfer::share_object(template);
+}
+
+/// Updates the Walrus blob ID of a template's base PDF
+///
+/// # Parameters
+/// * `template` - Mutable reference to the template
+/// * `walrus_blob_id` - New Walrus blob ID
+/// * `ctx` - Transaction context for sender identification
+///
+/// # Panics
+/// * If the sender is not the template creator
+public fun update_template_blob_id(
+    template: &mut Template,
+    walrus_blob_id: String,
+    ctx: &mut TxContext
+) {
+    assert!(ctx.sender() == template.creator, E_NOT_AUTHORIZED);
+    template.walrus_blob_id = walrus_blob_id;
+}
+
+/// Deletes a template
+///
+/// Documents already instantiated from the template are not affected.
+///
+/// # Parameters
+/// * `registry` - Mutable reference to the document registry
+/// * `template` - Template to delete
+/// * `ctx` - Transaction context for sender identification
+///
+/// # Panics
+/// * If the sender is not the template creator
+public fun delete_template(
+    registry: &mut DocumentRegistry,
+    template: Template,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    assert!(sender == template.creator, E_NOT_AUTHORIZED);
+
+    let template_id = object::id(&template);
+    unlist_id(&mut registry.templates_by_user, sender, template_id);
+
+    let Template { id, .. } = template;
+    id.delete();
+}
+
+/// Creates a new document from a template
+///
+/// Each slot is filled with the address at the same position in
+/// `signers`, which the document keeps as `get_slot_signers`. The document
+/// takes its content hash, roles, signing order and threshold from the
+/// template. The frontend re-encrypts the base PDF for the new document
+/// and sets the blob ID with `update_blob_id`.
+///
+/// # Parameters
+/// * `registry` - Mutable reference to the document registry
+/// * `template` - Template to instantiate
+/// * `walrus_blob_id` - Blob ID where the encrypted document is stored on Walrus
+/// * `title` - Document title
+/// * `description` - Document description
+/// * `signers` - Address filling each slot, parallel to the template's slots
+/// * `expires_at` - Optional signing deadline (in milliseconds)
+/// * `clock` - Clock object for timestamp generation
+/// * `ctx` - Transaction context for object creation and sender identification
+///
+/// # Panics
+/// * If there is not exactly one signer per slot
+/// * In the same cases as `create_document`
+///
+/// # Creates
+/// * A shared `Document` object with initial state
+/// * One `SignerCap` object for each unique approver and witness (transferred to them)
+///
+/// # Emits
+/// * `DocumentCreated` event with document details
+public fun instantiate_template(
+    registry: &mut DocumentRegistry,
+    template: &Template,
+    walrus_blob_id: String,
+    title: String,
+    description: String,
+    signers: vector<address>,
+    expires_at: Option<u64>,
+    clock: &Clock,
+    ctx: &mut TxContext
+) {
+    assert!(signers.length() == template.slots.length(), E_SLOT_MISMATCH);
+    new_document(
+        registry,
+        option::none(),
+        option::some(object::id(template)),
+        signers,
+        walrus_blob_id,
+        template.content_hash,
+        title,
+        description,
+        signers,
+        template.slot_roles,
+        template.sequential,
+        template.threshold,
+        expires_at,
+        clock,
+        ctx,
+    );
+}
+
+/// Seal access check for a template's base PDF
+///
+/// Only the template creator can decrypt the base PDF.
+///
+/// # Parameters
+/// * `_` - Encrypted object ID (unused, required by Seal API)
+/// * `template` - Reference to the template
+/// * `ctx` - Transaction context for sender identification
+///
+/// # Panics
+/// * If the sender is not the template creator
+entry fun seal_approve_template(_: vector<u8>, template: &Template, ctx: &TxContext) {
+    assert!(ctx.sender() == template.creator, E_NOT_AUTHORIZED);
+}
+
+/// Creates an empty signature library for the sender
+///
+/// Each address has at most one library, recorded in the registry so
+/// clients can find it with `get_signature_library`.
+///
+/// # Parameters
+/// * `registry` - Mutable reference to the document registry
+/// * `ctx` - Transaction context for object creation and sender identification
+///
+/// # Panics
+/// * If the sender already has a library
+///
+/// # Creates
+/// * A `SignatureLibrary` object (transferred to the sender)
+public fun create_signature_library(registry: &mut DocumentRegistry, ctx: &mut TxContext) {
+    let sender = ctx.sender();
+    assert!(!registry.libraries.contains(sender), E_LIBRARY_EXISTS);
+
+    let library = SignatureLibrary {
+        id: object::new(ctx),
+        owner: sender,
+        entries: vector::empty(),
+    };
+    registry.libraries.add(sender, object::id(&library));
+    transfer::transfer(library, sender);
+}
+
+/// Adds a saved signature or initials image to a library
+///
+/// The frontend encrypts the image under the library ID and uploads it to
+/// Walrus before calling this.
+///
+/// # Parameters
+/// * `library` - Mutable reference to the library
+/// * `kind` - ENTRY_SIGNATURE (0) or ENTRY_INITIALS (1)
+/// * `label` - Display name for the entry
+/// * `walrus_blob_id` - Blob ID where the encrypted image is stored on Walrus
+/// * `clock` - Clock object for timestamp generation
+/// * `ctx` - Transaction context for sender identification
+///
+/// # Panics
+/// * If the sender is not the library owner
+/// * If `kind` is not a known entry kind
+public fun add_library_entry(
+    library: &mut SignatureLibrary,
+    kind: u8,
+    label: String,
+    walrus_blob_id: String,
+    clock: &Clock,
+    ctx: &mut TxContext
+) {
+    assert!(ctx.sender() == library.owner, E_NOT_AUTHORIZED);
+    assert!(kind <= ENTRY_INITIALS, E_INVALID_ENTRY);
+
+    library.entries.push_back(LibraryEntry {
+        kind,
+        label,
+        walrus_blob_id,
+        added_at: clock.timestamp_ms(),
+    });
+}
+
+/// Removes a saved image from a library
+///
+/// The encrypted blob stays on Walrus until it expires but can no longer
+/// be found from the library.
+///
+/// # Parameters
+/// * `library` - Mutable reference to the library
+/// * `index` - Position of the entry to remove
+/// * `ctx` - Transaction context for sender identification
+///
+/// # Panics
+/// * If the sender is not the library owner
+/// * If `index` is out of range
+public fun remove_library_entry(
+    library: &mut SignatureLibrary,
+    index: u64,
+    ctx: &mut TxContext
+) {
+    assert!(ctx.sender() == library.owner, E_NOT_AUTHORIZED);
+    assert!(index < library.entries.length(), E_INVALID_ENTRY);
+    library.entries.remove(index);
+}
+
+/// Deletes a signature library and all of its entries
+///
+/// The owner can create a new library afterwards.
+///
+/// # Parameters
+/// * `registry` - Mutable reference to the document registry
+/// * `library` - Library to delete
+/// * `ctx` - Transaction context for sender identification
+///
+/// # Panics
+/// * If the sender is not the library owner
+public fun delete_signature_library(
+    registry: &mut DocumentRegistry,
+    library: SignatureLibrary,
+    ctx: &mut TxContext
+) {
+    assert!(ctx.sender() == library.owner, E_NOT_AUTHORIZED);
+    registry.libraries.remove(library.owner);
+    let SignatureLibrary { id, .. } = library;
+    id.delete();
+}
+
+/// Seal access check for saved signature images
+///
+/// Only the library owner can decrypt them.
+///
+/// # Parameters
+/// * `_` - Encrypted object ID (unused, required by Seal API)
+/// * `library` - Reference to the library
+/// * `ctx` - Transaction context for sender identification
+///
+/// # Panics
+/// * If the sender is not the library owner
+entry fun seal_approve_library(_: vector<u8>, library: &SignatureLibrary, ctx: &TxContext) {
+    assert!(ctx.sender() == library.owner, E_NOT_AUTHORIZED);
+}
+
+// ======== View Functions ========
+
+/// Returns a page of the document IDs created by a specific user
+///
+/// Documents are returned newest first. Pass `option::none()` as the
+/// cursor for the first page and the returned cursor for the next one.
+///
+/// # Parameters
+/// * `registry` - Reference to the document registry
+/// * `user` - Address of the user
+/// * `cursor` - First document ID of the page, or none to start at the newest
+/// * `limit` - Maximum number of document IDs to return
+///
+/// # Returns
+/// * Vector of at most `limit` document IDs (empty if none)
+/// * Cursor of the next page, or none if this is the last page
+///
+/// # Panics
+/// * If the cursor is not in the list
+public fun get_created_documents(
+    registry: &DocumentRegistry,
+    user: address,
+    cursor: Option<ID>,
+    limit: u64
+): (vector<ID>, Option<ID>) {
+    ids_page(&registry.created_by_user, user, cursor, limit)
+}
+
+/// Returns a page of the document IDs assigned to a user
+///
+/// Works like `get_created_documents` for the documents the user is a
+/// participant in.
+///
+/// # Parameters
+/// * `registry` - Reference to the document registry
+/// * `user` - Address of the user
+/// * `cursor` - First document ID of the page, or none to start at the newest
+/// * `limit` - Maximum number of document IDs to return
+///
+/// # Returns
+/// * Vector of at most `limit` document IDs (empty if none)
+/// * Cursor of the next page, or none if this is the last page
+///
+/// # Panics
+/// * If the cursor is not in the list
+public fun get_assigned_documents(
+    registry: &DocumentRegistry,
+    user: address,
+    cursor: Option<ID>,
+    limit: u64
+): (vector<ID>, Option<ID>) {
+    ids_page(&registry.assigned_to_user, user, cursor, limit)
+}
+
+/// Returns the number of documents created by a user
+///
+/// # Parameters
+/// * `registry` - Reference to the document registry
+/// * `user` - Address of the user
+///
+/// # Returns
+/// * Number of documents the user created
+public fun created_documents_count(registry: &DocumentRegistry, user: address): u64 {
+    if (registry.created_by_user.contains(user)) {
+        registry.created_by_user.borrow(user).length()
+    } else {
+        0
+    }
+}
+
+/// Returns the number of documents assigned to a user
+///
+/// # Parameters
+/// * `registry` - Reference to the document registry
+/// * `user` - Address of the user
+///
+/// # Returns
+/// * Number of documents the user is a participant in
+public fun assigned_documents_count(registry: &DocumentRegistry, user: address): u64 {
+    if (registry.assigned_to_user.contains(user)) {
+        registry.assigned_to_user.borrow(user).length()
+    } else {
+        0
+    }
+}
+
+/// Returns a page of the document IDs offered to a user by a pending
+/// ownership transfer
+///
+/// Works like `get_created_documents` for the documents the user can
+/// accept.
+///
+/// # Parameters
+/// * `registry` - Reference to the document registry
+/// * `user` - Address of the user
+/// * `cursor` - First document ID of the page, or none to start at the newest
+/// * `limit` - Maximum number of document IDs to return
+///
+/// # Returns
+/// * Vector of at most `limit` document IDs (empty if none)
+/// * Cursor of the next page, or none if this is the last page
+///
+/// # Panics
+/// * If the cursor is not in the list
+public fun get_incoming_transfers(
+    registry: &DocumentRegistry,
+    user: address,
+    cursor: Option<ID>,
+    limit: u64
+): (vector<ID>, Option<ID>) {
+    ids_page(&registry.pending_transfers, user, cursor, limit)
+}
+
+/// Returns the total number of documents in the system
+///
+/// # Parameters
+/// * `registry` - Reference to the document registry
+///
+/// # Returns
+/// * Total count of all documents created
+public fun get_total_documents(registry: &DocumentRegistry): u64 {
+    registry.total_documents
+}
+
+/// Checks if a signer has already signed a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+/// * `signer` - Address of the signer to check
+///
+/// # Returns
+/// * `true` if the signer has signed, `false` otherwise
+public fun has_signed(document: &Document, signer: address): bool {
+    let mut i = 0;
+    let len = document.signatures.length();
+    
+    while (i < len) {
+        let sig = document.signatures[i];
+        if (sig.signer == signer) {
+            return true
+        };
+        i = i + 1;
+    };
+    
+    false
+}
+
+/// Checks if an address is authorized to sign a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+/// * `addr` - Address to check
+///
+/// # Returns
+/// * `true` if the address is in the authorized signers list, `false` otherwise
+public fun is_authorized(document: &Document, addr: address): bool {
+    vector::contains(&document.authorized_signers, &addr)
+}
+
+/// Checks if an address's authorization to sign a document was revoked
+///
+/// # Parameters
+/// * `document` - Reference to the document
+/// * `addr` - Address to check
+///
+/// # Returns
+/// * `true` if the address is in the revoked signers list, `false` otherwise
+public fun is_revoked(document: &Document, addr: address): bool {
+    document.revoked_signers.contains(&addr)
+}
+
+/// Returns the list of revoked signers for a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Vector of revoked signer addresses
+public fun get_revoked_signers(document: &Document): vector<address> {
+    document.revoked_signers
+}
+
+/// Returns whether a document enforces sequential signing
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * `true` if signers must sign in order, `false` otherwise
+public fun is_sequential(document: &Document): bool {
+    document.sequential
+}
+
+/// Returns the signature threshold set at creation
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * `some(threshold)` for M-of-N documents, `none` if every signer must sign
+public fun get_threshold(document: &Document): Option<u64> {
+    document.threshold
+}
+
+/// Returns how many signatures complete the document
+///
+/// This is the threshold, capped at the number of current approvers
+/// since revocations can leave fewer approvers than the threshold.
+/// Without a threshold every approver must sign. Viewers and witnesses
+/// never count.
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Number of approver signatures needed for completion
+public fun get_required_signatures(document: &Document): u64 {
+    let total = approver_count(&document.roles);
+    if (document.threshold.is_none()) {
+        return total
+    };
+
+    let threshold = *document.threshold.borrow();
+    if (threshold < total) { threshold } else { total }
+}
+
+/// Returns the signer expected to sign next on a sequential document
+///
+/// Walks `authorized_signers` in order and returns the first approver that
+/// has not signed yet. Viewers and witnesses are not part of the order.
+/// Documents without sequential signing have no expected signer.
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * `some(address)` of the next pending signer, or `none` if the document
+///   is not sequential or every signer has signed
+public fun get_next_signer(document: &Document): Option<address> {
+    if (!document.sequential) {
+        return option::none()
+    };
+
+    let mut i = 0;
+    let len = document.authorized_signers.length();
+
+    while (i < len) {
+        let signer_addr = document.authorized_signers[i];
+        if (document.roles[i] == ROLE_APPROVER && !has_signed(document, signer_addr)) {
+            return option::some(signer_addr)
+        };
+        i = i + 1;
+    };
+
+    option::none()
+}
+
+/// Checks if an address holds an active, unexpired delegation for a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+/// * `addr` - Address to check
+/// * `clock` - Clock object for expiry checks
+///
+/// # Returns
+/// * `true` if the address is the delegate of a delegation that can still
+///   be used to sign
+public fun is_delegate(document: &Document, addr: address, clock: &Clock): bool {
+    let mut i = 0;
+    let len = document.delegations.length();
+    while (i < len) {
+        let record = &document.delegations[i];
+        if (record.delegate == addr && clock.timestamp_ms() < record.expires_at) {
+            return true
+        };
+        i = i + 1;
+    };
+
+    false
+}
+
+/// Returns the active delegations of a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Vector of delegation records that have not been revoked or used
+public fun get_delegations(document: &Document): vector<DelegationRecord> {
+    document.delegations
+}
+
+/// Returns the principal a delegation signs for
+///
+/// # Parameters
+/// * `delegation` - Reference to the delegation
+///
+/// # Returns
+/// * Address of the signer who created the delegation
+public fun delegation_principal(delegation: &Delegation): address {
+    delegation.principal
+}
+
+/// Returns when a delegation expires
+///
+/// # Parameters
+/// * `delegation` - Reference to the delegation
+///
+/// # Returns
+/// * Expiry timestamp in milliseconds
+public fun delegation_expires_at(delegation: &Delegation): u64 {
+    delegation.expires_at
+}
+
+/// Returns the role of a participant
+///
+/// # Parameters
+/// * `document` - Reference to the document
+/// * `addr` - Address to look up
+///
+/// # Returns
+/// * `some(role)` (0=approver, 1=viewer, 2=witness), or `none` if the
+///   address is not an authorized signer
+public fun get_role(document: &Document, addr: address): Option<u8> {
+    let (found, index) = document.authorized_signers.index_of(&addr);
+    if (!found) {
+        return option::none()
+    };
+
+    option::some(document.roles[index])
+}
+
+/// Returns the roles of all authorized signers
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Vector of roles, parallel to `get_authorized_signers`
+public fun get_roles(document: &Document): vector<u8> {
+    document.roles
+}
+
+/// Role value for approvers, whose signatures complete the document
+public fun role_approver(): u8 { ROLE_APPROVER }
+
+/// Role value for viewers (CC), who can decrypt but never sign
+public fun role_viewer(): u8 { ROLE_VIEWER }
+
+/// Role value for witnesses, who attest an approver's signature
+public fun role_witness(): u8 { ROLE_WITNESS }
+
+/// Checks if a document's signing deadline has passed
+///
+/// A document is expired if it has been marked as expired, or if it has a
+/// deadline in the past and is not complete, declined or voided.
+///
+/// # Parameters
+/// * `document` - Reference to the document
+/// * `clock` - Clock object for deadline checks
+///
+/// # Returns
+/// * `true` if the document can no longer be signed due to its deadline
+public fun is_expired(document: &Document, clock: &Clock): bool {
+    if (document.status == 3) {
+        return true
+    };
+    if (
+        document.status == 2 ||
+        document.status == 4 ||
+        document.status == 5 ||
+        document.expires_at.is_none()
+    ) {
+        return false
+    };
+    clock.timestamp_ms() > *document.expires_at.borrow()
+}
+
+/// Returns the signing deadline of a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * `some(timestamp)` in milliseconds, or `none` if there is no deadline
+public fun get_expires_at(document: &Document): Option<u64> {
+    document.expires_at
+}
+
+/// Checks if a document has been declined by a signer
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * `true` if a signer declined the document, `false` otherwise
+public fun is_declined(document: &Document): bool {
+    document.decline.is_some()
+}
+
+/// Returns the decline record of a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * `some(Decline)` if a signer declined the document, `none` otherwise
+public fun get_decline(document: &Document): Option<Decline> {
+    document.decline
+}
+
+/// Returns the address that declined a document
+///
+/// # Parameters
+/// * `decline` - Reference to the decline record
+///
+/// # Returns
+/// * Address of the signer who declined
+public fun decline_signer(decline: &Decline): address {
+    decline.signer
+}
+
+/// Returns the reason given for declining a document
+///
+/// # Parameters
+/// * `decline` - Reference to the decline record
+///
+/// # Returns
+/// * Reason string
+public fun decline_reason(decline: &Decline): String {
+    decline.reason
+}
+
+/// Checks if a document has been voided by its creator
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * `true` if the creator voided the document, `false` otherwise
+public fun is_voided(document: &Document): bool {
+    document.voided.is_some()
+}
+
+/// Returns the void record of a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * `some(VoidRecord)` if the creator voided the document, `none` otherwise
+public fun get_void_record(document: &Document): Option<VoidRecord> {
+    document.voided
+}
+
+/// Returns the reason given for voiding a document
+///
+/// # Parameters
+/// * `record` - Reference to the void record
+///
+/// # Returns
+/// * Reason string
+public fun void_reason(record: &VoidRecord): String {
+    record.reason
+}
+
+/// Returns the current status of a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Status code: 0=pending, 1=partial, 2=complete, 3=expired, 4=declined, 5=voided
+public fun get_status(document: &Document): u8 {
+    document.status
+}
+
+/// Returns the number of signatures collected on a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Count of signatures collected
+public fun signatures_count(document: &Document): u64 {
+    vector::length(&document.signatures)
+}
+
+/// Returns the Walrus blob ID where the document is stored
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Walrus blob ID string
+public fun get_walrus_blob_id(document: &Document): String {
+    document.walrus_blob_id
+}
+
+/// Returns the Walrus blob ID of the document's field definitions
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Walrus blob ID string (empty if the creator placed no fields)
+public fun get_fields_blob_id(document: &Document): String {
+    document.fields_blob_id
+}
+
+/// Returns the address that produced a signature
+///
+/// # Parameters
+/// * `signature` - Reference to the signature
+///
+/// # Returns
+/// * Address of the signer
+public fun signature_signer(signature: &Signature): address {
+    signature.signer
+}
+
+/// Returns the delegate who signed on the signer's behalf
+///
+/// # Parameters
+/// * `signature` - Reference to the signature
+///
+/// # Returns
+/// * `some(address)` of the delegate, or `none` if the signer signed in person
+public fun signature_delegate(signature: &Signature): Option<address> {
+    signature.delegate
+}
+
+/// Returns the Walrus blob ID of the version a signature produced
+///
+/// # Parameters
+/// * `signature` - Reference to the signature
+///
+/// # Returns
+/// * Walrus blob ID of the signed version
+public fun signature_blob_id(signature: &Signature): String {
+    signature.signed_blob_id
+}
+
+/// Returns the SHA-256 of the version a signature produced
+///
+/// # Parameters
+/// * `signature` - Reference to the signature
+///
+/// # Returns
+/// * 32-byte hash of the signed plaintext PDF
+public fun signature_blob_hash(signature: &Signature): vector<u8> {
+    signature.signed_blob_hash
+}
+
+/// Returns the SHA-256 of the original plaintext PDF
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * 32-byte content hash
+public fun get_content_hash(document: &Document): vector<u8> {
+    document.content_hash
+}
+
+/// Returns the SHA-256 of each signed document version
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Vector of hashes, parallel to the signed blob IDs (newest last)
+public fun get_signed_blob_hashes(document: &Document): vector<vector<u8>> {
+    document.signed_blob_hashes
+}
+
+/// Checks if a hash matches the original or any signed version of a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+/// * `hash` - SHA-256 of a plaintext PDF
+///
+/// # Returns
+/// * `true` if the hash matches a recorded version, `false` otherwise
+public fun matches_hash(document: &Document, hash: vector<u8>): bool {
+    document.content_hash == hash || document.signed_blob_hashes.contains(&hash)
+}
+
+/// Returns the creator address of a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Address of the document creator
+public fun get_creator(document: &Document): address {
+    document.creator
+}
+
+/// Returns the address proposed to take over as creator
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * `some(address)` while an ownership transfer is pending, `none` otherwise
+public fun get_pending_creator(document: &Document): Option<address> {
+    document.pending_creator
+}
+
+/// Returns the title of a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Document title string
+public fun get_title(document: &Document): String {
+    document.title
+}
+
+/// Returns the list of authorized signers for a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Vector of authorized signer addresses
+public fun get_authorized_signers(document: &Document): vector<address> {
+    document.authorized_signers
+}
+
+/// Returns all signatures collected on a document
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Vector of Signature structs
+public fun get_signatures(document: &Document): vector<Signature> {
+    document.signatures
+}
+
+/// Returns the organization a document was created under
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * `some(ID)` for organization documents, `none` otherwise
+public fun get_organization(document: &Document): Option<ID> {
+    document.organization
+}
+
+/// Returns a page of the document IDs created under an organization
+///
+/// Works like `get_created_documents` for the organization's documents.
+///
+/// # Parameters
+/// * `registry` - Reference to the document registry
+/// * `organization_id` - ID of the organization
+/// * `cursor` - First document ID of the page, or none to start at the newest
+/// * `limit` - Maximum number of document IDs to return
+///
+/// # Returns
+/// * Vector of at most `limit` document IDs (empty if none)
+/// * Cursor of the next page, or none if this is the last page
+///
+/// # Panics
+/// * If the cursor is not in the list
+public fun get_org_documents(
+    registry: &DocumentRegistry,
+    organization_id: ID,
+    cursor: Option<ID>,
+    limit: u64
+): (vector<ID>, Option<ID>) {
+    ids_page(&registry.documents_by_org, organization_id, cursor, limit)
+}
+
+/// Returns a page of the organization IDs a user belongs to
+///
+/// Organizations are returned newest membership first, like the documents
+/// of `get_created_documents`.
+///
+/// # Parameters
+/// * `registry` - Reference to the document registry
+/// * `user` - Address of the user
+/// * `cursor` - First organization ID of the page, or none to start at the newest
+/// * `limit` - Maximum number of organization IDs to return
+///
+/// # Returns
+/// * Vector of at most `limit` organization IDs (empty if none)
+/// * Cursor of the next page, or none if this is the last page
+///
+/// # Panics
+/// * If the cursor is not in the list
+public fun get_user_organizations(
+    registry: &DocumentRegistry,
+    user: address,
+    cursor: Option<ID>,
+    limit: u64
+): (vector<ID>, Option<ID>) {
+    ids_page(&registry.orgs_by_member, user, cursor, limit)
+}
+
+/// Returns the name of an organization
+///
+/// # Parameters
+/// * `organization` - Reference to the organization
+///
+/// # Returns
+/// * Organization name
+public fun get_org_name(organization: &Organization): String {
+    organization.name
+}
+
+/// Returns the admins of an organization
+///
+/// # Parameters
+/// * `organization` - Reference to the organization
+///
+/// # Returns
+/// * Vector of admin addresses
+public fun get_org_admins(organization: &Organization): vector<address> {
+    organization.admins
+}
+
+/// Returns the members of an organization, admins included
+///
+/// # Parameters
+/// * `organization` - Reference to the organization
+///
+/// # Returns
+/// * Vector of member addresses
+public fun get_org_members(organization: &Organization): vector<address> {
+    organization.members
+}
+
+/// Checks if an address is an admin of an organization
+///
+/// # Parameters
+/// * `organization` - Reference to the organization
+/// * `addr` - Address to check
+///
+/// # Returns
+/// * `true` if the address is an admin, `false` otherwise
+public fun is_org_admin(organization: &Organization, addr: address): bool {
+    organization.admins.contains(&addr)
+}
+
+/// Checks if an address is a member of an organization
+///
+/// # Parameters
+/// * `organization` - Reference to the organization
+/// * `addr` - Address to check
+///
+/// # Returns
+/// * `true` if the address is a member, `false` otherwise
+public fun is_org_member(organization: &Organization, addr: address): bool {
+    organization.members.contains(&addr)
+}
+
+/// Returns the template a document was instantiated from
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * `some(ID)` for documents created from a template, `none` otherwise
+public fun get_template(document: &Document): Option<ID> {
+    document.template
+}
+
+/// Returns the address filling each template slot of a document
+///
+/// Slots keep their position even if a signer is revoked or fills more
+/// than one slot, unlike `get_authorized_signers`.
+///
+/// # Parameters
+/// * `document` - Reference to the document
+///
+/// # Returns
+/// * Vector of addresses, parallel to the template's slots (empty for
+///   documents not created from a template)
+public fun get_slot_signers(document: &Document): vector<address> {
+    document.slot_signers
+}
+
+/// Returns a page of the template IDs created by a user
+///
+/// Templates are returned newest first, like the documents of
+/// `get_created_documents`.
+///
+/// # Parameters
+/// * `registry` - Reference to the document registry
+/// * `user` - Address of the user
+/// * `cursor` - First template ID of the page, or none to start at the newest
+/// * `limit` - Maximum number of template IDs to return
+///
+/// # Returns
+/// * Vector of at most `limit` template IDs (empty if none)
+/// * Cursor of the next page, or none if this is the last page
+///
+/// # Panics
+/// * If the cursor is not in the list
+public fun get_user_templates(
+    registry: &DocumentRegistry,
+    user: address,
+    cursor: Option<ID>,
+    limit: u64
+): (vector<ID>, Option<ID>) {
+    ids_page(&registry.templates_by_user, user, cursor, limit)
+}
+
+/// Returns the name of a template
+///
+/// # Parameters
+/// * `template` - Reference to the template
+///
+/// # Returns
+/// * Template name
+public fun template_name(template: &Template): String {
+    template.name
+}
+
+/// Returns the signer slot names of a template
+///
+/// # Parameters
+/// * `template` - Reference to the template
+///
+/// # Returns
+/// * Vector of slot names
+public fun template_slots(template: &Template): vector<String> {
+    template.slots
+}
+
+/// Returns the role of each signer slot of a template
+///
+/// # Parameters
+/// * `template` - Reference to the template
+///
+/// # Returns
+/// * Vector of roles, parallel to the slot names
+public fun template_slot_roles(template: &Template): vector<u8> {
+    template.slot_roles
+}
+
+/// Returns the pre-placed signature fields of a template
+///
+/// # Parameters
+/// * `template` - Reference to the template
+///
+/// # Returns
+/// * Vector of TemplateField structs
+public fun template_fields(template: &Template): vector<TemplateField> {
+    template.fields
+}
+
+/// Returns the slot index and page of a template field
+///
+/// # Parameters
+/// * `field` - Reference to the field
+///
+/// # Returns
+/// * Tuple of (slot index, page number)
+public fun field_location(field: &TemplateField): (u64, u64) {
+    (field.slot, field.page)
+}
+
+/// Returns the rectangle of a template field
+///
+/// # Parameters
+/// * `field` - Reference to the field
+///
+/// # Returns
+/// * Tuple of (x, y, width, height) in PDF points from the top-left corner
+public fun field_rect(field: &TemplateField): (u64, u64, u64, u64) {
+    (field.x, field.y, field.width, field.height)
+}
+
+/// Returns the signature library of a user
+///
+/// # Parameters
+/// * `registry` - Reference to the document registry
+/// * `owner` - Address of the user
+///
+/// # Returns
+/// * `some(ID)` if the user has a library, `none` otherwise
+public fun get_signature_library(registry: &DocumentRegistry, owner: address): Option<ID> {
+    if (registry.libraries.contains(owner)) {
+        option::some(*registry.libraries.borrow(owner))
+    } else {
+        option::none()
+    }
+}
+
+/// Returns the owner of a signature library
+///
+/// # Parameters
+/// * `library` - Reference to the library
 ///
 /// # Returns
-/// * Vector of authorized signer addresses
-public fun get_authorized_signers(document: &Document): vector<address> {
-    document.authorized_signers
+/// * Owner address
+public fun library_owner(library: &SignatureLibrary): address {
+    library.owner
 }
 
-/// Returns all signatures collected on a document
+/// Returns the saved images in a signature library
 ///
 /// # Parameters
-/// * `document` - Reference to the document
+/// * `library` - Reference to the library
 ///
 /// # Returns
-/// * Vector of Signature structs
-public fun get_signatures(document: &Document): vector<Signature> {
-    document.signatures
+/// * Vector of LibraryEntry structs, in the order they were added
+public fun library_entries(library: &SignatureLibrary): vector<LibraryEntry> {
+    library.entries
+}
+
+/// Entry kind for saved full signatures
+public fun entry_signature(): u8 { ENTRY_SIGNATURE }
+
+/// Entry kind for saved initials
+public fun entry_initials(): u8 { ENTRY_INITIALS }
+
+/// Returns the kind of a library entry
+///
+/// # Parameters
+/// * `entry` - Reference to the entry
+///
+/// # Returns
+/// * ENTRY_SIGNATURE (0) or ENTRY_INITIALS (1)
+public fun entry_kind(entry: &LibraryEntry): u8 {
+    entry.kind
+}
+
+/// Returns the label of a library entry
+///
+/// # Parameters
+/// * `entry` - Reference to the entry
+///
+/// # Returns
+/// * Display name of the entry
+public fun entry_label(entry: &LibraryEntry): String {
+    entry.label
+}
+
+/// Returns the Walrus blob ID of a library entry
+///
+/// # Parameters
+/// * `entry` - Reference to the entry
+///
+/// # Returns
+/// * Blob ID of the encrypted image
+public fun entry_blob_id(entry: &LibraryEntry): String {
+    entry.walrus_blob_id
+}
+
+// ======== Private Functions ========
+
+/// Adds an authorized signer and issues their `SignerCap`
+///
+/// Shared by `issue_signer_capability` and `org_issue_signer_capability`,
+/// which check that the sender may administer the document first.
+fun add_participant(
+    document_registry: &mut DocumentRegistry,
+    document: &mut Document,
+    recipient: address,
+    role: u8,
+    ctx: &mut TxContext
+) {
+    assert!(document.status != 5, E_DOCUMENT_VOIDED);
+    assert!(recipient != @0x0, E_INVALID_SIGNER);
+    assert!(!document.authorized_signers.contains(&recipient), E_ALREADY_AUTHORIZED);
+    assert!(role <= ROLE_WITNESS, E_INVALID_ROLE);
+    let document_id = object::id(document);
+
+    // Add to registry - assigned_to_user
+    list_id(&mut document_registry.assigned_to_user, recipient, document_id, ctx);
+    document.authorized_signers.push_back(recipient);
+    document.roles.push_back(role);
+
+    // Re-authorizing a revoked address lifts the revocation
+    let (revoked, index) = document.revoked_signers.index_of(&recipient);
+    if (revoked) {
+        document.revoked_signers.remove(index);
+    };
+
+    event::emit(SignerAdded {
+        document_id,
+        creator: ctx.sender(),
+        signer: recipient,
+        role,
+    });
+
+    if (role == ROLE_VIEWER) {
+        return
+    };
+
+    let cap = SignerCap {
+        id: object::new(ctx),
+        document_id,
+    };
+
+    transfer::public_transfer(cap, recipient);
+}
+
+/// Revokes a signer's authorization on behalf of `admin`
+///
+/// Shared by `revoke_signer` and `org_revoke_signer`, which check that
+/// `admin` may administer the document first.
+fun remove_participant(
+    document_registry: &mut DocumentRegistry,
+    document: &mut Document,
+    signer_to_revoke: address,
+    admin: address
+) {
+    let (found, index) = document.authorized_signers.index_of(&signer_to_revoke);
+    if (!found) {
+        return
+    };
+
+    vector::remove(&mut document.authorized_signers, index);
+    document.roles.remove(index);
+    document.revoked_signers.push_back(signer_to_revoke);
+
+    // Delegates of a revoked signer lose their access too
+    remove_delegations(document, signer_to_revoke);
+
+    // Remove from registry - assigned_to_user
+    let document_id = object::id(document);
+    unlist_id(&mut document_registry.assigned_to_user, signer_to_revoke, document_id);
+
+    // The revoked signer may have been the last one outstanding, or one
+    // whose signature the document needed to stay complete
+    if (document.status <= 2) {
+        if (threshold_met(document)) {
+            document.status = 2; // completed
+        } else if (document.signatures.is_empty()) {
+            document.status = 0; // pending
+        } else {
+            document.status = 1; // partially signed
+        };
+    };
+
+    event::emit(SignerRevoked {
+        document_id,
+        creator: admin,
+        signer: signer_to_revoke,
+    });
+}
+
+/// Voids a document on behalf of `admin`
+///
+/// Shared by `void_document` and `org_void_document`, which check that
+/// `admin` may administer the document first.
+fun mark_voided(
+    document: &mut Document,
+    reason: String,
+    keep_creator_access: bool,
+    clock: &Clock,
+    admin: address
+) {
+    assert!(document.status != 5, E_DOCUMENT_VOIDED);
+
+    document.voided = option::some(VoidRecord {
+        reason,
+        voided_at: clock.timestamp_ms(),
+        keep_creator_access,
+    });
+    document.status = 5; // voided
+
+    // Emit event
+    event::emit(DocumentVoided {
+        document_id: object::id(document),
+        creator: admin,
+        reason,
+        timestamp: clock.timestamp_ms(),
+    });
+}
+
+/// Aborts unless `admin` administers `organization` and the document
+/// belongs to it
+fun assert_org_admin(organization: &Organization, document: &Document, admin: address) {
+    assert!(organization.admins.contains(&admin), E_NOT_AUTHORIZED);
+    assert!(document.organization == option::some(object::id(organization)), E_NOT_AUTHORIZED);
+}
+
+/// Adds an ID to the end of a key's list in a registry index
+fun list_id<K: copy + drop + store>(
+    index: &mut Table<K, LinkedTable<ID, bool>>,
+    key: K,
+    id: ID,
+    ctx: &mut TxContext
+) {
+    if (!index.contains(key)) {
+        index.add(key, linked_table::new(ctx));
+    };
+    index.borrow_mut(key).push_back(id, true);
+}
+
+/// Removes an ID from a key's list in a registry index, if listed
+fun unlist_id<K: copy + drop + store>(
+    index: &mut Table<K, LinkedTable<ID, bool>>,
+    key: K,
+    id: ID
+) {
+    if (!index.contains(key)) {
+        return
+    };
+    let ids = index.borrow_mut(key);
+    if (ids.contains(id)) {
+        ids.remove(id);
+    };
+}
+
+/// Reads a page of a key's list in a registry index, newest first
+///
+/// Shared by the paginated view functions such as `get_created_documents`.
+fun ids_page<K: copy + drop + store>(
+    index: &Table<K, LinkedTable<ID, bool>>,
+    key: K,
+    cursor: Option<ID>,
+    limit: u64
+): (vector<ID>, Option<ID>) {
+    let mut page = vector::empty();
+    if (!index.contains(key)) {
+        return (page, option::none())
+    };
+
+    let ids = index.borrow(key);
+    let mut next = if (cursor.is_some()) {
+        assert!(ids.contains(*cursor.borrow()), E_INVALID_CURSOR);
+        cursor
+    } else {
+        *ids.back()
+    };
+    while (next.is_some() && page.length() < limit) {
+        let id = *next.borrow();
+        page.push_back(id);
+        next = *ids.prev(id);
+    };
+    (page, next)
+}
+
+/// Creates, registers and shares a document
+///
+/// Shared by `create_document`, `create_org_document` and
+/// `instantiate_template`. Documents with an organization are also listed
+/// under it in the registry.
+fun new_document(
+    registry: &mut DocumentRegistry,
+    organization: Option<ID>,
+    template: Option<ID>,
+    slot_signers: vector<address>,
+    walrus_blob_id: String,
+    content_hash: vector<u8>,
+    title: String,
+    description: String,
+    authorized_signers: vector<address>,
+    roles: vector<u8>,
+    sequential: bool,
+    threshold: Option<u64>,
+    expires_at: Option<u64>,
+    clock: &Clock,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+
+    assert!(content_hash.length() == HASH_LENGTH, E_INVALID_HASH);
+    if (expires_at.is_some()) {
+        assert!(*expires_at.borrow() > clock.timestamp_ms(), E_INVALID_DEADLINE);
+    };
+    let (authorized_signers, roles) = unique_signers(authorized_signers, roles);
+    if (threshold.is_some()) {
+        let required = *threshold.borrow();
+        assert!(required > 0 && required <= approver_count(&roles), E_INVALID_THRESHOLD);
+    };
+    
+    // Create document object
+    let document = Document {
+        id: object::new(ctx),
+        creator: sender,
+        pending_creator: option::none(),
+        organization,
+        template,
+        slot_signers,
+        walrus_blob_id,
+        content_hash,
+        fields_blob_id: b"".to_string(),
+        title,
+        description,
+        authorized_signers,
+        roles,
+        revoked_signers: vector::empty(),
+        sequential,
+        threshold,
+        signatures: vector::empty(),
+        created_at: clock.timestamp_ms(),
+        expires_at,
+        status: 0, // pending
+        signed_blob_id: vector::empty(),
+        signed_blob_hashes: vector::empty(),
+        decline: option::none(),
+        voided: option::none(),
+        delegations: vector::empty(),
+    };
+
+    // Update registry - add to creator's list
+    list_id(&mut registry.created_by_user, sender, object::id(&document), ctx);
+
+    // Organization documents are listed for all members
+    if (organization.is_some()) {
+        list_id(&mut registry.documents_by_org, *organization.borrow(), object::id(&document), ctx);
+    };
+
+    // Add to each authorized signer's list
+    let mut i = 0;
+    let len = document.authorized_signers.length();
+    while (i < len) {
+        let signer_addr = document.authorized_signers[i];
+        list_id(&mut registry.assigned_to_user, signer_addr, object::id(&document), ctx);
+        
+        // Viewers only read the document, so they get no capability
+        if (document.roles[i] != ROLE_VIEWER) {
+            let cap = SignerCap {
+                id: object::new(ctx),
+                document_id: object::id(&document)
+            };
+
+            transfer::public_transfer(cap, signer_addr);
+        };
+        
+        i = i + 1;
+    };
+
+    // Increment total
+    registry.total_documents = registry.total_documents + 1;
+
+    // Emit event
+    event::emit(DocumentCreated {
+        document_id: object::id(&document),
+        creator: sender,
+        content_hash: document.content_hash,
+        title: document.title,
+        authorized_signers: document.authorized_signers,
+        roles: document.roles,
+        organization,
+        template,
+        timestamp: document.created_at,
+    });
+
+    // Share document object
+    transfer::share_object(document);
+}
+
+/// Records a signature for `signer` after checking they may sign now
+///
+/// Shared by `sign_document` and `sign_as_delegate`, which check the
+/// capability or delegation first. Appends the signed version, removes the
+/// signer's delegations, updates the status and emits `DocumentSigned`.
+fun record_signature(
+    document: &mut Document,
+    signer: address,
+    delegate: Option<address>,
+    signed_blob_id: String,
+    signed_blob_hash: vector<u8>,
+    clock: &Clock,
+) {
+    assert!(signed_blob_hash.length() == HASH_LENGTH, E_INVALID_HASH);
+    assert!(document.status != 4, E_DOCUMENT_DECLINED);
+    assert!(document.status != 5, E_DOCUMENT_VOIDED);
+    assert!(!is_expired(document, clock), E_DOCUMENT_EXPIRED);
+
+    assert!(!document.revoked_signers.contains(&signer), E_SIGNER_REVOKED);
+    assert!(document.authorized_signers.contains(&signer), E_NOT_AUTHORIZED);
+
+    let already_signed = has_signed(document, signer);
+    assert!(!already_signed, E_ALREADY_SIGNED);
+
+    let role = *get_role(document, signer).borrow();
+    assert!(role != ROLE_VIEWER, E_ROLE_CANNOT_SIGN);
+    if (role == ROLE_WITNESS) {
+        assert!(approver_signatures(document) > 0, E_NOTHING_TO_WITNESS);
+    } else if (document.sequential) {
+        assert!(get_next_signer(document) == option::some(signer), E_NOT_YOUR_TURN);
+    };
+
+    // Add signature
+    let signature = Signature {
+        signer,
+        delegate,
+        signed_at: clock.timestamp_ms(),
+        signed_blob_id,
+        signed_blob_hash,
+    };
+    
+    document.signatures.push_back(signature);
+
+    // Any other delegation of the signer has nothing left to sign
+    remove_delegations(document, signer);
+
+    // Record the signed version
+    document.signed_blob_id.push_back(signed_blob_id);
+    document.signed_blob_hashes.push_back(signed_blob_hash);
+
+    // Update status
+    let total_sigs = document.signatures.length();
+    
+    if (threshold_met(document)) {
+        document.status = 2; // completed
+    } else {
+        document.status = 1; // partially signed
+    };
+
+    // Emit event
+    event::emit(DocumentSigned {
+        document_id: object::id(document),
+        signer,
+        delegate,
+        signed_blob_id,
+        timestamp: clock.timestamp_ms(),
+        total_signatures: total_sigs,
+    });
+}
+
+/// Finds an active delegation by ID
+fun find_delegation(document: &Document, delegation_id: ID): (bool, u64) {
+    let mut i = 0;
+    let len = document.delegations.length();
+    while (i < len) {
+        if (document.delegations[i].delegation_id == delegation_id) {
+            return (true, i)
+        };
+        i = i + 1;
+    };
+
+    (false, 0)
+}
+
+/// Removes every active delegation given by `principal`
+fun remove_delegations(document: &mut Document, principal: address) {
+    let mut i = 0;
+    while (i < document.delegations.length()) {
+        if (document.delegations[i].principal == principal) {
+            document.delegations.remove(i);
+        } else {
+            i = i + 1;
+        };
+    };
+}
+
+/// Checks whether enough current approvers have signed
+///
+/// Signatures from revoked signers and witnesses are kept on the
+/// document, so the signature count alone cannot tell whether the
+/// document is complete. Only signatures from approvers count towards
+/// `get_required_signatures`. A document without approvers is never
+/// complete.
+fun threshold_met(document: &Document): bool {
+    if (approver_count(&document.roles) == 0) {
+        return false
+    };
+
+    approver_signatures(document) >= get_required_signatures(document)
+}
+
+/// Counts the current approvers that have signed
+fun approver_signatures(document: &Document): u64 {
+    let mut signed = 0;
+    let mut i = 0;
+    let len = document.authorized_signers.length();
+    while (i < len) {
+        if (document.roles[i] == ROLE_APPROVER && has_signed(document, document.authorized_signers[i])) {
+            signed = signed + 1;
+        };
+        i = i + 1;
+    };
+
+    signed
+}
+
+/// Counts the approvers in a list of roles
+fun approver_count(roles: &vector<u8>): u64 {
+    let mut count = 0;
+    let mut i = 0;
+    let len = roles.length();
+    while (i < len) {
+        if (roles[i] == ROLE_APPROVER) {
+            count = count + 1;
+        };
+        i = i + 1;
+    };
+
+    count
+}
+
+/// Drops repeated addresses while keeping the first occurrence
+///
+/// Keeping the original order matters for sequential documents, where
+/// the list defines the signing order. Each kept address keeps the role
+/// given with its first occurrence.
+///
+/// # Panics
+/// * If any address is the zero address
+/// * If there is not exactly one known role per address
+fun unique_signers(
+    signers: vector<address>,
+    roles: vector<u8>
+): (vector<address>, vector<u8>) {
+    let len = signers.length();
+    assert!(roles.length() == len, E_INVALID_ROLE);
+
+    let mut unique = vector::empty();
+    let mut unique_roles = vector::empty();
+    let mut i = 0;
+    while (i < len) {
+        let signer_addr = signers[i];
+        assert!(signer_addr != @0x0, E_INVALID_SIGNER);
+        assert!(roles[i] <= ROLE_WITNESS, E_INVALID_ROLE);
+        if (!unique.contains(&signer_addr)) {
+            unique.push_back(signer_addr);
+            unique_roles.push_back(roles[i]);
+        };
+        i = i + 1;
+    };
+
+    (unique, unique_roles)
 }
 
 // ======== Testing ========
@@ -14,6 +14,10 @@ use wal_sign::wal_sign::{
     DocumentRegistry,
     Document,
     SignerCap,
+    Delegation,
+    Organization,
+    Template,
+    SignatureLibrary,
 };
 
 // ======== Test Constants ========
@@ -24,12 +28,22 @@ const SIGNER1: address = @0xF;
 const SIGNER2: address = @0xC;
 const SIGNER3: address = @0xD;
 const UNAUTHORIZED: address = @0xE;
+const DELEGATE: address = @0x10;
+
+const APPROVER: u8 = 0;
+const VIEWER: u8 = 1;
+const WITNESS: u8 = 2;
 
 const WALRUS_BLOB_ID: vector<u8> = b"walrus_blob_123";
 const NEW_WALRUS_BLOB_ID: vector<u8> = b"walrus_blob_456";
 const SIGNED_BLOB_ID: vector<u8> = b"signed_blob_789";
+const CONTENT_HASH: vector<u8> = x"e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+const SIGNED_HASH: vector<u8> = x"9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08";
+const OTHER_HASH: vector<u8> = x"2c26b46b68ffc68ff99b453c1d30413413422d706483bfa0f98a5e886266e7ae";
 const DOCUMENT_TITLE: vector<u8> = b"Test Document";
 const DOCUMENT_DESCRIPTION: vector<u8> = b"Test Description";
+const DECLINE_REASON: vector<u8> = b"Terms are incorrect";
+const VOID_REASON: vector<u8> = b"Sent by mistake";
 
 // ======== Helper Functions ========
 
@@ -84,17 +98,22 @@ fun test_create_document_success() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             authorized_signers,
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
         
         assert_eq!(wal_sign::get_total_documents(&registry), 1);
-        assert_eq!(wal_sign::get_created_documents(&registry, CREATOR).length(), 1);
-        assert_eq!(wal_sign::get_assigned_documents(&registry, SIGNER1).length(), 1);
-        assert_eq!(wal_sign::get_assigned_documents(&registry, SIGNER2).length(), 1);
+        assert_eq!(wal_sign::created_documents_count(&registry, CREATOR), 1);
+        assert_eq!(wal_sign::assigned_documents_count(&registry, SIGNER1), 1);
+        assert_eq!(wal_sign::assigned_documents_count(&registry, SIGNER2), 1);
         
         clock.destroy_for_testing();
         test_scenario::return_shared(registry);
@@ -146,9 +165,14 @@ fun test_create_document_with_single_signer() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             authorized_signers,
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -186,17 +210,22 @@ fun test_create_document_with_multiple_signers() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             authorized_signers,
+            vector[APPROVER, APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
         
         assert_eq!(wal_sign::get_total_documents(&registry), 1);
-        assert_eq!(wal_sign::get_assigned_documents(&registry, SIGNER1).length(), 1);
-        assert_eq!(wal_sign::get_assigned_documents(&registry, SIGNER2).length(), 1);
-        assert_eq!(wal_sign::get_assigned_documents(&registry, SIGNER3).length(), 1);
+        assert_eq!(wal_sign::assigned_documents_count(&registry, SIGNER1), 1);
+        assert_eq!(wal_sign::assigned_documents_count(&registry, SIGNER2), 1);
+        assert_eq!(wal_sign::assigned_documents_count(&registry, SIGNER3), 1);
         
         clock.destroy_for_testing();
         test_scenario::return_shared(registry);
@@ -240,9 +269,14 @@ fun test_create_multiple_documents() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(b"Document 1"),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -251,15 +285,153 @@ fun test_create_multiple_documents() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(b"walrus_blob_456"),
+            CONTENT_HASH,
             string::utf8(b"Document 2"),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER2],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
         
         assert_eq!(wal_sign::get_total_documents(&registry), 2);
-        assert_eq!(wal_sign::get_created_documents(&registry, CREATOR).length(), 2);
+        assert_eq!(wal_sign::created_documents_count(&registry, CREATOR), 2);
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+fun test_create_document_ignores_duplicate_signers() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2, SIGNER1],
+            vector[APPROVER, APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let registry = scenario.take_shared<DocumentRegistry>();
+        let document = scenario.take_shared<Document>();
+        
+        assert_eq!(wal_sign::get_authorized_signers(&document), vector[SIGNER1, SIGNER2]);
+        assert_eq!(wal_sign::assigned_documents_count(&registry, SIGNER1), 1);
+        assert_eq!(test_scenario::ids_for_sender<SignerCap>(&scenario).length(), 1);
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 3000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let document = scenario.take_shared<Document>();
+        assert_eq!(wal_sign::get_status(&document), 2); // completed by both unique signers
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_INVALID_SIGNER)]
+fun test_create_document_zero_address_signer() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, @0x0],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
         
         clock.destroy_for_testing();
         test_scenario::return_shared(registry);
@@ -286,9 +458,14 @@ fun test_sign_document_success() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -307,6 +484,8 @@ fun test_sign_document_success() {
         wal_sign::sign_document(
             &mut document,
             &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
             &clock,
             scenario.ctx(),
         );
@@ -339,9 +518,14 @@ fun test_sign_document_partial_completion() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -360,6 +544,8 @@ fun test_sign_document_partial_completion() {
         wal_sign::sign_document(
             &mut document,
             &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
             &clock,
             scenario.ctx(),
         );
@@ -384,6 +570,8 @@ fun test_sign_document_partial_completion() {
         wal_sign::sign_document(
             &mut document,
             &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
             &clock,
             scenario.ctx(),
         );
@@ -418,9 +606,14 @@ fun test_sign_document_already_signed() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -439,6 +632,8 @@ fun test_sign_document_already_signed() {
         wal_sign::sign_document(
             &mut document,
             &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
             &clock,
             scenario.ctx(),
         );
@@ -447,6 +642,8 @@ fun test_sign_document_already_signed() {
         wal_sign::sign_document(
             &mut document,
             &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
             &clock,
             scenario.ctx(),
         );
@@ -459,10 +656,10 @@ fun test_sign_document_already_signed() {
     scenario.end();
 }
 
-// ======== Issue Signer Capability Tests ========
+// ======== Sequential Signing Tests ========
 
 #[test]
-fun test_issue_signer_capability_success() {
+fun test_sequential_signing_in_order() {
     let mut scenario = test_scenario::begin(CREATOR);
     {
         wal_sign::init_for_testing(scenario.ctx());
@@ -477,9 +674,14 @@ fun test_issue_signer_capability_success() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
-            vector[SIGNER1],
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            true,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -488,37 +690,62 @@ fun test_issue_signer_capability_success() {
         test_scenario::return_shared(registry);
     };
     
-    scenario.next_tx(CREATOR);
+    scenario.next_tx(SIGNER1);
     {
-        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let cap = scenario.take_from_sender<SignerCap>();
         let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
         
-        wal_sign::issue_signer_capability(
-            &mut registry,
+        assert!(wal_sign::is_sequential(&document));
+        assert_eq!(wal_sign::get_next_signer(&document), option::some(SIGNER1));
+        
+        wal_sign::sign_document(
             &mut document,
-            SIGNER2,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
             scenario.ctx(),
         );
         
-        assert_eq!(wal_sign::get_assigned_documents(&registry, SIGNER2).length(), 1);
-        assert_eq!(wal_sign::get_authorized_signers(&document).length(), 2);
+        assert_eq!(wal_sign::get_next_signer(&document), option::some(SIGNER2));
         
-        test_scenario::return_shared(registry);
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
         test_scenario::return_shared(document);
     };
     
     scenario.next_tx(SIGNER2);
     {
         let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 3000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::get_status(&document), 2); // completed (2/2)
+        assert!(wal_sign::get_next_signer(&document).is_none());
+        
+        clock.destroy_for_testing();
         test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
     };
     
     scenario.end();
 }
 
 #[test]
-#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
-fun test_issue_signer_capability_not_creator() {
+#[expected_failure(abort_code = wal_sign::E_NOT_YOUR_TURN)]
+fun test_sequential_signing_out_of_order() {
     let mut scenario = test_scenario::begin(CREATOR);
     {
         wal_sign::init_for_testing(scenario.ctx());
@@ -533,9 +760,14 @@ fun test_issue_signer_capability_not_creator() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
-            vector[SIGNER1],
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            true,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -546,76 +778,3938 @@ fun test_issue_signer_capability_not_creator() {
     
     scenario.next_tx(SIGNER2);
     {
-        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let cap = scenario.take_from_sender<SignerCap>();
         let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
         
-        // SIGNER1 tries to issue capability - should fail
-        wal_sign::issue_signer_capability(
-            &mut registry,
+        // SIGNER2 tries to sign before SIGNER1 - should fail
+        wal_sign::sign_document(
             &mut document,
-            SIGNER2,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+fun test_get_next_signer_not_sequential() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let document = scenario.take_shared<Document>();
+        
+        assert!(!wal_sign::is_sequential(&document));
+        assert!(wal_sign::get_next_signer(&document).is_none());
+        
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+// ======== Threshold Tests ========
+
+#[test]
+fun test_threshold_completes_document() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2, SIGNER3],
+            vector[APPROVER, APPROVER, APPROVER],
+            false,
+            option::some(2),
+            option::none(),
+            &clock,
             scenario.ctx(),
         );
         
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::get_status(&document), 1); // partial (1/2)
+        assert_eq!(wal_sign::get_threshold(&document), option::some(2));
+        assert_eq!(wal_sign::get_required_signatures(&document), 2);
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 3000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::get_status(&document), 2); // completed (2 of 3)
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER3);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 4000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        // Remaining signers can still sign a completed document
+        assert_eq!(wal_sign::signatures_count(&document), 3);
+        assert_eq!(wal_sign::get_status(&document), 2);
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+fun test_threshold_capped_after_revoke() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::some(2),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        wal_sign::revoke_signer(
+            &mut registry,
+            &mut document,
+            SIGNER2,
+            scenario.ctx(),
+        );
+        
+        // Only one signer is left, so one signature is enough
+        assert_eq!(wal_sign::get_required_signatures(&document), 1);
+        assert_eq!(wal_sign::get_status(&document), 2);
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+fun test_revoke_signer_reopens_completed_document() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2, SIGNER3],
+            vector[APPROVER, APPROVER, APPROVER],
+            false,
+            option::some(2),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 3000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        assert_eq!(wal_sign::get_status(&document), 2);
+        
+        wal_sign::revoke_signer(
+            &mut registry,
+            &mut document,
+            SIGNER2,
+            scenario.ctx(),
+        );
+        
+        // SIGNER2's signature no longer counts, so 1 of 2 required remains
+        assert_eq!(wal_sign::get_required_signatures(&document), 2);
+        assert_eq!(wal_sign::get_status(&document), 1);
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_DOCUMENT_COMPLETED)]
+fun test_decline_completed_document() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2, SIGNER3],
+            vector[APPROVER, APPROVER, APPROVER],
+            false,
+            option::some(1),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 3000);
+        
+        wal_sign::decline_document(
+            &mut document,
+            &cap,
+            string::utf8(DECLINE_REASON),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_INVALID_THRESHOLD)]
+fun test_create_document_threshold_above_signers() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::some(3),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.end();
+}
+
+// ======== Role Tests ========
+
+#[test]
+fun test_viewer_can_decrypt_but_not_sign() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, VIEWER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let document = scenario.take_shared<Document>();
+        let encrypted_id = vector::empty<u8>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        // Viewers get no SignerCap but can still decrypt
+        assert!(!scenario.has_most_recent_for_sender<SignerCap>());
+        assert_eq!(wal_sign::get_role(&document, SIGNER2), option::some(VIEWER));
+        assert_eq!(wal_sign::get_required_signatures(&document), 1);
+        wal_sign::seal_approve(encrypted_id, &document, &clock, scenario.ctx());
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::get_status(&document), 2); // the only approver signed
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_ROLE_CANNOT_SIGN)]
+fun test_viewer_cannot_sign_with_old_cap() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        // Demote SIGNER2 to viewer, they keep the cap from before
+        wal_sign::revoke_signer(
+            &mut registry,
+            &mut document,
+            SIGNER2,
+            scenario.ctx(),
+        );
+        
+        wal_sign::issue_signer_capability(
+            &mut registry,
+            &mut document,
+            SIGNER2,
+            VIEWER,
+            scenario.ctx(),
+        );
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+fun test_witness_does_not_count_towards_completion() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2, SIGNER3],
+            vector[APPROVER, APPROVER, WITNESS],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER3);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 3000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::signatures_count(&document), 2);
+        assert_eq!(wal_sign::get_status(&document), 1); // still waiting for SIGNER2
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 4000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::get_status(&document), 2); // completed (2/2 approvers)
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOTHING_TO_WITNESS)]
+fun test_witness_signs_before_approver() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, WITNESS],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_INVALID_ROLE)]
+fun test_create_document_roles_mismatch() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.end();
+}
+
+// ======== Delegation Tests ========
+
+#[test]
+fun test_sign_as_delegate_success() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1500);
+        
+        wal_sign::delegate_signing(
+            &mut document,
+            &cap,
+            DELEGATE,
+            10000,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(DELEGATE);
+    {
+        let document = scenario.take_shared<Document>();
+        let encrypted_id = vector::empty<u8>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1800);
+        
+        // The delegate can decrypt the document to review it
+        assert!(wal_sign::is_delegate(&document, DELEGATE, &clock));
+        wal_sign::seal_approve(encrypted_id, &document, &clock, scenario.ctx());
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(DELEGATE);
+    {
+        let delegation = scenario.take_from_sender<Delegation>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_as_delegate(
+            &mut document,
+            &delegation,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        let signatures = wal_sign::get_signatures(&document);
+        let signature = signatures[0];
+        assert_eq!(wal_sign::signature_signer(&signature), SIGNER1);
+        assert_eq!(wal_sign::signature_delegate(&signature), option::some(DELEGATE));
+        assert!(wal_sign::has_signed(&document, SIGNER1));
+        assert_eq!(wal_sign::get_status(&document), 1); // partial (1/2)
+        
+        // The delegation is used up
+        assert!(wal_sign::get_delegations(&document).is_empty());
+        assert!(!wal_sign::is_delegate(&document, DELEGATE, &clock));
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, delegation);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_DELEGATION_EXPIRED)]
+fun test_sign_with_expired_delegation() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1500);
+        
+        wal_sign::delegate_signing(
+            &mut document,
+            &cap,
+            DELEGATE,
+            10000,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(DELEGATE);
+    {
+        let delegation = scenario.take_from_sender<Delegation>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 20000);
+        
+        wal_sign::sign_as_delegate(
+            &mut document,
+            &delegation,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, delegation);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_DELEGATION_REVOKED)]
+fun test_sign_with_revoked_delegation() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1500);
+        
+        wal_sign::delegate_signing(
+            &mut document,
+            &cap,
+            DELEGATE,
+            10000,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let mut document = scenario.take_shared<Document>();
+        let delegation_id = test_scenario::most_recent_id_for_address<Delegation>(DELEGATE).destroy_some();
+        
+        wal_sign::revoke_delegation(&mut document, delegation_id, scenario.ctx());
+        
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(DELEGATE);
+    {
+        let delegation = scenario.take_from_sender<Delegation>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_as_delegate(
+            &mut document,
+            &delegation,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, delegation);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
+fun test_revoke_delegation_not_principal() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1500);
+        
+        wal_sign::delegate_signing(
+            &mut document,
+            &cap,
+            DELEGATE,
+            10000,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let mut document = scenario.take_shared<Document>();
+        let delegation_id = test_scenario::most_recent_id_for_address<Delegation>(DELEGATE).destroy_some();
+        
+        wal_sign::revoke_delegation(&mut document, delegation_id, scenario.ctx());
+        
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
+fun test_sign_in_person_removes_delegation() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1500);
+        
+        wal_sign::delegate_signing(
+            &mut document,
+            &cap,
+            DELEGATE,
+            10000,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        // Signing in person removes the principal's delegation
+        assert!(wal_sign::get_delegations(&document).is_empty());
+        assert!(!wal_sign::is_delegate(&document, DELEGATE, &clock));
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(DELEGATE);
+    {
+        let document = scenario.take_shared<Document>();
+        let encrypted_id = vector::empty<u8>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2500);
+        
+        // The former delegate can no longer decrypt
+        wal_sign::seal_approve(encrypted_id, &document, &clock, scenario.ctx());
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
+fun test_seal_approve_expired_delegation() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1500);
+        
+        wal_sign::delegate_signing(
+            &mut document,
+            &cap,
+            DELEGATE,
+            10000,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(DELEGATE);
+    {
+        let document = scenario.take_shared<Document>();
+        let encrypted_id = vector::empty<u8>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 20000);
+        
+        // The delegation is still recorded but has expired
+        assert!(!wal_sign::get_delegations(&document).is_empty());
+        assert!(!wal_sign::is_delegate(&document, DELEGATE, &clock));
+        wal_sign::seal_approve(encrypted_id, &document, &clock, scenario.ctx());
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+// ======== Issue Signer Capability Tests ========
+
+#[test]
+fun test_issue_signer_capability_success() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        wal_sign::issue_signer_capability(
+            &mut registry,
+            &mut document,
+            SIGNER2,
+            APPROVER,
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::assigned_documents_count(&registry, SIGNER2), 1);
+        assert_eq!(wal_sign::get_authorized_signers(&document).length(), 2);
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        test_scenario::return_to_sender(&scenario, cap);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
+fun test_issue_signer_capability_not_creator() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        // SIGNER1 tries to issue capability - should fail
+        wal_sign::issue_signer_capability(
+            &mut registry,
+            &mut document,
+            SIGNER2,
+            APPROVER,
+            scenario.ctx(),
+        );
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_ALREADY_AUTHORIZED)]
+fun test_issue_signer_capability_duplicate() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        wal_sign::issue_signer_capability(
+            &mut registry,
+            &mut document,
+            SIGNER1,
+            APPROVER,
+            scenario.ctx(),
+        );
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_INVALID_SIGNER)]
+fun test_issue_signer_capability_zero_address() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        wal_sign::issue_signer_capability(
+            &mut registry,
+            &mut document,
+            @0x0,
+            APPROVER,
+            scenario.ctx(),
+        );
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+// ======== Update Blob ID Tests ========
+
+#[test]
+fun test_update_blob_id_success() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut document = scenario.take_shared<Document>();
+        
+        assert_eq!(wal_sign::get_walrus_blob_id(&document), string::utf8(WALRUS_BLOB_ID));
+        
+        wal_sign::update_blob_id(
+            &mut document,
+            string::utf8(NEW_WALRUS_BLOB_ID),
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::get_walrus_blob_id(&document), string::utf8(NEW_WALRUS_BLOB_ID));
+        
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
+fun test_update_blob_id_not_creator() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let mut document = scenario.take_shared<Document>();
+        
+        // SIGNER1 tries to update blob ID - should fail
+        wal_sign::update_blob_id(
+            &mut document,
+            string::utf8(NEW_WALRUS_BLOB_ID),
+            scenario.ctx(),
+        );
+        
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+fun test_update_fields_blob_id_success() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut document = scenario.take_shared<Document>();
+        
+        // No fields until the creator places some
+        assert_eq!(wal_sign::get_fields_blob_id(&document), string::utf8(b""));
+        
+        wal_sign::update_fields_blob_id(
+            &mut document,
+            string::utf8(NEW_WALRUS_BLOB_ID),
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::get_fields_blob_id(&document), string::utf8(NEW_WALRUS_BLOB_ID));
+        
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_ALREADY_SIGNED)]
+fun test_update_fields_blob_id_after_signing() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut document = scenario.take_shared<Document>();
+        
+        // Fields are fixed once someone has signed - should fail
+        wal_sign::update_fields_blob_id(
+            &mut document,
+            string::utf8(NEW_WALRUS_BLOB_ID),
+            scenario.ctx(),
+        );
+        
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+// ======== Signed Version Tests ========
+
+#[test]
+fun test_sign_document_records_signed_version() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let document = scenario.take_shared<Document>();
+        let signatures = wal_sign::get_signatures(&document);
+        
+        // The signature is tied to the version the signer uploaded
+        assert_eq!(signatures.length(), 1);
+        assert_eq!(wal_sign::signature_signer(&signatures[0]), SIGNER1);
+        assert_eq!(wal_sign::signature_blob_id(&signatures[0]), string::utf8(SIGNED_BLOB_ID));
+        assert_eq!(wal_sign::signature_blob_hash(&signatures[0]), SIGNED_HASH);
+        assert_eq!(wal_sign::get_signed_blob_hashes(&document), vector[SIGNED_HASH]);
+        
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+// ======== Deadline Tests ========
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_INVALID_DEADLINE)]
+fun test_create_document_with_past_deadline() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        // Deadline before the current time - should fail
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::some(500),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_DOCUMENT_EXPIRED)]
+fun test_sign_document_after_deadline() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::some(5000),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 6000);
+        
+        // Past the deadline - should fail
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+fun test_expire_and_extend_deadline() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::some(5000),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(UNAUTHORIZED);
+    {
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 6000);
+        
+        assert!(wal_sign::is_expired(&document, &clock));
+        
+        // Anyone can mark the document as expired after the deadline
+        wal_sign::expire_document(&mut document, &clock);
+        
+        assert_eq!(wal_sign::get_status(&document), 3); // expired
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 6000);
+        
+        wal_sign::extend_deadline(
+            &mut document,
+            10000,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::get_status(&document), 0); // pending again
+        assert_eq!(wal_sign::get_expires_at(&document), option::some(10000));
+        assert!(!wal_sign::is_expired(&document, &clock));
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 7000);
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::get_status(&document), 2); // completed (1/1)
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOT_EXPIRED)]
+fun test_expire_document_before_deadline() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::some(5000),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(UNAUTHORIZED);
+    {
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        // Deadline has not passed yet - should fail
+        wal_sign::expire_document(&mut document, &clock);
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_DOCUMENT_EXPIRED)]
+fun test_expire_document_twice() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::some(5000),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(UNAUTHORIZED);
+    {
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 6000);
+        
+        wal_sign::expire_document(&mut document, &clock);
+        assert_eq!(wal_sign::get_status(&document), 3);
+        
+        // Already marked as expired - should fail
+        wal_sign::expire_document(&mut document, &clock);
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
+fun test_extend_deadline_not_creator() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::some(5000),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
+        
+        // SIGNER1 tries to extend the deadline - should fail
+        wal_sign::extend_deadline(
+            &mut document,
+            10000,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+// ======== Decline Tests ========
+
+#[test]
+fun test_decline_document_success() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::decline_document(
+            &mut document,
+            &cap,
+            string::utf8(DECLINE_REASON),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let document = scenario.take_shared<Document>();
+        
+        assert_eq!(wal_sign::get_status(&document), 4); // declined
+        assert!(wal_sign::is_declined(&document));
+        
+        let decline = wal_sign::get_decline(&document).destroy_some();
+        assert_eq!(wal_sign::decline_signer(&decline), SIGNER1);
+        assert_eq!(wal_sign::decline_reason(&decline), string::utf8(DECLINE_REASON));
+        
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_DOCUMENT_DECLINED)]
+fun test_sign_declined_document() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::decline_document(
+            &mut document,
+            &cap,
+            string::utf8(DECLINE_REASON),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        // Document was declined - should fail
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_ALREADY_SIGNED)]
+fun test_decline_after_signing() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        // Signer already signed - should fail
+        wal_sign::decline_document(
+            &mut document,
+            &cap,
+            string::utf8(DECLINE_REASON),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+// ======== Void Tests ========
+
+#[test]
+fun test_void_document_success() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::void_document(
+            &mut document,
+            string::utf8(VOID_REASON),
+            true,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let document = scenario.take_shared<Document>();
+        
+        assert_eq!(wal_sign::get_status(&document), 5); // voided
+        assert!(wal_sign::is_voided(&document));
+        
+        let record = wal_sign::get_void_record(&document).destroy_some();
+        assert_eq!(wal_sign::void_reason(&record), string::utf8(VOID_REASON));
+        
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let document = scenario.take_shared<Document>();
+        let encrypted_id = vector::empty<u8>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        // Creator kept access - should succeed
+        wal_sign::seal_approve(encrypted_id, &document, &clock, scenario.ctx());
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
+fun test_void_document_not_creator() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        // Only the creator can void - should fail
+        wal_sign::void_document(
+            &mut document,
+            string::utf8(VOID_REASON),
+            true,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_DOCUMENT_VOIDED)]
+fun test_sign_voided_document() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::void_document(
+            &mut document,
+            string::utf8(VOID_REASON),
+            true,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        // Document was voided - should fail
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_DOCUMENT_VOIDED)]
+fun test_seal_approve_voided_signer() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::void_document(
+            &mut document,
+            string::utf8(VOID_REASON),
+            true,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let document = scenario.take_shared<Document>();
+        let encrypted_id = vector::empty<u8>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        // Signers lose access once voided - should fail
+        wal_sign::seal_approve(encrypted_id, &document, &clock, scenario.ctx());
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_DOCUMENT_VOIDED)]
+fun test_seal_approve_voided_creator_without_access() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::void_document(
+            &mut document,
+            string::utf8(VOID_REASON),
+            false,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let document = scenario.take_shared<Document>();
+        let encrypted_id = vector::empty<u8>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        // Creator gave up access - should fail
+        wal_sign::seal_approve(encrypted_id, &document, &clock, scenario.ctx());
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+// ======== Content Hash Tests ========
+
+#[test]
+fun test_content_hash_matches_versions() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let document = scenario.take_shared<Document>();
+        
+        assert_eq!(wal_sign::get_content_hash(&document), CONTENT_HASH);
+        assert_eq!(wal_sign::get_signed_blob_hashes(&document), vector[SIGNED_HASH]);
+        
+        // Both the original and the signed version match
+        assert!(wal_sign::matches_hash(&document, CONTENT_HASH));
+        assert!(wal_sign::matches_hash(&document, SIGNED_HASH));
+        assert!(!wal_sign::matches_hash(&document, OTHER_HASH));
+        
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_INVALID_HASH)]
+fun test_create_document_invalid_hash() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        // Hash is not 32 bytes - should fail
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            b"not a hash",
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.end();
+}
+
+// ======== Revoke Signer Tests ========
+
+#[test]
+fun test_revoke_signer_success() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        assert_eq!(wal_sign::get_authorized_signers(&document).length(), 2);
+        assert!(wal_sign::is_authorized(&document, SIGNER1));
+        
+        wal_sign::revoke_signer(
+            &mut registry,
+            &mut document,
+            SIGNER1,
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::get_authorized_signers(&document).length(), 1);
+        assert!(!wal_sign::is_authorized(&document, SIGNER1));
+        assert!(wal_sign::is_authorized(&document, SIGNER2));
+        assert!(wal_sign::is_revoked(&document, SIGNER1));
+        
+        // Registry no longer lists the document for the revoked signer
+        assert_eq!(wal_sign::assigned_documents_count(&registry, SIGNER1), 0);
+        assert_eq!(wal_sign::assigned_documents_count(&registry, SIGNER2), 1);
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
+fun test_revoke_signer_not_creator() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        // SIGNER1 tries to revoke SIGNER2 - should fail
+        wal_sign::revoke_signer(
+            &mut registry,
+            &mut document,
+            SIGNER2,
+            scenario.ctx(),
+        );
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_SIGNER_REVOKED)]
+fun test_revoked_signer_cannot_sign() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        wal_sign::revoke_signer(
+            &mut registry,
+            &mut document,
+            SIGNER1,
+            scenario.ctx(),
+        );
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        // Cap still matches the document, but the signer was revoked - should fail
+        wal_sign::sign_document(
+            &mut document,
+            &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_to_sender(&scenario, cap);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+fun test_burn_revoked_signer_cap() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        wal_sign::revoke_signer(
+            &mut registry,
+            &mut document,
+            SIGNER1,
+            scenario.ctx(),
+        );
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let cap = scenario.take_from_sender<SignerCap>();
+        wal_sign::burn_signer_cap(cap);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        assert!(!scenario.has_most_recent_for_sender<SignerCap>());
+    };
+    
+    scenario.end();
+}
+
+// ======== Ownership Transfer Tests ========
+
+#[test]
+fun test_transfer_ownership_success() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        wal_sign::propose_ownership_transfer(&mut registry, &mut document, SIGNER2, scenario.ctx());
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        assert_eq!(wal_sign::get_pending_creator(&document), option::some(SIGNER2));
+        let (offers, _) = wal_sign::get_incoming_transfers(&registry, SIGNER2, option::none(), 10);
+        assert_eq!(offers, vector[object::id(&document)]);
+        wal_sign::accept_ownership(&mut registry, &mut document, scenario.ctx());
+        
+        assert_eq!(wal_sign::get_creator(&document), SIGNER2);
+        assert!(wal_sign::get_pending_creator(&document).is_none());
+        let (offers, _) = wal_sign::get_incoming_transfers(&registry, SIGNER2, option::none(), 10);
+        assert!(offers.is_empty());
+        
+        // Registry lists the document under the new creator only
+        assert_eq!(wal_sign::created_documents_count(&registry, CREATOR), 0);
+        assert_eq!(wal_sign::created_documents_count(&registry, SIGNER2), 1);
+        
+        // The new creator can administer the document
+        wal_sign::update_blob_id(&mut document, string::utf8(NEW_WALRUS_BLOB_ID), scenario.ctx());
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+fun test_incoming_transfers_follow_proposals() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        let document_id = object::id(&document);
+        
+        wal_sign::propose_ownership_transfer(&mut registry, &mut document, SIGNER2, scenario.ctx());
+        let (offers, _) = wal_sign::get_incoming_transfers(&registry, SIGNER2, option::none(), 10);
+        assert_eq!(offers, vector[document_id]);
+        
+        // Proposing someone else withdraws the offer to SIGNER2
+        wal_sign::propose_ownership_transfer(&mut registry, &mut document, SIGNER3, scenario.ctx());
+        let (offers, _) = wal_sign::get_incoming_transfers(&registry, SIGNER2, option::none(), 10);
+        assert!(offers.is_empty());
+        let (offers, _) = wal_sign::get_incoming_transfers(&registry, SIGNER3, option::none(), 10);
+        assert_eq!(offers, vector[document_id]);
+        
+        wal_sign::cancel_ownership_transfer(&mut registry, &mut document, scenario.ctx());
+        let (offers, _) = wal_sign::get_incoming_transfers(&registry, SIGNER3, option::none(), 10);
+        assert!(offers.is_empty());
+        assert!(wal_sign::get_pending_creator(&document).is_none());
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NO_PENDING_TRANSFER)]
+fun test_accept_ownership_not_proposed() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        wal_sign::propose_ownership_transfer(&mut registry, &mut document, SIGNER2, scenario.ctx());
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(UNAUTHORIZED);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        // Only the proposed creator can accept - should fail
+        wal_sign::accept_ownership(&mut registry, &mut document, scenario.ctx());
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
+fun test_previous_creator_loses_admin_rights() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        wal_sign::propose_ownership_transfer(&mut registry, &mut document, SIGNER2, scenario.ctx());
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(SIGNER2);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        wal_sign::accept_ownership(&mut registry, &mut document, scenario.ctx());
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut document = scenario.take_shared<Document>();
+        
+        // CREATOR handed the document over - should fail
+        wal_sign::revoke_signer(&mut registry, &mut document, SIGNER1, scenario.ctx());
+        
+        test_scenario::return_shared(registry);
+        test_scenario::return_shared(document);
+    };
+    
+    scenario.end();
+}
+
+// ======== Organization Tests ========
+
+#[test]
+fun test_org_admin_administers_document() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    // CREATOR sets up the organization with SIGNER3 as a second admin
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        wal_sign::create_organization(&mut registry, string::utf8(b"Legal"), scenario.ctx());
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut organization = scenario.take_shared<Organization>();
+        wal_sign::add_org_member(&mut registry, &mut organization, SIGNER3, true, scenario.ctx());
+        wal_sign::add_org_member(&mut registry, &mut organization, UNAUTHORIZED, false, scenario.ctx());
+        test_scenario::return_shared(organization);
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let organization = scenario.take_shared<Organization>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_org_document(
+            &mut registry,
+            &organization,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(organization);
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER3);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let organization = scenario.take_shared<Organization>();
+        let mut document = scenario.take_shared<Document>();
+        
+        // Listed for every member
+        let org_id = object::id(&organization);
+        assert_eq!(wal_sign::get_organization(&document), option::some(org_id));
+        let (org_docs, _) = wal_sign::get_org_documents(&registry, org_id, option::none(), 10);
+        assert_eq!(org_docs.length(), 1);
+        let (orgs, _) = wal_sign::get_user_organizations(&registry, UNAUTHORIZED, option::none(), 10);
+        assert_eq!(orgs, vector[org_id]);
+        
+        // SIGNER3 is an admin but not the creator
+        wal_sign::org_revoke_signer(&mut registry, &organization, &mut document, SIGNER1, scenario.ctx());
+        assert!(wal_sign::is_revoked(&document, SIGNER1));
+        
+        test_scenario::return_shared(document);
+        test_scenario::return_shared(organization);
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
+fun test_org_member_cannot_void() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    // CREATOR sets up the organization with SIGNER3 as a second admin
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        wal_sign::create_organization(&mut registry, string::utf8(b"Legal"), scenario.ctx());
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut organization = scenario.take_shared<Organization>();
+        wal_sign::add_org_member(&mut registry, &mut organization, SIGNER3, true, scenario.ctx());
+        wal_sign::add_org_member(&mut registry, &mut organization, UNAUTHORIZED, false, scenario.ctx());
+        test_scenario::return_shared(organization);
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let organization = scenario.take_shared<Organization>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::create_org_document(
+            &mut registry,
+            &organization,
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(organization);
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(UNAUTHORIZED);
+    {
+        let organization = scenario.take_shared<Organization>();
+        let mut document = scenario.take_shared<Document>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        // UNAUTHORIZED is a member, not an admin - should fail
+        wal_sign::org_void_document(
+            &organization,
+            &mut document,
+            string::utf8(b"Not mine to void"),
+            false,
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(document);
+        test_scenario::return_shared(organization);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_LAST_ADMIN)]
+fun test_remove_last_org_admin() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        wal_sign::create_organization(&mut registry, string::utf8(b"Legal"), scenario.ctx());
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut organization = scenario.take_shared<Organization>();
+        
+        // An organization must keep an admin - should fail
+        wal_sign::remove_org_member(&mut registry, &mut organization, CREATOR, scenario.ctx());
+        
+        test_scenario::return_shared(organization);
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.end();
+}
+
+// ======== Template Tests ========
+
+#[test]
+fun test_instantiate_template_success() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_template(
+            &mut registry,
+            string::utf8(b"NDA"),
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            vector[string::utf8(b"Employee"), string::utf8(b"Manager")],
+            vector[APPROVER, APPROVER],
+            vector[0, 1],
+            vector[1, 1],
+            vector[100, 300],
+            vector[600, 600],
+            vector[200, 200],
+            vector[80, 80],
+            true,
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let template = scenario.take_shared<Template>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::instantiate_template(
+            &mut registry,
+            &template,
+            string::utf8(WALRUS_BLOB_ID),
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1, SIGNER2],
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(template);
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let registry = scenario.take_shared<DocumentRegistry>();
+        let template = scenario.take_shared<Template>();
+        let document = scenario.take_shared<Document>();
+        
+        let (templates, _) = wal_sign::get_user_templates(&registry, CREATOR, option::none(), 10);
+        assert_eq!(templates, vector[object::id(&template)]);
+        assert_eq!(wal_sign::template_fields(&template).length(), 2);
+        
+        // The document takes its settings from the template
+        assert_eq!(wal_sign::get_template(&document), option::some(object::id(&template)));
+        assert_eq!(wal_sign::get_authorized_signers(&document), vector[SIGNER1, SIGNER2]);
+        assert_eq!(wal_sign::get_slot_signers(&document), vector[SIGNER1, SIGNER2]);
+        assert_eq!(wal_sign::get_roles(&document), vector[APPROVER, APPROVER]);
+        assert_eq!(wal_sign::get_content_hash(&document), CONTENT_HASH);
+        assert!(wal_sign::is_sequential(&document));
+        
+        test_scenario::return_shared(document);
+        test_scenario::return_shared(template);
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_SLOT_MISMATCH)]
+fun test_instantiate_template_missing_slot() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_template(
+            &mut registry,
+            string::utf8(b"NDA"),
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            vector[string::utf8(b"Employee"), string::utf8(b"Manager")],
+            vector[APPROVER, APPROVER],
+            vector[0, 1],
+            vector[1, 1],
+            vector[100, 300],
+            vector[600, 600],
+            vector[200, 200],
+            vector[80, 80],
+            true,
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let template = scenario.take_shared<Template>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::instantiate_template(
+            &mut registry,
+            &template,
+            string::utf8(WALRUS_BLOB_ID),
+            string::utf8(DOCUMENT_TITLE),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(template);
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_INVALID_FIELD)]
+fun test_create_template_unknown_slot() {
+    let mut scenario = test_scenario::begin(CREATOR);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(CREATOR);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        wal_sign::create_template(
+            &mut registry,
+            string::utf8(b"NDA"),
+            string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            vector[string::utf8(b"Employee"), string::utf8(b"Manager")],
+            vector[APPROVER, APPROVER],
+            vector[2, 1],
+            vector[1, 1],
+            vector[100, 300],
+            vector[600, 600],
+            vector[200, 200],
+            vector[80, 80],
+            true,
+            option::none(),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.end();
+}
+
+// ======== Signature Library Tests ========
+
+#[test]
+fun test_signature_library_add_and_remove() {
+    let mut scenario = test_scenario::begin(SIGNER1);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        wal_sign::create_signature_library(&mut registry, scenario.ctx());
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let mut library = scenario.take_from_sender<SignatureLibrary>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 1000);
+        
+        wal_sign::add_library_entry(
+            &mut library,
+            wal_sign::entry_signature(),
+            string::utf8(b"Full signature"),
+            string::utf8(WALRUS_BLOB_ID),
+            &clock,
+            scenario.ctx(),
+        );
+        wal_sign::add_library_entry(
+            &mut library,
+            wal_sign::entry_initials(),
+            string::utf8(b"Initials"),
+            string::utf8(NEW_WALRUS_BLOB_ID),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        assert_eq!(wal_sign::library_owner(&library), SIGNER1);
+        assert_eq!(wal_sign::library_entries(&library).length(), 2);
+        
+        wal_sign::remove_library_entry(&mut library, 0, scenario.ctx());
+        
+        let entries = wal_sign::library_entries(&library);
+        assert_eq!(entries.length(), 1);
+        assert_eq!(wal_sign::entry_kind(&entries[0]), wal_sign::entry_initials());
+        assert_eq!(wal_sign::entry_blob_id(&entries[0]), string::utf8(NEW_WALRUS_BLOB_ID));
+        
+        // Only the owner can decrypt the saved images
+        wal_sign::seal_approve_library(vector::empty<u8>(), &library, scenario.ctx());
+        
+        clock.destroy_for_testing();
+        scenario.return_to_sender(library);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_INVALID_ENTRY)]
+fun test_signature_library_invalid_kind() {
+    let mut scenario = test_scenario::begin(SIGNER1);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        wal_sign::create_signature_library(&mut registry, scenario.ctx());
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let mut library = scenario.take_from_sender<SignatureLibrary>();
+        let clock = create_test_clock(scenario.ctx());
+        
+        // Should fail - kind 2 is neither a signature nor initials
+        wal_sign::add_library_entry(
+            &mut library,
+            2,
+            string::utf8(b"Stamp"),
+            string::utf8(WALRUS_BLOB_ID),
+            &clock,
+            scenario.ctx(),
+        );
+        
+        clock.destroy_for_testing();
+        scenario.return_to_sender(library);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
+fun test_seal_approve_library_not_owner() {
+    let mut scenario = test_scenario::begin(SIGNER1);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        wal_sign::create_signature_library(&mut registry, scenario.ctx());
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(UNAUTHORIZED);
+    {
+        let library = scenario.take_from_address<SignatureLibrary>(SIGNER1);
+        
+        // Should fail - only the owner can decrypt the saved images
+        wal_sign::seal_approve_library(vector::empty<u8>(), &library, scenario.ctx());
+        
+        test_scenario::return_to_address(SIGNER1, library);
+    };
+    
+    scenario.end();
+}
+
+#[test]
+#[expected_failure(abort_code = wal_sign::E_LIBRARY_EXISTS)]
+fun test_signature_library_one_per_owner() {
+    let mut scenario = test_scenario::begin(SIGNER1);
+    {
+        wal_sign::init_for_testing(scenario.ctx());
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        wal_sign::create_signature_library(&mut registry, scenario.ctx());
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(SIGNER1);
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        
+        // Should fail - SIGNER1 already has a library
+        wal_sign::create_signature_library(&mut registry, scenario.ctx());
+        
         test_scenario::return_shared(registry);
-        test_scenario::return_shared(document);
     };
     
     scenario.end();
 }
 
-// ======== Update Blob ID Tests ========
-
 #[test]
-fun test_update_blob_id_success() {
-    let mut scenario = test_scenario::begin(CREATOR);
+fun test_delete_signature_library() {
+    let mut scenario = test_scenario::begin(SIGNER1);
     {
         wal_sign::init_for_testing(scenario.ctx());
     };
     
-    scenario.next_tx(CREATOR);
+    scenario.next_tx(SIGNER1);
     {
         let mut registry = scenario.take_shared<DocumentRegistry>();
-        let mut clock = create_test_clock(scenario.ctx());
-        set_clock_time(&mut clock, 1000);
-        
-        wal_sign::create_document(
-            &mut registry,
-            string::utf8(WALRUS_BLOB_ID),
-            string::utf8(DOCUMENT_TITLE),
-            string::utf8(DOCUMENT_DESCRIPTION),
-            vector[SIGNER1],
-            &clock,
-            scenario.ctx(),
-        );
-        
-        clock.destroy_for_testing();
+        wal_sign::create_signature_library(&mut registry, scenario.ctx());
         test_scenario::return_shared(registry);
     };
     
-    scenario.next_tx(CREATOR);
+    scenario.next_tx(SIGNER1);
     {
-        let mut document = scenario.take_shared<Document>();
-        
-        assert_eq!(wal_sign::get_walrus_blob_id(&document), string::utf8(WALRUS_BLOB_ID));
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let library = scenario.take_from_sender<SignatureLibrary>();
+        assert_eq!(wal_sign::get_signature_library(&registry, SIGNER1), option::some(object::id(&library)));
         
-        wal_sign::update_blob_id(
-            &mut document,
-            string::utf8(NEW_WALRUS_BLOB_ID),
-            scenario.ctx(),
-        );
+        wal_sign::delete_signature_library(&mut registry, library, scenario.ctx());
+        assert!(wal_sign::get_signature_library(&registry, SIGNER1).is_none());
         
-        assert_eq!(wal_sign::get_walrus_blob_id(&document), string::utf8(NEW_WALRUS_BLOB_ID));
+        // The owner can start over with a new library
+        wal_sign::create_signature_library(&mut registry, scenario.ctx());
         
-        test_scenario::return_shared(document);
+        test_scenario::return_shared(registry);
     };
     
     scenario.end();
 }
 
+// ======== Seal Approve Tests ========
+
 #[test]
-#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
-fun test_update_blob_id_not_creator() {
+fun test_seal_approve_creator() {
     let mut scenario = test_scenario::begin(CREATOR);
     {
         wal_sign::init_for_testing(scenario.ctx());
@@ -630,9 +4724,14 @@ fun test_update_blob_id_not_creator() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -641,27 +4740,24 @@ fun test_update_blob_id_not_creator() {
         test_scenario::return_shared(registry);
     };
     
-    scenario.next_tx(SIGNER1);
+    scenario.next_tx(CREATOR);
     {
-        let mut document = scenario.take_shared<Document>();
+        let document = scenario.take_shared<Document>();
+        let encrypted_id = vector::empty<u8>();
+        let clock = create_test_clock(scenario.ctx());
         
-        // SIGNER1 tries to update blob ID - should fail
-        wal_sign::update_blob_id(
-            &mut document,
-            string::utf8(NEW_WALRUS_BLOB_ID),
-            scenario.ctx(),
-        );
+        // Creator should be able to approve
+        wal_sign::seal_approve(encrypted_id, &document, &clock, scenario.ctx());
         
+        clock.destroy_for_testing();
         test_scenario::return_shared(document);
     };
     
     scenario.end();
 }
 
-// ======== Update Signed Blob ID Tests ========
-
 #[test]
-fun test_update_signed_blob_id_success() {
+fun test_seal_approve_authorized_signer() {
     let mut scenario = test_scenario::begin(CREATOR);
     {
         wal_sign::init_for_testing(scenario.ctx());
@@ -676,9 +4772,14 @@ fun test_update_signed_blob_id_success() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -689,27 +4790,23 @@ fun test_update_signed_blob_id_success() {
     
     scenario.next_tx(SIGNER1);
     {
-        let cap = scenario.take_from_sender<SignerCap>();
-        let mut document = scenario.take_shared<Document>();
+        let document = scenario.take_shared<Document>();
+        let encrypted_id = vector::empty<u8>();
+        let clock = create_test_clock(scenario.ctx());
         
-        wal_sign::update_signed_blob_id(
-            &cap,
-            &mut document,
-            string::utf8(SIGNED_BLOB_ID),
-            scenario.ctx(),
-        );
+        // Authorized signer should be able to approve
+        wal_sign::seal_approve(encrypted_id, &document, &clock, scenario.ctx());
         
-        test_scenario::return_to_sender(&scenario, cap);
+        clock.destroy_for_testing();
         test_scenario::return_shared(document);
     };
     
     scenario.end();
 }
 
-// ======== Revoke Signer Tests ========
-
 #[test]
-fun test_revoke_signer_success() {
+#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
+fun test_seal_approve_unauthorized() {
     let mut scenario = test_scenario::begin(CREATOR);
     {
         wal_sign::init_for_testing(scenario.ctx());
@@ -724,9 +4821,14 @@ fun test_revoke_signer_success() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
-            vector[SIGNER1, SIGNER2],
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -735,32 +4837,26 @@ fun test_revoke_signer_success() {
         test_scenario::return_shared(registry);
     };
     
-    scenario.next_tx(CREATOR);
+    scenario.next_tx(UNAUTHORIZED);
     {
-        let mut document = scenario.take_shared<Document>();
-        
-        assert_eq!(wal_sign::get_authorized_signers(&document).length(), 2);
-        assert!(wal_sign::is_authorized(&document, SIGNER1));
-        
-        wal_sign::revoke_signer(
-            &mut document,
-            SIGNER1,
-            scenario.ctx(),
-        );
+        let document = scenario.take_shared<Document>();
+        let encrypted_id = vector::empty<u8>();
+        let clock = create_test_clock(scenario.ctx());
         
-        assert_eq!(wal_sign::get_authorized_signers(&document).length(), 1);
-        assert!(!wal_sign::is_authorized(&document, SIGNER1));
-        assert!(wal_sign::is_authorized(&document, SIGNER2));
+        // Unauthorized user tries to approve - should fail
+        wal_sign::seal_approve(encrypted_id, &document, &clock, scenario.ctx());
         
+        clock.destroy_for_testing();
         test_scenario::return_shared(document);
     };
     
     scenario.end();
 }
 
+// ======== View Function Tests ========
+
 #[test]
-#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
-fun test_revoke_signer_not_creator() {
+fun test_get_created_documents() {
     let mut scenario = test_scenario::begin(CREATOR);
     {
         wal_sign::init_for_testing(scenario.ctx());
@@ -775,38 +4871,47 @@ fun test_revoke_signer_not_creator() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
-            string::utf8(DOCUMENT_TITLE),
+            CONTENT_HASH,
+            string::utf8(b"Document 1"),
             string::utf8(DOCUMENT_DESCRIPTION),
-            vector[SIGNER1, SIGNER2],
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
         
-        clock.destroy_for_testing();
-        test_scenario::return_shared(registry);
-    };
-    
-    scenario.next_tx(SIGNER1);
-    {
-        let mut document = scenario.take_shared<Document>();
-        
-        // SIGNER1 tries to revoke SIGNER2 - should fail
-        wal_sign::revoke_signer(
-            &mut document,
-            SIGNER2,
+        wal_sign::create_document(
+            &mut registry,
+            string::utf8(b"walrus_blob_456"),
+            CONTENT_HASH,
+            string::utf8(b"Document 2"),
+            string::utf8(DOCUMENT_DESCRIPTION),
+            vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
+            &clock,
             scenario.ctx(),
         );
         
-        test_scenario::return_shared(document);
+        let (created_docs, next) = wal_sign::get_created_documents(&registry, CREATOR, option::none(), 10);
+        assert_eq!(created_docs.length(), 2);
+        assert!(next.is_none());
+        assert_eq!(wal_sign::created_documents_count(&registry, CREATOR), 2);
+        
+        clock.destroy_for_testing();
+        test_scenario::return_shared(registry);
     };
     
     scenario.end();
 }
 
-// ======== Seal Approve Tests ========
-
 #[test]
-fun test_seal_approve_creator() {
+fun test_get_created_documents_pages_newest_first() {
     let mut scenario = test_scenario::begin(CREATOR);
     {
         wal_sign::init_for_testing(scenario.ctx());
@@ -815,15 +4920,19 @@ fun test_seal_approve_creator() {
     scenario.next_tx(CREATOR);
     {
         let mut registry = scenario.take_shared<DocumentRegistry>();
-        let mut clock = create_test_clock(scenario.ctx());
-        set_clock_time(&mut clock, 1000);
+        let clock = create_test_clock(scenario.ctx());
         
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
-            string::utf8(DOCUMENT_TITLE),
+            CONTENT_HASH,
+            string::utf8(b"Document 1"),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -833,38 +4942,29 @@ fun test_seal_approve_creator() {
     };
     
     scenario.next_tx(CREATOR);
-    {
+    let first_id = {
         let document = scenario.take_shared<Document>();
-        let encrypted_id = vector::empty<u8>();
-        
-        // Creator should be able to approve
-        wal_sign::seal_approve(encrypted_id, &document, scenario.ctx());
-        
+        let id = object::id(&document);
         test_scenario::return_shared(document);
-    };
-    
-    scenario.end();
-}
-
-#[test]
-fun test_seal_approve_authorized_signer() {
-    let mut scenario = test_scenario::begin(CREATOR);
-    {
-        wal_sign::init_for_testing(scenario.ctx());
+        id
     };
     
     scenario.next_tx(CREATOR);
     {
         let mut registry = scenario.take_shared<DocumentRegistry>();
-        let mut clock = create_test_clock(scenario.ctx());
-        set_clock_time(&mut clock, 1000);
+        let clock = create_test_clock(scenario.ctx());
         
         wal_sign::create_document(
             &mut registry,
-            string::utf8(WALRUS_BLOB_ID),
-            string::utf8(DOCUMENT_TITLE),
+            string::utf8(NEW_WALRUS_BLOB_ID),
+            CONTENT_HASH,
+            string::utf8(b"Document 2"),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -873,23 +4973,32 @@ fun test_seal_approve_authorized_signer() {
         test_scenario::return_shared(registry);
     };
     
-    scenario.next_tx(SIGNER1);
+    scenario.next_tx(CREATOR);
     {
-        let document = scenario.take_shared<Document>();
-        let encrypted_id = vector::empty<u8>();
+        let registry = scenario.take_shared<DocumentRegistry>();
+        let second_id = *test_scenario::most_recent_id_shared<Document>().borrow();
         
-        // Authorized signer should be able to approve
-        wal_sign::seal_approve(encrypted_id, &document, scenario.ctx());
+        // First page holds the newest document and points at the older one
+        let (page, next) = wal_sign::get_created_documents(&registry, CREATOR, option::none(), 1);
+        assert_eq!(page, vector[second_id]);
+        assert_eq!(next, option::some(first_id));
         
-        test_scenario::return_shared(document);
+        let (page, next) = wal_sign::get_created_documents(&registry, CREATOR, next, 1);
+        assert_eq!(page, vector[first_id]);
+        assert!(next.is_none());
+        
+        let (page, _) = wal_sign::get_assigned_documents(&registry, SIGNER1, option::none(), 10);
+        assert_eq!(page, vector[second_id, first_id]);
+        
+        test_scenario::return_shared(registry);
     };
     
     scenario.end();
 }
 
 #[test]
-#[expected_failure(abort_code = wal_sign::E_NOT_AUTHORIZED)]
-fun test_seal_approve_unauthorized() {
+#[expected_failure(abort_code = wal_sign::E_INVALID_CURSOR)]
+fun test_get_created_documents_unknown_cursor() {
     let mut scenario = test_scenario::begin(CREATOR);
     {
         wal_sign::init_for_testing(scenario.ctx());
@@ -898,41 +5007,34 @@ fun test_seal_approve_unauthorized() {
     scenario.next_tx(CREATOR);
     {
         let mut registry = scenario.take_shared<DocumentRegistry>();
-        let mut clock = create_test_clock(scenario.ctx());
-        set_clock_time(&mut clock, 1000);
+        let clock = create_test_clock(scenario.ctx());
         
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
         
+        wal_sign::get_created_documents(&registry, CREATOR, option::some(object::id_from_address(@0x1)), 10);
+        
         clock.destroy_for_testing();
         test_scenario::return_shared(registry);
     };
     
-    scenario.next_tx(UNAUTHORIZED);
-    {
-        let document = scenario.take_shared<Document>();
-        let encrypted_id = vector::empty<u8>();
-        
-        // Unauthorized user tries to approve - should fail
-        wal_sign::seal_approve(encrypted_id, &document, scenario.ctx());
-        
-        test_scenario::return_shared(document);
-    };
-    
     scenario.end();
 }
 
-// ======== View Function Tests ========
-
 #[test]
-fun test_get_created_documents() {
+fun test_get_user_organizations_pages_and_unlists() {
     let mut scenario = test_scenario::begin(CREATOR);
     {
         wal_sign::init_for_testing(scenario.ctx());
@@ -941,33 +5043,42 @@ fun test_get_created_documents() {
     scenario.next_tx(CREATOR);
     {
         let mut registry = scenario.take_shared<DocumentRegistry>();
-        let mut clock = create_test_clock(scenario.ctx());
-        set_clock_time(&mut clock, 1000);
-        
-        wal_sign::create_document(
-            &mut registry,
-            string::utf8(WALRUS_BLOB_ID),
-            string::utf8(b"Document 1"),
-            string::utf8(DOCUMENT_DESCRIPTION),
-            vector[SIGNER1],
-            &clock,
-            scenario.ctx(),
-        );
-        
-        wal_sign::create_document(
-            &mut registry,
-            string::utf8(b"walrus_blob_456"),
-            string::utf8(b"Document 2"),
-            string::utf8(DOCUMENT_DESCRIPTION),
-            vector[SIGNER1],
-            &clock,
-            scenario.ctx(),
-        );
-        
-        let created_docs = wal_sign::get_created_documents(&registry, CREATOR);
-        assert_eq!(created_docs.length(), 2);
-        
-        clock.destroy_for_testing();
+        wal_sign::create_organization(&mut registry, string::utf8(b"Legal"), scenario.ctx());
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    let first_id = *test_scenario::most_recent_id_shared<Organization>().borrow();
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        wal_sign::create_organization(&mut registry, string::utf8(b"Finance"), scenario.ctx());
+        test_scenario::return_shared(registry);
+    };
+    
+    scenario.next_tx(CREATOR);
+    let second_id = *test_scenario::most_recent_id_shared<Organization>().borrow();
+    {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
+        let mut first = scenario.take_shared_by_id<Organization>(first_id);
+        let mut second = scenario.take_shared_by_id<Organization>(second_id);
+        wal_sign::add_org_member(&mut registry, &mut first, SIGNER1, false, scenario.ctx());
+        wal_sign::add_org_member(&mut registry, &mut second, SIGNER1, false, scenario.ctx());
+        
+        // Newest membership first, one page at a time
+        let (page, next) = wal_sign::get_user_organizations(&registry, SIGNER1, option::none(), 1);
+        assert_eq!(page, vector[second_id]);
+        assert_eq!(next, option::some(first_id));
+        let (page, next) = wal_sign::get_user_organizations(&registry, SIGNER1, next, 1);
+        assert_eq!(page, vector[first_id]);
+        assert!(next.is_none());
+        
+        // Removed members no longer list the organization
+        wal_sign::remove_org_member(&mut registry, &mut first, SIGNER1, scenario.ctx());
+        let (page, _) = wal_sign::get_user_organizations(&registry, SIGNER1, option::none(), 10);
+        assert_eq!(page, vector[second_id]);
+        
+        test_scenario::return_shared(second);
+        test_scenario::return_shared(first);
         test_scenario::return_shared(registry);
     };
     
@@ -990,15 +5101,20 @@ fun test_get_assigned_documents() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
         
-        let assigned_docs_signer1 = wal_sign::get_assigned_documents(&registry, SIGNER1);
-        let assigned_docs_signer2 = wal_sign::get_assigned_documents(&registry, SIGNER2);
+        let (assigned_docs_signer1, _) = wal_sign::get_assigned_documents(&registry, SIGNER1, option::none(), 10);
+        let (assigned_docs_signer2, _) = wal_sign::get_assigned_documents(&registry, SIGNER2, option::none(), 10);
         
         assert_eq!(assigned_docs_signer1.length(), 1);
         assert_eq!(assigned_docs_signer2.length(), 1);
@@ -1026,9 +5142,14 @@ fun test_get_document_properties() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1],
+            vector[APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -1070,9 +5191,14 @@ fun test_has_signed() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -1094,6 +5220,8 @@ fun test_has_signed() {
         wal_sign::sign_document(
             &mut document,
             &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
             &clock,
             scenario.ctx(),
         );
@@ -1125,9 +5253,14 @@ fun test_is_authorized() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -1166,9 +5299,14 @@ fun test_get_signatures() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -1187,6 +5325,8 @@ fun test_get_signatures() {
         wal_sign::sign_document(
             &mut document,
             &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
             &clock,
             scenario.ctx(),
         );
@@ -1220,9 +5360,14 @@ fun test_create_document_with_empty_signers() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector::empty<address>(),
+            vector::empty<u8>(),
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -1262,9 +5407,14 @@ fun test_multiple_signers_complete_document() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1, SIGNER2, SIGNER3],
+            vector[APPROVER, APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -1283,6 +5433,8 @@ fun test_multiple_signers_complete_document() {
         wal_sign::sign_document(
             &mut document,
             &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
             &clock,
             scenario.ctx(),
         );
@@ -1304,6 +5456,8 @@ fun test_multiple_signers_complete_document() {
         wal_sign::sign_document(
             &mut document,
             &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
             &clock,
             scenario.ctx(),
         );
@@ -1325,6 +5479,8 @@ fun test_multiple_signers_complete_document() {
         wal_sign::sign_document(
             &mut document,
             &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
             &clock,
             scenario.ctx(),
         );
@@ -1356,9 +5512,14 @@ fun test_revoke_signer_after_signing() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -1377,6 +5538,8 @@ fun test_revoke_signer_after_signing() {
         wal_sign::sign_document(
             &mut document,
             &cap,
+            string::utf8(SIGNED_BLOB_ID),
+            SIGNED_HASH,
             &clock,
             scenario.ctx(),
         );
@@ -1388,10 +5551,12 @@ fun test_revoke_signer_after_signing() {
     
     scenario.next_tx(CREATOR);
     {
+        let mut registry = scenario.take_shared<DocumentRegistry>();
         let mut document = scenario.take_shared<Document>();
         
         // Revoke SIGNER2 after SIGNER1 has already signed
         wal_sign::revoke_signer(
+            &mut registry,
             &mut document,
             SIGNER2,
             scenario.ctx(),
@@ -1402,6 +5567,7 @@ fun test_revoke_signer_after_signing() {
         assert!(wal_sign::has_signed(&document, SIGNER1));
         assert!(!wal_sign::is_authorized(&document, SIGNER2));
         
+        test_scenario::return_shared(registry);
         test_scenario::return_shared(document);
     };
     
@@ -1409,7 +5575,7 @@ fun test_revoke_signer_after_signing() {
 }
 
 #[test]
-fun test_update_signed_blob_id_multiple_times() {
+fun test_sign_document_records_each_version() {
     let mut scenario = test_scenario::begin(CREATOR);
     {
         wal_sign::init_for_testing(scenario.ctx());
@@ -1424,9 +5590,14 @@ fun test_update_signed_blob_id_multiple_times() {
         wal_sign::create_document(
             &mut registry,
             string::utf8(WALRUS_BLOB_ID),
+            CONTENT_HASH,
             string::utf8(DOCUMENT_TITLE),
             string::utf8(DOCUMENT_DESCRIPTION),
             vector[SIGNER1, SIGNER2],
+            vector[APPROVER, APPROVER],
+            false,
+            option::none(),
+            option::none(),
             &clock,
             scenario.ctx(),
         );
@@ -1439,14 +5610,19 @@ fun test_update_signed_blob_id_multiple_times() {
     {
         let cap = scenario.take_from_sender<SignerCap>();
         let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
         
-        wal_sign::update_signed_blob_id(
-            &cap,
+        wal_sign::sign_document(
             &mut document,
+            &cap,
             string::utf8(b"signed_blob_1"),
+            SIGNED_HASH,
+            &clock,
             scenario.ctx(),
         );
         
+        clock.destroy_for_testing();
         test_scenario::return_to_sender(&scenario, cap);
         test_scenario::return_shared(document);
     };
@@ -1455,18 +5631,36 @@ fun test_update_signed_blob_id_multiple_times() {
     {
         let cap = scenario.take_from_sender<SignerCap>();
         let mut document = scenario.take_shared<Document>();
+        let mut clock = create_test_clock(scenario.ctx());
+        set_clock_time(&mut clock, 2000);
         
-        wal_sign::update_signed_blob_id(
-            &cap,
+        wal_sign::sign_document(
             &mut document,
+            &cap,
             string::utf8(b"signed_blob_2"),
+            SIGNED_HASH,
+            &clock,
             scenario.ctx(),
         );
         
+        clock.destroy_for_testing();
         test_scenario::return_to_sender(&scenario, cap);
         test_scenario::return_shared(document);
     };
     
+    scenario.next_tx(CREATOR);
+    {
+        let document = scenario.take_shared<Document>();
+        let signatures = wal_sign::get_signatures(&document);
+        
+        // Each signer stamped their own version
+        assert_eq!(wal_sign::signature_blob_id(&signatures[0]), string::utf8(b"signed_blob_1"));
+        assert_eq!(wal_sign::signature_blob_id(&signatures[1]), string::utf8(b"signed_blob_2"));
+        assert_eq!(wal_sign::get_status(&document), 2);
+        
+        test_scenario::return_shared(document);
+    };
+    
     scenario.end();
 }
 
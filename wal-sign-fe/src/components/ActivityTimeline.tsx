@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Ban,
+  CalendarPlus,
+  CheckCircle,
+  ExternalLink,
+  FileEdit,
+  FilePlus,
+  History,
+  Loader,
+  RefreshCw,
+  TimerOff,
+  Undo2,
+  UserCheck,
+  UserMinus,
+  UserPlus,
+  UserX,
+  XCircle,
+} from 'lucide-react';
+import { Card, CardBody, CardHeader } from './ui/Card';
+import { DocumentSummary, ROLE_LABELS } from 'walsign-sdk';
+import { ActivityKind, DocumentActivity, getDocumentActivity } from '../services/activityService';
+import { formatAddress, getExplorerTxUrl } from '../utils/addressUtils';
+import { suiClient } from '../config/seal.config';
+
+interface ActivityTimelineProps {
+  document: DocumentSummary;
+}
+
+const icons: Record<ActivityKind, React.ReactNode> = {
+  created: <FilePlus className="w-4 h-4 text-primary" />,
+  signer_added: <UserPlus className="w-4 h-4 text-blue-600" />,
+  blob_updated: <RefreshCw className="w-4 h-4 text-gray-600" />,
+  fields_updated: <FileEdit className="w-4 h-4 text-gray-600" />,
+  signed: <CheckCircle className="w-4 h-4 text-green-600" />,
+  declined: <XCircle className="w-4 h-4 text-red-600" />,
+  revoked: <UserMinus className="w-4 h-4 text-red-600" />,
+  delegated: <UserCheck className="w-4 h-4 text-blue-600" />,
+  delegation_revoked: <UserX className="w-4 h-4 text-gray-600" />,
+  voided: <Ban className="w-4 h-4 text-gray-700" />,
+  deadline_extended: <CalendarPlus className="w-4 h-4 text-blue-600" />,
+  expired: <TimerOff className="w-4 h-4 text-orange-600" />,
+  transfer_proposed: <UserCheck className="w-4 h-4 text-gray-600" />,
+  transfer_cancelled: <Undo2 className="w-4 h-4 text-gray-600" />,
+  transferred: <UserCheck className="w-4 h-4 text-green-600" />,
+};
+
+const describe = (entry: DocumentActivity): string => {
+  const actor = formatAddress(entry.actor);
+  const subject = entry.subject ? formatAddress(entry.subject) : '';
+
+  switch (entry.kind) {
+    case 'created':
+      return `${actor} created the document`;
+    case 'signer_added':
+      return `${actor} added ${subject}${entry.role !== null ? ` as ${ROLE_LABELS[entry.role]}` : ''}`;
+    case 'blob_updated':
+      return `${actor} replaced the document file`;
+    case 'fields_updated':
+      return `${actor} updated the fields to fill in`;
+    case 'signed':
+      return entry.subject ? `${actor} signed on behalf of ${subject}` : `${actor} signed`;
+    case 'declined':
+      return `${actor} declined${entry.reason ? `: "${entry.reason}"` : ''}`;
+    case 'revoked':
+      return `${actor} revoked ${subject}`;
+    case 'delegated':
+      return `${actor} delegated signing to ${subject}`;
+    case 'delegation_revoked':
+      return `${actor} withdrew the delegation to ${subject}`;
+    case 'voided':
+      return `${actor} voided the document${entry.reason ? `: "${entry.reason}"` : ''}`;
+    case 'deadline_extended':
+      return `${actor} extended the deadline${entry.expiresAt !== null ? ` to ${new Date(entry.expiresAt).toLocaleString()}` : ''}`;
+    case 'expired':
+      return `${actor} marked the document as expired`;
+    case 'transfer_proposed':
+      return `${actor} proposed handing the document over to ${subject}`;
+    case 'transfer_cancelled':
+      return `${actor} withdrew the handover to ${subject}`;
+    case 'transferred':
+      return `${actor} took over the document from ${subject}`;
+  }
+};
+
+/**
+ * Shows everything that happened to a document, read from the contract's
+ * events, with a link to each transaction
+ */
+export const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ document }) => {
+  const [activity, setActivity] = useState<DocumentActivity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the page fetches the document again, e.g. after signing
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getDocumentActivity(suiClient, document.documentId)
+      .then((entries) => {
+        if (!cancelled) setActivity(entries);
+      })
+      .catch((err) => {
+        console.error('Error fetching document activity:', err);
+        if (!cancelled) setError('Failed to load activity');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [document]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <History className="w-6 h-6 text-primary" />
+          <h3 className="text-xl font-semibold">Activity</h3>
+        </div>
+      </CardHeader>
+      <CardBody>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader className="w-6 h-6 text-blue-600 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : activity.length === 0 ? (
+          <p className="text-sm text-gray-500">No activity found for this document.</p>
+        ) : (
+          <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+            {activity.map((entry) => (
+              <li key={`${entry.txDigest}-${entry.kind}-${entry.subject ?? entry.actor}`} className="ml-6">
+                <span className="absolute -left-[13px] flex items-center justify-center w-6 h-6 rounded-full bg-white border-2 border-gray-200">
+                  {icons[entry.kind]}
+                </span>
+                <p className="text-sm text-gray-900">{describe(entry)}</p>
+                <div className="flex flex-wrap items-center gap-x-3 text-xs text-gray-500">
+                  <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                  <a
+                    href={getExplorerTxUrl(entry.txDigest)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-primary hover:underline"
+                  >
+                    {entry.txDigest.slice(0, 10)}...
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardBody>
+    </Card>
+  );
+};
@@ -1,14 +1,14 @@
 import React, { useState } from 'react';
-import { X, UserPlus, CheckCircle, Loader } from 'lucide-react';
+import { X, UserPlus, UserMinus, CheckCircle, Loader } from 'lucide-react';
 import { Modal } from './ui/Modal';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
-import { DocumentSummary } from '../services/registryService';
+import { DocumentSummary, ParticipantRole, ROLE_LABELS, getRole } from 'walsign-sdk';
+import { RoleBadge } from './RoleBadge';
 import { formatAddress } from '../utils/addressUtils';
 import { isValidSuiAddress } from '@mysten/sui/utils';
-import { PACKAGE_ID, REGISTRY_OBJECT_ID } from '../config/seal.config';
-import { useSignAndExecuteTransactionBlock } from '@mysten/dapp-kit';
-import { Transaction } from '@mysten/sui/transactions';
+import { useWalSignClient } from '../hooks/useWalSignClient';
+import { useCurrentAccount } from '@mysten/dapp-kit';
 
 interface AddParticipantsModalProps {
   isOpen: boolean;
@@ -23,6 +23,9 @@ const AddParticipantsModal: React.FC<AddParticipantsModalProps> = ({
   document,
   onSuccess,
 }) => {
+  const currentAccount = useCurrentAccount();
+  // Organization admins who did not create the document go through the org_ variants
+  const asOrgAdmin = !!document.organization && currentAccount?.address !== document.creator;
   console.log('=== ADD PARTICIPANTS MODAL RENDERED ===');
   console.log('isOpen:', isOpen);
   console.log('document:', document);
@@ -31,9 +34,11 @@ const AddParticipantsModal: React.FC<AddParticipantsModalProps> = ({
   console.log('signatures:', document.signatures);
   console.log('signatures length:', document.signatures?.length);
   
-  const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransactionBlock();
+  const client = useWalSignClient();
   const [newSignerAddress, setNewSignerAddress] = useState('');
+  const [newSignerRole, setNewSignerRole] = useState<ParticipantRole>(0);
   const [isLoading, setIsLoading] = useState(false);
+  const [revokingSigner, setRevokingSigner] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
@@ -70,8 +75,8 @@ const AddParticipantsModal: React.FC<AddParticipantsModalProps> = ({
 
     console.log('Normalized address:', normalizedAddress);
     console.log('Document ID:', document.documentId);
-    console.log('Package ID:', PACKAGE_ID);
-    console.log('Registry ID:', REGISTRY_OBJECT_ID);
+    console.log('Package ID:', client.config.packageId);
+    console.log('Registry ID:', client.config.registryId);
 
     if (!validateAddress(normalizedAddress)) {
       console.error('Address validation failed');
@@ -85,39 +90,18 @@ const AddParticipantsModal: React.FC<AddParticipantsModalProps> = ({
       // Step 1: Add authorized signer using connected wallet
       console.log('=== STEP 1: Adding authorized signer ===');
       
-      const addSignerTx = new Transaction();
-      addSignerTx.moveCall({
-        target: `${PACKAGE_ID}::wal_sign::issue_signer_capability`,
-        arguments: [
-        addSignerTx.object(REGISTRY_OBJECT_ID),
-          addSignerTx.object(document.documentId),
-          addSignerTx.pure.address(normalizedAddress),
-        ],
-      });
-
-      await new Promise<void>((resolve, reject) => {
-        signAndExecuteTransaction(
-          {
-            transactionBlock: addSignerTx as any,
-            options: {
-              showEffects: true,
-              showEvents: true,
-            },
-          },
-          {
-            onSuccess: (result: any) => {
-              console.log('Signer added, tx:', result.digest);
-              resolve();
-            },
-            onError: (error: any) => {
-              console.error('Failed to add signer:', error);
-              reject(error);
-            },
-          }
-        );
-      });
-
-      setSuccess(`Successfully added ${formatAddress(normalizedAddress)} as a signer!`);
+      const issueArgs = {
+        documentRegistry: client.config.registryId,
+        document: document.documentId,
+        recipient: normalizedAddress,
+        role: newSignerRole,
+      };
+      const result = asOrgAdmin
+        ? await client.call('orgIssueSignerCapability', { organization: document.organization!, ...issueArgs })
+        : await client.call('issueSignerCapability', issueArgs);
+      console.log('Signer added, tx:', result.digest);
+
+      setSuccess(`Successfully added ${formatAddress(normalizedAddress)} as ${ROLE_LABELS[newSignerRole].toLowerCase()}!`);
       setNewSignerAddress('');
 
       // Call success callback after a short delay
@@ -133,9 +117,43 @@ const AddParticipantsModal: React.FC<AddParticipantsModalProps> = ({
     }
   };
 
+  const handleRevokeSigner = async (signer: string) => {
+    setError(null);
+    setSuccess(null);
+    setRevokingSigner(signer);
+
+    try {
+      const revokeArgs = {
+        documentRegistry: client.config.registryId,
+        document: document.documentId,
+        signerToRevoke: signer,
+      };
+      const result = asOrgAdmin
+        ? await client.call('orgRevokeSigner', { organization: document.organization!, ...revokeArgs })
+        : await client.call('revokeSigner', revokeArgs);
+      console.log('Signer revoked, tx:', result.digest);
+
+      setSuccess(`Revoked ${formatAddress(signer)}. Their signing capability no longer works.`);
+
+      // Call success callback after a short delay
+      setTimeout(() => {
+        onSuccess();
+        onClose();
+      }, 2000);
+    } catch (err: any) {
+      console.error('Error revoking signer:', err);
+      setError(err.message || 'Failed to revoke signer. Please try again.');
+    } finally {
+      setRevokingSigner(null);
+    }
+  };
+
+  const isBusy = isLoading || revokingSigner !== null;
+
   const handleClose = () => {
-    if (!isLoading) {
+    if (!isBusy) {
       setNewSignerAddress('');
+      setNewSignerRole(0);
       setError(null);
       setSuccess(null);
       onClose();
@@ -164,14 +182,29 @@ const AddParticipantsModal: React.FC<AddParticipantsModalProps> = ({
                   key={signer}
                   className="flex items-center justify-between bg-white border border-gray-200 rounded-lg p-3"
                 >
-                  <span className="text-sm text-gray-700 font-mono">
+                  <span className="flex items-center gap-2 text-sm text-gray-700 font-mono">
                     {formatAddress(signer)}
+                    <RoleBadge role={getRole(document, signer)} />
                   </span>
-                  {hasSigned && (
+                  {hasSigned ? (
                     <div className="flex items-center gap-1 text-green-600">
                       <CheckCircle className="w-4 h-4" />
                       <span className="text-xs">Signed</span>
                     </div>
+                  ) : (
+                    <Button
+                      onClick={() => handleRevokeSigner(signer)}
+                      disabled={isBusy}
+                      variant="outline"
+                      size="sm"
+                    >
+                      {revokingSigner === signer ? (
+                        <Loader className="w-3 h-3 animate-spin mr-1" />
+                      ) : (
+                        <UserMinus className="w-3 h-3 mr-1" />
+                      )}
+                      Revoke
+                    </Button>
                   )}
                 </div>
               );
@@ -191,10 +224,24 @@ const AddParticipantsModal: React.FC<AddParticipantsModalProps> = ({
                 setNewSignerAddress(value);
                 setError(null);
               }}
-              disabled={isLoading}
+              disabled={isBusy}
               error={error || undefined}
             />
 
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Role</label>
+              <select
+                value={newSignerRole}
+                onChange={(e) => setNewSignerRole(Number(e.target.value) as ParticipantRole)}
+                disabled={isBusy}
+                className="w-full rounded-lg border px-3 py-2 border-gray-300 bg-white focus:outline-none focus:ring-2 focus:ring-primary/30"
+              >
+                {([0, 1, 2] as ParticipantRole[]).map((role) => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+            </div>
+
             {success && (
               <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-start gap-2">
                 <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
@@ -205,7 +252,7 @@ const AddParticipantsModal: React.FC<AddParticipantsModalProps> = ({
             <div className="flex gap-3">
               <Button
                 onClick={handleAddParticipant}
-                disabled={isLoading || !newSignerAddress}
+                disabled={isBusy || !newSignerAddress}
                 className="flex-1"
                 variant="primary"
               >
@@ -221,7 +268,7 @@ const AddParticipantsModal: React.FC<AddParticipantsModalProps> = ({
                   </>
                 )}
               </Button>
-              <Button onClick={handleClose} disabled={isLoading} variant="outline">
+              <Button onClick={handleClose} disabled={isBusy} variant="outline">
                 Cancel
               </Button>
             </div>
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { CheckCircle, Loader, XCircle } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { DocumentSummary } from 'walsign-sdk';
+import { useWalSignClient } from '../hooks/useWalSignClient';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+
+interface DeclineDocumentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  document: DocumentSummary;
+  onSuccess: () => void;
+}
+
+const DeclineDocumentModal: React.FC<DeclineDocumentModalProps> = ({
+  isOpen,
+  onClose,
+  document,
+  onSuccess,
+}) => {
+  const currentAccount = useCurrentAccount();
+  const client = useWalSignClient();
+  const [reason, setReason] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const handleDecline = async () => {
+    if (!currentAccount) return;
+
+    setError(null);
+    setSuccess(null);
+
+    if (!reason.trim()) {
+      setError('Please give a reason for declining');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const signerCapId = await client.getSignerCapId(currentAccount.address, document.documentId);
+
+      if (!signerCapId) {
+        throw new Error('SignerCap not found! You may not be authorized to decline this document.');
+      }
+
+      const result = await client.call('declineDocument', {
+        document: document.documentId,
+        cap: signerCapId,
+        reason: reason.trim(),
+      });
+      console.log('Document declined, tx:', result.digest);
+
+      setSuccess('Document declined');
+      setReason('');
+
+      // Call success callback after a short delay
+      setTimeout(() => {
+        onSuccess();
+        onClose();
+      }, 2000);
+    } catch (err: any) {
+      console.error('Error declining document:', err);
+      setError(err.message || 'Failed to decline document. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      setReason('');
+      setError(null);
+      setSuccess(null);
+      onClose();
+    }
+  };
+
+  return (
+    <Modal open={isOpen} onClose={handleClose} title="Decline Document">
+      <div className="space-y-6">
+        {/* Document Info */}
+        <div className="bg-gray-50 rounded-lg p-4">
+          <h4 className="font-medium text-gray-900 mb-2">{document.title}</h4>
+          <p className="text-sm text-gray-600">
+            Declining is final. The document can no longer be signed by anyone.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => {
+                setReason(e.target.value);
+                setError(null);
+              }}
+              placeholder="Let the creator know why you are declining"
+              disabled={isLoading}
+              rows={4}
+              className="w-full rounded-lg border px-3 py-2 border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary/30"
+            />
+            {error && <p className="text-xs text-error">{error}</p>}
+          </div>
+
+          {success && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-start gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-green-800">{success}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button
+              onClick={handleDecline}
+              disabled={isLoading || !reason.trim()}
+              className="flex-1"
+              variant="primary"
+            >
+              {isLoading ? (
+                <>
+                  <Loader className="w-4 h-4 animate-spin mr-2" />
+                  Declining...
+                </>
+              ) : (
+                <>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Decline Document
+                </>
+              )}
+            </Button>
+            <Button onClick={handleClose} disabled={isLoading} variant="outline">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default DeclineDocumentModal;
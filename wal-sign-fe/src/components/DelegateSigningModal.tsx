@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { CheckCircle, Loader, UserCheck } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { DocumentSummary } from 'walsign-sdk';
+import { formatAddress, isValidSuiAddress } from '../utils/addressUtils';
+import { useWalSignClient } from '../hooks/useWalSignClient';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { SuiTransactionBlockResponse } from '@mysten/sui/client';
+
+interface DelegateSigningModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  document: DocumentSummary;
+  onSuccess: () => void;
+}
+
+const DelegateSigningModal: React.FC<DelegateSigningModalProps> = ({
+  isOpen,
+  onClose,
+  document,
+  onSuccess,
+}) => {
+  const currentAccount = useCurrentAccount();
+  const client = useWalSignClient();
+  const [delegate, setDelegate] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const myDelegations = document.delegations.filter(
+    delegation => delegation.principal === currentAccount?.address
+  );
+
+  const execute = async (send: () => Promise<SuiTransactionBlockResponse>) => {
+    const result = await send();
+    console.log('Delegation updated, tx:', result.digest);
+  };
+
+  const handleDelegate = async () => {
+    if (!currentAccount) return;
+
+    setError(null);
+    setSuccess(null);
+
+    const address = delegate.trim();
+    if (!isValidSuiAddress(address)) {
+      setError('Please enter a valid Sui address');
+      return;
+    }
+    if (address === currentAccount.address) {
+      setError('You cannot delegate to yourself');
+      return;
+    }
+
+    const expiry = new Date(expiresAt).getTime();
+    if (Number.isNaN(expiry) || expiry <= Date.now()) {
+      setError('Delegation must expire in the future');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const signerCapId = await client.getSignerCapId(currentAccount.address, document.documentId);
+
+      if (!signerCapId) {
+        throw new Error('SignerCap not found! You may not be authorized to sign this document.');
+      }
+
+      await execute(() => client.call('delegateSigning', {
+        document: document.documentId,
+        cap: signerCapId,
+        delegate: address,
+        expiresAt: expiry,
+      }));
+
+      setSuccess(`Signing delegated to ${formatAddress(address)}`);
+      setDelegate('');
+      setExpiresAt('');
+
+      // Call success callback after a short delay
+      setTimeout(() => {
+        onSuccess();
+        onClose();
+      }, 2000);
+    } catch (err: any) {
+      console.error('Error delegating signing:', err);
+      setError(err.message || 'Failed to delegate signing. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (delegationId: string) => {
+    setError(null);
+    setSuccess(null);
+    setIsLoading(true);
+
+    try {
+      await execute(() => client.call('revokeDelegation', {
+        document: document.documentId,
+        delegationId,
+      }));
+
+      setSuccess('Delegation revoked');
+
+      setTimeout(() => {
+        onSuccess();
+        onClose();
+      }, 2000);
+    } catch (err: any) {
+      console.error('Error revoking delegation:', err);
+      setError(err.message || 'Failed to revoke delegation. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      setDelegate('');
+      setExpiresAt('');
+      setError(null);
+      setSuccess(null);
+      onClose();
+    }
+  };
+
+  return (
+    <Modal open={isOpen} onClose={handleClose} title="Delegate Signing">
+      <div className="space-y-6">
+        {/* Document Info */}
+        <div className="bg-gray-50 rounded-lg p-4">
+          <h4 className="font-medium text-gray-900 mb-2">{document.title}</h4>
+          <p className="text-sm text-gray-600">
+            The delegate can sign this document on your behalf until the delegation expires or you revoke it.
+          </p>
+        </div>
+
+        {myDelegations.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Active delegations</h4>
+            <ul className="space-y-2">
+              {myDelegations.map(delegation => (
+                <li
+                  key={delegation.delegationId}
+                  className="flex items-center justify-between gap-2 bg-gray-50 rounded-lg px-3 py-2"
+                >
+                  <div className="text-xs">
+                    <p className="font-mono">{formatAddress(delegation.delegate)}</p>
+                    <p className="text-gray-500">
+                      {delegation.expiresAt > Date.now() ? 'Until' : 'Expired'}{' '}
+                      {new Date(delegation.expiresAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <Button
+                    onClick={() => handleRevoke(delegation.delegationId)}
+                    disabled={isLoading}
+                    variant="outline"
+                    size="sm"
+                  >
+                    Revoke
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <Input
+            label="Delegate Address"
+            value={delegate}
+            onChange={(value) => {
+              setDelegate(value);
+              setError(null);
+            }}
+            placeholder="0x..."
+            disabled={isLoading}
+          />
+          <Input
+            label="Expires"
+            type="datetime-local"
+            value={expiresAt}
+            onChange={(value) => {
+              setExpiresAt(value);
+              setError(null);
+            }}
+            disabled={isLoading}
+            error={error || undefined}
+          />
+
+          {success && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-start gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-green-800">{success}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button
+              onClick={handleDelegate}
+              disabled={isLoading || !delegate.trim() || !expiresAt}
+              className="flex-1"
+              variant="primary"
+            >
+              {isLoading ? (
+                <>
+                  <Loader className="w-4 h-4 animate-spin mr-2" />
+                  Submitting...
+                </>
+              ) : (
+                <>
+                  <UserCheck className="w-4 h-4 mr-2" />
+                  Delegate
+                </>
+              )}
+            </Button>
+            <Button onClick={handleClose} disabled={isLoading} variant="outline">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default DelegateSigningModal;
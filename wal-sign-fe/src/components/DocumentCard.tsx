@@ -1,8 +1,18 @@
 import React from 'react';
-import { DocumentSummary } from '../services/registryService';
+import {
+  DocumentSummary,
+  getEffectiveStatus,
+  getApprovers,
+  getNextSigner,
+  getRole,
+  getRequiredSignatures,
+  getSignedCount,
+  isDocumentExpired,
+} from 'walsign-sdk';
 import { formatAddress } from '../utils/addressUtils';
-import { CheckCircle, Circle, Users, Calendar, FileText } from 'lucide-react';
+import { Ban, CheckCircle, Circle, Users, Calendar, CalendarClock, FileText, Hourglass, XCircle } from 'lucide-react';
 import { Button } from './ui/Button';
+import { RoleBadge } from './RoleBadge';
 
 interface DocumentCardProps {
   document: DocumentSummary;
@@ -10,6 +20,10 @@ interface DocumentCardProps {
   onViewDocument: (documentId: string) => void;
   onAddParticipants: (documentId: string) => void;
   onShareLink: (documentId: string) => void;
+  onExtendDeadline?: (documentId: string) => void;
+  onVoid?: (documentId: string) => void;
+  onTransferOwnership?: (documentId: string) => void;
+  onDownloadCertificate?: (documentId: string) => void;
 }
 
 const DocumentCard: React.FC<DocumentCardProps> = ({
@@ -18,24 +32,13 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
   onViewDocument,
   onAddParticipants,
   onShareLink,
+  onExtendDeadline,
+  onVoid,
+  onTransferOwnership,
+  onDownloadCertificate,
 }) => {
-  // Calculate actual status based on signatures vs unique authorized signers
-  const getActualStatus = () => {
-    const uniqueSigners = new Set(document.authorizedSigners).size;
-    const signatureCount = document.signatures.length;
-    
-    if (signatureCount === 0) {
-      return 0; // Pending
-    } else if (signatureCount < uniqueSigners) {
-      return 1; // Partial
-    } else {
-      return 2; // Complete
-    }
-  };
-
   const getStatusInfo = () => {
-    // Use calculated status instead of blockchain status (to handle duplicate signers)
-    const actualStatus = getActualStatus();
+    const actualStatus = getEffectiveStatus(document);
     
     switch (actualStatus) {
       case 0:
@@ -56,6 +59,24 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
           color: 'bg-green-100 text-green-800 border-green-300',
           bgColor: 'bg-green-50',
         };
+      case 3:
+        return {
+          label: 'Expired',
+          color: 'bg-gray-200 text-gray-700 border-gray-400',
+          bgColor: 'bg-gray-100',
+        };
+      case 4:
+        return {
+          label: 'Declined',
+          color: 'bg-red-200 text-red-900 border-red-400',
+          bgColor: 'bg-red-50',
+        };
+      case 5:
+        return {
+          label: 'Voided',
+          color: 'bg-gray-700 text-white border-gray-800',
+          bgColor: 'bg-gray-100',
+        };
       default:
         return {
           label: 'Unknown',
@@ -66,22 +87,9 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
   };
 
   const statusInfo = getStatusInfo();
-  const signedCount = document.signatures.length;
-  // Use unique signers count to handle duplicates
-  const uniqueSignersCount = new Set(document.authorizedSigners).size;
-  const totalSigners = uniqueSignersCount;
-  const progress = totalSigners > 0 ? (signedCount / totalSigners) * 100 : 0;
-
-  // Debug logging for duplicate signers
-  if (document.authorizedSigners.length !== uniqueSignersCount) {
-    console.warn('Duplicate signers detected:', {
-      documentId: document.documentId,
-      totalAuthSigners: document.authorizedSigners.length,
-      uniqueSigners: uniqueSignersCount,
-      authorizedSigners: document.authorizedSigners,
-      duplicates: document.authorizedSigners.length - uniqueSignersCount,
-    });
-  }
+  const signedCount = getSignedCount(document);
+  const requiredSignatures = getRequiredSignatures(document);
+  const progress = requiredSignatures > 0 ? Math.min(signedCount / requiredSignatures, 1) * 100 : 0;
 
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString('en-US', {
@@ -95,6 +103,11 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
     return document.signatures.some(sig => sig.signer === signerAddress);
   };
 
+  const isExpired = isDocumentExpired(document);
+  const isVoided = document.status === 5;
+  const isOpen = !isExpired && document.status !== 4 && !isVoided;
+  const nextSigner = isOpen ? getNextSigner(document) : null;
+
   return (
     <div className={`border-2 rounded-lg p-6 hover:shadow-lg transition-all ${statusInfo.bgColor} border-gray-200`}>
       {/* Header */}
@@ -102,7 +115,7 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
         <div className="flex-1">
           <div className="flex items-center gap-2 mb-2">
             <FileText className="w-5 h-5 text-blue-600" />
-            <h3 className="text-lg font-semibold text-gray-900 truncate">
+            <h3 className={`text-lg font-semibold truncate ${isVoided ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
               {document.title}
             </h3>
           </div>
@@ -121,7 +134,12 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
       <div className="mb-4">
         <div className="flex justify-between items-center mb-2">
           <span className="text-sm font-medium text-gray-700">
-            Signatures: {signedCount}/{totalSigners}
+            Signatures: {signedCount}/{requiredSignatures}
+            {document.threshold !== null && (
+              <span className="text-xs text-gray-500 font-normal">
+                {' '}({getApprovers(document).length} approvers)
+              </span>
+            )}
           </span>
           <span className="text-xs text-gray-500">
             {Math.round(progress)}%
@@ -148,25 +166,66 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
           <span className="text-sm font-medium text-gray-700">Authorized Signers:</span>
         </div>
         <div className="space-y-1">
-          {document.authorizedSigners.map((signer) => (
+          {document.authorizedSigners.map((signer, idx) => (
             <div key={signer} className="flex items-center gap-2 text-sm">
               {hasUserSigned(signer) ? (
                 <CheckCircle className="w-4 h-4 text-green-600" />
+              ) : document.decline?.signer === signer ? (
+                <XCircle className="w-4 h-4 text-red-600" />
               ) : (
                 <Circle className="w-4 h-4 text-gray-400" />
               )}
               <span className={hasUserSigned(signer) ? 'text-green-700' : 'text-gray-600'}>
-                {formatAddress(signer)}
+                {document.sequential && `${idx + 1}. `}{formatAddress(signer)}
               </span>
+              {getRole(document, signer) !== 0 && <RoleBadge role={getRole(document, signer)} />}
             </div>
           ))}
         </div>
       </div>
 
+      {/* Sequential signing */}
+      {nextSigner && (
+        <div className="flex items-center gap-2 mb-4 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2">
+          <Hourglass className="w-4 h-4 flex-shrink-0" />
+          <span>Waiting on <span className="font-mono">{formatAddress(nextSigner)}</span></span>
+        </div>
+      )}
+
+      {/* Decline */}
+      {document.decline && (
+        <div className="flex items-start gap-2 mb-4 text-sm text-red-800 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+          <XCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>
+            Declined by <span className="font-mono">{formatAddress(document.decline.signer)}</span>
+            {document.decline.reason && <>: "{document.decline.reason}"</>}
+          </span>
+        </div>
+      )}
+
+      {/* Void */}
+      {document.voided && (
+        <div className="flex items-start gap-2 mb-4 text-sm text-gray-800 bg-gray-200 border border-gray-300 rounded-lg px-3 py-2">
+          <Ban className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>
+            Voided by creator
+            {document.voided.reason && <>: "{document.voided.reason}"</>}
+          </span>
+        </div>
+      )}
+
       {/* Metadata */}
       <div className="flex items-center gap-2 mb-4 text-xs text-gray-500">
         <Calendar className="w-4 h-4" />
         <span>Created {formatDate(document.createdAt)}</span>
+        {document.expiresAt !== null && (
+          <>
+            <CalendarClock className="w-4 h-4 ml-2" />
+            <span className={isExpired ? 'text-red-600' : ''}>
+              {isExpired ? 'Expired' : 'Due'} {formatDate(document.expiresAt)}
+            </span>
+          </>
+        )}
       </div>
 
       {/* Action Buttons */}
@@ -178,7 +237,7 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
         >
           View Document
         </Button>
-        {isCreator && (
+        {isCreator && !isVoided && (
           <Button
             onClick={() => onAddParticipants(document.documentId)}
             variant="outline"
@@ -186,6 +245,38 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
             Add Participants
           </Button>
         )}
+        {isCreator && onExtendDeadline && document.expiresAt !== null && document.status !== 2 && document.status !== 4 && !isVoided && (
+          <Button
+            onClick={() => onExtendDeadline(document.documentId)}
+            variant="outline"
+          >
+            Extend
+          </Button>
+        )}
+        {isCreator && onVoid && !isVoided && (
+          <Button
+            onClick={() => onVoid(document.documentId)}
+            variant="outline"
+          >
+            Void
+          </Button>
+        )}
+        {isCreator && onTransferOwnership && (
+          <Button
+            onClick={() => onTransferOwnership(document.documentId)}
+            variant="outline"
+          >
+            {document.pendingCreator ? 'Transfer Pending' : 'Transfer'}
+          </Button>
+        )}
+        {onDownloadCertificate && document.status === 2 && (
+          <Button
+            onClick={() => onDownloadCertificate(document.documentId)}
+            variant="outline"
+          >
+            Certificate
+          </Button>
+        )}
         <Button
           onClick={() => onShareLink(document.documentId)}
           variant="outline"
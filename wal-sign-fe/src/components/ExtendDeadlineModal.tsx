@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { CalendarClock, CheckCircle, Loader } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { DocumentSummary, isDocumentExpired } from 'walsign-sdk';
+import { useWalSignClient } from '../hooks/useWalSignClient';
+
+interface ExtendDeadlineModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  document: DocumentSummary;
+  onSuccess: () => void;
+}
+
+const ExtendDeadlineModal: React.FC<ExtendDeadlineModalProps> = ({
+  isOpen,
+  onClose,
+  document,
+  onSuccess,
+}) => {
+  const client = useWalSignClient();
+  const [newDeadline, setNewDeadline] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const validateDeadline = (timestamp: number): boolean => {
+    if (Number.isNaN(timestamp)) {
+      setError('Please pick a new deadline');
+      return false;
+    }
+
+    if (timestamp <= Date.now()) {
+      setError('Deadline must be in the future');
+      return false;
+    }
+
+    if (document.expiresAt !== null && timestamp <= document.expiresAt) {
+      setError('New deadline must be later than the current one');
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleExtend = async () => {
+    setError(null);
+    setSuccess(null);
+
+    const newExpiresAt = new Date(newDeadline).getTime();
+    if (!validateDeadline(newExpiresAt)) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const result = await client.call('extendDeadline', {
+        document: document.documentId,
+        newExpiresAt,
+      });
+      console.log('Deadline extended, tx:', result.digest);
+
+      setSuccess(`Deadline extended to ${formatDate(newExpiresAt)}`);
+      setNewDeadline('');
+
+      // Call success callback after a short delay
+      setTimeout(() => {
+        onSuccess();
+        onClose();
+      }, 2000);
+    } catch (err: any) {
+      console.error('Error extending deadline:', err);
+      setError(err.message || 'Failed to extend deadline. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      setNewDeadline('');
+      setError(null);
+      setSuccess(null);
+      onClose();
+    }
+  };
+
+  return (
+    <Modal open={isOpen} onClose={handleClose} title="Extend Signing Deadline">
+      <div className="space-y-6">
+        {/* Document Info */}
+        <div className="bg-gray-50 rounded-lg p-4">
+          <h4 className="font-medium text-gray-900 mb-2">{document.title}</h4>
+          <p className="text-sm text-gray-600">
+            Current deadline: {document.expiresAt !== null ? formatDate(document.expiresAt) : 'None'}
+            {isDocumentExpired(document) && (
+              <span className="ml-2 px-2 py-0.5 text-xs bg-gray-200 text-gray-700 rounded-full">Expired</span>
+            )}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <Input
+            label="New Deadline"
+            type="datetime-local"
+            value={newDeadline}
+            onChange={(value) => {
+              setNewDeadline(value);
+              setError(null);
+            }}
+            disabled={isLoading}
+            error={error || undefined}
+          />
+
+          {success && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-start gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-green-800">{success}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button
+              onClick={handleExtend}
+              disabled={isLoading || !newDeadline}
+              className="flex-1"
+              variant="primary"
+            >
+              {isLoading ? (
+                <>
+                  <Loader className="w-4 h-4 animate-spin mr-2" />
+                  Extending...
+                </>
+              ) : (
+                <>
+                  <CalendarClock className="w-4 h-4 mr-2" />
+                  Extend Deadline
+                </>
+              )}
+            </Button>
+            <Button onClick={handleClose} disabled={isLoading} variant="outline">
+              Cancel
+            </Button>
+          </div>
+        </div>
+
+        {/* Helper Text */}
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+          <p className="text-xs text-blue-800">
+            <strong>Note:</strong> Extending the deadline of an expired document reopens it for signing.
+          </p>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ExtendDeadlineModal;
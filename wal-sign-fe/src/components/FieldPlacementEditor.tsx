@@ -0,0 +1,254 @@
+import React, { useState, useRef } from 'react';
+import { Document, Page, pdfjs } from 'react-pdf';
+import { Button } from './ui/Button';
+import { ChevronLeft, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { DocumentField, FieldType } from 'walsign-sdk';
+import 'react-pdf/dist/esm/Page/AnnotationLayer.css';
+import 'react-pdf/dist/esm/Page/TextLayer.css';
+
+// Set up PDF.js worker
+pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
+
+export const FIELD_LABELS: Record<FieldType, string> = {
+  signature: 'Signature',
+  initials: 'Initials',
+  date: 'Date',
+  text: 'Text',
+  checkbox: 'Checkbox',
+};
+
+// Default size of a new field, in PDF points
+const FIELD_SIZES: Record<FieldType, { width: number; height: number }> = {
+  signature: { width: 200, height: 60 },
+  initials: { width: 80, height: 40 },
+  date: { width: 120, height: 24 },
+  text: { width: 200, height: 24 },
+  checkbox: { width: 20, height: 20 },
+};
+
+const SCALE = 0.8;
+
+interface FieldPlacementEditorProps {
+  file: File;
+  signers: string[]; // Recipients who can be assigned fields
+  fields: DocumentField[];
+  onChange: (fields: DocumentField[]) => void;
+}
+
+export const FieldPlacementEditor: React.FC<FieldPlacementEditorProps> = ({
+  file,
+  signers,
+  fields,
+  onChange,
+}) => {
+  const [numPages, setNumPages] = useState<number>(0);
+  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [pageWidth, setPageWidth] = useState<number>(600);
+  const [pageHeight, setPageHeight] = useState<number>(800);
+  const [fieldType, setFieldType] = useState<FieldType>('signature');
+  const [signer, setSigner] = useState('');
+  const [selectedField, setSelectedField] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+
+  const pageRef = useRef<HTMLDivElement>(null);
+
+  const assignee = signers.includes(signer) ? signer : signers[0] ?? '';
+  const selected = fields.find(f => f.id === selectedField) ?? null;
+
+  const onPageLoadSuccess = (page: any) => {
+    const viewport = page.getViewport({ scale: 1.0 });
+    setPageWidth(viewport.width);
+    setPageHeight(viewport.height);
+  };
+
+  const updateField = (fieldId: string, update: Partial<DocumentField>) => {
+    onChange(fields.map(f => (f.id === fieldId ? { ...f, ...update } : f)));
+  };
+
+  const addField = () => {
+    if (!assignee) return;
+    const field: DocumentField = {
+      id: `field-${Date.now()}`,
+      type: fieldType,
+      signer: assignee,
+      pageNumber: currentPage,
+      x: 100,
+      y: 100,
+      ...FIELD_SIZES[fieldType],
+      required: fieldType !== 'checkbox',
+    };
+    onChange([...fields, field]);
+    setSelectedField(field.id);
+  };
+
+  const deleteField = (fieldId: string) => {
+    onChange(fields.filter(f => f.id !== fieldId));
+    if (selectedField === fieldId) {
+      setSelectedField(null);
+    }
+  };
+
+  const handleMouseDown = (e: React.MouseEvent, field: DocumentField) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setSelectedField(field.id);
+    setIsDragging(true);
+
+    const rect = pageRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setDragOffset({
+      x: e.clientX - rect.left - field.x * SCALE,
+      y: e.clientY - rect.top - field.y * SCALE,
+    });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!isDragging || !selected || !pageRef.current) return;
+
+    const rect = pageRef.current.getBoundingClientRect();
+    const newX = (e.clientX - rect.left - dragOffset.x) / SCALE;
+    const newY = (e.clientY - rect.top - dragOffset.y) / SCALE;
+
+    updateField(selected.id, {
+      x: Math.round(Math.max(0, Math.min(pageWidth - selected.width, newX))),
+      y: Math.round(Math.max(0, Math.min(pageHeight - selected.height, newY))),
+    });
+  };
+
+  const currentPageFields = fields.filter(f => f.pageNumber === currentPage);
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Field</label>
+          <select
+            value={fieldType}
+            onChange={(e) => setFieldType(e.target.value as FieldType)}
+            className="rounded-lg border px-3 py-2 text-sm border-gray-300"
+          >
+            {(Object.keys(FIELD_LABELS) as FieldType[]).map((type) => (
+              <option key={type} value={type}>{FIELD_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1 flex-1 min-w-0">
+          <label className="text-sm font-medium">For</label>
+          <select
+            value={assignee}
+            onChange={(e) => setSigner(e.target.value)}
+            className="w-full rounded-lg border px-3 py-2 text-sm font-mono border-gray-300"
+          >
+            {signers.map((addr) => (
+              <option key={addr} value={addr}>
+                {addr.slice(0, 6)}...{addr.slice(-4)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button variant="outline" onClick={addField} disabled={!assignee}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {/* Selected field */}
+      {selected && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-gray-200 bg-gray-50 p-2 text-sm">
+          <span className="font-medium">{FIELD_LABELS[selected.type]}</span>
+          <span className="font-mono text-xs text-gray-500">
+            {selected.signer.slice(0, 6)}...{selected.signer.slice(-4)}
+          </span>
+          {selected.type === 'text' && (
+            <input
+              value={selected.label ?? ''}
+              onChange={(e) => updateField(selected.id, { label: e.target.value || undefined })}
+              placeholder="Label, e.g. Company name"
+              className="flex-1 rounded border border-gray-300 px-2 py-1 text-sm"
+            />
+          )}
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={selected.required}
+              onChange={(e) => updateField(selected.id, { required: e.target.checked })}
+            />
+            Required
+          </label>
+          <button
+            onClick={() => deleteField(selected.id)}
+            className="ml-auto p-1 text-red-500 hover:text-red-700"
+            title="Delete field"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Page Navigation */}
+      <div className="flex items-center justify-between text-sm">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+          disabled={currentPage === 1}
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span>
+          Page {currentPage} of {numPages} • {fields.length} field{fields.length === 1 ? '' : 's'}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setCurrentPage(Math.min(numPages, currentPage + 1))}
+          disabled={currentPage === numPages}
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {/* PDF Page */}
+      <div
+        className="flex justify-center overflow-auto rounded-lg bg-gray-100 p-4"
+        onMouseMove={handleMouseMove}
+        onMouseUp={() => setIsDragging(false)}
+        onMouseLeave={() => setIsDragging(false)}
+      >
+        <div ref={pageRef} className="relative inline-block" style={{ userSelect: 'none' }}>
+          <Document file={file} onLoadSuccess={({ numPages }) => setNumPages(numPages)}>
+            <Page
+              pageNumber={currentPage}
+              scale={SCALE}
+              renderTextLayer={false}
+              renderAnnotationLayer={false}
+              onLoadSuccess={onPageLoadSuccess}
+              className="shadow"
+            />
+          </Document>
+
+          {currentPageFields.map((field) => (
+            <div
+              key={field.id}
+              className={`absolute cursor-move border-2 bg-purple-50/70 text-[10px] leading-tight text-purple-800 overflow-hidden ${
+                selectedField === field.id ? 'border-purple-600' : 'border-dashed border-purple-400'
+              }`}
+              style={{
+                left: `${field.x * SCALE}px`,
+                top: `${field.y * SCALE}px`,
+                width: `${field.width * SCALE}px`,
+                height: `${field.height * SCALE}px`,
+              }}
+              onMouseDown={(e) => handleMouseDown(e, field)}
+            >
+              {field.type === 'checkbox' ? '' : field.label || FIELD_LABELS[field.type]}
+              {field.required && field.type !== 'checkbox' && ' *'}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useCallback, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { AlertCircle, CheckCircle, ExternalLink, Fingerprint, Loader, PenTool, XCircle } from 'lucide-react';
+import { Card, CardBody, CardHeader } from './ui/Card';
+import { DocumentSummary, findVersionByHash, sha256, toHex } from 'walsign-sdk';
+import { EmbeddedSignature, verifyPdfSignatures } from '../services/pdfSignatureService';
+import { formatAddress, getExplorerTxUrl } from '../utils/addressUtils';
+
+interface HashVerifierProps {
+  document: DocumentSummary;
+}
+
+interface HashResult {
+  fileName: string;
+  hash: string;
+  version: number | null; // 0 = original, n = n-th signed version
+  signatures: EmbeddedSignature[]; // Digital signatures embedded in the file
+}
+
+/**
+ * Checks a local PDF against the hashes recorded on-chain, and checks the
+ * digital signatures embedded in it
+ * The file is hashed in the browser and never uploaded or decrypted
+ */
+export const HashVerifier: React.FC<HashVerifierProps> = ({ document }) => {
+  const [isHashing, setIsHashing] = useState(false);
+  const [result, setResult] = useState<HashResult | null>(null);
+
+  const onDrop = useCallback(
+    async (accepted: File[]) => {
+      const pdf = accepted.find((f) => f.type === 'application/pdf');
+      if (!pdf) return;
+
+      setIsHashing(true);
+      try {
+        const bytes = new Uint8Array(await pdf.arrayBuffer());
+        const hash = toHex(await sha256(bytes));
+        setResult({
+          fileName: pdf.name,
+          hash,
+          version: findVersionByHash(document, hash),
+          signatures: await verifyPdfSignatures(bytes),
+        });
+      } finally {
+        setIsHashing(false);
+      }
+    },
+    [document]
+  );
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: { 'application/pdf': ['.pdf'] },
+    multiple: false,
+  });
+
+  const versionLabel = (version: number) =>
+    version === 0 ? 'the original document' : `signed version v${version}`;
+
+  // A signature on an earlier version is still genuine, it just does not cover this file
+  const signatureStatus = (signature: EmbeddedSignature) => {
+    if (!signature.signatureValid) {
+      return { ok: false, label: signature.error ?? 'Signature does not verify' };
+    }
+    if (signature.documentId !== document.documentId) {
+      return { ok: false, label: 'Signed for a different document' };
+    }
+    if (!signature.walletBound) {
+      return { ok: false, label: signature.error ?? 'Signing key is not vouched for by a wallet' };
+    }
+    if (signature.digestValid === false) {
+      return { ok: false, label: 'The file was changed after signing' };
+    }
+    if (!signature.coversWholeFile) {
+      return signature.digestValid
+        ? { ok: true, label: 'Valid, later revisions were appended after signing' }
+        : { ok: true, label: 'Valid for an earlier version of this file' };
+    }
+    return { ok: true, label: 'Valid, the file is unchanged since signing' };
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <Fingerprint className="w-6 h-6 text-primary" />
+          <h3 className="text-xl font-semibold">Verify a Local Copy</h3>
+        </div>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        <div
+          {...getRootProps()}
+          className={`border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-all duration-200 ${
+            isDragActive
+              ? 'border-primary bg-primary/5'
+              : 'border-gray-300 hover:border-gray-400 hover:bg-gray-50'
+          }`}
+        >
+          <input {...getInputProps()} />
+          {isHashing ? (
+            <div className="flex items-center justify-center gap-2 text-gray-600">
+              <Loader className="w-4 h-4 animate-spin" />
+              <span>Computing hash...</span>
+            </div>
+          ) : (
+            <>
+              <p className="text-base font-medium text-gray-900">
+                {isDragActive ? 'Drop your PDF here' : 'Drag & drop a PDF to check it'}
+              </p>
+              <p className="text-sm text-gray-500 mt-1">
+                The file is hashed locally and never leaves your browser
+              </p>
+            </>
+          )}
+        </div>
+
+        {result && (
+          <div
+            className={`p-4 rounded-lg border-2 ${
+              result.version !== null ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+            }`}
+          >
+            <div className="flex items-start gap-3">
+              {result.version !== null ? (
+                <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+              ) : (
+                <XCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              )}
+              <div className="min-w-0">
+                <p className={`font-medium ${result.version !== null ? 'text-green-700' : 'text-red-700'}`}>
+                  {result.version !== null
+                    ? `${result.fileName} matches ${versionLabel(result.version)}`
+                    : `${result.fileName} does not match any recorded version`}
+                </p>
+                <p className="text-xs text-gray-600 mt-1 font-mono break-all">SHA-256: {result.hash}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <PenTool className="w-4 h-4 text-gray-500" />
+              <h4 className="text-sm font-medium text-gray-900">Embedded Digital Signatures</h4>
+            </div>
+            {result.signatures.length === 0 ? (
+              <p className="text-sm text-gray-500">This file has no embedded digital signatures.</p>
+            ) : (
+              result.signatures.map((signature) => {
+                const status = signatureStatus(signature);
+                return (
+                  <div key={signature.fieldIndex} className="flex items-start gap-3 p-3 rounded-lg bg-gray-50">
+                    {status.ok ? (
+                      <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                    ) : (
+                      <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />
+                    )}
+                    <div className="min-w-0 text-sm">
+                      <p className="font-medium text-gray-900">
+                        {signature.signer ? formatAddress(signature.signer) : `Signature ${signature.fieldIndex}`}
+                        {signature.signedAt && (
+                          <span className="font-normal text-gray-500"> · {signature.signedAt.toLocaleString()}</span>
+                        )}
+                      </p>
+                      <p className={status.ok ? 'text-green-700' : 'text-red-700'}>{status.label}</p>
+                      {signature.anchorTxDigest && (
+                        <a
+                          href={getExplorerTxUrl(signature.anchorTxDigest)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                        >
+                          After transaction {signature.anchorTxDigest.slice(0, 10)}...
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+};
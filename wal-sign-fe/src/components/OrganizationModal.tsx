@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { Building2, CheckCircle, Loader, UserMinus, UserPlus } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { OrganizationSummary } from 'walsign-sdk';
+import { formatAddress, isValidSuiAddress } from '../utils/addressUtils';
+import { useWalSignClient } from '../hooks/useWalSignClient';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { SuiTransactionBlockResponse } from '@mysten/sui/client';
+
+interface OrganizationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  organization: OrganizationSummary | null; // null creates a new organization
+  onSuccess: () => void;
+}
+
+const OrganizationModal: React.FC<OrganizationModalProps> = ({
+  isOpen,
+  onClose,
+  organization,
+  onSuccess,
+}) => {
+  const currentAccount = useCurrentAccount();
+  const client = useWalSignClient();
+  const [name, setName] = useState('');
+  const [memberAddress, setMemberAddress] = useState('');
+  const [makeAdmin, setMakeAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const isAdmin = !!organization && !!currentAccount && organization.admins.includes(currentAccount.address);
+
+  const execute = async (send: () => Promise<SuiTransactionBlockResponse>, successMessage: string) => {
+    setError(null);
+    setSuccess(null);
+    setIsLoading(true);
+
+    try {
+      const result = await send();
+      console.log('Organization updated, tx:', result.digest);
+
+      setSuccess(successMessage);
+      setName('');
+      setMemberAddress('');
+      setMakeAdmin(false);
+
+      // Call success callback after a short delay
+      setTimeout(() => {
+        onSuccess();
+        onClose();
+      }, 2000);
+    } catch (err: any) {
+      console.error('Error updating organization:', err);
+      setError(err.message || 'Failed to update organization. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      setError('Please enter a name');
+      return;
+    }
+
+    await execute(
+      () => client.call('createOrganization', {
+        registry: client.config.registryId,
+        name: name.trim(),
+      }),
+      `Created ${name.trim()}`
+    );
+  };
+
+  const handleAddMember = async () => {
+    if (!organization) return;
+
+    const address = memberAddress.trim();
+    if (!isValidSuiAddress(address)) {
+      setError('Please enter a valid Sui address');
+      return;
+    }
+
+    await execute(
+      () => client.call('addOrgMember', {
+        registry: client.config.registryId,
+        organization: organization.organizationId,
+        member: address,
+        isAdmin: makeAdmin,
+      }),
+      `Added ${formatAddress(address)}${makeAdmin ? ' as admin' : ''}`
+    );
+  };
+
+  const handleRemoveMember = async (member: string) => {
+    if (!organization) return;
+
+    await execute(
+      () => client.call('removeOrgMember', {
+        registry: client.config.registryId,
+        organization: organization.organizationId,
+        member,
+      }),
+      `Removed ${formatAddress(member)}`
+    );
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      setName('');
+      setMemberAddress('');
+      setMakeAdmin(false);
+      setError(null);
+      setSuccess(null);
+      onClose();
+    }
+  };
+
+  return (
+    <Modal open={isOpen} onClose={handleClose} title={organization ? organization.name : 'New Organization'}>
+      <div className="space-y-6">
+        {organization ? (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Members ({organization.members.length})</h4>
+            <ul className="space-y-2">
+              {organization.members.map(member => (
+                <li key={member} className="flex items-center justify-between gap-2 bg-gray-50 rounded-lg px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm">{formatAddress(member)}</span>
+                    {organization.admins.includes(member) && (
+                      <span className="px-1.5 py-0.5 text-xs rounded bg-purple-100 text-purple-700">Admin</span>
+                    )}
+                  </div>
+                  {isAdmin && (
+                    <Button
+                      onClick={() => handleRemoveMember(member)}
+                      disabled={isLoading}
+                      variant="outline"
+                      size="sm"
+                    >
+                      <UserMinus className="w-4 h-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <div className="bg-gray-50 rounded-lg p-4">
+            <p className="text-sm text-gray-600">
+              Members see every document created under the organization. Admins can also add or revoke signers and void them.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {!organization && (
+            <Input
+              label="Name"
+              value={name}
+              onChange={(value) => {
+                setName(value);
+                setError(null);
+              }}
+              placeholder="Legal team"
+              disabled={isLoading}
+            />
+          )}
+
+          {isAdmin && (
+            <>
+              <Input
+                label="Add Member"
+                value={memberAddress}
+                onChange={(value) => {
+                  setMemberAddress(value);
+                  setError(null);
+                }}
+                placeholder="0x..."
+                disabled={isLoading}
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={makeAdmin}
+                  onChange={(e) => setMakeAdmin(e.target.checked)}
+                  disabled={isLoading}
+                />
+                Admin (or promote an existing member)
+              </label>
+            </>
+          )}
+
+          {error && <p className="text-xs text-error">{error}</p>}
+
+          {success && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-start gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-green-800">{success}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            {(!organization || isAdmin) && (
+              <Button
+                onClick={organization ? handleAddMember : handleCreate}
+                disabled={isLoading || (organization ? !memberAddress.trim() : !name.trim())}
+                className="flex-1"
+                variant="primary"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader className="w-4 h-4 animate-spin mr-2" />
+                    Submitting...
+                  </>
+                ) : organization ? (
+                  <>
+                    <UserPlus className="w-4 h-4 mr-2" />
+                    Add Member
+                  </>
+                ) : (
+                  <>
+                    <Building2 className="w-4 h-4 mr-2" />
+                    Create Organization
+                  </>
+                )}
+              </Button>
+            )}
+            <Button onClick={handleClose} disabled={isLoading} variant="outline">
+              Close
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default OrganizationModal;
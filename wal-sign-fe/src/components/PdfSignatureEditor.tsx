@@ -1,8 +1,16 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Document, Page, pdfjs } from 'react-pdf';
-import { PDFDocument } from 'pdf-lib';
+import { PDFDocument, StandardFonts, degrees } from 'pdf-lib';
+import { useCurrentAccount, useSignPersonalMessage } from '@mysten/dapp-kit';
 import { Button } from './ui/Button';
 import { Card, CardBody, CardHeader } from './ui/Card';
+import { FIELD_LABELS } from './FieldPlacementEditor';
+import SignatureCreatorModal from './SignatureCreatorModal';
+import { useSignatureLibrary } from '../hooks/useSignatureLibrary';
+import { signPdf } from '../services/pdfSignatureService';
+import { suiClient } from '../config/seal.config';
+import { DocumentField } from 'walsign-sdk';
+import { Guides, alignToGuides, findSnapTarget, getPageRotation, toPdfPlacement, toPdfPoint } from '../utils/pdfGeometry';
 import { 
   Upload, 
   Save, 
@@ -15,7 +23,12 @@ import {
   Trash2,
   Check,
   Loader,
-  CheckCircle
+  CheckCircle,
+  ListChecks,
+  PenTool,
+  Lock,
+  Unlock,
+  RotateCw
 } from 'lucide-react';
 import 'react-pdf/dist/esm/Page/AnnotationLayer.css';
 import 'react-pdf/dist/esm/Page/TextLayer.css';
@@ -30,33 +43,63 @@ interface Signature {
   y: number;
   width: number;
   height: number;
+  rotation: number; // Degrees clockwise around the center
   pageNumber: number;
 }
 
+interface Interaction {
+  kind: 'move' | 'resize' | 'rotate';
+  start: { x: number; y: number }; // Pointer position in page points
+  original: Signature;
+}
+
 interface PdfSignatureEditorProps {
   pdfFile: File | Blob;
   onSave: (signedPdfBlob: Blob, signaturePositions: Signature[]) => Promise<void>;
   onCancel: () => void;
+  fields?: DocumentField[]; // Fields the current signer has to fill in
+  documentId?: string; // Embeds a digital signature for this document when set
 }
 
+// Signature and initials hold an image data URL, checkboxes a boolean, the rest text
+type FieldValue = string | boolean;
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
+const MIN_SIZE = 20; // Smallest signature side, in points
+const FIELD_SNAP_DISTANCE = 24; // Center distance at which a signature drops into a field
+const GUIDE_SNAP_DISTANCE = 4; // Distance at which edges and centers line up
+const NO_GUIDES: Guides = { x: [], y: [] };
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), Math.max(min, max));
+const normalizeAngle = (angle: number) => ((angle % 360) + 360) % 360;
+
 export const PdfSignatureEditor: React.FC<PdfSignatureEditorProps> = ({
   pdfFile,
   onSave,
   onCancel,
+  fields = [],
+  documentId,
 }) => {
+  const currentAccount = useCurrentAccount();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
   const [numPages, setNumPages] = useState<number>(0);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [scale, setScale] = useState<number>(1.0);
   const [signatures, setSignatures] = useState<Signature[]>([]);
   const [selectedSignature, setSelectedSignature] = useState<string | null>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [lockAspect, setLockAspect] = useState(true);
+  const [guides, setGuides] = useState<Guides>(NO_GUIDES);
   const [isSaving, setIsSaving] = useState(false);
   const [pageWidth, setPageWidth] = useState<number>(600);
   const [pageHeight, setPageHeight] = useState<number>(800);
+  const [values, setValues] = useState<Record<string, FieldValue>>({});
+  const [activeField, setActiveField] = useState(0);
   
-  const containerRef = useRef<HTMLDivElement>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const interactionRef = useRef<Interaction | null>(null);
+  const [isCreatorOpen, setIsCreatorOpen] = useState(false);
+  const signatureLibrary = useSignatureLibrary();
 
   const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
     setNumPages(numPages);
@@ -68,89 +111,213 @@ export const PdfSignatureEditor: React.FC<PdfSignatureEditorProps> = ({
     setPageHeight(viewport.height);
   };
 
-  const handleSignatureUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    // Validate file type - only PNG supported for now
-    if (file.type !== 'image/png' && !file.name.toLowerCase().endsWith('.png')) {
-      alert('⚠️ Only PNG image files are supported at this time. Please convert your image to PNG format.');
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+  // Signature image from the draw, type or upload modal, as a PNG or JPEG data URL
+  const placeSignature = (imageData: string) => {
+    // Fill the active signature or initials field, then the next empty one
+    const imageFields = fields.filter(f => f.type === 'signature' || f.type === 'initials');
+    const current = fields[activeField];
+    const target = current && imageFields.includes(current) && !values[current.id]
+      ? current
+      : imageFields.find(f => !values[f.id]);
+
+    if (target) {
+      setValues({ ...values, [target.id]: imageData });
+      goToField(fields.indexOf(target));
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const imageData = e.target?.result as string;
-      
-      // Automatically add signature to current page
+    // Automatically add signature to current page, keeping the image's aspect ratio
+    const image = new Image();
+    image.onload = () => {
+      const ratio = image.naturalWidth && image.naturalHeight ? image.naturalWidth / image.naturalHeight : 2.5;
       const newSignature: Signature = {
         id: `sig-${Date.now()}`,
         imageData: imageData,
         x: 100,
         y: 100,
         width: 200,
-        height: 80,
+        height: clamp(200 / ratio, MIN_SIZE, 200),
+        rotation: 0,
         pageNumber: currentPage,
       };
 
-      setSignatures([...signatures, newSignature]);
+      setSignatures(sigs => [...sigs, newSignature]);
       setSelectedSignature(newSignature.id);
-      
-      // Reset file input so same file can be selected again
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
     };
-    reader.readAsDataURL(file);
+    image.src = imageData;
   };
 
-  const handleMouseDown = (e: React.MouseEvent, signatureId: string) => {
+  const isFilled = (field: DocumentField) => {
+    const value = values[field.id];
+    return typeof value === 'string' ? value.trim().length > 0 : !!value;
+  };
+
+  const goToField = (index: number) => {
+    const field = fields[index];
+    if (!field) return;
+    setActiveField(index);
+    setCurrentPage(field.pageNumber);
+    // Dates default to today
+    if (field.type === 'date' && !values[field.id]) {
+      setValues(v => ({ ...v, [field.id]: todayIso() }));
+    }
+  };
+
+  const setFieldValue = (field: DocumentField, value: FieldValue) => {
+    setValues({ ...values, [field.id]: value });
+  };
+
+  // Empty signature and initials fields a dragged signature can drop into
+  const snapFields = fields.filter(
+    f => f.pageNumber === currentPage && (f.type === 'signature' || f.type === 'initials') && !isFilled(f)
+  );
+
+  const getPagePoint = (e: React.PointerEvent) => {
+    const rect = pageRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale };
+  };
+
+  const startInteraction = (e: React.PointerEvent, kind: Interaction['kind'], signature: Signature) => {
     e.preventDefault();
     e.stopPropagation();
-    const signature = signatures.find(s => s.id === signatureId);
-    if (!signature) return;
-
-    setSelectedSignature(signatureId);
-    setIsDragging(true);
-    
-    const container = containerRef.current;
-    if (!container) return;
-    
-    const rect = container.getBoundingClientRect();
-    setDragOffset({
-      x: e.clientX - rect.left - signature.x * scale,
-      y: e.clientY - rect.top - signature.y * scale,
-    });
+    if (!pageRef.current || isSaving) return;
+
+    // Keep receiving events when the pointer leaves the signature, e.g. on touch screens
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    setSelectedSignature(signature.id);
+    interactionRef.current = { kind, start: getPagePoint(e), original: signature };
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || !selectedSignature || !containerRef.current) return;
+  const moveSignature = (original: Signature, dx: number, dy: number): Partial<Signature> => {
+    const moved = { ...original, x: original.x + dx, y: original.y + dy };
 
-    const signature = signatures.find(s => s.id === selectedSignature);
-    if (!signature) return;
+    const field = findSnapTarget(moved, snapFields, FIELD_SNAP_DISTANCE);
+    if (field) {
+      setGuides(NO_GUIDES);
+      return { x: field.x, y: field.y, width: field.width, height: field.height, rotation: 0 };
+    }
 
-    const rect = containerRef.current.getBoundingClientRect();
-    const newX = (e.clientX - rect.left - dragOffset.x) / scale;
-    const newY = (e.clientY - rect.top - dragOffset.y) / scale;
+    // Line up with the page, fields and the other signatures on this page
+    const targets = [
+      { x: 0, y: 0, width: pageWidth, height: pageHeight },
+      ...fields.filter(f => f.pageNumber === currentPage),
+      ...signatures.filter(sig => sig.pageNumber === currentPage && sig.id !== original.id),
+    ];
+    const aligned = alignToGuides(moved, targets, GUIDE_SNAP_DISTANCE);
+    setGuides(aligned.guides);
+
+    return {
+      x: clamp(aligned.x, 0, pageWidth - original.width),
+      y: clamp(aligned.y, 0, pageHeight - original.height),
+    };
+  };
 
-    setSignatures(signatures.map(sig => 
-      sig.id === selectedSignature 
-        ? { 
-            ...sig, 
-            x: Math.max(0, Math.min(pageWidth - sig.width, newX)),
-            y: Math.max(0, Math.min(pageHeight - sig.height, newY))
-          }
-        : sig
-    ));
+  const resizeSignature = (original: Signature, dx: number, dy: number): Partial<Signature> => {
+    const theta = (original.rotation * Math.PI) / 180;
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+
+    // Pointer movement along the signature's own axes
+    const width = Math.max(MIN_SIZE, original.width + dx * cos + dy * sin);
+    const height = lockAspect
+      ? Math.max(MIN_SIZE, (width * original.height) / original.width)
+      : Math.max(MIN_SIZE, original.height - dx * sin + dy * cos);
+
+    // Keep the (rotated) top-left corner in place
+    const left = original.x + original.width / 2 - (original.width / 2) * cos + (original.height / 2) * sin;
+    const top = original.y + original.height / 2 - (original.width / 2) * sin - (original.height / 2) * cos;
+    const centerX = left + (width / 2) * cos - (height / 2) * sin;
+    const centerY = top + (width / 2) * sin + (height / 2) * cos;
+
+    return { x: centerX - width / 2, y: centerY - height / 2, width, height };
   };
 
-  const handleMouseUp = () => {
-    setIsDragging(false);
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const interaction = interactionRef.current;
+    if (!interaction || !pageRef.current) return;
+
+    const point = getPagePoint(e);
+    const { original } = interaction;
+    const dx = point.x - interaction.start.x;
+    const dy = point.y - interaction.start.y;
+
+    let update: Partial<Signature>;
+    if (interaction.kind === 'move') {
+      update = moveSignature(original, dx, dy);
+    } else if (interaction.kind === 'resize') {
+      update = resizeSignature(original, dx, dy);
+    } else {
+      // The handle sits above the center, so pointing straight up is 0 degrees
+      const centerX = original.x + original.width / 2;
+      const centerY = original.y + original.height / 2;
+      const angle = (Math.atan2(point.y - centerY, point.x - centerX) * 180) / Math.PI + 90;
+      update = { rotation: normalizeAngle(e.shiftKey ? Math.round(angle / 15) * 15 : Math.round(angle)) };
+    }
+
+    setSignatures(sigs => sigs.map(sig => (sig.id === original.id ? { ...sig, ...update } : sig)));
   };
 
+  const handlePointerUp = () => {
+    const interaction = interactionRef.current;
+    interactionRef.current = null;
+    setGuides(NO_GUIDES);
+    if (interaction?.kind !== 'move') return;
+
+    // A signature dropped onto an empty field fills it
+    const sig = signatures.find(s => s.id === interaction.original.id);
+    const field = sig && snapFields.find(
+      f => f.x === sig.x && f.y === sig.y && f.width === sig.width && f.height === sig.height
+    );
+    if (sig && field) {
+      setValues({ ...values, [field.id]: sig.imageData });
+      deleteSignature(sig.id);
+      goToField(fields.indexOf(field));
+    }
+  };
+
+  // Arrow keys nudge the selected signature, [ and ] rotate it
+  useEffect(() => {
+    if (!selectedSignature || isSaving) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      const step = e.shiftKey ? 10 : 1;
+      const nudges: Record<string, [number, number]> = {
+        ArrowLeft: [-step, 0],
+        ArrowRight: [step, 0],
+        ArrowUp: [0, -step],
+        ArrowDown: [0, step],
+      };
+
+      if (nudges[e.key]) {
+        e.preventDefault();
+        const [dx, dy] = nudges[e.key];
+        setSignatures(sigs => sigs.map(sig =>
+          sig.id === selectedSignature
+            ? {
+                ...sig,
+                x: clamp(sig.x + dx, 0, pageWidth - sig.width),
+                y: clamp(sig.y + dy, 0, pageHeight - sig.height),
+              }
+            : sig
+        ));
+      } else if (e.key === '[' || e.key === ']') {
+        const turn = e.key === ']' ? 15 : -15;
+        setSignatures(sigs => sigs.map(sig =>
+          sig.id === selectedSignature ? { ...sig, rotation: normalizeAngle(sig.rotation + turn) } : sig
+        ));
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteSignature(selectedSignature);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedSignature, isSaving, pageWidth, pageHeight, signatures]);
+
   const deleteSignature = (signatureId: string) => {
     setSignatures(signatures.filter(s => s.id !== signatureId));
     if (selectedSignature === signatureId) {
@@ -164,8 +331,22 @@ export const PdfSignatureEditor: React.FC<PdfSignatureEditorProps> = ({
     const pdfDoc = await PDFDocument.load(pdfBytes);
     const pages = pdfDoc.getPages();
 
+    // Filled signature and initials fields are drawn like placed signatures
+    const fieldSignatures: Signature[] = fields
+      .filter(f => (f.type === 'signature' || f.type === 'initials') && typeof values[f.id] === 'string' && values[f.id])
+      .map(f => ({
+        id: f.id,
+        imageData: values[f.id] as string,
+        x: f.x,
+        y: f.y,
+        width: f.width,
+        height: f.height,
+        rotation: 0,
+        pageNumber: f.pageNumber,
+      }));
+
     // Add signatures to each page
-    for (const sig of signatures) {
+    for (const sig of [...signatures, ...fieldSignatures]) {
       const page = pages[sig.pageNumber - 1];
       if (!page) continue;
 
@@ -216,30 +397,71 @@ export const PdfSignatureEditor: React.FC<PdfSignatureEditorProps> = ({
         throw new Error(`Failed to load signature image: ${err instanceof Error ? err.message : 'Unknown error'}`);
       }
 
-      // Get page dimensions
-      const { width: pageWidth, height: pageHeight } = page.getSize();
+      // Fit the image inside its box, centered, as the editor shows it
+      const { width, height } = image.scaleToFit(sig.width, sig.height);
+      const box = {
+        x: sig.x + (sig.width - width) / 2,
+        y: sig.y + (sig.height - height) / 2,
+        width,
+        height,
+      };
 
-      // Convert signature coordinates (top-left origin) to PDF coordinates (bottom-left origin)
-      const pdfX = sig.x;
-      const pdfY = pageHeight - sig.y - sig.height;
+      // Editor coordinates are relative to the rotated, cropped page, so map them
+      // back to PDF user space
+      const placement = toPdfPlacement(page, box, sig.rotation);
 
       // Draw the signature
       page.drawImage(image, {
-        x: pdfX,
-        y: pdfY,
-        width: sig.width,
-        height: sig.height,
+        x: placement.x,
+        y: placement.y,
+        width,
+        height,
+        rotate: degrees(placement.rotate),
       });
     }
 
-    // Save the modified PDF
-    const modifiedPdfBytes = await pdfDoc.save();
+    // Write date, text and checkbox fields
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    for (const field of fields) {
+      const page = pages[field.pageNumber - 1];
+      const value = values[field.id];
+      if (!page || !value || field.type === 'signature' || field.type === 'initials') continue;
+
+      const text = field.type === 'checkbox' ? 'X' : String(value);
+      const size = Math.min(field.height * 0.7, 12);
+      const baseline = toPdfPoint(page, field.x + 2, field.y + field.height - (field.height - size) / 2);
+      page.drawText(text, {
+        x: baseline.x,
+        y: baseline.y,
+        size,
+        font,
+        maxWidth: field.width - 4,
+        rotate: degrees(getPageRotation(page)),
+      });
+    }
+
+    // Save the modified PDF, signed with a key the wallet vouches for
+    const modifiedPdfBytes = documentId && currentAccount
+      ? await signPdf(pdfDoc, new Uint8Array(pdfBytes), suiClient, {
+          documentId,
+          signer: currentAccount.address,
+          signPersonalMessage,
+        })
+      : await pdfDoc.save();
     // Create Blob from Uint8Array
     return new Blob([modifiedPdfBytes as any], { type: 'application/pdf' });
   };
 
+  const missingFields = fields.filter(f => f.required && !isFilled(f));
+  const canSave = missingFields.length === 0 && (signatures.length > 0 || fields.some(isFilled));
+
   const handleSave = async () => {
-    if (signatures.length === 0) {
+    if (missingFields.length > 0) {
+      alert(`Please fill in all required fields (${missingFields.length} left) before saving.`);
+      goToField(fields.indexOf(missingFields[0]));
+      return;
+    }
+    if (!canSave) {
       alert('Please add at least one signature before saving.');
       return;
     }
@@ -257,6 +479,10 @@ export const PdfSignatureEditor: React.FC<PdfSignatureEditorProps> = ({
   };
 
   const currentPageSignatures = signatures.filter(sig => sig.pageNumber === currentPage);
+  const currentPageFields = fields.filter(field => field.pageNumber === currentPage);
+  const active = fields[activeField];
+  // The modal fills the active field when it is empty initials
+  const addingInitials = !!active && active.type === 'initials' && !isFilled(active);
 
   return (
     <div className="space-y-4">
@@ -266,30 +492,18 @@ export const PdfSignatureEditor: React.FC<PdfSignatureEditorProps> = ({
           <div className="flex items-center justify-between flex-wrap gap-2">
             <h3 className="text-xl font-semibold">Sign Document</h3>
             <div className="flex items-center gap-2 flex-wrap">
-              <div className="flex flex-col">
-                <Button
-                  variant="outline"
-                  onClick={() => fileInputRef.current?.click()}
-                  disabled={isSaving}
-                  className="text-sm"
-                >
-                  <Upload className="w-4 h-4 mr-2" />
-                  Add Signature
-                </Button>
-                <span className="text-xs text-yellow-600 mt-1 text-center">
-                  ⚠️ PNG only
-                </span>
-              </div>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/png,.png"
-                onChange={handleSignatureUpload}
-                className="hidden"
-              />
+              <Button
+                variant="outline"
+                onClick={() => setIsCreatorOpen(true)}
+                disabled={isSaving}
+                className="text-sm"
+              >
+                <PenTool className="w-4 h-4 mr-2" />
+                Add Signature
+              </Button>
               <Button
                 onClick={handleSave}
-                disabled={signatures.length === 0 || isSaving}
+                disabled={!canSave || isSaving}
                 variant="primary"
                 className="text-sm"
               >
@@ -335,6 +549,93 @@ export const PdfSignatureEditor: React.FC<PdfSignatureEditorProps> = ({
         </Card>
       )}
 
+      {/* Field Guide */}
+      {active && (
+        <Card>
+          <CardBody className="p-4">
+            <div className="flex items-center justify-between flex-wrap gap-3">
+              <div className="flex items-center gap-2">
+                <ListChecks className="w-5 h-5 text-purple-700" />
+                <div>
+                  <p className="text-sm font-medium">
+                    Field {activeField + 1} of {fields.length}: {active.label || FIELD_LABELS[active.type]}
+                    {active.required && <span className="text-red-600"> *</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {missingFields.length > 0
+                      ? `${missingFields.length} required field${missingFields.length > 1 ? 's' : ''} left`
+                      : 'All required fields are filled in'}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2 flex-1 min-w-[200px]">
+                {(active.type === 'signature' || active.type === 'initials') && (
+                  isFilled(active) ? (
+                    <Button variant="outline" onClick={() => setFieldValue(active, '')} disabled={isSaving} className="text-sm">
+                      Clear {FIELD_LABELS[active.type]}
+                    </Button>
+                  ) : (
+                    <Button variant="outline" onClick={() => setIsCreatorOpen(true)} disabled={isSaving} className="text-sm">
+                      <PenTool className="w-4 h-4 mr-2" />
+                      Add {FIELD_LABELS[active.type]}
+                    </Button>
+                  )
+                )}
+                {active.type === 'date' && (
+                  <input
+                    type="date"
+                    value={(values[active.id] as string) || ''}
+                    onChange={(e) => setFieldValue(active, e.target.value)}
+                    disabled={isSaving}
+                    className="rounded-lg border px-3 py-1.5 text-sm border-gray-300"
+                  />
+                )}
+                {active.type === 'text' && (
+                  <input
+                    value={(values[active.id] as string) || ''}
+                    onChange={(e) => setFieldValue(active, e.target.value)}
+                    placeholder={active.label || 'Type here'}
+                    disabled={isSaving}
+                    className="flex-1 rounded-lg border px-3 py-1.5 text-sm border-gray-300"
+                  />
+                )}
+                {active.type === 'checkbox' && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={!!values[active.id]}
+                      onChange={(e) => setFieldValue(active, e.target.checked)}
+                      disabled={isSaving}
+                    />
+                    {active.label || 'Check'}
+                  </label>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => goToField(activeField - 1)}
+                  disabled={activeField === 0 || isSaving}
+                  className="px-3"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => goToField(activeField + 1)}
+                  disabled={activeField === fields.length - 1 || isSaving}
+                  className="px-3"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </CardBody>
+        </Card>
+      )}
+
       {/* Controls */}
       <Card>
         <CardBody className="p-4">
@@ -397,15 +698,15 @@ export const PdfSignatureEditor: React.FC<PdfSignatureEditorProps> = ({
       <Card>
         <CardBody className="p-0">
           <div
-            ref={containerRef}
             className="relative bg-gray-100 flex justify-center items-start p-8 overflow-auto"
             style={{ minHeight: '700px' }}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onClick={() => setSelectedSignature(null)}
           >
             {/* PDF Page */}
-            <div className="relative inline-block" style={{ userSelect: 'none' }}>
+            <div ref={pageRef} className="relative inline-block" style={{ userSelect: 'none' }}>
               <Document
                 file={pdfFile}
                 onLoadSuccess={onDocumentLoadSuccess}
@@ -428,11 +729,68 @@ export const PdfSignatureEditor: React.FC<PdfSignatureEditorProps> = ({
                 />
               </Document>
 
+              {/* Fields */}
+              {currentPageFields.map((field) => {
+                const value = values[field.id];
+                return (
+                  <div
+                    key={field.id}
+                    className={`absolute border-2 cursor-pointer flex items-center overflow-hidden ${
+                      field === active
+                        ? 'border-purple-600 ring-2 ring-purple-300 bg-purple-50/60'
+                        : isFilled(field)
+                        ? 'border-green-500 bg-white/80'
+                        : 'border-dashed border-purple-400 bg-purple-50/40'
+                    }`}
+                    style={{
+                      left: `${field.x * scale}px`,
+                      top: `${field.y * scale}px`,
+                      width: `${field.width * scale}px`,
+                      height: `${field.height * scale}px`,
+                      pointerEvents: isSaving ? 'none' : 'auto',
+                    }}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      goToField(fields.indexOf(field));
+                    }}
+                  >
+                    {(field.type === 'signature' || field.type === 'initials') && typeof value === 'string' && value ? (
+                      <img src={value} alt={FIELD_LABELS[field.type]} className="w-full h-full object-contain" draggable={false} />
+                    ) : field.type === 'checkbox' ? (
+                      value && <Check className="w-full h-full text-gray-900" />
+                    ) : value ? (
+                      <span className="px-1 text-xs text-gray-900 truncate">{String(value)}</span>
+                    ) : (
+                      <span className="px-1 text-[10px] text-purple-700 truncate">
+                        {field.label || FIELD_LABELS[field.type]}
+                        {field.required && ' *'}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+
+              {/* Alignment Guides */}
+              {guides.x.map((x) => (
+                <div
+                  key={`guide-x-${x}`}
+                  className="absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none"
+                  style={{ left: `${x * scale}px` }}
+                />
+              ))}
+              {guides.y.map((y) => (
+                <div
+                  key={`guide-y-${y}`}
+                  className="absolute left-0 right-0 h-px bg-pink-500 pointer-events-none"
+                  style={{ top: `${y * scale}px` }}
+                />
+              ))}
+
               {/* Signature Overlays */}
               {currentPageSignatures.map((sig) => (
                 <div
                   key={sig.id}
-                  className={`absolute cursor-move border-2 transition-all ${
+                  className={`absolute cursor-move border-2 transition-colors ${
                     selectedSignature === sig.id
                       ? 'border-blue-500 shadow-lg ring-2 ring-blue-300'
                       : 'border-dashed border-gray-400 hover:border-blue-400'
@@ -442,10 +800,12 @@ export const PdfSignatureEditor: React.FC<PdfSignatureEditorProps> = ({
                     top: `${sig.y * scale}px`,
                     width: `${sig.width * scale}px`,
                     height: `${sig.height * scale}px`,
+                    transform: `rotate(${sig.rotation}deg)`,
+                    touchAction: 'none',
                     pointerEvents: isSaving ? 'none' : 'auto',
                   }}
-                  onMouseDown={(e) => handleMouseDown(e, sig.id)}
-                  onClick={() => setSelectedSignature(sig.id)}
+                  onPointerDown={(e) => startInteraction(e, 'move', sig)}
+                  onClick={(e) => e.stopPropagation()}
                 >
                   <img
                     src={sig.imageData}
@@ -453,28 +813,59 @@ export const PdfSignatureEditor: React.FC<PdfSignatureEditorProps> = ({
                     className="w-full h-full object-contain bg-white/90 pointer-events-none"
                     draggable={false}
                   />
-                  
-                  {/* Controls */}
+
                   {selectedSignature === sig.id && !isSaving && (
-                    <div className="absolute -top-10 right-0 flex gap-1 bg-white rounded shadow-lg p-1">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          deleteSignature(sig.id);
-                        }}
-                        className="p-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
-                        title="Delete"
+                    <>
+                      {/* Rotate handle */}
+                      <div
+                        className="absolute -top-8 left-1/2 -translate-x-1/2 w-6 h-6 rounded-full bg-white border-2 border-blue-500 flex items-center justify-center cursor-grab"
+                        style={{ touchAction: 'none' }}
+                        onPointerDown={(e) => startInteraction(e, 'rotate', sig)}
+                        title="Rotate (hold Shift to snap to 15°)"
                       >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
-                  )}
-                  
-                  {/* Drag indicator */}
-                  {selectedSignature === sig.id && (
-                    <div className="absolute top-1 left-1 bg-blue-500 text-white rounded p-1">
-                      <Move className="w-3 h-3" />
-                    </div>
+                        <RotateCw className="w-3 h-3 text-blue-600" />
+                      </div>
+
+                      {/* Resize handle */}
+                      <div
+                        className="absolute -bottom-2 -right-2 w-4 h-4 rounded-sm bg-blue-500 border-2 border-white cursor-nwse-resize"
+                        style={{ touchAction: 'none' }}
+                        onPointerDown={(e) => startInteraction(e, 'resize', sig)}
+                        title="Resize"
+                      />
+
+                      {/* Controls */}
+                      <div
+                        className="absolute top-full mt-3 right-0 flex gap-1 bg-white rounded shadow-lg p-1"
+                        onPointerDown={(e) => e.stopPropagation()}
+                      >
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setLockAspect(!lockAspect);
+                          }}
+                          className="p-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                          title={lockAspect ? 'Aspect ratio locked' : 'Aspect ratio unlocked'}
+                        >
+                          {lockAspect ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteSignature(sig.id);
+                          }}
+                          className="p-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+
+                      {/* Drag indicator */}
+                      <div className="absolute top-1 left-1 bg-blue-500 text-white rounded p-1 pointer-events-none">
+                        <Move className="w-3 h-3" />
+                      </div>
+                    </>
                   )}
                 </div>
               ))}
@@ -492,17 +883,25 @@ export const PdfSignatureEditor: React.FC<PdfSignatureEditorProps> = ({
               Instructions:
             </p>
             <ol className="list-decimal list-inside space-y-1 ml-2">
-              <li>Click <strong>"Add Signature"</strong> to select your signature image (<strong>PNG format only</strong> - other formats will be rejected) - it will automatically appear on the PDF</li>
-              <li><strong>Click and drag</strong> the signature to position it where you want</li>
+              <li>Click <strong>"Add Signature"</strong> to draw your signature, type your name in a handwriting font, or upload a PNG, JPEG or SVG image - it will automatically appear on the PDF</li>
+              <li><strong>Drag</strong> the signature to position it - it lines up with nearby edges and drops into empty signature fields. Use the corner handle to resize (the lock keeps its proportions) and the round handle to rotate</li>
+              <li>With a signature selected, <strong>arrow keys</strong> nudge it (hold Shift for bigger steps), <strong>[</strong> and <strong>]</strong> rotate it and <strong>Delete</strong> removes it</li>
               <li>Use the <strong>page navigation</strong> buttons to move between pages and add more signatures if needed</li>
+              <li>If the creator placed fields for you, follow the <strong>field guide</strong> - required fields are marked with * and must be filled in before you can sign</li>
               <li>Click <strong>"Sign"</strong> when done to encrypt, upload, and record your signature on the blockchain</li>
             </ol>
-            <div className="mt-3 p-2 bg-yellow-100 border border-yellow-300 rounded text-yellow-800 text-xs">
-              <strong>⚠️ Note:</strong> Only PNG image files are currently supported. Please convert JPEG or other formats to PNG before uploading.
-            </div>
           </div>
         </CardBody>
       </Card>
+
+      <SignatureCreatorModal
+        isOpen={isCreatorOpen}
+        onClose={() => setIsCreatorOpen(false)}
+        onCreate={placeSignature}
+        title={addingInitials ? 'Add Initials' : 'Add Signature'}
+        kind={addingInitials ? 'initials' : 'signature'}
+        library={signatureLibrary}
+      />
     </div>
   );
 };
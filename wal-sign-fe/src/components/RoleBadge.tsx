@@ -0,0 +1,16 @@
+import { ParticipantRole, ROLE_LABELS } from 'walsign-sdk';
+
+const styles: Record<ParticipantRole, string> = {
+  0: 'bg-blue-100 text-blue-700',
+  1: 'bg-gray-100 text-gray-700',
+  2: 'bg-purple-100 text-purple-700',
+};
+
+export function RoleBadge({ role }: { role: ParticipantRole | null }) {
+  if (role === null) return null;
+  return (
+    <span className={`px-1.5 py-0.5 text-xs rounded flex-shrink-0 ${styles[role]}`}>
+      {ROLE_LABELS[role]}
+    </span>
+  );
+}
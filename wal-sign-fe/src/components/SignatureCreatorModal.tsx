@@ -0,0 +1,410 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark, Eraser, Keyboard, Loader, PenTool, Trash2, Upload } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { LibraryEntryKind, LIBRARY_KIND_LABELS } from 'walsign-sdk';
+import { SignatureLibraryState } from '../hooks/useSignatureLibrary';
+
+// Handwriting-style fonts, loaded from Google Fonts in index.html
+const SIGNATURE_FONTS = ['Dancing Script', 'Great Vibes', 'Caveat', 'Homemade Apple'];
+
+const PAD_WIDTH = 500;
+const PAD_HEIGHT = 200;
+
+type Mode = 'saved' | 'draw' | 'type' | 'upload';
+
+interface SignatureCreatorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreate: (imageData: string) => void; // PNG or JPEG data URL
+  title?: string;
+  kind?: LibraryEntryKind; // What is being created, used when saving to the library
+  library?: SignatureLibraryState; // Offers saved images and saving new ones when set
+}
+
+/**
+ * Render an SVG image to PNG, since pdf-lib can only embed PNG and JPEG
+ */
+async function svgToPng(svgDataUrl: string): Promise<string> {
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error('Could not read the SVG image'));
+    image.src = svgDataUrl;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth || PAD_WIDTH;
+  canvas.height = image.naturalHeight || PAD_HEIGHT;
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Render a typed name in a handwriting font to a transparent PNG
+ */
+async function renderTypedSignature(name: string, font: string): Promise<string> {
+  const fontSpec = `64px "${font}"`;
+  await document.fonts.load(fontSpec);
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+  context.font = fontSpec;
+  const width = Math.ceil(context.measureText(name).width) + 40;
+
+  canvas.width = width;
+  canvas.height = 120;
+  // Resizing the canvas resets its state
+  context.font = fontSpec;
+  context.fillStyle = '#111827';
+  context.textBaseline = 'middle';
+  context.fillText(name, 20, 60);
+  return canvas.toDataURL('image/png');
+}
+
+const SignatureCreatorModal: React.FC<SignatureCreatorModalProps> = ({
+  isOpen,
+  onClose,
+  onCreate,
+  title = 'Add Signature',
+  kind = 'signature',
+  library,
+}) => {
+  const [mode, setMode] = useState<Mode>('draw');
+  const [name, setName] = useState('');
+  const [font, setFont] = useState(SIGNATURE_FONTS[0]);
+  const [hasDrawing, setHasDrawing] = useState(false);
+  const [saveToLibrary, setSaveToLibrary] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isDrawingRef = useRef(false);
+
+  const hasSaved = !!library && library.entries.length > 0;
+
+  useEffect(() => {
+    if (!isOpen) {
+      setName('');
+      setHasDrawing(false);
+      setSaveToLibrary(false);
+      setError(null);
+    } else {
+      // Open on the saved images when there are any
+      setMode(hasSaved ? 'saved' : 'draw');
+    }
+  }, [isOpen]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    // The pad is drawn at a fixed resolution and scaled with CSS
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * PAD_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * PAD_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawingRef.current = true;
+
+    const { x, y } = getPoint(e);
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+    setHasDrawing(true);
+  };
+
+  const handlePointerUp = () => {
+    isDrawingRef.current = false;
+  };
+
+  const clearPad = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasDrawing(false);
+  };
+
+  const finish = async (imageData: string, label?: string) => {
+    if (label && saveToLibrary && library) {
+      setIsSaving(true);
+      try {
+        await library.saveEntry(kind, label, imageData);
+      } catch (err: any) {
+        console.error('Error saving signature to library:', err);
+        setError(err.message || 'Failed to save to your library. Uncheck saving to use it anyway.');
+        return;
+      } finally {
+        setIsSaving(false);
+      }
+    }
+
+    onCreate(imageData);
+    clearPad();
+    onClose();
+  };
+
+  const handleUseDrawing = () => {
+    if (!canvasRef.current || !hasDrawing) return;
+    finish(canvasRef.current.toDataURL('image/png'), `Drawn ${LIBRARY_KIND_LABELS[kind].toLowerCase()}`);
+  };
+
+  const handleRemoveSaved = async (index: number, label: string) => {
+    if (!library || !confirm(`Remove "${label}" from your saved signatures?`)) {
+      return;
+    }
+    try {
+      await library.removeEntry(index);
+    } catch (err: any) {
+      console.error('Error removing saved signature:', err);
+      setError(err.message || 'Failed to remove the saved signature');
+    }
+  };
+
+  const handleUseTyped = async () => {
+    if (!name.trim()) {
+      setError('Please type your name');
+      return;
+    }
+    try {
+      await finish(await renderTypedSignature(name.trim(), font), name.trim());
+    } catch (err) {
+      console.error('Error rendering typed signature:', err);
+      setError('Failed to render the signature. Please try again.');
+    }
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (!file) return;
+
+    const isSvg = file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
+    if (!isSvg && file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      setError('Please choose a PNG, JPEG or SVG image');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      const imageData = e.target?.result as string;
+      try {
+        await finish(isSvg ? await svgToPng(imageData) : imageData, file.name.replace(/\.[^.]+$/, ''));
+      } catch (err) {
+        console.error('Error reading signature image:', err);
+        setError(err instanceof Error ? err.message : 'Failed to read the image');
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const tabClass = (tab: Mode) =>
+    `flex-1 flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+      mode === tab ? 'bg-purple-100 text-purple-800' : 'text-gray-600 hover:bg-gray-100'
+    }`;
+
+  return (
+    <Modal open={isOpen} onClose={onClose} title={title}>
+      <div className="space-y-4">
+        <div className="flex gap-2">
+          {library && (
+            <button onClick={() => { setMode('saved'); setError(null); }} className={tabClass('saved')}>
+              <Bookmark className="w-4 h-4" />
+              Saved
+            </button>
+          )}
+          <button onClick={() => { setMode('draw'); setError(null); }} className={tabClass('draw')}>
+            <PenTool className="w-4 h-4" />
+            Draw
+          </button>
+          <button onClick={() => { setMode('type'); setError(null); }} className={tabClass('type')}>
+            <Keyboard className="w-4 h-4" />
+            Type
+          </button>
+          <button onClick={() => { setMode('upload'); setError(null); }} className={tabClass('upload')}>
+            <Upload className="w-4 h-4" />
+            Upload
+          </button>
+        </div>
+
+        {mode === 'saved' && library && (
+          <div className="space-y-3">
+            {library.isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader className="w-6 h-6 text-purple-600 animate-spin" />
+              </div>
+            ) : !hasSaved ? (
+              <p className="text-sm text-gray-500 text-center py-6">
+                Nothing saved yet. Draw, type or upload a signature and tick "Save to my library".
+              </p>
+            ) : !library.isUnlocked ? (
+              <div className="text-center py-4 space-y-3">
+                <p className="text-sm text-gray-600">
+                  {library.entries.length} saved image{library.entries.length === 1 ? '' : 's'}, encrypted to your wallet.
+                </p>
+                <Button onClick={library.unlock} disabled={library.isUnlocking} variant="primary">
+                  {library.isUnlocking ? (
+                    <>
+                      <Loader className="w-4 h-4 animate-spin mr-2" />
+                      Decrypting...
+                    </>
+                  ) : (
+                    'Show Saved Signatures'
+                  )}
+                </Button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {library.entries
+                  .map((entry, index) => ({ entry, index }))
+                  // Entries of the kind being added first
+                  .sort((a, b) => Number(b.entry.kind === kind) - Number(a.entry.kind === kind))
+                  .map(({ entry, index }) => (
+                    <div key={entry.walrusBlobId} className="group relative">
+                      <button
+                        onClick={() => finish(library.images[entry.walrusBlobId])}
+                        className="w-full rounded-lg border-2 border-gray-200 p-2 hover:border-purple-600 hover:bg-purple-50"
+                        title={`Use ${entry.label}`}
+                      >
+                        <img
+                          src={library.images[entry.walrusBlobId]}
+                          alt={entry.label}
+                          className="h-16 w-full object-contain"
+                        />
+                        <p className="mt-1 truncate text-xs text-gray-600">
+                          {entry.label} · {LIBRARY_KIND_LABELS[entry.kind]}
+                        </p>
+                      </button>
+                      <button
+                        onClick={() => handleRemoveSaved(index, entry.label)}
+                        className="absolute right-1 top-1 hidden rounded p-1 text-red-500 hover:bg-red-50 group-hover:block"
+                        title="Remove from library"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+              </div>
+            )}
+            {library.error && <p className="text-xs text-error">{library.error}</p>}
+          </div>
+        )}
+
+        {mode === 'draw' && (
+          <div className="space-y-3">
+            <canvas
+              ref={canvasRef}
+              width={PAD_WIDTH}
+              height={PAD_HEIGHT}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="w-full rounded-lg border-2 border-dashed border-gray-300 bg-white cursor-crosshair"
+              style={{ touchAction: 'none' }}
+            />
+            <p className="text-xs text-gray-500">Sign with your mouse, finger or pen.</p>
+            <div className="flex gap-3">
+              <Button onClick={handleUseDrawing} disabled={!hasDrawing || isSaving} variant="primary" className="flex-1">
+                Use Signature
+              </Button>
+              <Button onClick={clearPad} disabled={!hasDrawing} variant="outline">
+                <Eraser className="w-4 h-4 mr-2" />
+                Clear
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {mode === 'type' && (
+          <div className="space-y-3">
+            <Input
+              label="Full Name"
+              value={name}
+              onChange={(value) => {
+                setName(value);
+                setError(null);
+              }}
+              placeholder="Jane Doe"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              {SIGNATURE_FONTS.map((fontName) => (
+                <button
+                  key={fontName}
+                  onClick={() => setFont(fontName)}
+                  className={`truncate rounded-lg border-2 px-3 py-3 text-2xl text-gray-900 ${
+                    font === fontName ? 'border-purple-600 bg-purple-50' : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                  style={{ fontFamily: `"${fontName}", cursive` }}
+                  title={fontName}
+                >
+                  {name.trim() || 'Your Name'}
+                </button>
+              ))}
+            </div>
+            <Button onClick={handleUseTyped} disabled={!name.trim() || isSaving} variant="primary" className="w-full">
+              Use Signature
+            </Button>
+          </div>
+        )}
+
+        {mode === 'upload' && (
+          <div className="space-y-3">
+            <div
+              onClick={() => fileInputRef.current?.click()}
+              className="cursor-pointer rounded-lg border-2 border-dashed border-gray-300 p-8 text-center hover:border-gray-400 hover:bg-gray-50"
+            >
+              <Upload className="w-8 h-8 mx-auto mb-2 text-gray-400" />
+              <p className="text-sm font-medium text-gray-900">Choose a signature image</p>
+              <p className="text-xs text-gray-500">PNG, JPEG or SVG</p>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg,image/svg+xml,.png,.jpg,.jpeg,.svg"
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+          </div>
+        )}
+
+        {library && mode !== 'saved' && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={saveToLibrary}
+              onChange={(e) => setSaveToLibrary(e.target.checked)}
+              disabled={isSaving}
+            />
+            Save to my library as {LIBRARY_KIND_LABELS[kind].toLowerCase()}
+            {isSaving && <Loader className="w-4 h-4 animate-spin text-purple-600" />}
+          </label>
+        )}
+
+        {error && <p className="text-xs text-error">{error}</p>}
+      </div>
+    </Modal>
+  );
+};
+
+export default SignatureCreatorModal;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Loader, PenTool, Trash2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import SignatureCreatorModal from './SignatureCreatorModal';
+import { LibraryEntryKind, LIBRARY_KIND_LABELS } from 'walsign-sdk';
+import { SignatureLibraryState } from '../hooks/useSignatureLibrary';
+
+interface SignatureLibraryPanelProps {
+  library: SignatureLibraryState;
+}
+
+const SignatureLibraryPanel: React.FC<SignatureLibraryPanelProps> = ({ library }) => {
+  const [label, setLabel] = useState('');
+  const [creatingKind, setCreatingKind] = useState<LibraryEntryKind | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [removingIndex, setRemovingIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async (imageData: string) => {
+    if (!creatingKind) return;
+
+    const kind = creatingKind;
+    const count = library.entries.filter(entry => entry.kind === kind).length;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await library.saveEntry(kind, label.trim() || `${LIBRARY_KIND_LABELS[kind]} ${count + 1}`, imageData);
+      setLabel('');
+    } catch (err: any) {
+      console.error('Error saving signature:', err);
+      setError(err.message || 'Failed to save signature');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (index: number, entryLabel: string) => {
+    if (!confirm(`Remove "${entryLabel}" from your saved signatures?`)) {
+      return;
+    }
+
+    setRemovingIndex(index);
+    try {
+      await library.removeEntry(index);
+    } catch (err: any) {
+      console.error('Error removing saved signature:', err);
+      alert(err.message || 'Failed to remove saved signature');
+    } finally {
+      setRemovingIndex(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <p className="text-sm text-gray-600">
+          Signatures and initials encrypted to your wallet and kept on Walrus. They are offered in the signing editor on any device.
+        </p>
+        <div className="flex items-center gap-2">
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Name (optional)"
+            disabled={isSaving}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+          />
+          <Button onClick={() => setCreatingKind('signature')} disabled={isSaving} variant="primary" size="sm">
+            <PenTool className="w-4 h-4 mr-2" />
+            Add Signature
+          </Button>
+          <Button onClick={() => setCreatingKind('initials')} disabled={isSaving} variant="outline" size="sm">
+            Add Initials
+          </Button>
+        </div>
+      </div>
+
+      {isSaving && (
+        <p className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+          <Loader className="w-4 h-4 animate-spin" />
+          Encrypting and saving...
+        </p>
+      )}
+      {(error || library.error) && <p className="text-sm text-red-600 mb-4">{error || library.error}</p>}
+
+      {library.isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+        </div>
+      ) : library.entries.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">You have not saved any signatures yet.</p>
+      ) : (
+        <>
+          {!library.isUnlocked && (
+            <div className="flex justify-center mb-4">
+              <Button onClick={library.unlock} disabled={library.isUnlocking} variant="outline" size="sm">
+                {library.isUnlocking ? (
+                  <>
+                    <Loader className="w-4 h-4 animate-spin mr-2" />
+                    Decrypting...
+                  </>
+                ) : (
+                  'Show Previews'
+                )}
+              </Button>
+            </div>
+          )}
+          <ul className="divide-y divide-gray-100">
+            {library.entries.map((entry, index) => (
+              <li key={entry.walrusBlobId} className="flex items-center justify-between gap-4 py-3">
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className="flex h-12 w-32 flex-shrink-0 items-center justify-center rounded border border-gray-200 bg-gray-50">
+                    {library.images[entry.walrusBlobId] ? (
+                      <img
+                        src={library.images[entry.walrusBlobId]}
+                        alt={entry.label}
+                        className="max-h-full max-w-full object-contain"
+                      />
+                    ) : (
+                      <span className="text-xs text-gray-400">Encrypted</span>
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{entry.label}</p>
+                    <p className="text-xs text-gray-500">
+                      {LIBRARY_KIND_LABELS[entry.kind]} · saved {new Date(entry.addedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  onClick={() => handleRemove(index, entry.label)}
+                  disabled={removingIndex !== null}
+                  variant="outline"
+                  size="sm"
+                >
+                  {removingIndex === index ? (
+                    <Loader className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="w-4 h-4" />
+                  )}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <SignatureCreatorModal
+        isOpen={creatingKind !== null}
+        onClose={() => setCreatingKind(null)}
+        onCreate={handleCreate}
+        title={creatingKind === 'initials' ? 'Add Initials' : 'Add Signature'}
+      />
+    </div>
+  );
+};
+
+export default SignatureLibraryPanel;
@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import { CheckCircle, LayoutTemplate, Loader, Plus, Trash2 } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { ParticipantRole, ROLE_LABELS, TemplateField } from 'walsign-sdk';
+import { TemplateSlot } from '../hooks/useTemplates';
+
+interface TemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  createTemplate: (
+    pdfFile: File,
+    name: string,
+    slots: TemplateSlot[],
+    fields: TemplateField[],
+    sequential: boolean,
+    threshold: number | null
+  ) => Promise<string>;
+  onSuccess: () => void;
+}
+
+// Same default box the signature editor places a new signature in
+const DEFAULT_FIELD: Omit<TemplateField, 'slot'> = { page: 1, x: 100, y: 100, width: 200, height: 80 };
+
+const TemplateModal: React.FC<TemplateModalProps> = ({
+  isOpen,
+  onClose,
+  createTemplate,
+  onSuccess,
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState('');
+  const [slots, setSlots] = useState<TemplateSlot[]>([{ name: '', role: 0 }]);
+  const [fields, setFields] = useState<TemplateField[]>([]);
+  const [sequential, setSequential] = useState(false);
+  const [threshold, setThreshold] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setName('');
+    setSlots([{ name: '', role: 0 }]);
+    setFields([]);
+    setSequential(false);
+    setThreshold('');
+    setError(null);
+    setSuccess(null);
+  };
+
+  const updateSlot = (index: number, slot: Partial<TemplateSlot>) => {
+    setSlots(slots.map((current, i) => (i === index ? { ...current, ...slot } : current)));
+    setError(null);
+  };
+
+  const removeSlot = (index: number) => {
+    setSlots(slots.filter((_, i) => i !== index));
+    // Drop the slot's fields and shift the indices of the slots after it
+    setFields(
+      fields
+        .filter(field => field.slot !== index)
+        .map(field => (field.slot > index ? { ...field, slot: field.slot - 1 } : field))
+    );
+  };
+
+  const updateField = (index: number, key: keyof TemplateField, value: string) => {
+    const parsed = parseInt(value);
+    setFields(fields.map((field, i) => (i === index ? { ...field, [key]: Number.isNaN(parsed) ? 0 : parsed } : field)));
+    setError(null);
+  };
+
+  const handleCreate = async () => {
+    if (!file) {
+      setError('Please choose a PDF');
+      return;
+    }
+    if (!name.trim()) {
+      setError('Please enter a name');
+      return;
+    }
+    if (slots.length === 0 || slots.some(slot => !slot.name.trim())) {
+      setError('Every slot needs a name');
+      return;
+    }
+
+    let parsedThreshold: number | null = null;
+    if (threshold) {
+      parsedThreshold = parseInt(threshold);
+      const approvers = slots.filter(slot => slot.role === 0).length;
+      if (Number.isNaN(parsedThreshold) || parsedThreshold < 1 || parsedThreshold > approvers) {
+        setError(`Threshold must be between 1 and ${approvers}`);
+        return;
+      }
+    }
+
+    setError(null);
+    setSuccess(null);
+    setIsLoading(true);
+
+    try {
+      await createTemplate(
+        file,
+        name.trim(),
+        slots.map(slot => ({ ...slot, name: slot.name.trim() })),
+        fields,
+        sequential,
+        parsedThreshold
+      );
+
+      setSuccess(`Created ${name.trim()}`);
+
+      // Call success callback after a short delay
+      setTimeout(() => {
+        reset();
+        onSuccess();
+        onClose();
+      }, 2000);
+    } catch (err: any) {
+      console.error('Error creating template:', err);
+      setError(err.message || 'Failed to create template. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      reset();
+      onClose();
+    }
+  };
+
+  return (
+    <Modal open={isOpen} onClose={handleClose} title="New Template">
+      <div className="space-y-6">
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600">
+            A template stores a PDF, named signer slots and where each slot signs. Creating a document from it only asks for one address per slot.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium mb-1">PDF</label>
+            <input
+              type="file"
+              accept="application/pdf"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setError(null);
+              }}
+              disabled={isLoading}
+              className="text-sm"
+            />
+          </div>
+
+          <Input
+            label="Name"
+            value={name}
+            onChange={(value) => {
+              setName(value);
+              setError(null);
+            }}
+            placeholder="Mutual NDA"
+            disabled={isLoading}
+          />
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">Signer Slots</h4>
+              <Button
+                onClick={() => setSlots([...slots, { name: '', role: 0 }])}
+                disabled={isLoading}
+                variant="outline"
+                size="sm"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+            {slots.map((slot, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-xs text-gray-500 w-5">{index + 1}.</span>
+                <input
+                  value={slot.name}
+                  onChange={(e) => updateSlot(index, { name: e.target.value })}
+                  placeholder="Client"
+                  disabled={isLoading}
+                  className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                />
+                <select
+                  value={slot.role}
+                  onChange={(e) => updateSlot(index, { role: parseInt(e.target.value) as ParticipantRole })}
+                  disabled={isLoading}
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                >
+                  {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                    <option key={role} value={role}>{label}</option>
+                  ))}
+                </select>
+                <Button
+                  onClick={() => removeSlot(index)}
+                  disabled={isLoading || slots.length === 1}
+                  variant="outline"
+                  size="sm"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">Signature Fields</h4>
+              <Button
+                onClick={() => setFields([...fields, { slot: 0, ...DEFAULT_FIELD }])}
+                disabled={isLoading}
+                variant="outline"
+                size="sm"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+            {fields.length === 0 && (
+              <p className="text-xs text-gray-500">Optional. Positions are in PDF points from the top-left corner of the page.</p>
+            )}
+            {fields.map((field, index) => (
+              <div key={index} className="flex items-center gap-1">
+                <select
+                  value={field.slot}
+                  onChange={(e) => updateField(index, 'slot', e.target.value)}
+                  disabled={isLoading}
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                >
+                  {slots.map((slot, slotIndex) => (
+                    <option key={slotIndex} value={slotIndex}>{slot.name || `Slot ${slotIndex + 1}`}</option>
+                  ))}
+                </select>
+                {(['page', 'x', 'y', 'width', 'height'] as const).map(key => (
+                  <input
+                    key={key}
+                    type="number"
+                    min={key === 'page' ? 1 : 0}
+                    value={field[key]}
+                    onChange={(e) => updateField(index, key, e.target.value)}
+                    title={key}
+                    disabled={isLoading}
+                    className="w-14 px-1 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  />
+                ))}
+                <Button
+                  onClick={() => setFields(fields.filter((_, i) => i !== index))}
+                  disabled={isLoading}
+                  variant="outline"
+                  size="sm"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={sequential}
+              onChange={(e) => setSequential(e.target.checked)}
+              disabled={isLoading}
+            />
+            Slots sign in order
+          </label>
+
+          <Input
+            label="Signatures Required"
+            type="number"
+            value={threshold}
+            onChange={(value) => {
+              setThreshold(value);
+              setError(null);
+            }}
+            placeholder="All approvers"
+            disabled={isLoading}
+          />
+
+          {error && <p className="text-xs text-error">{error}</p>}
+
+          {success && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-start gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-green-800">{success}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button
+              onClick={handleCreate}
+              disabled={isLoading || !file || !name.trim()}
+              className="flex-1"
+              variant="primary"
+            >
+              {isLoading ? (
+                <>
+                  <Loader className="w-4 h-4 animate-spin mr-2" />
+                  Submitting...
+                </>
+              ) : (
+                <>
+                  <LayoutTemplate className="w-4 h-4 mr-2" />
+                  Create Template
+                </>
+              )}
+            </Button>
+            <Button onClick={handleClose} disabled={isLoading} variant="outline">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default TemplateModal;
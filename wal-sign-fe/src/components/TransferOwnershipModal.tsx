@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { ArrowRightLeft, CheckCircle, Loader } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { DocumentSummary } from 'walsign-sdk';
+import { formatAddress, isValidSuiAddress } from '../utils/addressUtils';
+import { useWalSignClient } from '../hooks/useWalSignClient';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { SuiTransactionBlockResponse } from '@mysten/sui/client';
+
+interface TransferOwnershipModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  document: DocumentSummary;
+  onSuccess: () => void;
+}
+
+const TransferOwnershipModal: React.FC<TransferOwnershipModalProps> = ({
+  isOpen,
+  onClose,
+  document,
+  onSuccess,
+}) => {
+  const currentAccount = useCurrentAccount();
+  const client = useWalSignClient();
+  const [newCreator, setNewCreator] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const isProposedCreator = !!currentAccount && document.pendingCreator === currentAccount.address;
+
+  const execute = async (send: () => Promise<SuiTransactionBlockResponse>, successMessage: string) => {
+    setError(null);
+    setSuccess(null);
+    setIsLoading(true);
+
+    try {
+      const result = await send();
+      console.log('Ownership updated, tx:', result.digest);
+
+      setSuccess(successMessage);
+      setNewCreator('');
+
+      // Call success callback after a short delay
+      setTimeout(() => {
+        onSuccess();
+        onClose();
+      }, 2000);
+    } catch (err: any) {
+      console.error('Error updating ownership:', err);
+      setError(err.message || 'Failed to update ownership. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePropose = async () => {
+    const address = newCreator.trim();
+    if (!isValidSuiAddress(address)) {
+      setError('Please enter a valid Sui address');
+      return;
+    }
+    if (address === document.creator) {
+      setError('This address is already the creator');
+      return;
+    }
+
+    await execute(
+      () => client.call('proposeOwnershipTransfer', {
+        documentRegistry: client.config.registryId,
+        document: document.documentId,
+        newCreator: address,
+      }),
+      `Transfer proposed to ${formatAddress(address)}`
+    );
+  };
+
+  const handleCancel = async () => {
+    await execute(
+      () => client.call('cancelOwnershipTransfer', {
+        documentRegistry: client.config.registryId,
+        document: document.documentId,
+      }),
+      'Transfer cancelled'
+    );
+  };
+
+  const handleAccept = async () => {
+    await execute(
+      () => client.call('acceptOwnership', {
+        documentRegistry: client.config.registryId,
+        document: document.documentId,
+      }),
+      'You are now the creator of this document'
+    );
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      setNewCreator('');
+      setError(null);
+      setSuccess(null);
+      onClose();
+    }
+  };
+
+  return (
+    <Modal open={isOpen} onClose={handleClose} title="Transfer Ownership">
+      <div className="space-y-6">
+        {/* Document Info */}
+        <div className="bg-gray-50 rounded-lg p-4">
+          <h4 className="font-medium text-gray-900 mb-2">{document.title}</h4>
+          <p className="text-sm text-gray-600">
+            {isProposedCreator
+              ? <>{formatAddress(document.creator)} wants to hand this document over to you. Once you accept, you manage its signers and deadline.</>
+              : 'The new creator takes over managing signers and the deadline once they accept. You lose those rights.'}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {!isProposedCreator && document.pendingCreator && (
+            <div className="flex items-center justify-between gap-2 bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2">
+              <p className="text-sm text-yellow-800">
+                Waiting for <span className="font-mono">{formatAddress(document.pendingCreator)}</span> to accept
+              </p>
+              <Button onClick={handleCancel} disabled={isLoading} variant="outline" size="sm">
+                Cancel Transfer
+              </Button>
+            </div>
+          )}
+
+          {!isProposedCreator && (
+            <Input
+              label="New Creator Address"
+              value={newCreator}
+              onChange={(value) => {
+                setNewCreator(value);
+                setError(null);
+              }}
+              placeholder="0x..."
+              disabled={isLoading}
+            />
+          )}
+
+          {error && <p className="text-xs text-error">{error}</p>}
+
+          {success && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-start gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-green-800">{success}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button
+              onClick={isProposedCreator ? handleAccept : handlePropose}
+              disabled={isLoading || (!isProposedCreator && !newCreator.trim())}
+              className="flex-1"
+              variant="primary"
+            >
+              {isLoading ? (
+                <>
+                  <Loader className="w-4 h-4 animate-spin mr-2" />
+                  Submitting...
+                </>
+              ) : (
+                <>
+                  <ArrowRightLeft className="w-4 h-4 mr-2" />
+                  {isProposedCreator ? 'Accept Ownership' : 'Propose Transfer'}
+                </>
+              )}
+            </Button>
+            <Button onClick={handleClose} disabled={isLoading} variant="outline">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default TransferOwnershipModal;
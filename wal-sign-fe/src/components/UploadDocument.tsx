@@ -1,32 +1,72 @@
 'use client';
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import toast from 'react-hot-toast';
 import { Button } from './ui/Button';
 import { Card, CardBody, CardHeader } from './ui/Card';
 import { Input } from './ui/Input';
-import { isValidSuiAddress, getSignUrl } from '../utils/addressUtils';
+import { isValidSuiAddress, getSignUrl, getExplorerTxUrl } from '../utils/addressUtils';
 import { useSuiWallet } from '../hooks/useSuiWallet';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { walSignClient } from '../config/seal.config';
 import { Modal } from './ui/Modal';
 import { DocumentViewer } from './DocumentViewer';
+import { FieldPlacementEditor } from './FieldPlacementEditor';
 import { useDocumentUpload } from '../hooks/useDocumentUpload';
+import { useDocumentDecryption } from '../hooks/useDocumentDecryption';
+import { useTemplates } from '../hooks/useTemplates';
+import {
+  OrganizationSummary,
+  ParticipantRole,
+  ROLE_LABELS,
+  DocumentField,
+} from 'walsign-sdk';
+import { RoleBadge } from './RoleBadge';
 
 export function UploadDocument() {
   const { connected } = useSuiWallet();
+  const currentAccount = useCurrentAccount();
   const [file, setFile] = useState<File | null>(null);
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [recipient, setRecipient] = useState('');
   const [recipients, setRecipients] = useState<string[]>([]);
+  const [recipientRole, setRecipientRole] = useState<ParticipantRole>(0);
+  const [roles, setRoles] = useState<Record<string, ParticipantRole>>({});
+  const [sequential, setSequential] = useState(false);
+  const [threshold, setThreshold] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [organizationId, setOrganizationId] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [slotAddresses, setSlotAddresses] = useState<string[]>([]);
+  const [fields, setFields] = useState<DocumentField[]>([]);
+  const [isPlacingFields, setIsPlacingFields] = useState(false);
   const [openModal, setOpenModal] = useState(false);
   const [createdId, setCreatedId] = useState<string>('');
   const [walrusBlobId, setWalrusBlobId] = useState<string>('');
   const [txHash, setTxHash] = useState<string>('');
   const { uploadDocument, progress, isUploading, resetProgress } = useDocumentUpload();
+  const { templates } = useTemplates();
+  const { decryptDocument, isDecrypting } = useDocumentDecryption();
+  const template = templates.find((t) => t.templateId === templateId) ?? null;
+
+  useEffect(() => {
+    if (!currentAccount?.address) {
+      setOrganizations([]);
+      return;
+    }
+    walSignClient.getUserOrganizations(currentAccount.address)
+      .then((ids) => Promise.all(ids.map((id) => walSignClient.getOrganizationDetails(id))))
+      .then((orgs) => setOrganizations(orgs.filter((org): org is OrganizationSummary => org !== null)));
+  }, [currentAccount?.address]);
 
   const onDrop = useCallback((accepted: File[]) => {
     const pdf = accepted.find((f) => f.type === 'application/pdf');
-    if (pdf) setFile(pdf);
+    if (pdf) {
+      setFile(pdf);
+      setFields([]);
+    }
   }, []);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -35,13 +75,52 @@ export function UploadDocument() {
     multiple: false,
   });
 
-  const canCreate = connected && !!file && !!title;
+  const expiresAt = deadline ? new Date(deadline).getTime() : null;
+  const deadlineError = expiresAt !== null && expiresAt <= Date.now() ? 'Deadline must be in the future' : undefined;
+  const approverCount = recipients.filter((addr) => roles[addr] === 0).length;
+  const requiredSignatures = approverCount > 1 && threshold ? Number(threshold) : null;
+  const thresholdError =
+    requiredSignatures !== null &&
+    (!Number.isInteger(requiredSignatures) || requiredSignatures < 1 || requiredSignatures > approverCount)
+      ? `Enter a number between 1 and ${approverCount}`
+      : undefined;
+  const slotsFilled =
+    !!template &&
+    slotAddresses.length === template.slots.length &&
+    slotAddresses.every((addr) => isValidSuiAddress(addr)) &&
+    new Set(slotAddresses).size === slotAddresses.length;
+  // Viewers never sign, so they get no fields
+  const fieldSigners = template
+    ? slotAddresses.filter((addr, idx) => isValidSuiAddress(addr) && template.slotRoles[idx] !== 1)
+    : recipients.filter((addr) => roles[addr] !== 1);
+  const placedFields = fields.filter((field) => fieldSigners.includes(field.signer));
+  const canCreate =
+    connected && !!file && !!title && !deadlineError && (template ? slotsFilled : !thresholdError);
+
+  const selectTemplate = (id: string) => {
+    setTemplateId(id);
+    const selected = templates.find((t) => t.templateId === id);
+    setSlotAddresses(selected ? selected.slots.map(() => '') : []);
+    if (selected && !title) setTitle(selected.name);
+  };
+
+  const loadTemplatePdf = async () => {
+    if (!template) return;
+    const blob = await decryptDocument(template.templateId, template.walrusBlobId, 'seal_approve_template');
+    if (!blob) {
+      toast.error('Could not load the template PDF');
+      return;
+    }
+    setFile(new File([blob], `${template.name}.pdf`, { type: 'application/pdf' }));
+    setFields([]);
+  };
 
   const addRecipient = () => {
     if (!recipient) return;
     if (!isValidSuiAddress(recipient)) return;
     if (recipients.includes(recipient)) return;
     setRecipients((r) => [...r, recipient]);
+    setRoles((r) => ({ ...r, [recipient]: recipientRole }));
     setRecipient('');
   };
   const removeRecipient = (addr: string) => setRecipients((r) => r.filter((x) => x !== addr));
@@ -56,7 +135,32 @@ export function UploadDocument() {
     if (!file) return;
     try {
       console.log("tt");
-      const res = await uploadDocument(file, title, recipients);
+      // Template documents take their roles, order and threshold from the template
+      const res = template
+        ? await uploadDocument(
+            file,
+            title,
+            slotAddresses,
+            template.slotRoles,
+            template.sequential,
+            template.threshold,
+            expiresAt,
+            null,
+            template.templateId,
+            placedFields
+          )
+        : await uploadDocument(
+            file,
+            title,
+            recipients,
+            recipients.map((addr) => roles[addr]),
+            sequential,
+            requiredSignatures,
+            expiresAt,
+            organizationId || null,
+            null,
+            placedFields
+          );
       console.log("hereeeeelklll");
       setCreatedId(res.documentId);
       setWalrusBlobId(res.walrusBlobId);
@@ -74,6 +178,31 @@ export function UploadDocument() {
           <h3 className="font-semibold">Upload Document</h3>
         </CardHeader>
         <CardBody>
+          {templates.length > 0 && (
+            <div className="mb-4 space-y-2">
+              <label className="text-sm font-medium">Template</label>
+              <div className="flex gap-2">
+                <select
+                  value={templateId}
+                  onChange={(e) => selectTemplate(e.target.value)}
+                  className="flex-1 rounded-lg border px-3 py-2 text-sm border-gray-300"
+                >
+                  <option value="">None</option>
+                  {templates.map((t) => (
+                    <option key={t.templateId} value={t.templateId}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
+                {template && (
+                  <Button variant="outline" onClick={loadTemplatePdf} disabled={isDecrypting}>
+                    {isDecrypting ? 'Loading...' : 'Load PDF'}
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">Optional. Start from one of your templates and only fill in who signs.</p>
+            </div>
+          )}
           <div
             {...getRootProps()}
             className={`border-2 border-dashed rounded-xl p-8 text-center cursor-pointer transition-all duration-200 ${
@@ -123,41 +252,135 @@ export function UploadDocument() {
               <label className="text-sm font-medium">Description</label>
               <textarea value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" className="w-full rounded-lg border px-3 py-2 border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary/30" />
             </div>
-            <div className="space-y-2">
-              <div className="flex gap-2">
-                <Input label="Add Recipient" value={recipient} onChange={setRecipient} placeholder="0x..." className="flex-1" />
-                <Button variant="outline" onClick={addRecipient}>Add</Button>
+            {template ? (
+              <div className="space-y-2">
+                {template.slots.map((slot, idx) => (
+                  <div key={slot} className="flex items-end gap-2">
+                    <Input
+                      label={`${template.sequential ? `${idx + 1}. ` : ''}${slot}`}
+                      value={slotAddresses[idx] ?? ''}
+                      onChange={(value) =>
+                        setSlotAddresses((addrs) => addrs.map((addr, i) => (i === idx ? value.trim() : addr)))
+                      }
+                      placeholder="0x..."
+                      className="flex-1"
+                      error={
+                        slotAddresses[idx] && !isValidSuiAddress(slotAddresses[idx])
+                          ? 'Invalid address'
+                          : undefined
+                      }
+                    />
+                    <div className="pb-2">
+                      <RoleBadge role={template.slotRoles[idx] ?? 0} />
+                    </div>
+                  </div>
+                ))}
+                {template.threshold !== null && (
+                  <p className="text-xs text-gray-500">Complete once {template.threshold} approvers have signed.</p>
+                )}
               </div>
-              {recipients.length > 0 && (
-                <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
-                  <label className="block text-xs font-semibold text-gray-600 mb-2">
-                    Recipients ({recipients.length})
-                  </label>
-                  <div className="flex flex-wrap gap-2">
-                    {recipients.map((addr) => (
-                      <span 
-                        key={addr} 
-                        className="inline-flex items-center gap-2 rounded-lg bg-white border border-gray-300 px-3 py-1.5 text-xs font-mono shadow-sm"
-                        title={addr}
-                      >
-                        <span className="text-gray-700">
-                          {addr.slice(0, 6)}...{addr.slice(-4)}
-                        </span>
-                        <button 
-                          onClick={() => removeRecipient(addr)} 
-                          className="text-red-500 hover:text-red-700 hover:bg-red-50 rounded p-0.5 transition-colors"
-                          title="Remove recipient"
-                        >
-                          <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                          </svg>
-                        </button>
-                      </span>
-                    ))}
+            ) : (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Input label="Add Recipient" value={recipient} onChange={setRecipient} placeholder="0x..." className="flex-1" />
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">Role</label>
+                    <select
+                      value={recipientRole}
+                      onChange={(e) => setRecipientRole(Number(e.target.value) as ParticipantRole)}
+                      className="w-full rounded-lg border px-3 py-2 border-gray-300 bg-white focus:outline-none focus:ring-2 focus:ring-primary/30"
+                    >
+                      {([0, 1, 2] as ParticipantRole[]).map((role) => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
                   </div>
+                  <Button variant="outline" onClick={addRecipient} className="self-end">Add</Button>
                 </div>
-              )}
-            </div>
+                {recipients.length > 0 && (
+                  <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
+                    <label className="block text-xs font-semibold text-gray-600 mb-2">
+                      Recipients ({recipients.length})
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {recipients.map((addr, idx) => (
+                        <span 
+                          key={addr} 
+                          className="inline-flex items-center gap-2 rounded-lg bg-white border border-gray-300 px-3 py-1.5 text-xs font-mono shadow-sm"
+                          title={addr}
+                        >
+                          {sequential && (
+                            <span className="font-sans font-semibold text-primary">{idx + 1}.</span>
+                          )}
+                          <span className="text-gray-700">
+                            {addr.slice(0, 6)}...{addr.slice(-4)}
+                          </span>
+                          <RoleBadge role={roles[addr]} />
+                          <button 
+                            onClick={() => removeRecipient(addr)} 
+                            className="text-red-500 hover:text-red-700 hover:bg-red-50 rounded p-0.5 transition-colors"
+                            title="Remove recipient"
+                          >
+                            <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <label className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={sequential}
+                    onChange={(e) => setSequential(e.target.checked)}
+                    className="mt-0.5 h-4 w-4 rounded border-gray-300"
+                  />
+                  <span>
+                    <span className="font-medium">Require signing in order</span>
+                    <span className="block text-xs text-gray-500">Recipients must sign one after another, in the order they were added</span>
+                  </span>
+                </label>
+                {approverCount > 1 && (
+                  <Input
+                    label="Required Signatures"
+                    type="number"
+                    value={threshold}
+                    onChange={setThreshold}
+                    placeholder={`${approverCount}`}
+                    helper="Optional. The document is complete once this many approvers have signed (e.g. 3 of 5)."
+                    error={thresholdError}
+                  />
+                )}
+              </div>
+            )}
+            {!template && organizations.length > 0 && (
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Organization</label>
+                <select
+                  value={organizationId}
+                  onChange={(e) => setOrganizationId(e.target.value)}
+                  className="w-full rounded-lg border px-3 py-2 text-sm border-gray-300"
+                >
+                  <option value="">Personal</option>
+                  {organizations.map((org) => (
+                    <option key={org.organizationId} value={org.organizationId}>
+                      {org.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500">Optional. Organization documents are listed for all members and can be managed by its admins.</p>
+              </div>
+            )}
+            <Input
+              label="Signing Deadline"
+              type="datetime-local"
+              value={deadline}
+              onChange={setDeadline}
+              helper="Optional. The document can no longer be signed after this time."
+              error={deadlineError}
+            />
             <Button 
               onClick={onCreate} 
               disabled={!canCreate || isUploading}
@@ -186,10 +409,21 @@ export function UploadDocument() {
 
       <Card>
         <CardHeader>
-          <h3 className="font-semibold">Preview</h3>
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">{isPlacingFields ? 'Fields' : 'Preview'}</h3>
+            {file && fieldSigners.length > 0 && (
+              <Button variant="outline" size="sm" onClick={() => setIsPlacingFields((placing) => !placing)}>
+                {isPlacingFields ? 'Done' : `Place Fields${placedFields.length ? ` (${placedFields.length})` : ''}`}
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardBody>
-          <DocumentViewer file={file ?? undefined} title={title || undefined} />
+          {isPlacingFields && file && fieldSigners.length > 0 ? (
+            <FieldPlacementEditor file={file} signers={fieldSigners} fields={placedFields} onChange={setFields} />
+          ) : (
+            <DocumentViewer file={file ?? undefined} title={title || undefined} />
+          )}
         </CardBody>
       </Card>
 
@@ -272,7 +506,7 @@ export function UploadDocument() {
                   {txHash}
                 </code>
                 <a
-                  href={`https://suiscan.xyz/testnet/tx/${txHash}`}
+                  href={getExplorerTxUrl(txHash)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="flex-shrink-0 rounded-lg bg-blue-100 p-2 hover:bg-blue-200 transition-colors"
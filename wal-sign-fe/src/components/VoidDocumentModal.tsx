@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Ban, CheckCircle, Loader } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { DocumentSummary } from 'walsign-sdk';
+import { useWalSignClient } from '../hooks/useWalSignClient';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+
+interface VoidDocumentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  document: DocumentSummary;
+  onSuccess: () => void;
+}
+
+const VoidDocumentModal: React.FC<VoidDocumentModalProps> = ({
+  isOpen,
+  onClose,
+  document,
+  onSuccess,
+}) => {
+  const currentAccount = useCurrentAccount();
+  const client = useWalSignClient();
+  // Organization admins who did not create the document go through org_void_document
+  const asOrgAdmin = !!document.organization && currentAccount?.address !== document.creator;
+  const [reason, setReason] = useState('');
+  const [keepCreatorAccess, setKeepCreatorAccess] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const handleVoid = async () => {
+    setError(null);
+    setSuccess(null);
+
+    if (!reason.trim()) {
+      setError('Please give a reason for voiding');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const voidArgs = {
+        document: document.documentId,
+        reason: reason.trim(),
+        keepCreatorAccess,
+      };
+      const result = asOrgAdmin
+        ? await client.call('orgVoidDocument', { organization: document.organization!, ...voidArgs })
+        : await client.call('voidDocument', voidArgs);
+      console.log('Document voided, tx:', result.digest);
+
+      setSuccess('Document voided');
+      setReason('');
+
+      // Call success callback after a short delay
+      setTimeout(() => {
+        onSuccess();
+        onClose();
+      }, 2000);
+    } catch (err: any) {
+      console.error('Error voiding document:', err);
+      setError(err.message || 'Failed to void document. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      setReason('');
+      setKeepCreatorAccess(true);
+      setError(null);
+      setSuccess(null);
+      onClose();
+    }
+  };
+
+  return (
+    <Modal open={isOpen} onClose={handleClose} title="Void Document">
+      <div className="space-y-6">
+        {/* Document Info */}
+        <div className="bg-gray-50 rounded-lg p-4">
+          <h4 className="font-medium text-gray-900 mb-2">{document.title}</h4>
+          <p className="text-sm text-gray-600">
+            Signed by {document.signatures.length} of {document.authorizedSigners.length} signers
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => {
+                setReason(e.target.value);
+                setError(null);
+              }}
+              placeholder="e.g. Sent to the wrong recipients"
+              disabled={isLoading}
+              rows={3}
+              className="w-full rounded-lg border px-3 py-2 border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary/30"
+            />
+            {error && <p className="text-xs text-error">{error}</p>}
+          </div>
+
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={keepCreatorAccess}
+              onChange={(e) => setKeepCreatorAccess(e.target.checked)}
+              disabled={isLoading}
+              className="mt-0.5 h-4 w-4 rounded border-gray-300"
+            />
+            <span>
+              <span className="font-medium">Keep my access</span>
+              <span className="block text-xs text-gray-500">You can still decrypt the document after voiding it</span>
+            </span>
+          </label>
+
+          {success && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-start gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-green-800">{success}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button
+              onClick={handleVoid}
+              disabled={isLoading || !reason.trim()}
+              className="flex-1"
+              variant="primary"
+            >
+              {isLoading ? (
+                <>
+                  <Loader className="w-4 h-4 animate-spin mr-2" />
+                  Voiding...
+                </>
+              ) : (
+                <>
+                  <Ban className="w-4 h-4 mr-2" />
+                  Void Document
+                </>
+              )}
+            </Button>
+            <Button onClick={handleClose} disabled={isLoading} variant="outline">
+              Cancel
+            </Button>
+          </div>
+        </div>
+
+        {/* Helper Text */}
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+          <p className="text-xs text-yellow-800">
+            <strong>Note:</strong> Voiding is permanent. Signers can no longer sign or decrypt the document.
+          </p>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default VoidDocumentModal;
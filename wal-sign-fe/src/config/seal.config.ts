@@ -1,4 +1,5 @@
 import { getFullnodeUrl, SuiClient } from "@mysten/sui/client";
+import { createWalSignClient, WalSignConfig } from "walsign-sdk";
 
 // Define KeyServer type locally since it's not exported from @mysten/seal index
 interface KeyServer {
@@ -28,9 +29,13 @@ export const REGISTRY_OBJECT_ID = getEnvVar(
   'VITE_REGISTRY_OBJECT_ID'
 );
 
+// Sui network (from .env), testnet unless set
+export const SUI_NETWORK = (import.meta.env.VITE_SUI_NETWORK || 'testnet') as
+  'mainnet' | 'testnet' | 'devnet' | 'localnet';
+
 // Sui Client Configuration
 export const suiClient = new SuiClient({
-  url: getFullnodeUrl("testnet"),
+  url: getFullnodeUrl(SUI_NETWORK),
 });
 
 // Walrus Configuration (Testnet) - from .env
@@ -43,6 +48,22 @@ export const WALRUS_CONFIG = {
   ),
 };
 
+// Optional WalSign indexer API (from .env). When unset, or when the indexer
+// cannot be reached, documents are read directly over RPC
+export const INDEXER_URL: string = (import.meta.env.VITE_INDEXER_URL || '').replace(/\/$/, '');
+
+// WalSign settings shared by every client, see useWalSignClient for one that can sign
+export const WALSIGN_CONFIG: WalSignConfig = {
+  suiClient,
+  packageId: PACKAGE_ID,
+  registryId: REGISTRY_OBJECT_ID,
+  walrus: WALRUS_CONFIG,
+  indexerUrl: INDEXER_URL || undefined,
+};
+
+// Read-only client for queries that need no wallet
+export const walSignClient = createWalSignClient(WALSIGN_CONFIG);
+
 // Export KeyServer type for use in other modules
 export type { KeyServer };
 
@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { DocumentSummary } from 'walsign-sdk';
+import { appendCompletionCertificate, createCompletionCertificate } from '../services/certificateService';
+import { getVerifyUrl } from '../utils/addressUtils';
+import { walSignClient } from '../config/seal.config';
+
+export function useCompletionCertificate() {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Build the certificate of completion from on-chain data and download it,
+   * appended to the decrypted signed PDF when one is passed
+   */
+  const downloadCertificate = async (document: DocumentSummary, signedPdf?: Blob | null) => {
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const transactions = await walSignClient.getDocumentTransactions(document.documentId);
+      const verifyUrl = getVerifyUrl(document.documentId);
+      const pdfBytes = signedPdf
+        ? await appendCompletionCertificate(signedPdf, document, transactions, verifyUrl)
+        : await createCompletionCertificate(document, transactions, verifyUrl);
+
+      const url = URL.createObjectURL(new Blob([pdfBytes as any], { type: 'application/pdf' }));
+      const a = window.document.createElement('a');
+      a.href = url;
+      a.download = `${document.title || 'document'}-${signedPdf ? 'signed-with-certificate' : 'certificate'}.pdf`;
+      window.document.body.appendChild(a);
+      a.click();
+      window.document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error generating certificate:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate certificate');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return {
+    downloadCertificate,
+    isGenerating,
+    error,
+  };
+}
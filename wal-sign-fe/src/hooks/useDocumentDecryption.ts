@@ -1,20 +1,22 @@
 import { useState } from 'react';
-import { useCurrentAccount, useSignPersonalMessage } from '@mysten/dapp-kit';
-import { decryptPDF } from '../services/documentService';
-import { downloadFromWalrus } from '../services/walrusService';
-import { PACKAGE_ID, suiClient } from '../config/seal.config';
-import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
-import { fromBase64 } from '@mysten/bcs';
-import { SessionKey } from '@mysten/seal';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { DocumentField, SealApproveFunction } from 'walsign-sdk';
+import { useWalSignClient } from './useWalSignClient';
 
 export function useDocumentDecryption() {
   const currentAccount = useCurrentAccount();
-  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+  // The client keeps the session key, and the wallet signature over it, until it expires
+  const client = useWalSignClient();
 
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const decryptDocument = async (documentId: string, walrusBlobId: string) => {
+  // Pass 'seal_approve_template' with a template ID to decrypt a template's base PDF
+  const decryptDocument = async (
+    documentId: string,
+    walrusBlobId: string,
+    approveFunction: SealApproveFunction = 'seal_approve'
+  ) => {
     if (!currentAccount) {
       setError("Wallet not connected");
       return null;
@@ -26,32 +28,9 @@ export function useDocumentDecryption() {
     try {
 
       //
-      // Step 1: Download encrypted blob
+      // Step 1: Download the encrypted blob and decrypt it via SEAL
       //
-      const encryptedData = await downloadFromWalrus(walrusBlobId);
-
-      //
-      // Step 2: Create SEAL session key for the signer
-      //
-      const sessionKey = await SessionKey.create({
-        address: currentAccount.address,
-        suiClient,
-        ttlMin: 30,
-        packageId: PACKAGE_ID,
-      });
-
-      //
-      // Step 3: Decrypt via SEAL
-      //
-      const decryptedBytes = await decryptPDF(
-        PACKAGE_ID,
-        suiClient,
-        documentId,
-        encryptedData,
-        sessionKey,
-        signPersonalMessage,
-      );
-      
+      const decryptedBytes = await client.decrypt(documentId, walrusBlobId, approveFunction);
 
       if (!decryptedBytes) {
         setError("Not authorized or wrong key");
@@ -59,7 +38,7 @@ export function useDocumentDecryption() {
       }
 
       //
-      // Step 5: Convert to PDF Blob
+      // Step 2: Convert to PDF Blob
       //
       const pdfBlob = new Blob([new Uint8Array(decryptedBytes)], {
         type: "application/pdf",
@@ -77,8 +56,46 @@ export function useDocumentDecryption() {
     }
   };
 
+  // Field definitions are encrypted under the document ID, like the PDF
+  const decryptFields = async (
+    documentId: string,
+    fieldsBlobId: string
+  ): Promise<DocumentField[] | null> => {
+    if (!currentAccount) {
+      setError("Wallet not connected");
+      return null;
+    }
+
+    try {
+      return await client.decryptFields(documentId, fieldsBlobId);
+    } catch (err) {
+      console.error("Decrypt fields error:", err);
+      return null;
+    }
+  };
+
+  // Saved signature images are encrypted under the owner's library ID
+  const decryptSignatureImage = async (
+    libraryId: string,
+    walrusBlobId: string
+  ): Promise<string | null> => {
+    if (!currentAccount) {
+      setError("Wallet not connected");
+      return null;
+    }
+
+    try {
+      return await client.decryptSignatureImage(libraryId, walrusBlobId);
+    } catch (err) {
+      console.error("Decrypt signature image error:", err);
+      return null;
+    }
+  };
+
   return {
     decryptDocument,
+    decryptFields,
+    decryptSignatureImage,
     isDecrypting,
     error,
   };
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import { walSignClient } from '../config/seal.config';
+import { DocumentSummary } from 'walsign-sdk';
+
+export function useOrganizationDocuments(organizationId: string | null) {
+  const [orgDocs, setOrgDocs] = useState<DocumentSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the first page, dropping anything loaded before
+  const fetchDocuments = useCallback(async () => {
+    setOrgDocs([]);
+    setNextCursor(null);
+    if (!organizationId) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const page = await walSignClient.getOrgDocuments(organizationId);
+      setOrgDocs(await walSignClient.getMultipleDocuments([...new Set(page.ids)]));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Error fetching organization documents:', err);
+      setError('Failed to load organization documents');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  /**
+   * Load the next page of organization documents
+   * Starts over from the first page if the cursor has gone stale
+   */
+  const loadMore = async () => {
+    if (!organizationId || !nextCursor || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await walSignClient.getOrgDocuments(organizationId, nextCursor);
+      const listed = new Set(orgDocs.map(doc => doc.documentId));
+      const newIds = [...new Set(page.ids)].filter(id => !listed.has(id));
+      setOrgDocs([...orgDocs, ...(await walSignClient.getMultipleDocuments(newIds))]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Error loading more organization documents:', err);
+      await fetchDocuments();
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  return {
+    orgDocs,
+    hasMore: nextCursor !== null,
+    loadMore,
+    isLoading,
+    isLoadingMore,
+    error,
+    refresh: fetchDocuments,
+  };
+}
@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { LibraryEntryKind, LIBRARY_ENTRY_KINDS, SignatureLibrary } from 'walsign-sdk';
+import { useDocumentDecryption } from './useDocumentDecryption';
+import { useWalSignClient } from './useWalSignClient';
+import { walSignClient } from '../config/seal.config';
+
+export type SignatureLibraryState = ReturnType<typeof useSignatureLibrary>;
+
+export function useSignatureLibrary() {
+  const currentAccount = useCurrentAccount();
+  const client = useWalSignClient();
+  const { decryptSignatureImage } = useDocumentDecryption();
+  const [library, setLibrary] = useState<SignatureLibrary | null>(null);
+  // Decrypted image data URLs by Walrus blob ID
+  const [images, setImages] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!currentAccount?.address) {
+      setLibrary(null);
+      setImages({});
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setLibrary(await walSignClient.getSignatureLibrary(currentAccount.address));
+    } catch (err) {
+      console.error('Error fetching signature library:', err);
+      setError('Failed to load saved signatures');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentAccount?.address]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const entries = library?.entries ?? [];
+  const isUnlocked = entries.every(entry => images[entry.walrusBlobId]);
+
+  /**
+   * Decrypt the saved images that are not decrypted yet. Asks the wallet to
+   * sign a Seal session key once; the images are kept for the session.
+   */
+  const unlock = async () => {
+    if (!library) return;
+
+    setIsUnlocking(true);
+    setError(null);
+
+    try {
+      // One at a time, so the first decryption's wallet signature is reused
+      for (const entry of library.entries) {
+        if (images[entry.walrusBlobId]) continue;
+        const imageData = await decryptSignatureImage(library.libraryId, entry.walrusBlobId);
+        if (!imageData) {
+          throw new Error(`Could not decrypt "${entry.label}"`);
+        }
+        setImages(prev => ({ ...prev, [entry.walrusBlobId]: imageData }));
+      }
+    } catch (err) {
+      console.error('Error decrypting saved signatures:', err);
+      setError(err instanceof Error ? err.message : 'Failed to decrypt saved signatures');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  /**
+   * Encrypt an image under the library ID, upload it to Walrus and add it
+   * to the library, creating the library first if the wallet has none
+   */
+  const saveEntry = async (kind: LibraryEntryKind, label: string, imageData: string) => {
+    if (!currentAccount) {
+      throw new Error('Wallet not connected');
+    }
+
+    let libraryId = library?.libraryId;
+    if (!libraryId) {
+      const createResult = await client.call('createSignatureLibrary', { registry: client.config.registryId });
+      const created = createResult.objectChanges?.find(
+        (obj: any) => obj.type === 'created' && obj.objectType?.includes('::SignatureLibrary')
+      );
+      if (!created || created.type !== 'created') {
+        throw new Error('Failed to create signature library - no library object found in transaction');
+      }
+      libraryId = created.objectId;
+    }
+
+    const { encryptedData } = await client.encryptSignatureImage(libraryId, imageData);
+    const walrusBlobId = await client.upload(encryptedData);
+
+    await client.call('addLibraryEntry', {
+      library: libraryId,
+      kind: LIBRARY_ENTRY_KINDS.indexOf(kind),
+      label,
+      walrusBlobId,
+    });
+
+    // The image is already in hand, no need to decrypt it again
+    setImages(prev => ({ ...prev, [walrusBlobId]: imageData }));
+    await refresh();
+  };
+
+  const removeEntry = async (index: number) => {
+    if (!library) return;
+
+    await client.call('removeLibraryEntry', {
+      library: library.libraryId,
+      index,
+    });
+    await refresh();
+  };
+
+  return {
+    library,
+    entries,
+    images,
+    isLoading,
+    isUnlocking,
+    isUnlocked,
+    error,
+    refresh,
+    unlock,
+    saveEntry,
+    removeEntry,
+  };
+}
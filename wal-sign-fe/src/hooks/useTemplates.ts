@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { sha256, DocumentTemplate, ParticipantRole, TemplateField } from 'walsign-sdk';
+import { useWalSignClient } from './useWalSignClient';
+import { walSignClient } from '../config/seal.config';
+
+export interface TemplateSlot {
+  name: string;
+  role: ParticipantRole;
+}
+
+export function useTemplates() {
+  const currentAccount = useCurrentAccount();
+  const client = useWalSignClient();
+  const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!currentAccount?.address) {
+      setTemplates([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const templateIds = await walSignClient.getUserTemplates(currentAccount.address);
+      const details = await Promise.all(templateIds.map(id => walSignClient.getTemplateDetails(id)));
+      setTemplates(details.filter((template): template is DocumentTemplate => template !== null));
+    } catch (err) {
+      console.error('Error fetching templates:', err);
+      setError('Failed to load templates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentAccount?.address]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Register a template, then encrypt its base PDF under the template ID
+   * and record the Walrus blob ID, the same way documents are uploaded
+   */
+  const createTemplate = async (
+    pdfFile: File,
+    name: string,
+    slots: TemplateSlot[],
+    fields: TemplateField[],
+    sequential: boolean = false,
+    threshold: number | null = null
+  ): Promise<string> => {
+    if (!currentAccount) {
+      throw new Error('Wallet not connected');
+    }
+
+    const contentHash = await sha256(pdfFile);
+
+    const createResult = await client.call('createTemplate', {
+      registry: client.config.registryId,
+      name,
+      walrusBlobId: '', // Empty blob ID initially
+      contentHash, // SHA-256 of the base PDF
+      slots: slots.map(slot => slot.name),
+      slotRoles: slots.map(slot => slot.role),
+      fieldSlots: fields.map(field => field.slot),
+      fieldPages: fields.map(field => field.page),
+      fieldXs: fields.map(field => Math.round(field.x)),
+      fieldYs: fields.map(field => Math.round(field.y)),
+      fieldWidths: fields.map(field => Math.round(field.width)),
+      fieldHeights: fields.map(field => Math.round(field.height)),
+      sequential,
+      threshold,
+    });
+    const created = createResult.objectChanges?.find(
+      (obj: any) => obj.type === 'created' && obj.objectType?.includes('::Template')
+    );
+    if (!created || created.type !== 'created') {
+      throw new Error('Failed to create template - no template object found in transaction');
+    }
+    const templateId = created.objectId;
+
+    const { encryptedData } = await client.encryptPDF(templateId, pdfFile);
+    const walrusBlobId = await client.upload(encryptedData);
+
+    await client.call('updateTemplateBlobId', {
+      template: templateId,
+      walrusBlobId,
+    });
+
+    await refresh();
+    return templateId;
+  };
+
+  const deleteTemplate = async (templateId: string) => {
+    await client.call('deleteTemplate', {
+      registry: client.config.registryId,
+      template: templateId,
+    });
+    await refresh();
+  };
+
+  return {
+    templates,
+    isLoading,
+    error,
+    refresh,
+    createTemplate,
+    deleteTemplate,
+  };
+}
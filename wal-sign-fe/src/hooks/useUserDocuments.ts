@@ -1,114 +1,130 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useCurrentAccount } from '@mysten/dapp-kit';
-import { suiClient } from '../config/seal.config';
+import { INDEXER_URL, walSignClient } from '../config/seal.config';
 import {
-  getUserCreatedDocuments,
-  getUserAssignedDocuments,
-  getMultipleDocuments,
+  DocumentListPage,
+  DocumentListQuery,
   DocumentSummary,
-} from '../services/registryService';
+  OrganizationSummary,
+} from 'walsign-sdk';
+
+// A user's created or assigned documents, loaded a page at a time
+interface DocumentList {
+  documents: DocumentSummary[];
+  nextCursor: string | null;
+  total: number;
+}
+
+const emptyList: DocumentList = { documents: [], nextCursor: null, total: 0 };
 
-export function useUserDocuments() {
+// Append a page's documents, skipping any already listed
+const appendPage = (list: DocumentList, page: DocumentListPage): DocumentList => {
+  const listed = new Set(list.documents.map(doc => doc.documentId));
+  return {
+    documents: [...list.documents, ...page.documents.filter(doc => !listed.has(doc.documentId))],
+    nextCursor: page.nextCursor,
+    total: page.total,
+  };
+};
+
+/**
+ * Load the user's documents a page at a time
+ * @param query - Search and status filters, applied by the indexer when one
+ * is configured; without it they are ignored here and left to the caller
+ */
+export function useUserDocuments(query: DocumentListQuery = {}) {
   const currentAccount = useCurrentAccount();
-  const [createdDocs, setCreatedDocs] = useState<DocumentSummary[]>([]);
-  const [assignedDocs, setAssignedDocs] = useState<DocumentSummary[]>([]);
+  const [created, setCreated] = useState<DocumentList>(emptyList);
+  const [assigned, setAssigned] = useState<DocumentList>(emptyList);
+  const [incomingTransfers, setIncomingTransfers] = useState<DocumentSummary[]>([]);
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    async function fetchDocuments() {
-      if (!currentAccount?.address) {
-        setCreatedDocs([]);
-        setAssignedDocs([]);
-        setIsLoading(false);
-        return;
-      }
-
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        // Fetch document IDs
-        const [createdIds, assignedIds] = await Promise.all([
-          getUserCreatedDocuments(suiClient, currentAccount.address),
-          getUserAssignedDocuments(suiClient, currentAccount.address),
-        ]);
-
-        // Deduplicate document IDs
-        const uniqueCreatedIds = [...new Set(createdIds)];
-        const uniqueAssignedIds = [...new Set(assignedIds)];
-
-        // Fetch full document details
-        const [createdDocuments, assignedDocuments] = await Promise.all([
-          getMultipleDocuments(suiClient, uniqueCreatedIds),
-          getMultipleDocuments(suiClient, uniqueAssignedIds),
-        ]);
-
-        // Deduplicate documents by ID (in case same doc appears in both lists)
-        const deduplicatedCreated = Array.from(
-          new Map(createdDocuments.map(doc => [doc.documentId, doc])).values()
-        );
-        const deduplicatedAssigned = Array.from(
-          new Map(assignedDocuments.map(doc => [doc.documentId, doc])).values()
-        );
-
-        setCreatedDocs(deduplicatedCreated);
-        setAssignedDocs(deduplicatedAssigned);
-      } catch (err) {
-        console.error('Error fetching user documents:', err);
-        setError('Failed to load documents');
-      } finally {
-        setIsLoading(false);
-      }
+  // Only an indexer filters on the server, so only then does the query reload the lists
+  const queryKey = INDEXER_URL ? JSON.stringify(query) : '';
+
+  // Load the first page of each list, dropping anything loaded before
+  const refresh = useCallback(async () => {
+    if (!currentAccount?.address) {
+      setCreated(emptyList);
+      setAssigned(emptyList);
+      setIncomingTransfers([]);
+      setOrganizations([]);
+      setIsLoading(false);
+      return;
     }
 
-    fetchDocuments();
-  }, [currentAccount?.address]);
-
-  const refresh = async () => {
-    if (currentAccount?.address) {
-      setIsLoading(true);
-      try {
-        const [createdIds, assignedIds] = await Promise.all([
-          getUserCreatedDocuments(suiClient, currentAccount.address),
-          getUserAssignedDocuments(suiClient, currentAccount.address),
-        ]);
-
-        // Deduplicate document IDs
-        const uniqueCreatedIds = [...new Set(createdIds)];
-        const uniqueAssignedIds = [...new Set(assignedIds)];
-
-        const [createdDocuments, assignedDocuments] = await Promise.all([
-          getMultipleDocuments(suiClient, uniqueCreatedIds),
-          getMultipleDocuments(suiClient, uniqueAssignedIds),
-        ]);
-
-        // Deduplicate documents by ID
-        const deduplicatedCreated = Array.from(
-          new Map(createdDocuments.map(doc => [doc.documentId, doc])).values()
-        );
-        const deduplicatedAssigned = Array.from(
-          new Map(assignedDocuments.map(doc => [doc.documentId, doc])).values()
-        );
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const serverQuery: DocumentListQuery = queryKey ? JSON.parse(queryKey) : {};
+      const [createdPage, assignedPage, transfers, orgIds] = await Promise.all([
+        walSignClient.getUserDocuments('created', currentAccount.address, null, serverQuery),
+        walSignClient.getUserDocuments('assigned', currentAccount.address, null, serverQuery),
+        walSignClient.getIncomingOwnershipTransfers(currentAccount.address),
+        walSignClient.getUserOrganizations(currentAccount.address),
+      ]);
+      const orgs = await Promise.all(orgIds.map(id => walSignClient.getOrganizationDetails(id)));
+
+      setCreated(appendPage(emptyList, createdPage));
+      setAssigned(appendPage(emptyList, assignedPage));
+      setIncomingTransfers(transfers);
+      setOrganizations(orgs.filter((org): org is OrganizationSummary => org !== null));
+    } catch (err) {
+      console.error('Error fetching user documents:', err);
+      setError('Failed to load documents');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentAccount?.address, queryKey]);
 
-        setCreatedDocs(deduplicatedCreated);
-        setAssignedDocs(deduplicatedAssigned);
-      } catch (err) {
-        setError('Failed to refresh documents');
-      } finally {
-        setIsLoading(false);
-      }
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Load the next page of created or assigned documents
+   * If the cursor has gone stale, e.g. the user was revoked from that
+   * document in the meantime or the indexer went away, the lists are
+   * reloaded from the first page
+   */
+  const loadMore = async (listName: 'created' | 'assigned') => {
+    const list = listName === 'created' ? created : assigned;
+    if (!currentAccount?.address || !list.nextCursor || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await walSignClient.getUserDocuments(
+        listName,
+        currentAccount.address,
+        list.nextCursor,
+        queryKey ? JSON.parse(queryKey) : {}
+      );
+      (listName === 'created' ? setCreated : setAssigned)(appendPage(list, page));
+    } catch (err) {
+      console.error(`Error loading more ${listName} documents:`, err);
+      await refresh();
+    } finally {
+      setIsLoadingMore(false);
     }
   };
 
   return {
-    createdDocs,
-    assignedDocs,
+    createdDocs: created.documents,
+    assignedDocs: assigned.documents,
+    createdTotal: created.total,
+    assignedTotal: assigned.total,
+    hasMoreCreated: created.nextCursor !== null,
+    hasMoreAssigned: assigned.nextCursor !== null,
+    loadMore,
+    incomingTransfers,
+    organizations,
     isLoading,
+    isLoadingMore,
     error,
     refresh,
   };
 }
-
-
-
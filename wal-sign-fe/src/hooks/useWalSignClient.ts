@@ -0,0 +1,50 @@
+import { useMemo, useRef } from 'react';
+import { useCurrentAccount, useSignAndExecuteTransaction, useSignPersonalMessage, useSuiClient } from '@mysten/dapp-kit';
+import { createWalSignClient, WalSignClient } from 'walsign-sdk';
+import { WALSIGN_CONFIG, walSignClient } from '../config/seal.config';
+
+/**
+ * WalSign client that signs with the connected wallet
+ * Falls back to the read-only client while no wallet is connected. The
+ * client only changes with the account, so its Seal session is reused
+ * across renders.
+ */
+export function useWalSignClient(): WalSignClient {
+  const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
+  // The SDK reads the effects and object changes of what it sends
+  const { mutateAsync: signAndExecuteTransaction } = useSignAndExecuteTransaction({
+    execute: ({ bytes, signature }) =>
+      suiClient.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature,
+        options: {
+          showRawEffects: true, // Lets the wallet report the transaction's effects
+          showEffects: true,
+          showObjectChanges: true,
+        },
+      }),
+  });
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+
+  // Always call the latest wallet functions without recreating the client
+  const walletRef = useRef({ signAndExecuteTransaction, signPersonalMessage });
+  walletRef.current = { signAndExecuteTransaction, signPersonalMessage };
+
+  const address = currentAccount?.address;
+
+  return useMemo(() => {
+    if (!address) {
+      return walSignClient;
+    }
+    return createWalSignClient({
+      ...WALSIGN_CONFIG,
+      signer: {
+        address,
+        signAndExecuteTransaction: (tx) => walletRef.current.signAndExecuteTransaction({ transaction: tx }),
+        signPersonalMessage: async (message) =>
+          (await walletRef.current.signPersonalMessage({ message })).signature,
+      },
+    });
+  }, [address]);
+}
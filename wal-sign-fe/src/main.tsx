@@ -5,6 +5,7 @@ import { SuiClientProvider, WalletProvider } from '@mysten/dapp-kit';
 import { getFullnodeUrl } from '@mysten/sui/client';
 import { BrowserRouter } from 'react-router-dom';
 import App from './App';
+import { SUI_NETWORK } from './config/seal.config';
 import './index.css';
 import '@mysten/dapp-kit/dist/index.css';
 
@@ -18,13 +19,13 @@ const queryClient = new QueryClient({
 });
 
 const networks = {
-  testnet: { url: getFullnodeUrl('testnet') },
+  [SUI_NETWORK]: { url: getFullnodeUrl(SUI_NETWORK) },
 };
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <QueryClientProvider client={queryClient}>
-      <SuiClientProvider networks={networks} defaultNetwork="testnet">
+      <SuiClientProvider networks={networks} defaultNetwork={SUI_NETWORK}>
         <WalletProvider>
           <BrowserRouter>
             <App />
@@ -1,11 +1,28 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useCurrentAccount } from '@mysten/dapp-kit';
 import { useUserDocuments } from '../hooks/useUserDocuments';
+import { useOrganizationDocuments } from '../hooks/useOrganizationDocuments';
 import { formatAddress, getSignUrl } from '../utils/addressUtils';
 import DocumentCard from '../components/DocumentCard';
 import AddParticipantsModal from '../components/AddParticipantsModal';
-import { DocumentSummary } from '../services/registryService';
+import ExtendDeadlineModal from '../components/ExtendDeadlineModal';
+import VoidDocumentModal from '../components/VoidDocumentModal';
+import TransferOwnershipModal from '../components/TransferOwnershipModal';
+import OrganizationModal from '../components/OrganizationModal';
+import TemplateModal from '../components/TemplateModal';
+import SignatureLibraryPanel from '../components/SignatureLibraryPanel';
+import { useTemplates } from '../hooks/useTemplates';
+import { useSignatureLibrary } from '../hooks/useSignatureLibrary';
+import { useCompletionCertificate } from '../hooks/useCompletionCertificate';
+import {
+  DocumentStatus,
+  DocumentSummary,
+  OrganizationSummary,
+  ROLE_LABELS,
+  canAdministerDocument,
+  getEffectiveStatus,
+} from 'walsign-sdk';
 import {
   User,
   FileText,
@@ -16,27 +33,91 @@ import {
   Loader,
   AlertCircle,
   FileX,
+  ArrowRightLeft,
+  Building2,
+  LayoutTemplate,
+  Trash2,
 } from 'lucide-react';
 import { Button } from '../components/ui/Button';
 
-type TabType = 'created' | 'assigned';
-type FilterType = 'all' | 'pending' | 'partial' | 'complete';
+type TabType = 'created' | 'assigned' | 'organization' | 'templates' | 'signatures';
+type FilterType = 'all' | 'pending' | 'partial' | 'complete' | 'expired' | 'declined' | 'voided';
+
+const FILTER_STATUSES: Record<FilterType, DocumentStatus[] | undefined> = {
+  all: undefined,
+  pending: [0],
+  partial: [1],
+  complete: [2],
+  expired: [3],
+  declined: [4],
+  voided: [5],
+};
 
 const ProfilePage: React.FC = () => {
   const navigate = useNavigate();
   const currentAccount = useCurrentAccount();
-  const { createdDocs, assignedDocs, isLoading, error, refresh } = useUserDocuments();
-
-  const [activeTab, setActiveTab] = useState<TabType>('created');
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [filterStatus, setFilterStatus] = useState<FilterType>('all');
+  const {
+    createdDocs,
+    assignedDocs,
+    createdTotal,
+    assignedTotal,
+    hasMoreCreated,
+    hasMoreAssigned,
+    loadMore,
+    incomingTransfers,
+    organizations,
+    isLoading,
+    isLoadingMore: isLoadingMoreDocs,
+    error,
+    refresh,
+  } = useUserDocuments({ search: debouncedSearch.trim() || undefined, statuses: FILTER_STATUSES[filterStatus] });
+  const [selectedOrgId, setSelectedOrgId] = useState<string | null>(null);
+  // Fall back to the first organization until the user picks one
+  const activeOrg = organizations.find((org) => org.organizationId === selectedOrgId) ?? organizations[0] ?? null;
+  const {
+    orgDocs,
+    hasMore: hasMoreOrgDocs,
+    loadMore: loadMoreOrgDocs,
+    isLoading: isLoadingOrgDocs,
+    isLoadingMore: isLoadingMoreOrgDocs,
+    error: orgDocsError,
+    refresh: refreshOrgDocs,
+  } = useOrganizationDocuments(activeOrg?.organizationId ?? null);
+  const {
+    templates,
+    isLoading: isLoadingTemplates,
+    error: templatesError,
+    refresh: refreshTemplates,
+    createTemplate,
+    deleteTemplate,
+  } = useTemplates();
+  const signatureLibrary = useSignatureLibrary();
+  const { downloadCertificate } = useCompletionCertificate();
+
+  const [activeTab, setActiveTab] = useState<TabType>('created');
   const [selectedDocument, setSelectedDocument] = useState<DocumentSummary | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [deadlineDocument, setDeadlineDocument] = useState<DocumentSummary | null>(null);
+  const [voidDocument, setVoidDocument] = useState<DocumentSummary | null>(null);
+  const [transferDocument, setTransferDocument] = useState<DocumentSummary | null>(null);
+  // undefined = closed, null = creating a new organization
+  const [orgModal, setOrgModal] = useState<OrganizationSummary | null | undefined>(undefined);
+  const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
+  const [deletingTemplateId, setDeletingTemplateId] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
+  // Wait for typing to pause, with an indexer every search is a request
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    await refresh();
+    await Promise.all([refresh(), refreshOrgDocs(), refreshTemplates(), signatureLibrary.refresh()]);
     setIsRefreshing(false);
   };
 
@@ -44,8 +125,13 @@ const ProfilePage: React.FC = () => {
     navigate(`/sign?documentId=${documentId}`);
   };
 
+  // Documents the user can administer, as creator or organization admin
+  const findManagedDocument = (documentId: string) =>
+    createdDocs.find((d) => d.documentId === documentId) ||
+    orgDocs.find((d) => d.documentId === documentId);
+
   const handleAddParticipants = (documentId: string) => {
-    const doc = createdDocs.find((d) => d.documentId === documentId);
+    const doc = findManagedDocument(documentId);
     if (doc) {
       setSelectedDocument(doc);
       setIsModalOpen(true);
@@ -54,6 +140,36 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  const handleExtendDeadline = (documentId: string) => {
+    const doc = findManagedDocument(documentId);
+    if (doc) {
+      setDeadlineDocument(doc);
+    }
+  };
+
+  const handleVoid = (documentId: string) => {
+    const doc = findManagedDocument(documentId);
+    if (doc) {
+      setVoidDocument(doc);
+    }
+  };
+
+  const handleTransferOwnership = (documentId: string) => {
+    const doc =
+      createdDocs.find((d) => d.documentId === documentId) ||
+      incomingTransfers.find((d) => d.documentId === documentId);
+    if (doc) {
+      setTransferDocument(doc);
+    }
+  };
+
+  const handleDownloadCertificate = async (documentId: string) => {
+    const doc = [...createdDocs, ...assignedDocs, ...orgDocs].find((d) => d.documentId === documentId);
+    if (doc) {
+      await downloadCertificate(doc);
+    }
+  };
+
   const handleShareLink = (documentId: string) => {
     const link = getSignUrl(documentId, true);
     navigator.clipboard.writeText(link);
@@ -64,6 +180,22 @@ const ProfilePage: React.FC = () => {
     handleRefresh();
   };
 
+  const handleDeleteTemplate = async (templateId: string, name: string) => {
+    if (!confirm(`Delete the template "${name}"? Documents already created from it are not affected.`)) {
+      return;
+    }
+
+    setDeletingTemplateId(templateId);
+    try {
+      await deleteTemplate(templateId);
+    } catch (err: any) {
+      console.error('Error deleting template:', err);
+      alert(err.message || 'Failed to delete template');
+    } finally {
+      setDeletingTemplateId(null);
+    }
+  };
+
   // Filter and search logic
   const filterDocuments = (docs: DocumentSummary[]) => {
     return docs.filter((doc) => {
@@ -72,12 +204,16 @@ const ProfilePage: React.FC = () => {
         doc.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
         doc.description.toLowerCase().includes(searchQuery.toLowerCase());
 
-      // Status filter
+      // Status filter (expired documents only match the expired filter)
+      const status = getEffectiveStatus(doc);
       const matchesStatus =
         filterStatus === 'all' ||
-        (filterStatus === 'pending' && doc.status === 0) ||
-        (filterStatus === 'partial' && doc.status === 1) ||
-        (filterStatus === 'complete' && doc.status === 2);
+        (filterStatus === 'pending' && status === 0) ||
+        (filterStatus === 'partial' && status === 1) ||
+        (filterStatus === 'complete' && status === 2) ||
+        (filterStatus === 'expired' && status === 3) ||
+        (filterStatus === 'declined' && status === 4) ||
+        (filterStatus === 'voided' && status === 5);
 
       return matchesSearch && matchesStatus;
     });
@@ -85,11 +221,19 @@ const ProfilePage: React.FC = () => {
 
   const filteredCreatedDocs = filterDocuments(createdDocs);
   const filteredAssignedDocs = filterDocuments(assignedDocs);
-  const currentDocs = activeTab === 'created' ? filteredCreatedDocs : filteredAssignedDocs;
+  const filteredOrgDocs = filterDocuments(orgDocs);
+  const currentDocs =
+    activeTab === 'created'
+      ? filteredCreatedDocs
+      : activeTab === 'assigned'
+      ? filteredAssignedDocs
+      : filteredOrgDocs;
+  const isTabLoading = isLoading || (activeTab === 'organization' && isLoadingOrgDocs);
+  const tabError = error || (activeTab === 'organization' ? orgDocsError : null);
 
   // Stats
-  const totalCreated = createdDocs.length;
-  const totalAssigned = assignedDocs.length;
+  const totalCreated = createdTotal;
+  const totalAssigned = assignedTotal;
   
   // Deduplicate documents by ID before counting completed
   // (in case same document appears in both created and assigned)
@@ -99,12 +243,35 @@ const ProfilePage: React.FC = () => {
     ).values()
   );
   
-  // Calculate actual status based on unique signers (not blockchain status)
-  const completedCount = allUniqueDocuments.filter((doc) => {
-    const uniqueSigners = new Set(doc.authorizedSigners).size;
-    const signatureCount = doc.signatures.length;
-    return signatureCount >= uniqueSigners && uniqueSigners > 0;
-  }).length;
+  const completedCount = allUniqueDocuments.filter((doc) => doc.status === 2).length;
+
+  // Load the next page when the end of the list scrolls into view. Filters
+  // apply to loaded documents only, so this also keeps loading while they
+  // hide everything loaded so far.
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const hasMore =
+    (activeTab === 'created' && hasMoreCreated) ||
+    (activeTab === 'assigned' && hasMoreAssigned) ||
+    (activeTab === 'organization' && hasMoreOrgDocs);
+  const isLoadingMore = activeTab === 'organization' ? isLoadingMoreOrgDocs : isLoadingMoreDocs;
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || isTabLoading || isLoadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (!entries[0].isIntersecting) return;
+        if (activeTab === 'organization') {
+          loadMoreOrgDocs();
+        } else {
+          loadMore(activeTab as 'created' | 'assigned');
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [activeTab, hasMore, isTabLoading, isLoadingMore, createdDocs.length, assignedDocs.length, orgDocs.length]);
 
   if (!currentAccount) {
     return (
@@ -182,6 +349,31 @@ const ProfilePage: React.FC = () => {
           </div>
         </div>
 
+        {/* Incoming ownership transfers */}
+        {incomingTransfers.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3 flex items-center gap-2">
+              <ArrowRightLeft className="w-5 h-5 text-purple-700" />
+              Documents offered to you ({incomingTransfers.length})
+            </h2>
+            <ul className="divide-y divide-gray-100">
+              {incomingTransfers.map((doc) => (
+                <li key={doc.documentId} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{doc.title}</p>
+                    <p className="text-sm text-gray-600">
+                      From <span className="font-mono">{formatAddress(doc.creator)}</span>
+                    </p>
+                  </div>
+                  <Button onClick={() => handleTransferOwnership(doc.documentId)} variant="primary" size="sm">
+                    Review
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="bg-white rounded-lg shadow-sm mb-6">
           <div className="border-b border-gray-200">
@@ -194,7 +386,7 @@ const ProfilePage: React.FC = () => {
                     : 'text-gray-500 hover:text-gray-700'
                 }`}
               >
-                Created by Me ({createdDocs.length})
+                Created by Me ({createdTotal})
               </button>
               <button
                 onClick={() => setActiveTab('assigned')}
@@ -204,83 +396,224 @@ const ProfilePage: React.FC = () => {
                     : 'text-gray-500 hover:text-gray-700'
                 }`}
               >
-                Assigned to Me ({assignedDocs.length})
+                Assigned to Me ({assignedTotal})
+              </button>
+              <button
+                onClick={() => setActiveTab('organization')}
+                className={`px-6 py-4 font-medium text-sm transition-colors ${
+                  activeTab === 'organization'
+                    ? 'border-b-2 border-blue-600 text-blue-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                Organization{activeOrg ? ` (${orgDocs.length}${hasMoreOrgDocs ? '+' : ''})` : ''}
               </button>
+              <button
+                onClick={() => setActiveTab('templates')}
+                className={`px-6 py-4 font-medium text-sm transition-colors ${
+                  activeTab === 'templates'
+                    ? 'border-b-2 border-blue-600 text-blue-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                Templates ({templates.length})
+              </button>
+              <button
+                onClick={() => setActiveTab('signatures')}
+                className={`px-6 py-4 font-medium text-sm transition-colors ${
+                  activeTab === 'signatures'
+                    ? 'border-b-2 border-blue-600 text-blue-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                Signatures ({signatureLibrary.entries.length})
+              </button>
+              <div className="ml-auto flex items-center gap-2 px-4">
+                <Building2 className="w-4 h-4 text-gray-500" />
+                {organizations.length > 0 && (
+                  <select
+                    value={activeOrg?.organizationId ?? ''}
+                    onChange={(e) => setSelectedOrgId(e.target.value)}
+                    className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                  >
+                    {organizations.map((org) => (
+                      <option key={org.organizationId} value={org.organizationId}>
+                        {org.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {activeOrg && (
+                  <Button onClick={() => setOrgModal(activeOrg)} variant="outline" size="sm">
+                    Members
+                  </Button>
+                )}
+                <Button onClick={() => setOrgModal(null)} variant="outline" size="sm">
+                  New
+                </Button>
+              </div>
             </div>
           </div>
 
           {/* Search and Filter */}
-          <div className="p-4 border-b border-gray-200">
-            <div className="flex flex-col sm:flex-row gap-4">
-              <div className="flex-1">
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-                  <input
-                    type="text"
-                    placeholder="Search documents..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  />
+          {activeTab !== 'templates' && activeTab !== 'signatures' && (
+            <div className="p-4 border-b border-gray-200">
+              <div className="flex flex-col sm:flex-row gap-4">
+                <div className="flex-1">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                    <input
+                      type="text"
+                      placeholder="Search documents..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setFilterStatus('all')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      filterStatus === 'all'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    All
+                  </button>
+                  <button
+                    onClick={() => setFilterStatus('pending')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      filterStatus === 'pending'
+                        ? 'bg-red-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Pending
+                  </button>
+                  <button
+                    onClick={() => setFilterStatus('partial')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      filterStatus === 'partial'
+                        ? 'bg-yellow-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Partial
+                  </button>
+                  <button
+                    onClick={() => setFilterStatus('complete')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      filterStatus === 'complete'
+                        ? 'bg-green-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Complete
+                  </button>
+                  <button
+                    onClick={() => setFilterStatus('expired')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      filterStatus === 'expired'
+                        ? 'bg-gray-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Expired
+                  </button>
+                  <button
+                    onClick={() => setFilterStatus('declined')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      filterStatus === 'declined'
+                        ? 'bg-red-700 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Declined
+                  </button>
+                  <button
+                    onClick={() => setFilterStatus('voided')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      filterStatus === 'voided'
+                        ? 'bg-gray-800 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Voided
+                  </button>
                 </div>
-              </div>
-              <div className="flex gap-2">
-                <button
-                  onClick={() => setFilterStatus('all')}
-                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                    filterStatus === 'all'
-                      ? 'bg-blue-600 text-white'
-                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
-                >
-                  All
-                </button>
-                <button
-                  onClick={() => setFilterStatus('pending')}
-                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                    filterStatus === 'pending'
-                      ? 'bg-red-600 text-white'
-                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
-                >
-                  Pending
-                </button>
-                <button
-                  onClick={() => setFilterStatus('partial')}
-                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                    filterStatus === 'partial'
-                      ? 'bg-yellow-600 text-white'
-                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
-                >
-                  Partial
-                </button>
-                <button
-                  onClick={() => setFilterStatus('complete')}
-                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                    filterStatus === 'complete'
-                      ? 'bg-green-600 text-white'
-                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
-                >
-                  Complete
-                </button>
               </div>
             </div>
-          </div>
+          )}
         </div>
 
         {/* Content */}
-        {isLoading ? (
+        {activeTab === 'signatures' ? (
+          <SignatureLibraryPanel library={signatureLibrary} />
+        ) : activeTab === 'templates' ? (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <div className="flex items-center justify-between mb-4">
+              <p className="text-sm text-gray-600">
+                Reusable PDFs with named signer slots. Pick one on the upload page to fill in the signers.
+              </p>
+              <Button onClick={() => setIsTemplateModalOpen(true)} variant="primary" size="sm">
+                <LayoutTemplate className="w-4 h-4 mr-2" />
+                New Template
+              </Button>
+            </div>
+            {isLoadingTemplates ? (
+              <div className="flex justify-center py-8">
+                <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+              </div>
+            ) : templatesError ? (
+              <p className="text-sm text-red-600">{templatesError}</p>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">You have not created any templates yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {templates.map((template) => (
+                  <li key={template.templateId} className="flex items-center justify-between gap-4 py-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{template.name}</p>
+                      <p className="text-sm text-gray-600">
+                        {template.slots
+                          .map((slot, index) => `${slot} (${ROLE_LABELS[template.slotRoles[index] ?? 0]})`)
+                          .join(', ')}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {template.fields.length} signature field{template.fields.length === 1 ? '' : 's'}
+                        {template.sequential && ' · in order'}
+                        {template.threshold !== null && ` · ${template.threshold} required`}
+                      </p>
+                    </div>
+                    <Button
+                      onClick={() => handleDeleteTemplate(template.templateId, template.name)}
+                      disabled={deletingTemplateId === template.templateId}
+                      variant="outline"
+                      size="sm"
+                    >
+                      {deletingTemplateId === template.templateId ? (
+                        <Loader className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-4 h-4" />
+                      )}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : isTabLoading ? (
           <div className="bg-white rounded-lg shadow-sm p-12 flex flex-col items-center justify-center">
             <Loader className="w-12 h-12 text-blue-600 animate-spin mb-4" />
             <p className="text-gray-600">Loading documents...</p>
           </div>
-        ) : error ? (
+        ) : tabError ? (
           <div className="bg-white rounded-lg shadow-sm p-12 flex flex-col items-center justify-center">
             <AlertCircle className="w-12 h-12 text-red-600 mb-4" />
             <p className="text-gray-900 font-medium mb-2">Error loading documents</p>
-            <p className="text-gray-600 mb-4">{error}</p>
+            <p className="text-gray-600 mb-4">{tabError}</p>
             <Button onClick={handleRefresh} variant="primary">
               Try Again
             </Button>
@@ -294,6 +627,10 @@ const ProfilePage: React.FC = () => {
                 ? 'Try adjusting your search or filter.'
                 : activeTab === 'created'
                 ? 'Create your first document to get started.'
+                : activeTab === 'organization'
+                ? activeOrg
+                  ? `No documents have been created under ${activeOrg.name} yet.`
+                  : 'You are not a member of any organization yet.'
                 : 'No documents have been assigned to you yet.'}
             </p>
             {activeTab === 'created' && !searchQuery && filterStatus === 'all' && (
@@ -308,14 +645,28 @@ const ProfilePage: React.FC = () => {
               <DocumentCard
                 key={doc.documentId}
                 document={doc}
-                isCreator={activeTab === 'created'}
+                isCreator={
+                  activeTab === 'created' ||
+                  (activeTab === 'organization' && canAdministerDocument(doc, currentAccount.address, organizations))
+                }
                 onViewDocument={handleViewDocument}
                 onAddParticipants={handleAddParticipants}
                 onShareLink={handleShareLink}
+                // Deadlines and ownership stay with the creator, even for organization documents
+                onExtendDeadline={doc.creator === currentAccount.address ? handleExtendDeadline : undefined}
+                onVoid={handleVoid}
+                onTransferOwnership={doc.creator === currentAccount.address ? handleTransferOwnership : undefined}
+                onDownloadCertificate={handleDownloadCertificate}
               />
             ))}
           </div>
         )}
+
+        {hasMore && !isTabLoading && (
+          <div ref={loadMoreRef} className="flex justify-center py-8">
+            {isLoadingMore && <Loader className="w-8 h-8 text-blue-600 animate-spin" />}
+          </div>
+        )}
       </div>
 
       {/* Add Participants Modal */}
@@ -330,6 +681,54 @@ const ProfilePage: React.FC = () => {
           onSuccess={handleModalSuccess}
         />
       )}
+
+      {/* Extend Deadline Modal */}
+      {deadlineDocument && (
+        <ExtendDeadlineModal
+          isOpen={!!deadlineDocument}
+          onClose={() => setDeadlineDocument(null)}
+          document={deadlineDocument}
+          onSuccess={handleModalSuccess}
+        />
+      )}
+
+      {/* Void Document Modal */}
+      {voidDocument && (
+        <VoidDocumentModal
+          isOpen={!!voidDocument}
+          onClose={() => setVoidDocument(null)}
+          document={voidDocument}
+          onSuccess={handleModalSuccess}
+        />
+      )}
+
+      {/* Organization Modal */}
+      {orgModal !== undefined && (
+        <OrganizationModal
+          isOpen={orgModal !== undefined}
+          onClose={() => setOrgModal(undefined)}
+          organization={orgModal}
+          onSuccess={handleModalSuccess}
+        />
+      )}
+
+      {/* Template Modal */}
+      <TemplateModal
+        isOpen={isTemplateModalOpen}
+        onClose={() => setIsTemplateModalOpen(false)}
+        createTemplate={createTemplate}
+        onSuccess={refreshTemplates}
+      />
+
+      {/* Transfer Ownership Modal */}
+      {transferDocument && (
+        <TransferOwnershipModal
+          isOpen={!!transferDocument}
+          onClose={() => setTransferDocument(null)}
+          document={transferDocument}
+          onSuccess={handleModalSuccess}
+        />
+      )}
     </div>
   );
 };
@@ -1,26 +1,67 @@
 import { useParams, useSearchParams } from 'react-router-dom';
 import { useState, useEffect } from 'react';
-import { useCurrentAccount, useSignAndExecuteTransactionBlock } from '@mysten/dapp-kit';
-import { Transaction } from '@mysten/sui/transactions';
+import { useCurrentAccount } from '@mysten/dapp-kit';
 import { Card, CardBody, CardHeader } from '../components/ui/Card';
 import { DocumentViewer } from '../components/DocumentViewer';
 import { AddressDisplay } from '../components/ui/AddressDisplay';
 import { Button } from '../components/ui/Button';
-import { suiClient, PACKAGE_ID } from '../config/seal.config';
-import { getDocumentDetails, DocumentSummary, getLatestBlobId } from '../services/registryService';
-import { downloadFromWalrus, uploadToWalrus } from '../services/walrusService';
+import { walSignClient } from '../config/seal.config';
+import { useWalSignClient } from '../hooks/useWalSignClient';
+import {
+  DocumentSummary,
+  DocumentTemplate,
+  getLatestBlobId,
+  getNextSigner,
+  getActiveDelegation,
+  getRole,
+  getApprovers,
+  getRequiredSignatures,
+  getSignedCount,
+  isDocumentExpired,
+  canDecryptDocument,
+  SignDocumentStage,
+  DocumentField,
+} from 'walsign-sdk';
 import { useDocumentDecryption } from '../hooks/useDocumentDecryption';
-import { encryptPDF } from '../services/documentService';
 import { PdfSignatureEditor } from '../components/PdfSignatureEditor';
-import { Loader, CheckCircle, AlertCircle, FileText, Users, Calendar, Edit, Lock, Upload, Key, Shield } from 'lucide-react';
+import { RoleBadge } from '../components/RoleBadge';
+import { ActivityTimeline } from '../components/ActivityTimeline';
+import DeclineDocumentModal from '../components/DeclineDocumentModal';
+import DelegateSigningModal from '../components/DelegateSigningModal';
+import { formatAddress } from '../utils/addressUtils';
+import { Loader, CheckCircle, AlertCircle, FileText, Users, Calendar, Edit, Lock, Upload, Key, Shield, XCircle, Ban, UserCheck } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface SignProgress {
-  stage: 'idle' | 'encrypting' | 'uploading' | 'finding' | 'updating' | 'recording' | 'complete' | 'error';
+  stage: 'idle' | 'encrypting' | 'uploading' | 'finding' | 'recording' | 'complete' | 'error';
   message: string;
   progress: number;
 }
 
+// Progress shown for each stage of WalSignClient.signDocument
+const SIGN_STAGE_PROGRESS: Record<SignDocumentStage, SignProgress> = {
+  encrypting: {
+    stage: 'encrypting',
+    message: 'Encrypting signed PDF with Seal...',
+    progress: 10,
+  },
+  uploading: {
+    stage: 'uploading',
+    message: 'Uploading encrypted signed PDF to Walrus...',
+    progress: 40,
+  },
+  finding: {
+    stage: 'finding',
+    message: 'Finding your signing capability...',
+    progress: 60,
+  },
+  recording: {
+    stage: 'recording',
+    message: 'Recording signature on blockchain...',
+    progress: 80,
+  },
+};
+
 export function SignPage() {
   const { documentId: paramDocId } = useParams();
   const [searchParams] = useSearchParams();
@@ -30,19 +71,23 @@ export function SignPage() {
   documentId = documentId.trim();
   
   const currentAccount = useCurrentAccount();
-  const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransactionBlock();
-  const { decryptDocument, isDecrypting } = useDocumentDecryption();
+  const client = useWalSignClient();
+  const { decryptDocument, decryptFields, isDecrypting } = useDocumentDecryption();
   
   const [document, setDocument] = useState<DocumentSummary | null>(null);
+  const [template, setTemplate] = useState<DocumentTemplate | null>(null);
+  const [documentFields, setDocumentFields] = useState<DocumentField[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [pdfBlob, setPdfBlob] = useState<Blob | null>(null);
-  const [isSigning, setIsSigning] = useState(false);
   const [signSuccess, setSignSuccess] = useState(false);
   const [txHash, setTxHash] = useState<string>('');
   const [decryptionError, setDecryptionError] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [isProcessingSignature, setIsProcessingSignature] = useState(false);
+  const [isDeclineOpen, setIsDeclineOpen] = useState(false);
+  const [isDelegateOpen, setIsDelegateOpen] = useState(false);
+  const [isBurningCap, setIsBurningCap] = useState(false);
   const [signProgress, setSignProgress] = useState<SignProgress>({
     stage: 'idle',
     message: '',
@@ -68,7 +113,7 @@ export function SignPage() {
       try {
         setIsLoading(true);
         setError(null);
-        const doc = await getDocumentDetails(suiClient, documentId);
+        const doc = await walSignClient.getDocumentDetails(documentId);
         if (doc) {
           setDocument(doc);
         } else {
@@ -85,6 +130,18 @@ export function SignPage() {
     fetchDocument();
   }, [documentId]);
 
+  // Documents created from a template carry its signature field positions
+  const templateId = document?.template ?? null;
+  useEffect(() => {
+    if (!templateId) {
+      setTemplate(null);
+      return;
+    }
+    walSignClient.getTemplateDetails(templateId)
+      .then(setTemplate)
+      .catch((err) => console.error('Error fetching template:', err));
+  }, [templateId]);
+
   // Manual decrypt function - triggered by button click
   const handleDecrypt = async () => {
     if (!document || !currentAccount) {
@@ -120,6 +177,15 @@ export function SignPage() {
       
       if (blob) {
         setPdfBlob(blob);
+        // Fields placed by the creator are decrypted with the same session key
+        if (document.fieldsBlobId) {
+          const fields = await decryptFields(document.documentId, document.fieldsBlobId);
+          if (fields) {
+            setDocumentFields(fields);
+          } else {
+            toast.error('Could not load the fields placed by the creator');
+          }
+        }
       } else {
         setDecryptionError('Failed to decrypt PDF - you may not have access to this document');
       }
@@ -129,140 +195,50 @@ export function SignPage() {
     }
   };
 
+  // A revoked signer's cap can no longer be used, so let them delete it from their wallet
+  const handleBurnSignerCap = async () => {
+    if (!currentAccount || !document) return;
+
+    setIsBurningCap(true);
+    try {
+      const signerCapId = await client.getSignerCapId(currentAccount.address, document.documentId);
+
+      if (!signerCapId) {
+        toast.error('No signing capability found for this document');
+        return;
+      }
+
+      await client.call('burnSignerCap', { cap: signerCapId });
+
+      toast.success('Signing capability removed from your wallet');
+    } catch (err) {
+      console.error('Failed to burn SignerCap:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to remove signing capability');
+    } finally {
+      setIsBurningCap(false);
+    }
+  };
+
   const handleSaveSignedPdf = async (signedPdfBlob: Blob, signaturePositions: any[]) => {
     if (!document || !currentAccount) return;
     
     setIsProcessingSignature(true);
     setIsEditing(false);
     
-    // Initialize progress
-    setSignProgress({
-      stage: 'encrypting',
-      message: 'Encrypting signed PDF with Seal...',
-      progress: 10,
-    });
-    
     try {
-      // Step 1: Encrypt the signed PDF (same as document creation)
       const signedPdfFile = new File([signedPdfBlob], `${document.title}-signed.pdf`, { 
         type: 'application/pdf' 
       });
-      
-      const { encryptedData } = await encryptPDF(
-        PACKAGE_ID,
-        document.documentId,
-        signedPdfFile
-      );
-      
-      if (!encryptedData) {
-        throw new Error('Failed to encrypt signed PDF');
-      }
-      
-      // Step 2: Upload encrypted signed PDF to Walrus
-      setSignProgress({
-        stage: 'uploading',
-        message: 'Uploading encrypted signed PDF to Walrus...',
-        progress: 40,
-      });
-      
-      const signedBlobId = await uploadToWalrus(encryptedData, 200);
-      
-      if (!signedBlobId) {
-        throw new Error('Failed to upload signed PDF to Walrus');
-      }
-      
-      // Step 3: Find SignerCap
-      setSignProgress({
-        stage: 'finding',
-        message: 'Finding your signing capability...',
-        progress: 60,
-      });
-      
-      let signerCapId: string | null = null;
-      let cursor: string | null | undefined = null;
-      
-      do {
-        const ownedObjects = await suiClient.getOwnedObjects({
-          owner: currentAccount.address,
-          cursor,
-          limit: 50,
-          options: {
-            showContent: true,
-            showType: true,
-          },
-        });
-
-        for (const obj of ownedObjects.data) {
-          if (!obj.data) continue;
-          
-          const objectType = obj.data.type;
-          if (objectType && objectType.includes(`${PACKAGE_ID}::wal_sign::SignerCap`)) {
-            const content = obj.data.content;
-            if (content && 'fields' in content) {
-              const fields = content.fields as any;
-              if (fields.document_id === document.documentId) {
-                signerCapId = obj.data.objectId;
-                break;
-              }
-            }
-          }
-        }
-
-        if (signerCapId) break;
-        cursor = ownedObjects.nextCursor;
-      } while (cursor);
 
-      if (!signerCapId) {
-        throw new Error('SignerCap not found! You may not be authorized to sign this document.');
-      }
-      
-      // Step 4: Update signed_blob_id vector on blockchain
-      setSignProgress({
-        stage: 'updating',
-        message: 'Updating signed blob ID on blockchain...',
-        progress: 75,
-      });
-      
-      const updateSignedBlobTx = new Transaction() as any;
-      updateSignedBlobTx.moveCall({
-        target: `${PACKAGE_ID}::wal_sign::update_signed_blob_id`,
-        arguments: [
-          updateSignedBlobTx.object(signerCapId),
-          updateSignedBlobTx.object(document.documentId),
-          updateSignedBlobTx.pure.string(signedBlobId),
-        ],
-      });
-      
-      await new Promise<void>((resolve, reject) => {
-        signAndExecuteTransaction(
-          {
-            transactionBlock: updateSignedBlobTx,
-            options: {
-              showEffects: true,
-            },
-          },
-          {
-            onSuccess: () => {
-              resolve();
-            },
-            onError: (err) => {
-              console.error('Failed to update signed blob ID:', err);
-              reject(err);
-            },
-          }
-        );
-      });
-      
-      // Step 5: Record signature on blockchain
-      setSignProgress({
-        stage: 'recording',
-        message: 'Recording signature on blockchain...',
-        progress: 90,
-      });
-      
-      await handleSign();
+      // Encrypts and uploads the signed PDF, then records the signature and
+      // signed version in a single transaction
+      const result = await client.signDocument(document, signedPdfFile, (stage) =>
+        setSignProgress(SIGN_STAGE_PROGRESS[stage])
+      );
+      setTxHash(result.digest);
+      setSignSuccess(true);
       
-      // Step 6: Refresh document and decrypt latest version
+      // Refresh document and decrypt latest version
       setSignProgress({
         stage: 'complete',
         message: 'Document signed successfully!',
@@ -270,7 +246,7 @@ export function SignPage() {
       });
       
       // Refresh document to get updated signed_blob_id
-      const updatedDoc = await getDocumentDetails(suiClient, document.documentId);
+      const updatedDoc = await walSignClient.getDocumentDetails(document.documentId);
       if (updatedDoc) {
         setDocument(updatedDoc);
         
@@ -309,135 +285,6 @@ export function SignPage() {
     }
   };
 
-  const handleSign = async () => {
-    if (!document || !currentAccount) return;
-
-    setIsSigning(true);
-    setError(null);
-
-    try {
-      // Query all objects owned by the user to find the SignerCap (with pagination)
-      let signerCapId: string | null = null;
-      let cursor: string | null | undefined = null;
-      let totalObjects = 0;
-      let pageCount = 0;
-
-      // Loop through all pages of owned objects
-      do {
-        pageCount++;
-        
-        const ownedObjects = await suiClient.getOwnedObjects({
-          owner: currentAccount.address,
-          cursor,
-          limit: 50, // Max 50 objects per page
-          options: {
-            showContent: true,
-            showType: true,
-          },
-        });
-
-        totalObjects += ownedObjects.data.length;
-
-        // Search for SignerCap in this page
-        for (const obj of ownedObjects.data) {
-          // Skip if no data
-          if (!obj.data) continue;
-          
-          const objectType = obj.data.type;
-          
-          // Check if this is a SignerCap object
-          if (objectType && objectType.includes(`${PACKAGE_ID}::wal_sign::SignerCap`)) {
-            const content = obj.data.content;
-            
-            if (content && 'fields' in content) {
-              const fields = content.fields as any;
-              
-              // Check if the document_id field matches our document
-              if (fields.document_id === document.documentId) {
-                signerCapId = obj.data.objectId;
-                break;
-              }
-            }
-          }
-        }
-
-        // If found, break out of pagination loop
-        if (signerCapId) break;
-
-        // Update cursor for next page
-        cursor = ownedObjects.nextCursor;
-        
-      } while (cursor); // Continue while there's a next page
-
-      if (!signerCapId) {
-        throw new Error(
-          'SignerCap not found! You may not be authorized to sign this document, or the SignerCap was not issued to you.'
-        );
-      }
-
-      const signTx = new Transaction();
-      
-      // Call sign_document function with the found SignerCap
-      signTx.moveCall({
-        target: `${PACKAGE_ID}::wal_sign::sign_document`,
-        arguments: [
-          signTx.object(document.documentId),
-          signTx.object(signerCapId),
-          signTx.object('0x6'), // Clock object
-        ],
-      });
-
-      await new Promise<void>((resolve, reject) => {
-        signAndExecuteTransaction(
-          {
-            transactionBlock: signTx as any,
-            options: {
-              showEffects: true,
-              showEvents: true,
-            },
-          },
-          {
-            onSuccess: async (result: any) => {
-              try {
-                setTxHash(result.digest);
-                setSignSuccess(true);
-                
-                // Refresh document data after a short delay
-                setTimeout(async () => {
-                  try {
-                    const updated = await getDocumentDetails(suiClient, document.documentId);
-                    if (updated) {
-                      setDocument(updated);
-                    }
-                  } catch (refreshError) {
-                    console.error('Error refreshing document:', refreshError);
-                    // Don't throw - signing was successful even if refresh fails
-                  }
-                }, 2000);
-                
-                resolve();
-              } catch (err) {
-                console.error('Error in success handler:', err);
-                // Still resolve since the signing itself was successful
-                resolve();
-              }
-            },
-            onError: (error: any) => {
-              console.error('Failed to sign document:', error);
-              setError(error.message || 'Failed to sign document');
-              reject(error);
-            },
-          }
-        );
-      });
-    } catch (err: any) {
-      console.error('Sign error:', err);
-      setError(err.message || 'Failed to sign document');
-    } finally {
-      setIsSigning(false);
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -469,10 +316,42 @@ export function SignPage() {
   }
 
   const isAuthorized = currentAccount && document.authorizedSigners.includes(currentAccount.address);
-  const alreadySigned = currentAccount && document.signatures.some(s => s.signer === currentAccount.address);
-  const totalSigners = document.authorizedSigners.length;
-  const signedCount = document.signatures.length;
-  const signatureProgress = totalSigners > 0 ? (signedCount / totalSigners) * 100 : 0;
+  const isRevoked = !!currentAccount && document.revokedSigners.includes(currentAccount.address);
+  const activeDelegation = currentAccount && !isAuthorized ? getActiveDelegation(document, currentAccount.address) : null;
+  // A delegate acts as the principal, so turn order and role follow the principal
+  const signingFor = activeDelegation ? activeDelegation.principal : currentAccount?.address;
+  const alreadySigned = !!signingFor && document.signatures.some(s => s.signer === signingFor);
+  const requiredSignatures = getRequiredSignatures(document);
+  const signedCount = getSignedCount(document);
+  const signatureProgress = requiredSignatures > 0 ? Math.min(signedCount / requiredSignatures, 1) * 100 : 0;
+  const isExpired = isDocumentExpired(document);
+  const isDeclined = document.status === 4;
+  const isVoided = document.status === 5;
+  const nextSigner = getNextSigner(document);
+  const myRole = signingFor ? getRole(document, signingFor) : null;
+  const isOutOfTurn = myRole === 0 && document.sequential && !!nextSigner && nextSigner !== signingFor;
+  // Witnesses attest an approver's signature, so they wait for the first one
+  const isWaitingToWitness = myRole === 2 && signedCount === 0;
+  // Template documents record which address fills each slot
+  const templateFields: DocumentField[] = template && signingFor
+    ? template.fields
+        .filter(field => document.slotSigners[field.slot] === signingFor)
+        .map((field, index) => ({
+          id: `template-${index}`,
+          type: 'signature',
+          signer: signingFor,
+          pageNumber: field.page,
+          x: field.x,
+          y: field.y,
+          width: field.width,
+          height: field.height,
+          required: false,
+          label: template.slots[field.slot],
+        }))
+    : [];
+  // Fields the creator placed for this signer replace the template's signature boxes
+  const creatorFields = documentFields.filter(field => field.signer === signingFor);
+  const myFields = creatorFields.length > 0 ? creatorFields : templateFields;
 
   return (
     <div className="space-y-6">
@@ -519,6 +398,19 @@ export function SignPage() {
               <p className="text-sm">{new Date(document.createdAt).toLocaleString()}</p>
             </div>
 
+            {document.expiresAt !== null && (
+              <div>
+                <p className="text-sm font-medium text-gray-500 flex items-center gap-1">
+                  <Calendar className="w-4 h-4" />
+                  Signing Deadline
+                </p>
+                <p className={`text-sm ${isExpired ? 'text-red-600 font-medium' : ''}`}>
+                  {new Date(document.expiresAt).toLocaleString()}
+                  {isExpired && ' (expired)'}
+                </p>
+              </div>
+            )}
+
             <div>
               <p className="text-sm font-medium text-gray-500 mb-2 flex items-center gap-1">
                 <Users className="w-4 h-4" />
@@ -526,7 +418,10 @@ export function SignPage() {
               </p>
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
-                  <span>{signedCount}/{totalSigners} signed</span>
+                  <span>
+                    {signedCount}/{requiredSignatures} signed
+                    {document.threshold !== null && ` (${getApprovers(document).length} approvers)`}
+                  </span>
                   <span>{Math.round(signatureProgress)}%</span>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2">
@@ -539,7 +434,12 @@ export function SignPage() {
             </div>
 
             <div>
-              <p className="text-sm font-medium text-gray-500 mb-2">Authorized Signers</p>
+              <p className="text-sm font-medium text-gray-500 mb-2">
+                Authorized Signers
+                {document.sequential && (
+                  <span className="ml-2 px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded-full">In order</span>
+                )}
+              </p>
               <ul className="space-y-2">
                 {document.authorizedSigners.map((addr) => {
                   const hasSigned = document.signatures.some(s => s.signer === addr);
@@ -551,6 +451,10 @@ export function SignPage() {
                         <div className="w-4 h-4 rounded-full border-2 border-gray-300 flex-shrink-0" />
                       )}
                       <span className="font-mono truncate">{addr}</span>
+                      {getRole(document, addr) !== 0 && <RoleBadge role={getRole(document, addr)} />}
+                      {addr === nextSigner && (
+                        <span className="px-1.5 py-0.5 bg-yellow-100 text-yellow-800 rounded flex-shrink-0">Next</span>
+                      )}
                     </li>
                   );
                 })}
@@ -580,6 +484,8 @@ export function SignPage() {
                   pdfFile={new File([pdfBlob], `${document.title}.pdf`, { type: 'application/pdf' })}
                   onSave={handleSaveSignedPdf}
                   onCancel={() => setIsEditing(false)}
+                  fields={myFields}
+                  documentId={document.documentId}
                 />
               ) : (
                 <>
@@ -619,6 +525,12 @@ export function SignPage() {
                         Please connect your wallet to decrypt and view this document.
                       </p>
                     </div>
+                  ) : !canDecryptDocument(document, currentAccount.address) && isVoided ? (
+                    <div className="bg-gray-100 border border-gray-300 rounded-lg p-4 max-w-md">
+                      <p className="text-sm text-gray-800">
+                        This document was voided by its creator and can no longer be decrypted.
+                      </p>
+                    </div>
                   ) : !document.walrusBlobId ? (
                     <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 max-w-md">
                       <p className="text-sm text-yellow-800">
@@ -670,24 +582,87 @@ export function SignPage() {
                   Please connect your wallet to sign this document.
                 </p>
               </div>
-            ) : !isAuthorized ? (
+            ) : isRevoked ? (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <p className="text-sm text-red-800 mb-3">
+                  The creator revoked your permission to sign this document.
+                </p>
+                <Button onClick={handleBurnSignerCap} disabled={isBurningCap} variant="outline" size="sm">
+                  {isBurningCap ? 'Removing...' : 'Remove signing capability'}
+                </Button>
+              </div>
+            ) : !isAuthorized && !activeDelegation ? (
               <div className="bg-red-50 border border-red-200 rounded-lg p-4">
                 <p className="text-sm text-red-800">
                   You are not authorized to sign this document.
                 </p>
               </div>
+            ) : isVoided ? (
+              <div className="bg-gray-100 border border-gray-300 rounded-lg p-4">
+                <Ban className="w-5 h-5 text-gray-700 mb-2" />
+                <p className="text-sm text-gray-800 font-medium">
+                  This document was voided by its creator and can no longer be signed.
+                </p>
+                {document.voided?.reason && (
+                  <p className="text-sm text-gray-700 mt-1">Reason: {document.voided.reason}</p>
+                )}
+              </div>
+            ) : isDeclined ? (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <XCircle className="w-5 h-5 text-red-600 mb-2" />
+                <p className="text-sm text-red-800 font-medium">
+                  {document.decline?.signer === signingFor
+                    ? 'You declined this document.'
+                    : 'This document was declined and can no longer be signed.'}
+                </p>
+                {document.decline?.reason && (
+                  <p className="text-sm text-red-700 mt-1">Reason: {document.decline.reason}</p>
+                )}
+              </div>
+            ) : isExpired && !alreadySigned ? (
+              <div className="bg-gray-100 border border-gray-300 rounded-lg p-4">
+                <p className="text-sm text-gray-800">
+                  The signing deadline for this document has passed. Ask the creator to extend it.
+                </p>
+              </div>
             ) : alreadySigned ? (
               <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                 <CheckCircle className="w-5 h-5 text-green-600 mb-2" />
                 <p className="text-sm text-green-800 font-medium">
-                  You have already signed this document.
+                  {activeDelegation
+                    ? 'This document has already been signed for the principal.'
+                    : 'You have already signed this document.'}
+                </p>
+              </div>
+            ) : myRole === 1 ? (
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                <p className="text-sm text-gray-800">
+                  You were added as a viewer (CC). You can read this document but are not asked to sign it.
                 </p>
               </div>
             ) : (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <p className="text-sm text-blue-800 mb-3">
-                  You are authorized to sign this document.
+                  {activeDelegation
+                    ? <>You are signing on behalf of <span className="font-mono">{formatAddress(activeDelegation.principal)}</span> until {new Date(activeDelegation.expiresAt).toLocaleString()}.</>
+                    : myRole === 2
+                    ? 'You are a witness. Your signature attests the approvers\' signatures.'
+                    : 'You are authorized to sign this document.'}
                 </p>
+                {isWaitingToWitness && (
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-3">
+                    <p className="text-sm text-yellow-800">
+                      Waiting for an approver to sign before you can witness.
+                    </p>
+                  </div>
+                )}
+                {isOutOfTurn && nextSigner && (
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-3">
+                    <p className="text-sm text-yellow-800">
+                      This document must be signed in order. Waiting on <span className="font-mono">{formatAddress(nextSigner)}</span> to sign first.
+                    </p>
+                  </div>
+                )}
                 {!pdfBlob ? (
                   <p className="text-sm text-gray-600">
                     Decrypt the document first to add your signature.
@@ -709,13 +684,35 @@ export function SignPage() {
                     </p>
                     <Button
                       onClick={() => setIsEditing(true)}
-                      disabled={isProcessingSignature}
+                      disabled={isProcessingSignature || isOutOfTurn || isWaitingToWitness}
                       variant="primary"
                       className="w-full"
                     >
                       <Edit className="w-4 h-4 mr-2" />
                       Sign Document
                     </Button>
+                    {!activeDelegation && (
+                      <>
+                        <Button
+                          onClick={() => setIsDelegateOpen(true)}
+                          disabled={isProcessingSignature}
+                          variant="outline"
+                          className="w-full"
+                        >
+                          <UserCheck className="w-4 h-4 mr-2" />
+                          Delegate
+                        </Button>
+                        <Button
+                          onClick={() => setIsDeclineOpen(true)}
+                          disabled={isProcessingSignature}
+                          variant="outline"
+                          className="w-full"
+                        >
+                          <XCircle className="w-4 h-4 mr-2" />
+                          Decline
+                        </Button>
+                      </>
+                    )}
                   </div>
                 )}
               </div>
@@ -735,7 +732,7 @@ export function SignPage() {
             )}
 
             <div className="border-t pt-4">
-              <h4 className="text-sm font-semibold mb-3">Signatures ({signedCount})</h4>
+              <h4 className="text-sm font-semibold mb-3">Signatures ({document.signatures.length})</h4>
               {document.signatures.length === 0 ? (
                 <p className="text-sm text-gray-500">No signatures yet</p>
               ) : (
@@ -755,6 +752,11 @@ export function SignPage() {
                             {sig.signer.slice(0, 10)}...{sig.signer.slice(-8)}
                           </span>
                         </div>
+                        {sig.delegate && (
+                          <p className="text-gray-500 ml-6">
+                            Signed by <span className="font-mono">{formatAddress(sig.delegate)}</span> as delegate
+                          </p>
+                        )}
                         <p className="text-gray-500 ml-6">
                           {new Date(sig.signedAt).toLocaleString()}
                         </p>
@@ -768,6 +770,38 @@ export function SignPage() {
         </Card>
       </div>
 
+      <ActivityTimeline document={document} />
+
+      {/* Decline Modal */}
+      {isDeclineOpen && (
+        <DeclineDocumentModal
+          isOpen={isDeclineOpen}
+          onClose={() => setIsDeclineOpen(false)}
+          document={document}
+          onSuccess={async () => {
+            const updated = await walSignClient.getDocumentDetails(document.documentId);
+            if (updated) {
+              setDocument(updated);
+            }
+          }}
+        />
+      )}
+
+      {/* Delegate Modal */}
+      {isDelegateOpen && (
+        <DelegateSigningModal
+          isOpen={isDelegateOpen}
+          onClose={() => setIsDelegateOpen(false)}
+          document={document}
+          onSuccess={async () => {
+            const updated = await walSignClient.getDocumentDetails(document.documentId);
+            if (updated) {
+              setDocument(updated);
+            }
+          }}
+        />
+      )}
+
       {/* Progress Modal - Centered on Screen */}
       {isProcessingSignature && signProgress.stage !== 'idle' && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
@@ -807,16 +841,6 @@ export function SignPage() {
                       </div>
                     </div>
                   )}
-                  {signProgress.stage === 'updating' && (
-                    <div className="relative h-20 w-20">
-                      <div className="absolute inset-0 flex items-center justify-center">
-                        <FileText className="h-20 w-20 text-primary animate-pulse" />
-                      </div>
-                      <div className="absolute inset-0 animate-spin">
-                        <div className="h-3 w-3 rounded-full bg-green-400 absolute top-0 left-1/2 -translate-x-1/2" />
-                      </div>
-                    </div>
-                  )}
                   {signProgress.stage === 'recording' && (
                     <div className="relative h-20 w-20">
                       <div className="absolute inset-0 flex items-center justify-center">
@@ -878,10 +902,6 @@ export function SignPage() {
                   <div className={`h-2 w-2 rounded-full ${signProgress.stage === 'finding' ? 'bg-primary animate-pulse' : 'bg-gray-300'}`} />
                   <span>Find Cap</span>
                 </div>
-                <div className={`flex items-center gap-2 ${signProgress.stage === 'updating' ? 'text-primary font-semibold' : 'text-gray-400'}`}>
-                  <div className={`h-2 w-2 rounded-full ${signProgress.stage === 'updating' ? 'bg-primary animate-pulse' : 'bg-gray-300'}`} />
-                  <span>Update</span>
-                </div>
                 <div className={`flex items-center gap-2 ${signProgress.stage === 'recording' || signProgress.stage === 'complete' ? 'text-primary font-semibold' : 'text-gray-400'}`}>
                   <div className={`h-2 w-2 rounded-full ${signProgress.stage === 'recording' || signProgress.stage === 'complete' ? 'bg-primary animate-pulse' : 'bg-gray-300'}`} />
                   <span>Record</span>
@@ -4,23 +4,42 @@ import { useState, useEffect } from 'react';
 import { Button } from '../components/ui/Button';
 import { Card, CardBody, CardHeader } from '../components/ui/Card';
 import { AddressDisplay } from '../components/ui/AddressDisplay';
-import { getDocumentDetails, DocumentSummary, getLatestBlobId } from '../services/registryService';
-import { suiClient } from '../config/seal.config';
+import {
+  DocumentSummary,
+  getLatestBlobId,
+  isDocumentExpired,
+  getRequiredSignatures,
+  getApprovers,
+  getRole,
+  getSignedCount,
+  canDecryptDocument,
+} from 'walsign-sdk';
+import { walSignClient } from '../config/seal.config';
 import { useCurrentAccount } from '@mysten/dapp-kit';
 import { DocumentViewer } from '../components/DocumentViewer';
+import { HashVerifier } from '../components/HashVerifier';
+import { ActivityTimeline } from '../components/ActivityTimeline';
+import { RoleBadge } from '../components/RoleBadge';
+import { formatAddress } from '../utils/addressUtils';
 import { useDocumentDecryption } from '../hooks/useDocumentDecryption';
+import { useCompletionCertificate } from '../hooks/useCompletionCertificate';
 import { 
   FileText, 
   CheckCircle, 
   Clock, 
   Users, 
   Calendar,
+  CalendarClock,
   Shield,
   Lock,
   Unlock,
   Loader,
   AlertCircle,
-  ExternalLink
+  ExternalLink,
+  XCircle,
+  Ban,
+  Award,
+  Download
 } from 'lucide-react';
 
 export function VerifyPage() {
@@ -40,6 +59,11 @@ export function VerifyPage() {
     isDecrypting, 
     error: decryptionError
   } = useDocumentDecryption();
+  const {
+    downloadCertificate,
+    isGenerating: isGeneratingCertificate,
+    error: certificateError
+  } = useCompletionCertificate();
 
   // Fetch document details when documentId changes
   useEffect(() => {
@@ -54,7 +78,7 @@ export function VerifyPage() {
     setDocument(null);
     
     try {
-      const doc = await getDocumentDetails(suiClient, docId);
+      const doc = await walSignClient.getDocumentDetails(docId);
       if (!doc) {
         setError('Document not found. Please check the document ID.');
       } else {
@@ -107,17 +131,35 @@ export function VerifyPage() {
     }
   };
 
-  const canDecrypt = currentAccount && document && (
-    document.authorizedSigners.includes(currentAccount.address) ||
-    document.creator === currentAccount.address
-  );
+  const canDecrypt = currentAccount && document && canDecryptDocument(document, currentAccount.address);
 
   // Calculate status
   const getStatusInfo = (doc: DocumentSummary) => {
-    const uniqueSigners = new Set(doc.authorizedSigners).size;
-    const signatureCount = doc.signatures.length;
-    
-    if (signatureCount === 0) {
+    if (doc.status === 5) {
+      return {
+        label: 'Voided',
+        color: 'text-gray-800',
+        bgColor: 'bg-gray-200',
+        borderColor: 'border-gray-400',
+        icon: <Ban className="w-5 h-5" />
+      };
+    } else if (doc.status === 4) {
+      return {
+        label: 'Declined',
+        color: 'text-red-700',
+        bgColor: 'bg-red-50',
+        borderColor: 'border-red-300',
+        icon: <XCircle className="w-5 h-5" />
+      };
+    } else if (isDocumentExpired(doc)) {
+      return {
+        label: 'Expired',
+        color: 'text-gray-600',
+        bgColor: 'bg-gray-100',
+        borderColor: 'border-gray-300',
+        icon: <CalendarClock className="w-5 h-5" />
+      };
+    } else if (doc.status === 0) {
       return {
         label: 'Pending Signatures',
         color: 'text-red-600',
@@ -125,7 +167,7 @@ export function VerifyPage() {
         borderColor: 'border-red-200',
         icon: <Clock className="w-5 h-5" />
       };
-    } else if (signatureCount < uniqueSigners) {
+    } else if (doc.status === 1) {
       return {
         label: 'Partially Signed',
         color: 'text-yellow-600',
@@ -135,7 +177,9 @@ export function VerifyPage() {
       };
     } else {
       return {
-        label: 'Fully Signed',
+        label: doc.threshold !== null
+          ? `Threshold Met (${getRequiredSignatures(doc)} of ${getApprovers(doc).length})`
+          : 'Fully Signed',
         color: 'text-green-600',
         bgColor: 'bg-green-50',
         borderColor: 'border-green-200',
@@ -242,6 +286,17 @@ export function VerifyPage() {
                     <p className="text-sm text-gray-900">{formatDate(document.createdAt)}</p>
                   </div>
                 </div>
+                {document.expiresAt !== null && (
+                  <div>
+                    <p className="text-sm text-gray-600 mb-1">Signing Deadline</p>
+                    <div className="flex items-center gap-2">
+                      <CalendarClock className="w-4 h-4 text-gray-400" />
+                      <p className={`text-sm ${isDocumentExpired(document) ? 'text-red-600' : 'text-gray-900'}`}>
+                        {formatDate(document.expiresAt)}
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
               {document.description && (
                 <div>
@@ -249,6 +304,14 @@ export function VerifyPage() {
                   <p className="text-gray-900">{document.description}</p>
                 </div>
               )}
+              {document.contentHash && (
+                <div>
+                  <p className="text-sm text-gray-600 mb-1">Original PDF Hash (SHA-256)</p>
+                  <code className="block text-sm bg-gray-50 border border-gray-200 px-3 py-2 rounded break-all">
+                    {document.contentHash}
+                  </code>
+                </div>
+              )}
               <div>
                 <p className="text-sm text-gray-600 mb-1">
                   Walrus Blob ID
@@ -307,6 +370,9 @@ export function VerifyPage() {
             </CardBody>
           </Card>
 
+          {/* Local Copy Check */}
+          <HashVerifier document={document} />
+
           {/* Verification Status */}
           <Card>
             <CardHeader>
@@ -330,13 +396,123 @@ export function VerifyPage() {
                 <div className="flex items-center gap-2 px-4 py-2 rounded-lg border-2 border-blue-200 bg-blue-50">
                   <Users className="w-5 h-5 text-blue-600" />
                   <span className="font-semibold text-blue-700">
-                    {document.signatures.length}/{new Set(document.authorizedSigners).size} Signatures
+                    {getSignedCount(document)}/{getRequiredSignatures(document)} Signatures
                   </span>
                 </div>
               </div>
             </CardBody>
           </Card>
 
+          {/* Certificate of Completion */}
+          {document.status === 2 && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <Award className="w-6 h-6 text-green-600" />
+                  <h3 className="text-xl font-semibold">Certificate of Completion</h3>
+                </div>
+              </CardHeader>
+              <CardBody>
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    A PDF listing the document, every signer with their signing time and transaction, and the blob ID and hash of each version, read from the blockchain.
+                    {decryptedFile
+                      ? ' It can also be appended to the decrypted signed PDF; keep the original signed PDF as well, since the combined file has a different hash.'
+                      : ' Decrypt the document below to append it to the signed PDF instead.'}
+                  </p>
+                  <div className="flex flex-wrap gap-3">
+                    <Button
+                      onClick={() => downloadCertificate(document)}
+                      disabled={isGeneratingCertificate}
+                      variant="outline"
+                    >
+                      {isGeneratingCertificate ? (
+                        <Loader className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Download className="w-4 h-4 mr-2" />
+                      )}
+                      Download Certificate
+                    </Button>
+                    {decryptedFile && (
+                      <Button
+                        onClick={() => downloadCertificate(document, decryptedFile)}
+                        disabled={isGeneratingCertificate}
+                        variant="outline"
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        Signed PDF + Certificate
+                      </Button>
+                    )}
+                  </div>
+                  {certificateError && (
+                    <div className="p-4 bg-red-50 border-2 border-red-200 rounded-lg">
+                      <p className="text-red-700 text-sm">{certificateError}</p>
+                    </div>
+                  )}
+                </div>
+              </CardBody>
+            </Card>
+          )}
+
+          {/* Void */}
+          {document.voided && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <Ban className="w-6 h-6 text-gray-700" />
+                  <h3 className="text-xl font-semibold">Voided by Creator</h3>
+                </div>
+              </CardHeader>
+              <CardBody>
+                <div className="space-y-4">
+                  <div>
+                    <p className="text-sm text-gray-600 mb-1">Reason</p>
+                    <p className="text-gray-900 whitespace-pre-wrap">
+                      {document.voided.reason || 'No reason given'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-600 mb-1">Voided At</p>
+                    <p className="text-sm text-gray-900">{formatDate(document.voided.voidedAt)}</p>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    This document is no longer valid and cannot be signed. Signatures collected before it was voided are kept for the record.
+                  </p>
+                </div>
+              </CardBody>
+            </Card>
+          )}
+
+          {/* Decline */}
+          {document.decline && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <XCircle className="w-6 h-6 text-red-600" />
+                  <h3 className="text-xl font-semibold">Declined</h3>
+                </div>
+              </CardHeader>
+              <CardBody>
+                <div className="space-y-4">
+                  <div>
+                    <p className="text-sm text-gray-600 mb-1">Declined By</p>
+                    <AddressDisplay address={document.decline.signer} />
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-600 mb-1">Reason</p>
+                    <p className="text-gray-900 whitespace-pre-wrap">
+                      {document.decline.reason || 'No reason given'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-600 mb-1">Declined At</p>
+                    <p className="text-sm text-gray-900">{formatDate(document.decline.declinedAt)}</p>
+                  </div>
+                </div>
+              </CardBody>
+            </Card>
+          )}
+
           {/* Signatures */}
           <Card>
             <CardHeader>
@@ -346,36 +522,72 @@ export function VerifyPage() {
                   <h3 className="text-xl font-semibold">Authorized Signers & Signatures</h3>
                 </div>
                 <span className="text-sm text-gray-600">
-                  {document.signatures.length} of {new Set(document.authorizedSigners).size} signed
+                  {getSignedCount(document)} of {getApprovers(document).length} approvers signed
+                  {document.threshold !== null && ` (${getRequiredSignatures(document)} required)`}
                 </span>
               </div>
             </CardHeader>
             <CardBody>
               <div className="space-y-3">
-                {[...new Set(document.authorizedSigners)].map((signer) => {
+                {document.authorizedSigners.map((signer) => {
                   const signature = document.signatures.find(sig => sig.signer === signer);
                   const hasSigned = !!signature;
+                  const hasDeclined = document.decline?.signer === signer;
                   
                   return (
                     <div 
                       key={signer} 
                       className={`flex items-center justify-between p-4 rounded-lg border-2 ${
-                        hasSigned ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'
+                        hasSigned
+                          ? 'bg-green-50 border-green-200'
+                          : hasDeclined
+                          ? 'bg-red-50 border-red-200'
+                          : 'bg-gray-50 border-gray-200'
                       }`}
                     >
                       <div className="flex items-center gap-3 flex-1 min-w-0">
                         {hasSigned ? (
                           <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+                        ) : hasDeclined ? (
+                          <XCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
                         ) : (
                           <Clock className="w-5 h-5 text-gray-400 flex-shrink-0" />
                         )}
                         <div className="min-w-0 flex-1">
-                          <AddressDisplay address={signer} />
+                          <div className="flex items-center gap-2">
+                            <AddressDisplay address={signer} />
+                            <RoleBadge role={getRole(document, signer)} />
+                          </div>
                           {signature && (
                             <p className="text-xs text-gray-600 mt-1">
                               Signed: {formatDate(signature.signedAt)}
                             </p>
                           )}
+                          {signature?.delegate && (
+                            <p className="text-xs text-gray-600 mt-1">
+                              Signed by <span className="font-mono">{formatAddress(signature.delegate)}</span> on behalf of <span className="font-mono">{formatAddress(signer)}</span>
+                            </p>
+                          )}
+                          {signature?.signedBlobId && (
+                            <div className="text-xs text-gray-600 mt-1 space-y-0.5">
+                              <p>
+                                Stamped version{' '}
+                                <span className="font-semibold">
+                                  v{document.signedBlobIds.indexOf(signature.signedBlobId) + 1}
+                                </span>
+                                :{' '}
+                                <a
+                                  href={`https://aggregator.walrus-testnet.walrus.space/v1/blobs/${signature.signedBlobId}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="font-mono break-all text-blue-600 hover:underline"
+                                >
+                                  {signature.signedBlobId}
+                                </a>
+                              </p>
+                              <p className="font-mono break-all text-gray-500">SHA-256: {signature.signedBlobHash}</p>
+                            </div>
+                          )}
                         </div>
                       </div>
                       <div className="flex-shrink-0">
@@ -383,6 +595,10 @@ export function VerifyPage() {
                           <span className="px-3 py-1 rounded-full text-xs font-semibold bg-green-100 text-green-700">
                             Signed
                           </span>
+                        ) : hasDeclined ? (
+                          <span className="px-3 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-700">
+                            Declined
+                          </span>
                         ) : (
                           <span className="px-3 py-1 rounded-full text-xs font-semibold bg-gray-200 text-gray-600">
                             Pending
@@ -396,6 +612,8 @@ export function VerifyPage() {
             </CardBody>
           </Card>
 
+          <ActivityTimeline document={document} />
+
           {/* Decrypt & View */}
           {currentAccount && (
             <Card>
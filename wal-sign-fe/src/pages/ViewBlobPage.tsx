@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { Card, CardBody, CardHeader } from '../components/ui/Card';
 import { Input } from '../components/ui/Input';
 import { Button } from '../components/ui/Button';
-import { downloadFromWalrus } from '../services/walrusService';
+import { walSignClient } from '../config/seal.config';
 import { DocumentViewer } from '../components/DocumentViewer';
 import { 
   Search, 
@@ -37,7 +37,7 @@ export function ViewBlobPage() {
 
     try {
       console.log('Fetching blob:', blobId);
-      const data = await downloadFromWalrus(blobId.trim());
+      const data = await walSignClient.download(blobId.trim());
       
       console.log('Blob data received:', data.length, 'bytes');
       setBlobData(data);
@@ -0,0 +1,161 @@
+import { SuiClient, SuiEvent } from "@mysten/sui/client";
+import { PACKAGE_ID } from "../config/seal.config";
+import { ParticipantRole } from "walsign-sdk";
+
+export type ActivityKind =
+  | 'created'
+  | 'signer_added'
+  | 'blob_updated'
+  | 'fields_updated'
+  | 'signed'
+  | 'declined'
+  | 'revoked'
+  | 'delegated'
+  | 'delegation_revoked'
+  | 'voided'
+  | 'deadline_extended'
+  | 'expired'
+  | 'transfer_proposed'
+  | 'transfer_cancelled'
+  | 'transferred';
+
+export interface DocumentActivity {
+  kind: ActivityKind;
+  timestamp: number; // Checkpoint time of the transaction (ms)
+  txDigest: string;
+  actor: string; // Address that performed the action
+  subject: string | null; // Address the action concerns, e.g. the added signer or the delegate
+  role: ParticipantRole | null; // Role given by signer_added
+  blobId: string | null; // New blob ID for blob_updated and fields_updated, signed version for signed
+  reason: string | null; // Reason given when declining or voiding
+  expiresAt: number | null; // New deadline given by deadline_extended (ms)
+}
+
+// Fields of the wal_sign events on a document timeline, as they appear in
+// parsedJson. Option<address> is null when empty.
+interface DocumentEventFields {
+  DocumentCreated: { document_id: string; creator: string };
+  SignerAdded: { document_id: string; creator: string; signer: string; role: number };
+  DocumentBlobUpdated: { document_id: string; creator: string; walrus_blob_id: string };
+  FieldsBlobUpdated: { document_id: string; creator: string; fields_blob_id: string };
+  DocumentSigned: { document_id: string; signer: string; delegate: string | null; signed_blob_id: string };
+  DocumentDeclined: { document_id: string; signer: string; reason: string };
+  SignerRevoked: { document_id: string; creator: string; signer: string };
+  SigningDelegated: { document_id: string; principal: string; delegate: string };
+  DelegationRevoked: { document_id: string; principal: string; delegate: string };
+  DocumentVoided: { document_id: string; creator: string; reason: string };
+  DeadlineExtended: { document_id: string; creator: string; expires_at: string };
+  DocumentExpired: { document_id: string; timestamp: string };
+  OwnershipTransferProposed: { document_id: string; creator: string; new_creator: string };
+  OwnershipTransferCancelled: { document_id: string; creator: string; new_creator: string };
+  OwnershipTransferred: { document_id: string; previous_creator: string; new_creator: string };
+}
+
+type DocumentEvent = {
+  [Name in keyof DocumentEventFields]: { name: Name; fields: DocumentEventFields[Name]; sender: string };
+}[keyof DocumentEventFields];
+
+/**
+ * Read a wal_sign event about a document
+ * @returns null for events of other modules or other documents
+ */
+function toDocumentEvent(event: SuiEvent, documentId: string): DocumentEvent | null {
+  const prefix = `${PACKAGE_ID}::wal_sign::`;
+  const fields = event.parsedJson as { document_id?: string } | undefined;
+  if (!event.type.startsWith(prefix) || fields?.document_id !== documentId) {
+    return null;
+  }
+  return { name: event.type.slice(prefix.length), fields, sender: event.sender } as DocumentEvent;
+}
+
+/**
+ * Map a wal_sign event to an activity entry
+ * @returns null for document events that are not shown on the timeline
+ */
+function toActivity(event: DocumentEvent, txDigest: string, timestamp: number): DocumentActivity | null {
+  const base = {
+    timestamp,
+    txDigest,
+    subject: null,
+    role: null,
+    blobId: null,
+    reason: null,
+    expiresAt: null,
+  };
+
+  switch (event.name) {
+    case 'DocumentCreated':
+      return { ...base, kind: 'created', actor: event.fields.creator };
+    case 'SignerAdded':
+      return { ...base, kind: 'signer_added', actor: event.fields.creator, subject: event.fields.signer, role: Number(event.fields.role) as ParticipantRole };
+    case 'DocumentBlobUpdated':
+      return { ...base, kind: 'blob_updated', actor: event.fields.creator, blobId: event.fields.walrus_blob_id };
+    case 'FieldsBlobUpdated':
+      return { ...base, kind: 'fields_updated', actor: event.fields.creator, blobId: event.fields.fields_blob_id };
+    case 'DocumentSigned':
+      // A delegate acts for the signer, who is the subject
+      return event.fields.delegate
+        ? { ...base, kind: 'signed', actor: event.fields.delegate, subject: event.fields.signer, blobId: event.fields.signed_blob_id }
+        : { ...base, kind: 'signed', actor: event.fields.signer, blobId: event.fields.signed_blob_id };
+    case 'DocumentDeclined':
+      return { ...base, kind: 'declined', actor: event.fields.signer, reason: event.fields.reason };
+    case 'SignerRevoked':
+      return { ...base, kind: 'revoked', actor: event.fields.creator, subject: event.fields.signer };
+    case 'SigningDelegated':
+      return { ...base, kind: 'delegated', actor: event.fields.principal, subject: event.fields.delegate };
+    case 'DelegationRevoked':
+      return { ...base, kind: 'delegation_revoked', actor: event.fields.principal, subject: event.fields.delegate };
+    case 'DocumentVoided':
+      return { ...base, kind: 'voided', actor: event.fields.creator, reason: event.fields.reason };
+    case 'DeadlineExtended':
+      return { ...base, kind: 'deadline_extended', actor: event.fields.creator, expiresAt: Number(event.fields.expires_at) };
+    case 'DocumentExpired':
+      // Anyone can mark an overdue document as expired
+      return { ...base, kind: 'expired', actor: event.sender };
+    case 'OwnershipTransferProposed':
+      return { ...base, kind: 'transfer_proposed', actor: event.fields.creator, subject: event.fields.new_creator };
+    case 'OwnershipTransferCancelled':
+      return { ...base, kind: 'transfer_cancelled', actor: event.fields.creator, subject: event.fields.new_creator };
+    case 'OwnershipTransferred':
+      return { ...base, kind: 'transferred', actor: event.fields.new_creator, subject: event.fields.previous_creator };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reconstruct the activity timeline of a document from contract events
+ * Every change to a document mutates its object, so the transactions that
+ * changed it carry all of its events
+ * @returns Activity entries, oldest first
+ */
+export async function getDocumentActivity(
+  suiClient: SuiClient,
+  documentId: string
+): Promise<DocumentActivity[]> {
+  const activity: DocumentActivity[] = [];
+  let cursor: string | null | undefined = null;
+
+  do {
+    const page = await suiClient.queryTransactionBlocks({
+      filter: { ChangedObject: documentId },
+      options: { showEvents: true },
+      cursor,
+      order: 'ascending',
+    });
+
+    for (const tx of page.data) {
+      for (const event of tx.events ?? []) {
+        const documentEvent = toDocumentEvent(event, documentId);
+        const entry = documentEvent && toActivity(documentEvent, tx.digest, Number(tx.timestampMs ?? 0));
+        if (entry) {
+          activity.push(entry);
+        }
+      }
+    }
+
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return activity;
+}
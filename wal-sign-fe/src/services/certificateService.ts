@@ -0,0 +1,220 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import {
+  DocumentSummary,
+  DocumentTransactions,
+  ROLE_LABELS,
+  getRole,
+} from 'walsign-sdk';
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+
+const formatTime = (ms: number) => new Date(ms).toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+
+// The standard fonts only cover WinAnsi, e.g. a title in another script cannot be drawn
+const toWinAnsi = (text: string) => text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+
+/**
+ * Break text into lines that fit a width, on spaces where possible and
+ * anywhere inside long IDs and hashes
+ */
+function wrapText(value: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of toWinAnsi(value).split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= width) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = '';
+    for (const char of word) {
+      if (font.widthOfTextAtSize(line + char, size) > width) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Create a writer that lays lines out top to bottom, starting a new page
+ * when one fills up
+ */
+function createWriter(pdfDoc: PDFDocument, fonts: { regular: PDFFont; bold: PDFFont; mono: PDFFont }) {
+  let page: PDFPage = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  return {
+    title(text: string) {
+      ensureSpace(30);
+      page.drawText(text, { x: MARGIN, y: y - 20, size: 20, font: fonts.bold });
+      y -= 34;
+    },
+
+    heading(text: string) {
+      ensureSpace(36);
+      y -= 12;
+      page.drawText(text, { x: MARGIN, y: y - 12, size: 12, font: fonts.bold });
+      page.drawLine({
+        start: { x: MARGIN, y: y - 16 },
+        end: { x: PAGE_WIDTH - MARGIN, y: y - 16 },
+        thickness: 0.5,
+        color: rgb(0.7, 0.7, 0.7),
+      });
+      y -= 24;
+    },
+
+    // Label on the left, value on the right; hashes and IDs in a monospace font
+    row(label: string, value: string, mono: boolean = false) {
+      const font = mono ? fonts.mono : fonts.regular;
+      const size = mono ? 7.5 : 9;
+      const valueX = MARGIN + 110;
+      const lines = wrapText(value || '-', font, size, PAGE_WIDTH - MARGIN - valueX);
+
+      ensureSpace(lines.length * 11 + 2);
+      page.drawText(label, { x: MARGIN, y: y - 9, size: 9, font: fonts.bold, color: rgb(0.3, 0.3, 0.3) });
+      for (const line of lines) {
+        page.drawText(line, { x: valueX, y: y - 9, size, font });
+        y -= 11;
+      }
+      y -= 2;
+    },
+
+    text(value: string, size: number = 9) {
+      for (const line of wrapText(value, fonts.regular, size, PAGE_WIDTH - 2 * MARGIN)) {
+        ensureSpace(size + 3);
+        page.drawText(line, { x: MARGIN, y: y - size, size, font: fonts.regular, color: rgb(0.3, 0.3, 0.3) });
+        y -= size + 3;
+      }
+    },
+
+    gap(height: number = 6) {
+      y -= height;
+    },
+  };
+}
+
+/**
+ * Draw the certificate-of-completion pages into a PDF
+ */
+async function drawCertificate(
+  pdfDoc: PDFDocument,
+  document: DocumentSummary,
+  transactions: DocumentTransactions,
+  verifyUrl: string
+) {
+  const writer = createWriter(pdfDoc, {
+    regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+    bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+    mono: await pdfDoc.embedFont(StandardFonts.Courier),
+  });
+
+  const lastSignature = document.signatures[document.signatures.length - 1];
+
+  writer.title('Certificate of Completion');
+  writer.text(
+    'This certificate summarizes the on-chain record of the document below on the Sui blockchain. ' +
+    'Every value can be checked against the document object and the listed transactions.'
+  );
+
+  writer.heading('Document');
+  writer.row('Title', document.title);
+  writer.row('Document ID', document.documentId, true);
+  writer.row('Creator', document.creator, true);
+  writer.row('Created', formatTime(document.createdAt));
+  writer.row('Creation tx', transactions.createdTx ?? 'Not found', true);
+  writer.row('Completed', lastSignature ? formatTime(lastSignature.signedAt) : '-');
+  writer.row(
+    'Signatures',
+    `${document.signatures.length} recorded` +
+      (document.threshold !== null ? `, ${document.threshold} required` : '') +
+      (document.sequential ? ', signed in order' : '')
+  );
+
+  writer.heading('Signers');
+  document.signatures.forEach((signature, index) => {
+    const role = getRole(document, signature.signer);
+    writer.row(`${index + 1}. Signer`, signature.signer, true);
+    writer.row('Role', role !== null ? ROLE_LABELS[role] : '-');
+    if (signature.delegate) {
+      writer.row('Signed by delegate', signature.delegate, true);
+    }
+    writer.row('Signed at', formatTime(signature.signedAt));
+    writer.row('Transaction', transactions.signatureTxs[signature.signedBlobId] ?? 'Not found', true);
+    writer.gap();
+  });
+
+  // Participants who did not sign, e.g. viewers
+  const others = document.authorizedSigners.filter(
+    address => !document.signatures.some(signature => signature.signer === address)
+  );
+  if (others.length > 0) {
+    writer.heading('Other Participants');
+    for (const address of others) {
+      const role = getRole(document, address);
+      writer.row(role !== null ? ROLE_LABELS[role] : 'Participant', address, true);
+    }
+  }
+
+  writer.heading('Versions');
+  writer.row('v0 (original)', `Blob ${document.walrusBlobId}`, true);
+  writer.row('SHA-256', document.contentHash, true);
+  writer.gap();
+  document.signedBlobIds.forEach((blobId, index) => {
+    writer.row(`v${index + 1}`, `Blob ${blobId}`, true);
+    writer.row('SHA-256', document.signedBlobHashes[index] ?? '-', true);
+    writer.gap();
+  });
+
+  writer.heading('Verification');
+  writer.text(
+    'Hash a copy of the signed PDF with SHA-256 and compare it with the versions above, ' +
+    `or drop it on the verification page: ${verifyUrl}`
+  );
+  writer.text(`Generated ${formatTime(Date.now())}`, 8);
+}
+
+/**
+ * Create a standalone certificate-of-completion PDF
+ */
+export async function createCompletionCertificate(
+  document: DocumentSummary,
+  transactions: DocumentTransactions,
+  verifyUrl: string
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`Certificate of Completion - ${document.title}`);
+  await drawCertificate(pdfDoc, document, transactions, verifyUrl);
+  return pdfDoc.save();
+}
+
+/**
+ * Append the certificate pages to the final signed PDF
+ *
+ * The result is a new file: its hash matches no recorded version and the
+ * embedded signatures no longer cover it, so auditors should keep the
+ * signed PDF as well.
+ */
+export async function appendCompletionCertificate(
+  signedPdf: Blob,
+  document: DocumentSummary,
+  transactions: DocumentTransactions,
+  verifyUrl: string
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(await signedPdf.arrayBuffer());
+  await drawCertificate(pdfDoc, document, transactions, verifyUrl);
+  return pdfDoc.save();
+}
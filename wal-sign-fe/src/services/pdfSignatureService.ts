@@ -0,0 +1,525 @@
+import {
+  PDFArray,
+  PDFCrossRefSection,
+  PDFCrossRefStream,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRef,
+  PDFString,
+  PDFTrailer,
+  PDFTrailerDict,
+} from 'pdf-lib';
+import { SuiClient } from '@mysten/sui/client';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import * as der from '../utils/der';
+import { sha256, toHex } from 'walsign-sdk';
+
+/**
+ * Embedded PDF signatures (PAdES B-B, ETSI.CAdES.detached)
+ *
+ * Sui wallets cannot sign arbitrary digests, so each signature uses a fresh
+ * P-256 key that PDF readers understand. The wallet signs a personal
+ * message binding that key to the document, and the binding travels in an
+ * extension of the key's self-signed certificate. Readers such as Acrobat
+ * can then detect any change to the signed bytes, while WalSign can also
+ * check which wallet stood behind the key.
+ */
+
+// Bytes reserved for the CMS container; the hex placeholder is twice as long
+const SIGNATURE_LENGTH = 8192;
+const BYTE_RANGE_PLACEHOLDER = '**********';
+
+const OID = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  commonName: '2.5.4.3',
+  organization: '2.5.4.10',
+  keyUsage: '2.5.29.15',
+  // WalSign wallet binding, under the UUID arc
+  walSignBinding: '2.25.163739650478506075804368676888259750743',
+};
+
+const ECDSA_P256 = { name: 'ECDSA', namedCurve: 'P-256' };
+const ECDSA_SHA256 = { name: 'ECDSA', hash: 'SHA-256' };
+
+export interface SignPdfOptions {
+  documentId: string;
+  signer: string; // Sui address of the wallet signing
+  signPersonalMessage: (args: { message: Uint8Array }) => Promise<{ signature: string }>;
+}
+
+export interface EmbeddedSignature {
+  fieldIndex: number; // Order in the file, starting at 1
+  signer: string | null;
+  documentId: string | null;
+  anchorTxDigest: string | null; // Last transaction on the document before this signature
+  signedAt: Date | null;
+  coversWholeFile: boolean; // False for signatures on an earlier revision
+  digestValid: boolean | null; // The signed bytes are unchanged, null when they can no longer be located
+  signatureValid: boolean; // The CMS signature verifies with the embedded certificate
+  walletBound: boolean; // The signer's wallet attested the signing key
+  error?: string;
+}
+
+/**
+ * Message the wallet signs to bind a signing key to a document
+ */
+function bindingMessage(documentId: string, keyHash: string, signedAt: string): Uint8Array {
+  return new TextEncoder().encode(
+    `WalSign PDF signing key\nDocument: ${documentId}\nKey: ${keyHash}\nSigned at: ${signedAt}`
+  );
+}
+
+function latin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+}
+
+// WebCrypto signs ECDSA as raw r || s, CMS and X.509 expect a DER sequence
+function rawToDerSignature(raw: Uint8Array): Uint8Array {
+  return der.sequence(der.integer(raw.slice(0, 32)), der.integer(raw.slice(32)));
+}
+
+function derToRawSignature(signature: Uint8Array): Uint8Array {
+  const [r, s] = der.decode(signature).children.map(n => {
+    const value = n.content[0] === 0 ? n.content.subarray(1) : n.content;
+    const padded = new Uint8Array(32);
+    padded.set(value, 32 - value.length);
+    return padded;
+  });
+  return der.concatBytes([r, s]);
+}
+
+async function ecdsaSign(privateKey: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  const raw = await crypto.subtle.sign(ECDSA_SHA256, privateKey, data as BufferSource);
+  return rawToDerSignature(new Uint8Array(raw));
+}
+
+/**
+ * Build a self-signed certificate for the signing key, carrying the
+ * wallet binding in a WalSign extension
+ */
+async function createCertificate(
+  keyPair: CryptoKeyPair,
+  spki: Uint8Array,
+  signer: string,
+  serial: Uint8Array,
+  binding: Uint8Array,
+  signedAt: Date
+): Promise<{ certificate: Uint8Array; name: Uint8Array }> {
+  const name = der.sequence(
+    der.set(der.sequence(der.oid(OID.commonName), der.utf8String(`${signer.slice(0, 10)}...${signer.slice(-8)}`))),
+    der.set(der.sequence(der.oid(OID.organization), der.utf8String('WalSign'))),
+  );
+  const algorithm = der.sequence(der.oid(OID.ecdsaWithSha256));
+  const notAfter = new Date(signedAt);
+  notAfter.setUTCFullYear(notAfter.getUTCFullYear() + 10);
+
+  const tbs = der.sequence(
+    der.contextTag(0, der.integer(2)), // X.509 v3
+    der.integer(serial),
+    algorithm,
+    name,
+    der.sequence(der.utcTime(signedAt), der.utcTime(notAfter)),
+    name,
+    spki,
+    der.contextTag(3, der.sequence(
+      // digitalSignature and nonRepudiation
+      der.sequence(der.oid(OID.keyUsage), der.boolean(true), der.octetString(der.tlv(0x03, Uint8Array.of(6, 0xc0)))),
+      der.sequence(der.oid(OID.walSignBinding), der.octetString(binding)),
+    )),
+  );
+
+  const signature = await ecdsaSign(keyPair.privateKey, tbs);
+  return { certificate: der.sequence(tbs, algorithm, der.bitString(signature)), name };
+}
+
+/**
+ * Add a signature field with a placeholder signature dictionary to the
+ * first page. ByteRange and Contents are filled in after saving.
+ */
+function addSignaturePlaceholder(pdfDoc: PDFDocument, documentId: string, signer: string, signedAt: Date) {
+  const context = pdfDoc.context;
+
+  const byteRange = PDFArray.withContext(context);
+  byteRange.push(PDFNumber.of(0));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+
+  const signatureRef = context.register(
+    context.obj({
+      Type: 'Sig',
+      Filter: 'Adobe.PPKLite',
+      SubFilter: 'ETSI.CAdES.detached',
+      ByteRange: byteRange,
+      Contents: PDFHexString.of('0'.repeat(SIGNATURE_LENGTH * 2)),
+      Name: PDFString.of(signer),
+      Reason: PDFString.of(`Signed on WalSign, document ${documentId}`),
+      M: PDFString.fromDate(signedAt),
+    })
+  );
+
+  // Invisible widget, the visible signature is the stamped image
+  const page = pdfDoc.getPage(0);
+  const widgetRef = context.register(
+    context.obj({
+      Type: 'Annot',
+      Subtype: 'Widget',
+      FT: 'Sig',
+      Rect: [0, 0, 0, 0],
+      V: signatureRef,
+      T: PDFString.of(`WalSign ${signer.slice(0, 10)} ${signedAt.getTime()}`),
+      F: 4, // Print
+      P: page.ref,
+    })
+  );
+  page.node.addAnnot(widgetRef);
+
+  const acroForm = pdfDoc.catalog.getOrCreateAcroForm();
+  acroForm.addField(widgetRef);
+  acroForm.dict.set(PDFName.of('SigFlags'), PDFNumber.of(3)); // SignaturesExist | AppendOnly
+}
+
+// Anything pdf-lib can write out, objects as well as xref sections and trailers
+interface Serializable {
+  sizeInBytes(): number;
+  copyBytesInto(buffer: Uint8Array, offset: number): number;
+}
+
+function serialize(value: Serializable): Uint8Array {
+  const bytes = new Uint8Array(value.sizeInBytes());
+  value.copyBytesInto(bytes, 0);
+  return bytes;
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Append the changes made to a loaded PDF as an incremental update
+ *
+ * The original bytes are kept as they are, so signatures over earlier
+ * revisions keep covering exactly what they signed. Objects that changed or
+ * were added since loading are written after them, followed by a new xref
+ * section that points back to the previous one.
+ */
+async function appendIncrementalUpdate(pdfDoc: PDFDocument, originalBytes: Uint8Array): Promise<Uint8Array> {
+  await pdfDoc.flush();
+
+  const originalText = latin1(originalBytes.subarray(-1024));
+  const startXref = /startxref\s+(\d+)\s*%%EOF\s*$/.exec(originalText);
+  if (!startXref) {
+    throw new Error('Could not find the cross-reference table of the PDF');
+  }
+  const prevXref = Number(startXref[1]);
+  // Updates must use the same kind of xref section as the file they extend
+  const usesXrefStream = latin1(originalBytes.subarray(prevXref, prevXref + 4)) !== 'xref';
+
+  // Parsing the original again gives objects that serialize the same way
+  // unless they were changed
+  const original = await PDFDocument.load(originalBytes, { updateMetadata: false });
+  const { context } = pdfDoc;
+  const changed = context.enumerateIndirectObjects().filter(([ref, object]) => {
+    const before = original.context.lookup(ref);
+    return !before || !sameBytes(serialize(object), serialize(before));
+  });
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [originalBytes, encoder.encode('\n')];
+  let offset = originalBytes.length + 1;
+  const write = (bytes: Uint8Array) => {
+    parts.push(bytes);
+    offset += bytes.length;
+  };
+  const writeObject = (ref: PDFRef, object: PDFObject) => {
+    write(encoder.encode(`${ref.objectNumber} ${ref.generationNumber} obj\n`));
+    write(serialize(object));
+    write(encoder.encode('\nendobj\n'));
+  };
+
+  const offsets: [PDFRef, number][] = [];
+  for (const [ref, object] of changed) {
+    offsets.push([ref, offset]);
+    writeObject(ref, object);
+  }
+
+  const xrefStreamRef = usesXrefStream ? context.nextRef() : null;
+  const trailer = PDFDict.withContext(context);
+  trailer.set(PDFName.of('Size'), PDFNumber.of(context.largestObjectNumber + 1));
+  for (const key of ['Root', 'Info', 'ID'] as const) {
+    const value = context.trailerInfo[key];
+    if (value) trailer.set(PDFName.of(key), value);
+  }
+  trailer.set(PDFName.of('Prev'), PDFNumber.of(prevXref));
+
+  const xrefOffset = offset;
+  if (xrefStreamRef) {
+    const xrefStream = PDFCrossRefStream.create(trailer, false);
+    for (const [ref, objectOffset] of offsets) {
+      xrefStream.addUncompressedEntry(ref, objectOffset);
+    }
+    xrefStream.addUncompressedEntry(xrefStreamRef, xrefOffset);
+    writeObject(xrefStreamRef, xrefStream);
+  } else {
+    const xrefSection = PDFCrossRefSection.createEmpty();
+    for (const [ref, objectOffset] of offsets) {
+      xrefSection.addEntry(ref, objectOffset);
+    }
+    write(serialize(xrefSection));
+    write(encoder.encode('\n'));
+    write(serialize(PDFTrailerDict.of(trailer)));
+    write(encoder.encode('\n'));
+  }
+  write(serialize(PDFTrailer.forLastCrossRefSectionOffset(xrefOffset)));
+
+  return der.concatBytes(parts);
+}
+
+/**
+ * Get the digest of the last transaction that touched a document
+ */
+async function getAnchorTxDigest(suiClient: SuiClient, documentId: string): Promise<string> {
+  const object = await suiClient.getObject({
+    id: documentId,
+    options: { showPreviousTransaction: true },
+  });
+  return object.data?.previousTransaction ?? '';
+}
+
+/**
+ * Append a PDF's changes with an embedded CMS signature over the whole file
+ *
+ * The signing transaction records the signed PDF's blob ID and hash, so
+ * its digest cannot be inside the PDF. The signature instead names the
+ * last transaction on the document before it, which fixes where in the
+ * document's history it was made.
+ *
+ * The changes go in an incremental update after `originalBytes`, the bytes
+ * `pdfDoc` was loaded from, so earlier embedded signatures stay valid for
+ * the revision they signed.
+ */
+export async function signPdf(
+  pdfDoc: PDFDocument,
+  originalBytes: Uint8Array,
+  suiClient: SuiClient,
+  { documentId, signer, signPersonalMessage }: SignPdfOptions
+): Promise<Uint8Array> {
+  const signedAt = new Date();
+  // Certificates use whole seconds
+  signedAt.setUTCMilliseconds(0);
+
+  const keyPair = await crypto.subtle.generateKey(ECDSA_P256, false, ['sign', 'verify']);
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+
+  const { signature: walletSignature } = await signPersonalMessage({
+    message: bindingMessage(documentId, toHex(await sha256(spki)), signedAt.toISOString()),
+  });
+  const anchorTxDigest = await getAnchorTxDigest(suiClient, documentId);
+
+  const binding = der.sequence(
+    der.utf8String(documentId),
+    der.utf8String(signer),
+    der.utf8String(anchorTxDigest),
+    der.utf8String(signedAt.toISOString()),
+    der.utf8String(walletSignature),
+  );
+  const serial = crypto.getRandomValues(new Uint8Array(16));
+  const { certificate, name } = await createCertificate(keyPair, spki, signer, serial, binding, signedAt);
+
+  addSignaturePlaceholder(pdfDoc, documentId, signer, signedAt);
+  const pdfBytes = await appendIncrementalUpdate(pdfDoc, originalBytes);
+  const text = latin1(pdfBytes);
+
+  // The placeholder is in the appended update, never in the original bytes
+  const contentsStart = text.indexOf(`<${'0'.repeat(SIGNATURE_LENGTH * 2)}>`, originalBytes.length);
+  const byteRangePattern = /\/ByteRange\s*\[\s*0\s+\/\*{10}\s+\/\*{10}\s+\/\*{10}\s*\]/g;
+  byteRangePattern.lastIndex = originalBytes.length;
+  const byteRangeMatch = byteRangePattern.exec(text);
+  if (contentsStart < 0 || !byteRangeMatch) {
+    throw new Error('Could not find the signature placeholder');
+  }
+
+  // Everything but the hex string between < and > is signed
+  const contentsEnd = contentsStart + SIGNATURE_LENGTH * 2 + 2;
+  const byteRange = [0, contentsStart, contentsEnd, pdfBytes.length - contentsEnd];
+  const byteRangeText = `/ByteRange [${byteRange.join(' ')}]`.padEnd(byteRangeMatch[0].length, ' ');
+  pdfBytes.set(new TextEncoder().encode(byteRangeText), byteRangeMatch.index);
+
+  const digest = await sha256(
+    der.concatBytes([pdfBytes.subarray(0, contentsStart), pdfBytes.subarray(contentsEnd)])
+  );
+
+  const signedAttributes = der.set(
+    der.sequence(der.oid(OID.contentType), der.set(der.oid(OID.data))),
+    der.sequence(der.oid(OID.messageDigest), der.set(der.octetString(digest))),
+    // ESSCertIDv2 with the default SHA-256
+    der.sequence(
+      der.oid(OID.signingCertificateV2),
+      der.set(der.sequence(der.sequence(der.sequence(der.octetString(await sha256(certificate))))))
+    ),
+  );
+  const signature = await ecdsaSign(keyPair.privateKey, signedAttributes);
+
+  // Signed as a SET, stored as [0] IMPLICIT
+  const taggedAttributes = Uint8Array.from(signedAttributes);
+  taggedAttributes[0] = 0xa0;
+
+  const signerInfo = der.sequence(
+    der.integer(1),
+    der.sequence(name, der.integer(serial)), // IssuerAndSerialNumber
+    der.sequence(der.oid(OID.sha256)),
+    taggedAttributes,
+    der.sequence(der.oid(OID.ecdsaWithSha256)),
+    der.octetString(signature),
+  );
+  const cms = der.sequence(
+    der.oid(OID.signedData),
+    der.contextTag(0, der.sequence(
+      der.integer(1),
+      der.set(der.sequence(der.oid(OID.sha256))),
+      der.sequence(der.oid(OID.data)), // Detached content
+      der.contextTag(0, certificate),
+      der.set(signerInfo),
+    )),
+  );
+
+  if (cms.length > SIGNATURE_LENGTH) {
+    throw new Error('Signature is larger than the space reserved for it');
+  }
+  pdfBytes.set(new TextEncoder().encode(toHex(cms)), contentsStart + 1);
+
+  return pdfBytes;
+}
+
+/**
+ * Check one embedded signature against the bytes it claims to cover
+ */
+async function verifySignature(
+  pdfBytes: Uint8Array,
+  byteRange: number[],
+  cmsHex: string,
+  inPlace: boolean,
+  fieldIndex: number
+): Promise<EmbeddedSignature> {
+  const result: EmbeddedSignature = {
+    fieldIndex,
+    signer: null,
+    documentId: null,
+    anchorTxDigest: null,
+    signedAt: null,
+    coversWholeFile: inPlace && byteRange[0] === 0 && byteRange[2] + byteRange[3] === pdfBytes.length,
+    digestValid: null,
+    signatureValid: false,
+    walletBound: false,
+  };
+
+  try {
+    const cmsBytes = Uint8Array.from(cmsHex.match(/../g) ?? [], byte => parseInt(byte, 16));
+    const contentInfo = der.decode(cmsBytes);
+    if (der.decodeOid(contentInfo.children[0]) !== OID.signedData) {
+      throw new Error('Not a CMS SignedData container');
+    }
+
+    const signedData = contentInfo.children[1].children[0];
+    const certificate = signedData.children.find(n => n.tag === 0xa0)?.children[0];
+    const signerInfo = signedData.children[signedData.children.length - 1].children[0];
+    const signedAttributes = signerInfo.children.find(n => n.tag === 0xa0);
+    const signature = signerInfo.children.find(n => n.tag === 0x04);
+    if (!certificate || !signedAttributes || !signature) {
+      throw new Error('Incomplete CMS SignedData container');
+    }
+
+    // The signed bytes must still hash to the recorded digest. Signatures on
+    // earlier revisions are checked too, as long as their range is still there
+    if (inPlace && byteRange[2] + byteRange[3] <= pdfBytes.length) {
+      const messageDigest = signedAttributes.children
+        .find(attribute => der.decodeOid(attribute.children[0]) === OID.messageDigest)
+        ?.children[1].children[0].content;
+      const digest = await sha256(
+        der.concatBytes([
+          pdfBytes.subarray(0, byteRange[1]),
+          pdfBytes.subarray(byteRange[2], byteRange[2] + byteRange[3]),
+        ])
+      );
+      result.digestValid = !!messageDigest && toHex(messageDigest) === toHex(digest);
+    }
+
+    const tbs = certificate.children[0];
+    const spki = tbs.children[6];
+    const publicKey = await crypto.subtle.importKey('spki', spki.bytes as BufferSource, ECDSA_P256, false, ['verify']);
+    const signedBytes = Uint8Array.from(signedAttributes.bytes);
+    signedBytes[0] = 0x31;
+    result.signatureValid = await crypto.subtle.verify(
+      ECDSA_SHA256,
+      publicKey,
+      derToRawSignature(signature.content) as BufferSource,
+      signedBytes as BufferSource
+    );
+
+    const extensions = tbs.children.find(n => n.tag === 0xa3)?.children[0].children ?? [];
+    const bindingExtension = extensions.find(extension => der.decodeOid(extension.children[0]) === OID.walSignBinding);
+    if (!bindingExtension) {
+      throw new Error('Not signed with WalSign');
+    }
+
+    const [documentId, signer, anchorTxDigest, signedAt, walletSignature] = der
+      .decode(bindingExtension.children[bindingExtension.children.length - 1].content)
+      .children.map(der.decodeString);
+    result.documentId = documentId;
+    result.signer = signer;
+    result.anchorTxDigest = anchorTxDigest || null;
+    result.signedAt = new Date(signedAt);
+
+    // Throws unless the message was signed by the signer's wallet
+    await verifyPersonalMessageSignature(
+      bindingMessage(documentId, toHex(await sha256(spki.bytes)), signedAt),
+      walletSignature,
+      { address: signer }
+    );
+    result.walletBound = true;
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : 'Could not read the signature';
+  }
+
+  return result;
+}
+
+/**
+ * Find and verify the embedded signatures in a PDF
+ */
+export async function verifyPdfSignatures(pdfBytes: Uint8Array): Promise<EmbeddedSignature[]> {
+  const text = latin1(pdfBytes);
+  const pattern = /\/ByteRange\s*\[\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*\]/g;
+  const results: EmbeddedSignature[] = [];
+
+  for (const match of text.matchAll(pattern)) {
+    const byteRange = match.slice(1, 5).map(Number);
+
+    // Read Contents from the same signature dictionary rather than trusting
+    // the byte range, which is stale in files rewritten after signing
+    const objectStart = text.lastIndexOf(' obj', match.index);
+    const objectEnd = text.indexOf('endobj', match.index);
+    const contents = /\/Contents\s*<([0-9a-fA-F]*)>/.exec(text.slice(objectStart, objectEnd));
+    if (objectStart < 0 || objectEnd < 0 || !contents) continue;
+
+    const contentsStart = objectStart + contents.index + contents[0].indexOf('<');
+    const inPlace = contentsStart === byteRange[1] && contentsStart + contents[1].length + 2 === byteRange[2];
+    results.push(await verifySignature(pdfBytes, byteRange, contents[1], inPlace, results.length + 1));
+  }
+
+  return results;
+}
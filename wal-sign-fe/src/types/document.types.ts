@@ -31,5 +31,3 @@ export interface EncryptionResult {
   encryptedHash: string;
   sealMetadata: string;
 }
-
-
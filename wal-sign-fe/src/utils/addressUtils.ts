@@ -1,3 +1,5 @@
+import { SUI_NETWORK } from '../config/seal.config';
+
 export function truncateAddress(address: string): string {
   if (!address) return '';
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
@@ -43,3 +45,22 @@ export function getSignUrl(documentId: string, useQueryParam: boolean = false):
   }
 }
 
+
+/**
+ * Generates the verification page URL for a document
+ * @param documentId - The document ID to verify
+ * @returns A properly formatted URL
+ */
+export function getVerifyUrl(documentId: string): string {
+  // Same origin handling as sign links
+  return getSignUrl(documentId).replace(/\/sign\//, '/verify/');
+}
+
+/**
+ * Generates the explorer URL of a transaction
+ * @param txDigest - The transaction digest
+ * @returns The Suiscan URL on the configured network
+ */
+export function getExplorerTxUrl(txDigest: string): string {
+  return `https://suiscan.xyz/${SUI_NETWORK}/tx/${txDigest}`;
+}
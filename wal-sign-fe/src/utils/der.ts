@@ -0,0 +1,156 @@
+/**
+ * Minimal DER encoding and decoding, enough to build and read the X.509
+ * certificates and CMS containers in embedded PDF signatures
+ */
+
+export interface Asn1Node {
+  tag: number;
+  bytes: Uint8Array; // Whole element: tag, length and content
+  content: Uint8Array;
+  children: Asn1Node[]; // Parsed content of constructed elements
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+const encodeLength = (length: number): Uint8Array => {
+  if (length < 0x80) return Uint8Array.of(length);
+  const bytes: number[] = [];
+  for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest & 0xff);
+  }
+  return Uint8Array.of(0x80 | bytes.length, ...bytes);
+};
+
+const compareBytes = (a: Uint8Array, b: Uint8Array): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+};
+
+/**
+ * Encode a tag-length-value element from already encoded content
+ */
+export function tlv(tag: number, ...content: Uint8Array[]): Uint8Array {
+  const body = concatBytes(content);
+  return concatBytes([Uint8Array.of(tag), encodeLength(body.length), body]);
+}
+
+export const sequence = (...items: Uint8Array[]) => tlv(0x30, ...items);
+
+// DER orders the members of a SET OF by their encoding
+export const set = (...items: Uint8Array[]) => tlv(0x31, ...[...items].sort(compareBytes));
+
+export const octetString = (bytes: Uint8Array) => tlv(0x04, bytes);
+
+export const utf8String = (text: string) => tlv(0x0c, new TextEncoder().encode(text));
+
+export const boolean = (value: boolean) => tlv(0x01, Uint8Array.of(value ? 0xff : 0));
+
+// Unused-bits byte, then the bits
+export const bitString = (bytes: Uint8Array) => tlv(0x03, Uint8Array.of(0), bytes);
+
+/**
+ * Encode an unsigned big-endian integer, or a small number
+ */
+export function integer(value: number | Uint8Array): Uint8Array {
+  let bytes = typeof value === 'number' ? Uint8Array.of(value) : value;
+  // Drop leading zeros, then add one back if the high bit would make it negative
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) start++;
+  bytes = bytes.slice(start);
+  return tlv(0x02, bytes[0] & 0x80 ? concatBytes([Uint8Array.of(0), bytes]) : bytes);
+}
+
+export function oid(dotted: string): Uint8Array {
+  const arcs = dotted.split('.').map(arc => BigInt(arc));
+  const bytes: number[] = [];
+  for (const arc of [arcs[0] * 40n + arcs[1], ...arcs.slice(2)]) {
+    const groups: number[] = [];
+    for (let rest = arc; ; rest >>= 7n) {
+      groups.unshift(Number(rest & 0x7fn) | (groups.length ? 0x80 : 0));
+      if (rest < 0x80n) break;
+    }
+    bytes.push(...groups);
+  }
+  return tlv(0x06, Uint8Array.from(bytes));
+}
+
+export function utcTime(date: Date): Uint8Array {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const text =
+    pad(date.getUTCFullYear() % 100) +
+    pad(date.getUTCMonth() + 1) +
+    pad(date.getUTCDate()) +
+    pad(date.getUTCHours()) +
+    pad(date.getUTCMinutes()) +
+    pad(date.getUTCSeconds()) +
+    'Z';
+  return tlv(0x17, new TextEncoder().encode(text));
+}
+
+/**
+ * Context-specific tag [n], wrapping the content (EXPLICIT) or replacing
+ * the tag of a constructed element (IMPLICIT, pass its content)
+ */
+export const contextTag = (n: number, ...content: Uint8Array[]) => tlv(0xa0 | n, ...content);
+
+/**
+ * Decode one element and, for constructed ones, everything inside it
+ */
+export function decode(bytes: Uint8Array, offset: number = 0): Asn1Node {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let header = 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    header += count;
+  }
+
+  const end = offset + header + length;
+  if (end > bytes.length) {
+    throw new Error('Truncated DER element');
+  }
+
+  const content = bytes.subarray(offset + header, end);
+  const children: Asn1Node[] = [];
+  if (tag & 0x20) {
+    for (let position = 0; position < content.length; ) {
+      const child = decode(content, position);
+      children.push(child);
+      position += child.bytes.length;
+    }
+  }
+
+  return { tag, bytes: bytes.subarray(offset, end), content, children };
+}
+
+export function decodeOid(node: Asn1Node): string {
+  const arcs: bigint[] = [];
+  let value = 0n;
+  for (const byte of node.content) {
+    value = (value << 7n) | BigInt(byte & 0x7f);
+    if (!(byte & 0x80)) {
+      arcs.push(value);
+      value = 0n;
+    }
+  }
+  const first = arcs[0] < 80n ? arcs[0] / 40n : 2n;
+  return [first, arcs[0] - first * 40n, ...arcs.slice(1)].join('.');
+}
+
+export function decodeString(node: Asn1Node): string {
+  return new TextDecoder().decode(node.content);
+}
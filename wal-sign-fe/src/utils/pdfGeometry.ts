@@ -0,0 +1,125 @@
+import { PDFPage } from 'pdf-lib';
+
+/**
+ * Rectangle on a page as displayed, in PDF points at scale 1 from the
+ * top-left corner. This is the space react-pdf renders in: the page's
+ * /Rotate is applied and it is cropped to the CropBox.
+ */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Guides {
+  x: number[]; // Vertical guide lines
+  y: number[]; // Horizontal guide lines
+}
+
+/**
+ * Get the page's /Rotate as 0, 90, 180 or 270
+ */
+export function getPageRotation(page: PDFPage): number {
+  return ((page.getRotation().angle % 360) + 360) % 360;
+}
+
+/**
+ * Convert a point on the page as displayed to PDF user space
+ * (bottom-left origin, unrotated, relative to the MediaBox origin)
+ */
+export function toPdfPoint(page: PDFPage, x: number, y: number): { x: number; y: number } {
+  const crop = page.getCropBox();
+
+  switch (getPageRotation(page)) {
+    case 90:
+      return { x: crop.x + y, y: crop.y + x };
+    case 180:
+      return { x: crop.x + crop.width - x, y: crop.y + y };
+    case 270:
+      return { x: crop.x + crop.width - y, y: crop.y + crop.height - x };
+    default:
+      return { x: crop.x + x, y: crop.y + crop.height - y };
+  }
+}
+
+/**
+ * Get the anchor and angle to pass to pdf-lib's drawImage so a box turned
+ * `rotation` degrees clockwise around its center shows up where it was
+ * displayed. pdf-lib rotates counterclockwise around the bottom-left corner.
+ */
+export function toPdfPlacement(
+  page: PDFPage,
+  box: Rect,
+  rotation: number = 0
+): { x: number; y: number; rotate: number } {
+  const theta = (rotation * Math.PI) / 180;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+
+  // Bottom-left corner relative to the center, turned clockwise (y points down)
+  const dx = -box.width / 2;
+  const dy = box.height / 2;
+  const corner = toPdfPoint(
+    page,
+    box.x + box.width / 2 + dx * cos - dy * sin,
+    box.y + box.height / 2 + dx * sin + dy * cos
+  );
+
+  return { x: corner.x, y: corner.y, rotate: getPageRotation(page) - rotation };
+}
+
+/**
+ * Move `box` so one of its edges or its center lines up with an edge or
+ * center of a target within `threshold`, and return the lines it snapped to
+ */
+export function alignToGuides(
+  box: Rect,
+  targets: Rect[],
+  threshold: number
+): { x: number; y: number; guides: Guides } {
+  const lines = (start: number, size: number) => [start, start + size / 2, start + size];
+
+  const snap = (start: number, size: number, targetLines: number[]) => {
+    let best: { delta: number; line: number } | null = null;
+    for (const own of lines(start, size)) {
+      for (const line of targetLines) {
+        const delta = line - own;
+        if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+          best = { delta, line };
+        }
+      }
+    }
+    return best;
+  };
+
+  const snapX = snap(box.x, box.width, targets.flatMap(t => lines(t.x, t.width)));
+  const snapY = snap(box.y, box.height, targets.flatMap(t => lines(t.y, t.height)));
+
+  return {
+    x: box.x + (snapX?.delta ?? 0),
+    y: box.y + (snapY?.delta ?? 0),
+    guides: {
+      x: snapX ? [snapX.line] : [],
+      y: snapY ? [snapY.line] : [],
+    },
+  };
+}
+
+/**
+ * Find the target whose center is within `threshold` of the box's center
+ */
+export function findSnapTarget<T extends Rect>(box: Rect, targets: T[], threshold: number): T | null {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  let best: { target: T; distance: number } | null = null;
+
+  for (const target of targets) {
+    const distance = Math.hypot(target.x + target.width / 2 - cx, target.y + target.height / 2 - cy);
+    if (distance <= threshold && (!best || distance < best.distance)) {
+      best = { target, distance };
+    }
+  }
+
+  return best?.target ?? null;
+}
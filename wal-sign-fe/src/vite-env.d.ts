@@ -2,6 +2,8 @@
 
 interface ImportMetaEnv {
   readonly VITE_MNEMONIC: string;
+  readonly VITE_SUI_NETWORK?: string;
+  readonly VITE_INDEXER_URL?: string;
 }
 
 interface ImportMeta {
@@ -1,10 +1,22 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import path from 'path';
 
 export default defineConfig({
 	plugins: [react()],
+	resolve: {
+		// Built from source, like the generated client it wraps
+		alias: {
+			'walsign-sdk': path.resolve(__dirname, '../walsign-sdk/src'),
+		},
+		// One copy of each, shared with the SDK
+		dedupe: ['@mysten/sui', '@mysten/seal'],
+	},
 	server: {
 		port: 5173,
+		fs: {
+			allow: ['..'],
+		},
 		proxy: {
 			// Proxy Walrus requests to avoid CORS issues
 			'/walrus-publisher': {
@@ -0,0 +1,336 @@
+import { SessionKey } from "@mysten/seal";
+import { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { WalSignConfig } from "./config";
+import { WalSignSigner } from "./signer";
+import { sha256 } from "./hash";
+import * as registry from "./registry";
+import { DocumentSummary, ParticipantRole } from "./registry";
+import {
+  decryptPDF,
+  DocumentField,
+  encryptFields,
+  encryptPDF,
+  encryptSignatureImage,
+  parseFields,
+  SealApproveFunction,
+} from "./seal";
+import { checkBlobExists, downloadFromWalrus, MAX_STORAGE_EPOCHS, uploadToWalrus } from "./walrus";
+import * as walSign from "./generated/walSign";
+
+type Builders = typeof walSign;
+
+// Generated builders, i.e. every public and entry function of wal_sign
+export type MoveCallName = {
+  [K in keyof Builders]: Builders[K] extends (tx: Transaction, packageId: string, ...args: never[]) => unknown ? K : never;
+}[keyof Builders];
+
+// The arguments object a builder takes, or nothing for functions without arguments
+export type MoveCallArgs<N extends MoveCallName> =
+  Parameters<Builders[N]> extends [Transaction, string, infer A] ? [args: A] : [];
+
+export interface CreateDocumentInput {
+  pdf: Blob;
+  title: string;
+  description?: string;
+  authorizedSigners: string[]; // Address filling each template slot when templateId is set
+  roles: ParticipantRole[]; // Parallel to authorizedSigners, ignored for templates
+  sequential?: boolean;
+  threshold?: number | null; // Required signatures (M-of-N), null if every signer must sign
+  expiresAt?: number | null; // Signing deadline (ms)
+  organizationId?: string | null;
+  templateId?: string | null; // Roles, signing order and threshold then come from the template
+  fields?: DocumentField[];
+}
+
+export type CreateDocumentStage = 'creating' | 'encrypting' | 'uploading' | 'updating';
+
+export type SignDocumentStage = 'encrypting' | 'uploading' | 'finding' | 'recording';
+
+// A signer's SignerCap, or the Delegation a delegate signs with
+export interface SigningCapability {
+  kind: 'cap' | 'delegation';
+  id: string;
+}
+
+interface Session {
+  key: SessionKey;
+  signature?: string;
+}
+
+/**
+ * Create a WalSign client for one deployment of the wal_sign package
+ * Queries work without a signer; sending transactions and decrypting throw
+ * unless the config has one
+ */
+export function createWalSignClient(config: WalSignConfig) {
+  let session: Session | null = null;
+
+  const requireSigner = (): WalSignSigner => {
+    if (!config.signer) {
+      throw new Error('This WalSign client has no signer, pass one in its config');
+    }
+    return config.signer;
+  };
+
+  // Reuse the session key, and the signature over it, until it expires
+  const getSession = async (address: string): Promise<Session> => {
+    if (session && !session.key.isExpired() && session.key.getAddress() === address) {
+      return session;
+    }
+    const key = await SessionKey.create({
+      address,
+      suiClient: config.suiClient,
+      ttlMin: 30,
+      packageId: config.packageId,
+    });
+    session = { key };
+    return session;
+  };
+
+  /**
+   * Download a blob and decrypt it with the signer's session key
+   * The signer is asked to sign the session key once per session
+   * @param id - Object the data was encrypted under: a document, template or signature library
+   */
+  const decrypt = async (
+    id: string,
+    walrusBlobId: string,
+    approveFunction: SealApproveFunction = 'seal_approve'
+  ): Promise<Uint8Array | undefined> => {
+    const signer = requireSigner();
+    const encryptedData = await downloadFromWalrus(config.walrus, walrusBlobId);
+    const current = await getSession(signer.address);
+
+    return decryptPDF(
+      config,
+      id,
+      encryptedData,
+      current.key,
+      async () => {
+        if (!current.signature) {
+          current.signature = await signer.signPersonalMessage(current.key.getPersonalMessage());
+        }
+        return { signature: current.signature };
+      },
+      approveFunction,
+    );
+  };
+
+  const execute = (tx: Transaction): Promise<SuiTransactionBlockResponse> =>
+    requireSigner().signAndExecuteTransaction(tx);
+
+  /**
+   * Send a transaction calling one wal_sign function
+   * @example client.call('burnSignerCap', { cap: capId })
+   */
+  const call = <N extends MoveCallName>(name: N, ...args: MoveCallArgs<N>) => {
+    const tx = new Transaction();
+    (walSign[name] as (tx: Transaction, packageId: string, ...rest: unknown[]) => unknown)(
+      tx,
+      config.packageId,
+      ...args
+    );
+    return execute(tx);
+  };
+
+  /**
+   * Find what the signer signs a document with
+   * Delegates sign with their Delegation object instead of a SignerCap
+   * @returns The capability, or null if the signer holds none
+   */
+  const findSigningCapability = async (document: DocumentSummary): Promise<SigningCapability | null> => {
+    const { address } = requireSigner();
+    if (document.authorizedSigners.includes(address)) {
+      const id = await registry.getSignerCapId(config, address, document.documentId);
+      return id ? { kind: 'cap', id } : null;
+    }
+    const id = await registry.getDelegationId(config, address, document.documentId);
+    return id ? { kind: 'delegation', id } : null;
+  };
+
+  /**
+   * Create a document, then encrypt its PDF and fields under the new
+   * document's ID, upload them to Walrus and record their blob IDs
+   * Takes two transactions, since the ID only exists once the first one ran
+   */
+  const createDocument = async (
+    input: CreateDocumentInput,
+    onProgress?: (stage: CreateDocumentStage) => void
+  ): Promise<{
+    documentId: string;
+    walrusBlobId: string;
+    fieldsBlobId: string | null;
+    digest: string;
+  }> => {
+    onProgress?.('creating');
+
+    const createDocTx = new Transaction();
+    if (input.templateId) {
+      walSign.instantiateTemplate(createDocTx, config.packageId, {
+        registry: config.registryId,
+        template: input.templateId,
+        walrusBlobId: "", // Set once the encrypted PDF is uploaded
+        title: input.title,
+        description: input.description ?? "",
+        signers: input.authorizedSigners,
+        expiresAt: input.expiresAt ?? null,
+      });
+    } else {
+      const documentArgs = {
+        registry: config.registryId,
+        walrusBlobId: "", // Set once the encrypted PDF is uploaded
+        contentHash: await sha256(input.pdf), // Records exactly what was sent for signing
+        title: input.title,
+        description: input.description ?? "",
+        authorizedSigners: input.authorizedSigners, // Repeats are ignored on-chain
+        roles: input.roles,
+        sequential: input.sequential ?? false,
+        threshold: input.threshold ?? null,
+        expiresAt: input.expiresAt ?? null,
+      };
+      if (input.organizationId) {
+        walSign.createOrgDocument(createDocTx, config.packageId, { organization: input.organizationId, ...documentArgs });
+      } else {
+        walSign.createDocument(createDocTx, config.packageId, documentArgs);
+      }
+    }
+
+    const createResult = await execute(createDocTx);
+    const created = createResult.objectChanges?.find(
+      change => change.type === 'created' && change.objectType.endsWith('::wal_sign::Document')
+    );
+    if (!created || created.type !== 'created') {
+      throw new Error('Failed to create document - no document object found in transaction');
+    }
+    const documentId = created.objectId;
+
+    onProgress?.('encrypting');
+    const { encryptedData } = await encryptPDF(config, documentId, input.pdf);
+    const encryptedFields = input.fields?.length
+      ? await encryptFields(config, documentId, input.fields)
+      : null;
+
+    onProgress?.('uploading');
+    const walrusBlobId = await uploadToWalrus(config.walrus, encryptedData);
+    const fieldsBlobId = encryptedFields
+      ? await uploadToWalrus(config.walrus, encryptedFields.encryptedData)
+      : null;
+
+    onProgress?.('updating');
+    const updateBlobTx = new Transaction();
+    walSign.updateBlobId(updateBlobTx, config.packageId, { document: documentId, walrusBlobId });
+    if (fieldsBlobId) {
+      walSign.updateFieldsBlobId(updateBlobTx, config.packageId, { document: documentId, fieldsBlobId });
+    }
+    await execute(updateBlobTx);
+
+    return { documentId, walrusBlobId, fieldsBlobId, digest: createResult.digest };
+  };
+
+  /**
+   * Sign a document with its signed version of the PDF
+   * The signed PDF is encrypted under the document's ID and uploaded, then
+   * its blob ID and hash are recorded with the signature
+   */
+  const signDocument = async (
+    document: DocumentSummary,
+    signedPdf: Blob,
+    onProgress?: (stage: SignDocumentStage) => void
+  ): Promise<{
+    signedBlobId: string;
+    digest: string;
+  }> => {
+    onProgress?.('encrypting');
+    const signedBlobHash = await sha256(signedPdf);
+    const { encryptedData } = await encryptPDF(config, document.documentId, signedPdf);
+
+    onProgress?.('uploading');
+    // Signed copies are the record of the signature, so keep them as long as Walrus allows
+    const signedBlobId = await uploadToWalrus(config.walrus, encryptedData, MAX_STORAGE_EPOCHS);
+
+    onProgress?.('finding');
+    const capability = await findSigningCapability(document);
+    if (!capability) {
+      throw new Error(
+        document.authorizedSigners.includes(requireSigner().address)
+          ? 'SignerCap not found! You may not be authorized to sign this document.'
+          : 'Delegation not found! It may have been revoked.'
+      );
+    }
+
+    onProgress?.('recording');
+    const signTx = new Transaction();
+    const signArgs = { document: document.documentId, signedBlobId, signedBlobHash };
+    if (capability.kind === 'delegation') {
+      walSign.signAsDelegate(signTx, config.packageId, { delegation: capability.id, ...signArgs });
+    } else {
+      walSign.signDocument(signTx, config.packageId, { cap: capability.id, ...signArgs });
+    }
+    const result = await execute(signTx);
+
+    return { signedBlobId, digest: result.digest };
+  };
+
+  return {
+    config,
+
+    // Registry queries
+    getDocumentDetails: (documentId: string) => registry.getDocumentDetails(config, documentId),
+    getMultipleDocuments: (documentIds: string[]) => registry.getMultipleDocuments(config, documentIds),
+    getUserDocuments: (
+      listName: 'created' | 'assigned',
+      userAddress: string,
+      cursor?: string | null,
+      query?: registry.DocumentListQuery
+    ) => registry.getUserDocuments(config, listName, userAddress, cursor, query),
+    getUserCreatedDocuments: (userAddress: string, cursor?: string | null, limit?: number) =>
+      registry.getUserCreatedDocuments(config, userAddress, cursor, limit),
+    getUserAssignedDocuments: (userAddress: string, cursor?: string | null, limit?: number) =>
+      registry.getUserAssignedDocuments(config, userAddress, cursor, limit),
+    getIncomingOwnershipTransfers: (userAddress: string) =>
+      registry.getIncomingOwnershipTransfers(config, userAddress),
+    getDocumentTransactions: (documentId: string) => registry.getDocumentTransactions(config, documentId),
+    getUserOrganizations: (userAddress: string) => registry.getUserOrganizations(config, userAddress),
+    getOrgDocuments: (organizationId: string, cursor?: string | null, limit?: number) =>
+      registry.getOrgDocuments(config, organizationId, cursor, limit),
+    getOrganizationDetails: (organizationId: string) => registry.getOrganizationDetails(config, organizationId),
+    getUserTemplates: (userAddress: string) => registry.getUserTemplates(config, userAddress),
+    getTemplateDetails: (templateId: string) => registry.getTemplateDetails(config, templateId),
+    getSignatureLibrary: (ownerAddress: string) => registry.getSignatureLibrary(config, ownerAddress),
+    getSignerCapId: (ownerAddress: string, documentId: string) =>
+      registry.getSignerCapId(config, ownerAddress, documentId),
+    getDelegationId: (ownerAddress: string, documentId: string) =>
+      registry.getDelegationId(config, ownerAddress, documentId),
+    getRegistryStats: () => registry.getRegistryStats(config),
+
+    // Walrus storage
+    upload: (data: Uint8Array, epochs?: number) => uploadToWalrus(config.walrus, data, epochs),
+    download: (blobId: string) => downloadFromWalrus(config.walrus, blobId),
+    blobExists: (blobId: string) => checkBlobExists(config.walrus, blobId),
+
+    // Seal encryption
+    encryptPDF: (documentId: string, pdf: Blob) => encryptPDF(config, documentId, pdf),
+    encryptFields: (documentId: string, fields: DocumentField[]) => encryptFields(config, documentId, fields),
+    encryptSignatureImage: (libraryId: string, imageData: string) =>
+      encryptSignatureImage(config, libraryId, imageData),
+    decrypt,
+    decryptFields: async (documentId: string, fieldsBlobId: string): Promise<DocumentField[] | null> => {
+      const decrypted = await decrypt(documentId, fieldsBlobId);
+      return decrypted ? parseFields(decrypted) : null;
+    },
+    decryptSignatureImage: async (libraryId: string, walrusBlobId: string): Promise<string | null> => {
+      const decrypted = await decrypt(libraryId, walrusBlobId, 'seal_approve_library');
+      return decrypted ? new TextDecoder().decode(decrypted) : null;
+    },
+
+    // Transactions
+    execute,
+    call,
+    findSigningCapability,
+    createDocument,
+    signDocument,
+  };
+}
+
+export type WalSignClient = ReturnType<typeof createWalSignClient>;
@@ -0,0 +1,33 @@
+import { SuiClient } from "@mysten/sui/client";
+import { WalSignSigner } from "./signer";
+
+export interface WalrusConfig {
+  publisherUrl: string;
+  aggregatorUrl: string;
+}
+
+export interface SealConfig {
+  keyServers: string[]; // Key server object IDs, each weighted equally
+  threshold: number; // Key servers needed to decrypt
+  verifyKeyServers?: boolean;
+}
+
+// Testnet key servers used when no Seal config is given
+export const TESTNET_SEAL_CONFIG: SealConfig = {
+  keyServers: [
+    "0x73d05d62c18d9374e3ea529e8e0ed6161da1a141a94d3f76ae3fe4e99356db75",
+    "0xf5d14a81a982144ae441cd7d64b09027f116a468bd36e7eca494f750591623c8",
+  ],
+  threshold: 2,
+  verifyKeyServers: true,
+};
+
+export interface WalSignConfig {
+  suiClient: SuiClient;
+  packageId: string; // Published wal_sign package
+  registryId: string; // Shared DocumentRegistry object
+  walrus: WalrusConfig;
+  seal?: SealConfig; // Defaults to TESTNET_SEAL_CONFIG
+  indexerUrl?: string; // Optional indexer API, documents are read over RPC without it
+  signer?: WalSignSigner; // Required to send transactions and decrypt
+}
@@ -0,0 +1,2265 @@
+// Generated from the wal_sign module ABI by contract-wal-sign/wal_sign/scripts/codegen.
+// Do not edit by hand: run `npm run codegen` there after publishing changes to wal_sign.move.
+import { bcs } from '@mysten/sui/bcs';
+import { Transaction, TransactionObjectInput } from '@mysten/sui/transactions';
+
+// ======== Structs ========
+
+export const DeadlineExtended = bcs.struct('DeadlineExtended', {
+  document_id: bcs.Address,
+  creator: bcs.Address,
+  previous_expires_at: bcs.option(bcs.u64()),
+  expires_at: bcs.u64(),
+});
+export type DeadlineExtended = typeof DeadlineExtended.$inferType;
+
+export const Decline = bcs.struct('Decline', {
+  signer: bcs.Address,
+  reason: bcs.string(),
+  declined_at: bcs.u64(),
+});
+export type Decline = typeof Decline.$inferType;
+
+export const Delegation = bcs.struct('Delegation', {
+  id: bcs.Address,
+  document_id: bcs.Address,
+  principal: bcs.Address,
+  expires_at: bcs.u64(),
+});
+export type Delegation = typeof Delegation.$inferType;
+
+export const DelegationRecord = bcs.struct('DelegationRecord', {
+  delegation_id: bcs.Address,
+  principal: bcs.Address,
+  delegate: bcs.Address,
+  expires_at: bcs.u64(),
+});
+export type DelegationRecord = typeof DelegationRecord.$inferType;
+
+export const DelegationRevoked = bcs.struct('DelegationRevoked', {
+  document_id: bcs.Address,
+  delegation_id: bcs.Address,
+  principal: bcs.Address,
+  delegate: bcs.Address,
+});
+export type DelegationRevoked = typeof DelegationRevoked.$inferType;
+
+export const Signature = bcs.struct('Signature', {
+  signer: bcs.Address,
+  delegate: bcs.option(bcs.Address),
+  signed_at: bcs.u64(),
+  signed_blob_id: bcs.string(),
+  signed_blob_hash: bcs.vector(bcs.u8()),
+});
+export type Signature = typeof Signature.$inferType;
+
+export const VoidRecord = bcs.struct('VoidRecord', {
+  reason: bcs.string(),
+  voided_at: bcs.u64(),
+  keep_creator_access: bcs.bool(),
+});
+export type VoidRecord = typeof VoidRecord.$inferType;
+
+export const Document = bcs.struct('Document', {
+  id: bcs.Address,
+  creator: bcs.Address,
+  pending_creator: bcs.option(bcs.Address),
+  organization: bcs.option(bcs.Address),
+  template: bcs.option(bcs.Address),
+  slot_signers: bcs.vector(bcs.Address),
+  walrus_blob_id: bcs.string(),
+  content_hash: bcs.vector(bcs.u8()),
+  fields_blob_id: bcs.string(),
+  title: bcs.string(),
+  description: bcs.string(),
+  authorized_signers: bcs.vector(bcs.Address),
+  roles: bcs.vector(bcs.u8()),
+  revoked_signers: bcs.vector(bcs.Address),
+  sequential: bcs.bool(),
+  threshold: bcs.option(bcs.u64()),
+  signatures: bcs.vector(Signature),
+  created_at: bcs.u64(),
+  expires_at: bcs.option(bcs.u64()),
+  status: bcs.u8(),
+  signed_blob_id: bcs.vector(bcs.string()),
+  signed_blob_hashes: bcs.vector(bcs.vector(bcs.u8())),
+  decline: bcs.option(Decline),
+  voided: bcs.option(VoidRecord),
+  delegations: bcs.vector(DelegationRecord),
+});
+export type Document = typeof Document.$inferType;
+
+export const DocumentBlobUpdated = bcs.struct('DocumentBlobUpdated', {
+  document_id: bcs.Address,
+  creator: bcs.Address,
+  previous_blob_id: bcs.string(),
+  walrus_blob_id: bcs.string(),
+});
+export type DocumentBlobUpdated = typeof DocumentBlobUpdated.$inferType;
+
+export const DocumentCreated = bcs.struct('DocumentCreated', {
+  document_id: bcs.Address,
+  creator: bcs.Address,
+  content_hash: bcs.vector(bcs.u8()),
+  title: bcs.string(),
+  authorized_signers: bcs.vector(bcs.Address),
+  roles: bcs.vector(bcs.u8()),
+  organization: bcs.option(bcs.Address),
+  template: bcs.option(bcs.Address),
+  timestamp: bcs.u64(),
+});
+export type DocumentCreated = typeof DocumentCreated.$inferType;
+
+export const DocumentDeclined = bcs.struct('DocumentDeclined', {
+  document_id: bcs.Address,
+  signer: bcs.Address,
+  reason: bcs.string(),
+  timestamp: bcs.u64(),
+});
+export type DocumentDeclined = typeof DocumentDeclined.$inferType;
+
+export const DocumentExpired = bcs.struct('DocumentExpired', {
+  document_id: bcs.Address,
+  timestamp: bcs.u64(),
+});
+export type DocumentExpired = typeof DocumentExpired.$inferType;
+
+export const DocumentRegistry = bcs.struct('DocumentRegistry', {
+  id: bcs.Address,
+  created_by_user: bcs.struct('Table', { id: bcs.Address, size: bcs.u64() }),
+  assigned_to_user: bcs.struct('Table', { id: bcs.Address, size: bcs.u64() }),
+  pending_transfers: bcs.struct('Table', { id: bcs.Address, size: bcs.u64() }),
+  documents_by_org: bcs.struct('Table', { id: bcs.Address, size: bcs.u64() }),
+  orgs_by_member: bcs.struct('Table', { id: bcs.Address, size: bcs.u64() }),
+  templates_by_user: bcs.struct('Table', { id: bcs.Address, size: bcs.u64() }),
+  libraries: bcs.struct('Table', { id: bcs.Address, size: bcs.u64() }),
+  total_documents: bcs.u64(),
+});
+export type DocumentRegistry = typeof DocumentRegistry.$inferType;
+
+export const DocumentSigned = bcs.struct('DocumentSigned', {
+  document_id: bcs.Address,
+  signer: bcs.Address,
+  delegate: bcs.option(bcs.Address),
+  signed_blob_id: bcs.string(),
+  timestamp: bcs.u64(),
+  total_signatures: bcs.u64(),
+});
+export type DocumentSigned = typeof DocumentSigned.$inferType;
+
+export const DocumentVoided = bcs.struct('DocumentVoided', {
+  document_id: bcs.Address,
+  creator: bcs.Address,
+  reason: bcs.string(),
+  timestamp: bcs.u64(),
+});
+export type DocumentVoided = typeof DocumentVoided.$inferType;
+
+export const FieldsBlobUpdated = bcs.struct('FieldsBlobUpdated', {
+  document_id: bcs.Address,
+  creator: bcs.Address,
+  fields_blob_id: bcs.string(),
+});
+export type FieldsBlobUpdated = typeof FieldsBlobUpdated.$inferType;
+
+export const LibraryEntry = bcs.struct('LibraryEntry', {
+  kind: bcs.u8(),
+  label: bcs.string(),
+  walrus_blob_id: bcs.string(),
+  added_at: bcs.u64(),
+});
+export type LibraryEntry = typeof LibraryEntry.$inferType;
+
+export const OrgMemberAdded = bcs.struct('OrgMemberAdded', {
+  organization_id: bcs.Address,
+  member: bcs.Address,
+  is_admin: bcs.bool(),
+});
+export type OrgMemberAdded = typeof OrgMemberAdded.$inferType;
+
+export const OrgMemberRemoved = bcs.struct('OrgMemberRemoved', {
+  organization_id: bcs.Address,
+  member: bcs.Address,
+});
+export type OrgMemberRemoved = typeof OrgMemberRemoved.$inferType;
+
+export const Organization = bcs.struct('Organization', {
+  id: bcs.Address,
+  name: bcs.string(),
+  admins: bcs.vector(bcs.Address),
+  members: bcs.vector(bcs.Address),
+});
+export type Organization = typeof Organization.$inferType;
+
+export const OrganizationCreated = bcs.struct('OrganizationCreated', {
+  organization_id: bcs.Address,
+  name: bcs.string(),
+  creator: bcs.Address,
+});
+export type OrganizationCreated = typeof OrganizationCreated.$inferType;
+
+export const OwnershipTransferCancelled = bcs.struct('OwnershipTransferCancelled', {
+  document_id: bcs.Address,
+  creator: bcs.Address,
+  new_creator: bcs.Address,
+});
+export type OwnershipTransferCancelled = typeof OwnershipTransferCancelled.$inferType;
+
+export const OwnershipTransferProposed = bcs.struct('OwnershipTransferProposed', {
+  document_id: bcs.Address,
+  creator: bcs.Address,
+  new_creator: bcs.Address,
+});
+export type OwnershipTransferProposed = typeof OwnershipTransferProposed.$inferType;
+
+export const OwnershipTransferred = bcs.struct('OwnershipTransferred', {
+  document_id: bcs.Address,
+  previous_creator: bcs.Address,
+  new_creator: bcs.Address,
+});
+export type OwnershipTransferred = typeof OwnershipTransferred.$inferType;
+
+export const SignatureLibrary = bcs.struct('SignatureLibrary', {
+  id: bcs.Address,
+  owner: bcs.Address,
+  entries: bcs.vector(LibraryEntry),
+});
+export type SignatureLibrary = typeof SignatureLibrary.$inferType;
+
+export const SignerAdded = bcs.struct('SignerAdded', {
+  document_id: bcs.Address,
+  creator: bcs.Address,
+  signer: bcs.Address,
+  role: bcs.u8(),
+});
+export type SignerAdded = typeof SignerAdded.$inferType;
+
+export const SignerCap = bcs.struct('SignerCap', {
+  id: bcs.Address,
+  document_id: bcs.Address,
+});
+export type SignerCap = typeof SignerCap.$inferType;
+
+export const SignerRevoked = bcs.struct('SignerRevoked', {
+  document_id: bcs.Address,
+  creator: bcs.Address,
+  signer: bcs.Address,
+});
+export type SignerRevoked = typeof SignerRevoked.$inferType;
+
+export const SigningDelegated = bcs.struct('SigningDelegated', {
+  document_id: bcs.Address,
+  delegation_id: bcs.Address,
+  principal: bcs.Address,
+  delegate: bcs.Address,
+  expires_at: bcs.u64(),
+});
+export type SigningDelegated = typeof SigningDelegated.$inferType;
+
+export const TemplateField = bcs.struct('TemplateField', {
+  slot: bcs.u64(),
+  page: bcs.u64(),
+  x: bcs.u64(),
+  y: bcs.u64(),
+  width: bcs.u64(),
+  height: bcs.u64(),
+});
+export type TemplateField = typeof TemplateField.$inferType;
+
+export const Template = bcs.struct('Template', {
+  id: bcs.Address,
+  creator: bcs.Address,
+  name: bcs.string(),
+  walrus_blob_id: bcs.string(),
+  content_hash: bcs.vector(bcs.u8()),
+  slots: bcs.vector(bcs.string()),
+  slot_roles: bcs.vector(bcs.u8()),
+  fields: bcs.vector(TemplateField),
+  sequential: bcs.bool(),
+  threshold: bcs.option(bcs.u64()),
+  created_at: bcs.u64(),
+});
+export type Template = typeof Template.$inferType;
+
+export const TemplateCreated = bcs.struct('TemplateCreated', {
+  template_id: bcs.Address,
+  creator: bcs.Address,
+  name: bcs.string(),
+  slots: bcs.vector(bcs.string()),
+});
+export type TemplateCreated = typeof TemplateCreated.$inferType;
+
+// ======== Move calls ========
+
+/** Call wal_sign::accept_ownership */
+export function acceptOwnership(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    documentRegistry: TransactionObjectInput;
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::accept_ownership`,
+    arguments: [
+      tx.object(args.documentRegistry),
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::add_library_entry */
+export function addLibraryEntry(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    library: TransactionObjectInput;
+    kind: number;
+    label: string;
+    walrusBlobId: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::add_library_entry`,
+    arguments: [
+      tx.object(args.library),
+      tx.pure(bcs.u8().serialize(args.kind)),
+      tx.pure(bcs.string().serialize(args.label)),
+      tx.pure(bcs.string().serialize(args.walrusBlobId)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::add_org_member */
+export function addOrgMember(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    organization: TransactionObjectInput;
+    member: string;
+    isAdmin: boolean;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::add_org_member`,
+    arguments: [
+      tx.object(args.registry),
+      tx.object(args.organization),
+      tx.pure(bcs.Address.serialize(args.member)),
+      tx.pure(bcs.bool().serialize(args.isAdmin)),
+    ],
+  });
+}
+
+/** Call wal_sign::assigned_documents_count */
+export function assignedDocumentsCount(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    user: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::assigned_documents_count`,
+    arguments: [
+      tx.object(args.registry),
+      tx.pure(bcs.Address.serialize(args.user)),
+    ],
+  });
+}
+
+/** Call wal_sign::burn_delegation */
+export function burnDelegation(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    delegation: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::burn_delegation`,
+    arguments: [
+      tx.object(args.delegation),
+    ],
+  });
+}
+
+/** Call wal_sign::burn_signer_cap */
+export function burnSignerCap(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    cap: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::burn_signer_cap`,
+    arguments: [
+      tx.object(args.cap),
+    ],
+  });
+}
+
+/** Call wal_sign::cancel_ownership_transfer */
+export function cancelOwnershipTransfer(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    documentRegistry: TransactionObjectInput;
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::cancel_ownership_transfer`,
+    arguments: [
+      tx.object(args.documentRegistry),
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::create_document */
+export function createDocument(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    walrusBlobId: string;
+    contentHash: Uint8Array | number[];
+    title: string;
+    description: string;
+    authorizedSigners: string[];
+    roles: Uint8Array | number[];
+    sequential: boolean;
+    threshold: number | bigint | string | null;
+    expiresAt: number | bigint | string | null;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::create_document`,
+    arguments: [
+      tx.object(args.registry),
+      tx.pure(bcs.string().serialize(args.walrusBlobId)),
+      tx.pure(bcs.vector(bcs.u8()).serialize(args.contentHash)),
+      tx.pure(bcs.string().serialize(args.title)),
+      tx.pure(bcs.string().serialize(args.description)),
+      tx.pure(bcs.vector(bcs.Address).serialize(args.authorizedSigners)),
+      tx.pure(bcs.vector(bcs.u8()).serialize(args.roles)),
+      tx.pure(bcs.bool().serialize(args.sequential)),
+      tx.pure(bcs.option(bcs.u64()).serialize(args.threshold)),
+      tx.pure(bcs.option(bcs.u64()).serialize(args.expiresAt)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::create_org_document */
+export function createOrgDocument(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    organization: TransactionObjectInput;
+    walrusBlobId: string;
+    contentHash: Uint8Array | number[];
+    title: string;
+    description: string;
+    authorizedSigners: string[];
+    roles: Uint8Array | number[];
+    sequential: boolean;
+    threshold: number | bigint | string | null;
+    expiresAt: number | bigint | string | null;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::create_org_document`,
+    arguments: [
+      tx.object(args.registry),
+      tx.object(args.organization),
+      tx.pure(bcs.string().serialize(args.walrusBlobId)),
+      tx.pure(bcs.vector(bcs.u8()).serialize(args.contentHash)),
+      tx.pure(bcs.string().serialize(args.title)),
+      tx.pure(bcs.string().serialize(args.description)),
+      tx.pure(bcs.vector(bcs.Address).serialize(args.authorizedSigners)),
+      tx.pure(bcs.vector(bcs.u8()).serialize(args.roles)),
+      tx.pure(bcs.bool().serialize(args.sequential)),
+      tx.pure(bcs.option(bcs.u64()).serialize(args.threshold)),
+      tx.pure(bcs.option(bcs.u64()).serialize(args.expiresAt)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::create_organization */
+export function createOrganization(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    name: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::create_organization`,
+    arguments: [
+      tx.object(args.registry),
+      tx.pure(bcs.string().serialize(args.name)),
+    ],
+  });
+}
+
+/** Call wal_sign::create_signature_library */
+export function createSignatureLibrary(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::create_signature_library`,
+    arguments: [
+      tx.object(args.registry),
+    ],
+  });
+}
+
+/** Call wal_sign::create_template */
+export function createTemplate(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    name: string;
+    walrusBlobId: string;
+    contentHash: Uint8Array | number[];
+    slots: string[];
+    slotRoles: Uint8Array | number[];
+    fieldSlots: (number | bigint | string)[];
+    fieldPages: (number | bigint | string)[];
+    fieldXs: (number | bigint | string)[];
+    fieldYs: (number | bigint | string)[];
+    fieldWidths: (number | bigint | string)[];
+    fieldHeights: (number | bigint | string)[];
+    sequential: boolean;
+    threshold: number | bigint | string | null;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::create_template`,
+    arguments: [
+      tx.object(args.registry),
+      tx.pure(bcs.string().serialize(args.name)),
+      tx.pure(bcs.string().serialize(args.walrusBlobId)),
+      tx.pure(bcs.vector(bcs.u8()).serialize(args.contentHash)),
+      tx.pure(bcs.vector(bcs.string()).serialize(args.slots)),
+      tx.pure(bcs.vector(bcs.u8()).serialize(args.slotRoles)),
+      tx.pure(bcs.vector(bcs.u64()).serialize(args.fieldSlots)),
+      tx.pure(bcs.vector(bcs.u64()).serialize(args.fieldPages)),
+      tx.pure(bcs.vector(bcs.u64()).serialize(args.fieldXs)),
+      tx.pure(bcs.vector(bcs.u64()).serialize(args.fieldYs)),
+      tx.pure(bcs.vector(bcs.u64()).serialize(args.fieldWidths)),
+      tx.pure(bcs.vector(bcs.u64()).serialize(args.fieldHeights)),
+      tx.pure(bcs.bool().serialize(args.sequential)),
+      tx.pure(bcs.option(bcs.u64()).serialize(args.threshold)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::created_documents_count */
+export function createdDocumentsCount(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    user: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::created_documents_count`,
+    arguments: [
+      tx.object(args.registry),
+      tx.pure(bcs.Address.serialize(args.user)),
+    ],
+  });
+}
+
+/** Call wal_sign::decline_document */
+export function declineDocument(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    cap: TransactionObjectInput;
+    reason: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::decline_document`,
+    arguments: [
+      tx.object(args.document),
+      tx.object(args.cap),
+      tx.pure(bcs.string().serialize(args.reason)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::decline_reason */
+export function declineReason(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    decline: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::decline_reason`,
+    arguments: [
+      tx.object(args.decline),
+    ],
+  });
+}
+
+/** Call wal_sign::decline_signer */
+export function declineSigner(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    decline: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::decline_signer`,
+    arguments: [
+      tx.object(args.decline),
+    ],
+  });
+}
+
+/** Call wal_sign::delegate_signing */
+export function delegateSigning(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    cap: TransactionObjectInput;
+    delegate: string;
+    expiresAt: number | bigint | string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::delegate_signing`,
+    arguments: [
+      tx.object(args.document),
+      tx.object(args.cap),
+      tx.pure(bcs.Address.serialize(args.delegate)),
+      tx.pure(bcs.u64().serialize(args.expiresAt)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::delegation_expires_at */
+export function delegationExpiresAt(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    delegation: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::delegation_expires_at`,
+    arguments: [
+      tx.object(args.delegation),
+    ],
+  });
+}
+
+/** Call wal_sign::delegation_principal */
+export function delegationPrincipal(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    delegation: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::delegation_principal`,
+    arguments: [
+      tx.object(args.delegation),
+    ],
+  });
+}
+
+/** Call wal_sign::delete_signature_library */
+export function deleteSignatureLibrary(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    library: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::delete_signature_library`,
+    arguments: [
+      tx.object(args.registry),
+      tx.object(args.library),
+    ],
+  });
+}
+
+/** Call wal_sign::delete_template */
+export function deleteTemplate(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    template: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::delete_template`,
+    arguments: [
+      tx.object(args.registry),
+      tx.object(args.template),
+    ],
+  });
+}
+
+/** Call wal_sign::entry_blob_id */
+export function entryBlobId(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    entry: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::entry_blob_id`,
+    arguments: [
+      tx.object(args.entry),
+    ],
+  });
+}
+
+/** Call wal_sign::entry_initials */
+export function entryInitials(
+  tx: Transaction,
+  packageId: string
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::entry_initials`,
+    arguments: [],
+  });
+}
+
+/** Call wal_sign::entry_kind */
+export function entryKind(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    entry: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::entry_kind`,
+    arguments: [
+      tx.object(args.entry),
+    ],
+  });
+}
+
+/** Call wal_sign::entry_label */
+export function entryLabel(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    entry: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::entry_label`,
+    arguments: [
+      tx.object(args.entry),
+    ],
+  });
+}
+
+/** Call wal_sign::entry_signature */
+export function entrySignature(
+  tx: Transaction,
+  packageId: string
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::entry_signature`,
+    arguments: [],
+  });
+}
+
+/** Call wal_sign::expire_document */
+export function expireDocument(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::expire_document`,
+    arguments: [
+      tx.object(args.document),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::extend_deadline */
+export function extendDeadline(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    newExpiresAt: number | bigint | string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::extend_deadline`,
+    arguments: [
+      tx.object(args.document),
+      tx.pure(bcs.u64().serialize(args.newExpiresAt)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::field_location */
+export function fieldLocation(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    field: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::field_location`,
+    arguments: [
+      tx.object(args.field),
+    ],
+  });
+}
+
+/** Call wal_sign::field_rect */
+export function fieldRect(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    field: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::field_rect`,
+    arguments: [
+      tx.object(args.field),
+    ],
+  });
+}
+
+/** Call wal_sign::get_assigned_documents */
+export function getAssignedDocuments(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    user: string;
+    cursor: string | null;
+    limit: number | bigint | string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_assigned_documents`,
+    arguments: [
+      tx.object(args.registry),
+      tx.pure(bcs.Address.serialize(args.user)),
+      tx.pure(bcs.option(bcs.Address).serialize(args.cursor)),
+      tx.pure(bcs.u64().serialize(args.limit)),
+    ],
+  });
+}
+
+/** Call wal_sign::get_authorized_signers */
+export function getAuthorizedSigners(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_authorized_signers`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_content_hash */
+export function getContentHash(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_content_hash`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_created_documents */
+export function getCreatedDocuments(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    user: string;
+    cursor: string | null;
+    limit: number | bigint | string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_created_documents`,
+    arguments: [
+      tx.object(args.registry),
+      tx.pure(bcs.Address.serialize(args.user)),
+      tx.pure(bcs.option(bcs.Address).serialize(args.cursor)),
+      tx.pure(bcs.u64().serialize(args.limit)),
+    ],
+  });
+}
+
+/** Call wal_sign::get_creator */
+export function getCreator(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_creator`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_decline */
+export function getDecline(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_decline`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_delegations */
+export function getDelegations(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_delegations`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_expires_at */
+export function getExpiresAt(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_expires_at`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_fields_blob_id */
+export function getFieldsBlobId(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_fields_blob_id`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_incoming_transfers */
+export function getIncomingTransfers(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    user: string;
+    cursor: string | null;
+    limit: number | bigint | string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_incoming_transfers`,
+    arguments: [
+      tx.object(args.registry),
+      tx.pure(bcs.Address.serialize(args.user)),
+      tx.pure(bcs.option(bcs.Address).serialize(args.cursor)),
+      tx.pure(bcs.u64().serialize(args.limit)),
+    ],
+  });
+}
+
+/** Call wal_sign::get_next_signer */
+export function getNextSigner(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_next_signer`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_org_admins */
+export function getOrgAdmins(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    organization: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_org_admins`,
+    arguments: [
+      tx.object(args.organization),
+    ],
+  });
+}
+
+/** Call wal_sign::get_org_documents */
+export function getOrgDocuments(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    organizationId: string;
+    cursor: string | null;
+    limit: number | bigint | string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_org_documents`,
+    arguments: [
+      tx.object(args.registry),
+      tx.pure(bcs.Address.serialize(args.organizationId)),
+      tx.pure(bcs.option(bcs.Address).serialize(args.cursor)),
+      tx.pure(bcs.u64().serialize(args.limit)),
+    ],
+  });
+}
+
+/** Call wal_sign::get_org_members */
+export function getOrgMembers(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    organization: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_org_members`,
+    arguments: [
+      tx.object(args.organization),
+    ],
+  });
+}
+
+/** Call wal_sign::get_org_name */
+export function getOrgName(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    organization: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_org_name`,
+    arguments: [
+      tx.object(args.organization),
+    ],
+  });
+}
+
+/** Call wal_sign::get_organization */
+export function getOrganization(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_organization`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_pending_creator */
+export function getPendingCreator(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_pending_creator`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_required_signatures */
+export function getRequiredSignatures(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_required_signatures`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_revoked_signers */
+export function getRevokedSigners(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_revoked_signers`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_role */
+export function getRole(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    addr: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_role`,
+    arguments: [
+      tx.object(args.document),
+      tx.pure(bcs.Address.serialize(args.addr)),
+    ],
+  });
+}
+
+/** Call wal_sign::get_roles */
+export function getRoles(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_roles`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_signature_library */
+export function getSignatureLibrary(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    owner: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_signature_library`,
+    arguments: [
+      tx.object(args.registry),
+      tx.pure(bcs.Address.serialize(args.owner)),
+    ],
+  });
+}
+
+/** Call wal_sign::get_signatures */
+export function getSignatures(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_signatures`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_signed_blob_hashes */
+export function getSignedBlobHashes(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_signed_blob_hashes`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_slot_signers */
+export function getSlotSigners(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_slot_signers`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_status */
+export function getStatus(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_status`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_template */
+export function getTemplate(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_template`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_threshold */
+export function getThreshold(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_threshold`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_title */
+export function getTitle(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_title`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_total_documents */
+export function getTotalDocuments(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_total_documents`,
+    arguments: [
+      tx.object(args.registry),
+    ],
+  });
+}
+
+/** Call wal_sign::get_user_organizations */
+export function getUserOrganizations(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    user: string;
+    cursor: string | null;
+    limit: number | bigint | string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_user_organizations`,
+    arguments: [
+      tx.object(args.registry),
+      tx.pure(bcs.Address.serialize(args.user)),
+      tx.pure(bcs.option(bcs.Address).serialize(args.cursor)),
+      tx.pure(bcs.u64().serialize(args.limit)),
+    ],
+  });
+}
+
+/** Call wal_sign::get_user_templates */
+export function getUserTemplates(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    user: string;
+    cursor: string | null;
+    limit: number | bigint | string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_user_templates`,
+    arguments: [
+      tx.object(args.registry),
+      tx.pure(bcs.Address.serialize(args.user)),
+      tx.pure(bcs.option(bcs.Address).serialize(args.cursor)),
+      tx.pure(bcs.u64().serialize(args.limit)),
+    ],
+  });
+}
+
+/** Call wal_sign::get_void_record */
+export function getVoidRecord(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_void_record`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::get_walrus_blob_id */
+export function getWalrusBlobId(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::get_walrus_blob_id`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::has_signed */
+export function hasSigned(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    signer: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::has_signed`,
+    arguments: [
+      tx.object(args.document),
+      tx.pure(bcs.Address.serialize(args.signer)),
+    ],
+  });
+}
+
+/** Call wal_sign::instantiate_template */
+export function instantiateTemplate(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    template: TransactionObjectInput;
+    walrusBlobId: string;
+    title: string;
+    description: string;
+    signers: string[];
+    expiresAt: number | bigint | string | null;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::instantiate_template`,
+    arguments: [
+      tx.object(args.registry),
+      tx.object(args.template),
+      tx.pure(bcs.string().serialize(args.walrusBlobId)),
+      tx.pure(bcs.string().serialize(args.title)),
+      tx.pure(bcs.string().serialize(args.description)),
+      tx.pure(bcs.vector(bcs.Address).serialize(args.signers)),
+      tx.pure(bcs.option(bcs.u64()).serialize(args.expiresAt)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::is_authorized */
+export function isAuthorized(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    addr: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::is_authorized`,
+    arguments: [
+      tx.object(args.document),
+      tx.pure(bcs.Address.serialize(args.addr)),
+    ],
+  });
+}
+
+/** Call wal_sign::is_declined */
+export function isDeclined(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::is_declined`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::is_delegate */
+export function isDelegate(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    addr: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::is_delegate`,
+    arguments: [
+      tx.object(args.document),
+      tx.pure(bcs.Address.serialize(args.addr)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::is_expired */
+export function isExpired(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::is_expired`,
+    arguments: [
+      tx.object(args.document),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::is_org_admin */
+export function isOrgAdmin(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    organization: TransactionObjectInput;
+    addr: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::is_org_admin`,
+    arguments: [
+      tx.object(args.organization),
+      tx.pure(bcs.Address.serialize(args.addr)),
+    ],
+  });
+}
+
+/** Call wal_sign::is_org_member */
+export function isOrgMember(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    organization: TransactionObjectInput;
+    addr: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::is_org_member`,
+    arguments: [
+      tx.object(args.organization),
+      tx.pure(bcs.Address.serialize(args.addr)),
+    ],
+  });
+}
+
+/** Call wal_sign::is_revoked */
+export function isRevoked(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    addr: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::is_revoked`,
+    arguments: [
+      tx.object(args.document),
+      tx.pure(bcs.Address.serialize(args.addr)),
+    ],
+  });
+}
+
+/** Call wal_sign::is_sequential */
+export function isSequential(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::is_sequential`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::is_voided */
+export function isVoided(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::is_voided`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::issue_signer_capability */
+export function issueSignerCapability(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    documentRegistry: TransactionObjectInput;
+    document: TransactionObjectInput;
+    recipient: string;
+    role: number;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::issue_signer_capability`,
+    arguments: [
+      tx.object(args.documentRegistry),
+      tx.object(args.document),
+      tx.pure(bcs.Address.serialize(args.recipient)),
+      tx.pure(bcs.u8().serialize(args.role)),
+    ],
+  });
+}
+
+/** Call wal_sign::library_entries */
+export function libraryEntries(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    library: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::library_entries`,
+    arguments: [
+      tx.object(args.library),
+    ],
+  });
+}
+
+/** Call wal_sign::library_owner */
+export function libraryOwner(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    library: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::library_owner`,
+    arguments: [
+      tx.object(args.library),
+    ],
+  });
+}
+
+/** Call wal_sign::matches_hash */
+export function matchesHash(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    hash: Uint8Array | number[];
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::matches_hash`,
+    arguments: [
+      tx.object(args.document),
+      tx.pure(bcs.vector(bcs.u8()).serialize(args.hash)),
+    ],
+  });
+}
+
+/** Call wal_sign::org_issue_signer_capability */
+export function orgIssueSignerCapability(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    documentRegistry: TransactionObjectInput;
+    organization: TransactionObjectInput;
+    document: TransactionObjectInput;
+    recipient: string;
+    role: number;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::org_issue_signer_capability`,
+    arguments: [
+      tx.object(args.documentRegistry),
+      tx.object(args.organization),
+      tx.object(args.document),
+      tx.pure(bcs.Address.serialize(args.recipient)),
+      tx.pure(bcs.u8().serialize(args.role)),
+    ],
+  });
+}
+
+/** Call wal_sign::org_revoke_signer */
+export function orgRevokeSigner(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    documentRegistry: TransactionObjectInput;
+    organization: TransactionObjectInput;
+    document: TransactionObjectInput;
+    signerToRevoke: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::org_revoke_signer`,
+    arguments: [
+      tx.object(args.documentRegistry),
+      tx.object(args.organization),
+      tx.object(args.document),
+      tx.pure(bcs.Address.serialize(args.signerToRevoke)),
+    ],
+  });
+}
+
+/** Call wal_sign::org_void_document */
+export function orgVoidDocument(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    organization: TransactionObjectInput;
+    document: TransactionObjectInput;
+    reason: string;
+    keepCreatorAccess: boolean;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::org_void_document`,
+    arguments: [
+      tx.object(args.organization),
+      tx.object(args.document),
+      tx.pure(bcs.string().serialize(args.reason)),
+      tx.pure(bcs.bool().serialize(args.keepCreatorAccess)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::propose_ownership_transfer */
+export function proposeOwnershipTransfer(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    documentRegistry: TransactionObjectInput;
+    document: TransactionObjectInput;
+    newCreator: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::propose_ownership_transfer`,
+    arguments: [
+      tx.object(args.documentRegistry),
+      tx.object(args.document),
+      tx.pure(bcs.Address.serialize(args.newCreator)),
+    ],
+  });
+}
+
+/** Call wal_sign::remove_library_entry */
+export function removeLibraryEntry(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    library: TransactionObjectInput;
+    index: number | bigint | string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::remove_library_entry`,
+    arguments: [
+      tx.object(args.library),
+      tx.pure(bcs.u64().serialize(args.index)),
+    ],
+  });
+}
+
+/** Call wal_sign::remove_org_member */
+export function removeOrgMember(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    registry: TransactionObjectInput;
+    organization: TransactionObjectInput;
+    member: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::remove_org_member`,
+    arguments: [
+      tx.object(args.registry),
+      tx.object(args.organization),
+      tx.pure(bcs.Address.serialize(args.member)),
+    ],
+  });
+}
+
+/** Call wal_sign::revoke_delegation */
+export function revokeDelegation(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    delegationId: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::revoke_delegation`,
+    arguments: [
+      tx.object(args.document),
+      tx.pure(bcs.Address.serialize(args.delegationId)),
+    ],
+  });
+}
+
+/** Call wal_sign::revoke_signer */
+export function revokeSigner(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    documentRegistry: TransactionObjectInput;
+    document: TransactionObjectInput;
+    signerToRevoke: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::revoke_signer`,
+    arguments: [
+      tx.object(args.documentRegistry),
+      tx.object(args.document),
+      tx.pure(bcs.Address.serialize(args.signerToRevoke)),
+    ],
+  });
+}
+
+/** Call wal_sign::role_approver */
+export function roleApprover(
+  tx: Transaction,
+  packageId: string
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::role_approver`,
+    arguments: [],
+  });
+}
+
+/** Call wal_sign::role_viewer */
+export function roleViewer(
+  tx: Transaction,
+  packageId: string
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::role_viewer`,
+    arguments: [],
+  });
+}
+
+/** Call wal_sign::role_witness */
+export function roleWitness(
+  tx: Transaction,
+  packageId: string
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::role_witness`,
+    arguments: [],
+  });
+}
+
+/** Call wal_sign::seal_approve */
+export function sealApprove(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    arg0: Uint8Array | number[];
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::seal_approve`,
+    arguments: [
+      tx.pure(bcs.vector(bcs.u8()).serialize(args.arg0)),
+      tx.object(args.document),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::seal_approve_library */
+export function sealApproveLibrary(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    arg0: Uint8Array | number[];
+    library: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::seal_approve_library`,
+    arguments: [
+      tx.pure(bcs.vector(bcs.u8()).serialize(args.arg0)),
+      tx.object(args.library),
+    ],
+  });
+}
+
+/** Call wal_sign::seal_approve_template */
+export function sealApproveTemplate(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    arg0: Uint8Array | number[];
+    template: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::seal_approve_template`,
+    arguments: [
+      tx.pure(bcs.vector(bcs.u8()).serialize(args.arg0)),
+      tx.object(args.template),
+    ],
+  });
+}
+
+/** Call wal_sign::sign_as_delegate */
+export function signAsDelegate(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    delegation: TransactionObjectInput;
+    signedBlobId: string;
+    signedBlobHash: Uint8Array | number[];
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::sign_as_delegate`,
+    arguments: [
+      tx.object(args.document),
+      tx.object(args.delegation),
+      tx.pure(bcs.string().serialize(args.signedBlobId)),
+      tx.pure(bcs.vector(bcs.u8()).serialize(args.signedBlobHash)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::sign_document */
+export function signDocument(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    cap: TransactionObjectInput;
+    signedBlobId: string;
+    signedBlobHash: Uint8Array | number[];
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::sign_document`,
+    arguments: [
+      tx.object(args.document),
+      tx.object(args.cap),
+      tx.pure(bcs.string().serialize(args.signedBlobId)),
+      tx.pure(bcs.vector(bcs.u8()).serialize(args.signedBlobHash)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::signature_blob_hash */
+export function signatureBlobHash(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    signature: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::signature_blob_hash`,
+    arguments: [
+      tx.object(args.signature),
+    ],
+  });
+}
+
+/** Call wal_sign::signature_blob_id */
+export function signatureBlobId(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    signature: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::signature_blob_id`,
+    arguments: [
+      tx.object(args.signature),
+    ],
+  });
+}
+
+/** Call wal_sign::signature_delegate */
+export function signatureDelegate(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    signature: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::signature_delegate`,
+    arguments: [
+      tx.object(args.signature),
+    ],
+  });
+}
+
+/** Call wal_sign::signature_signer */
+export function signatureSigner(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    signature: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::signature_signer`,
+    arguments: [
+      tx.object(args.signature),
+    ],
+  });
+}
+
+/** Call wal_sign::signatures_count */
+export function signaturesCount(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::signatures_count`,
+    arguments: [
+      tx.object(args.document),
+    ],
+  });
+}
+
+/** Call wal_sign::template_fields */
+export function templateFields(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    template: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::template_fields`,
+    arguments: [
+      tx.object(args.template),
+    ],
+  });
+}
+
+/** Call wal_sign::template_name */
+export function templateName(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    template: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::template_name`,
+    arguments: [
+      tx.object(args.template),
+    ],
+  });
+}
+
+/** Call wal_sign::template_slot_roles */
+export function templateSlotRoles(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    template: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::template_slot_roles`,
+    arguments: [
+      tx.object(args.template),
+    ],
+  });
+}
+
+/** Call wal_sign::template_slots */
+export function templateSlots(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    template: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::template_slots`,
+    arguments: [
+      tx.object(args.template),
+    ],
+  });
+}
+
+/** Call wal_sign::update_blob_id */
+export function updateBlobId(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    walrusBlobId: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::update_blob_id`,
+    arguments: [
+      tx.object(args.document),
+      tx.pure(bcs.string().serialize(args.walrusBlobId)),
+    ],
+  });
+}
+
+/** Call wal_sign::update_fields_blob_id */
+export function updateFieldsBlobId(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    fieldsBlobId: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::update_fields_blob_id`,
+    arguments: [
+      tx.object(args.document),
+      tx.pure(bcs.string().serialize(args.fieldsBlobId)),
+    ],
+  });
+}
+
+/** Call wal_sign::update_template_blob_id */
+export function updateTemplateBlobId(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    template: TransactionObjectInput;
+    walrusBlobId: string;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::update_template_blob_id`,
+    arguments: [
+      tx.object(args.template),
+      tx.pure(bcs.string().serialize(args.walrusBlobId)),
+    ],
+  });
+}
+
+/** Call wal_sign::void_document */
+export function voidDocument(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    document: TransactionObjectInput;
+    reason: string;
+    keepCreatorAccess: boolean;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::void_document`,
+    arguments: [
+      tx.object(args.document),
+      tx.pure(bcs.string().serialize(args.reason)),
+      tx.pure(bcs.bool().serialize(args.keepCreatorAccess)),
+      tx.object('0x6'),
+    ],
+  });
+}
+
+/** Call wal_sign::void_reason */
+export function voidReason(
+  tx: Transaction,
+  packageId: string,
+  args: {
+    record: TransactionObjectInput;
+  }
+) {
+  return tx.moveCall({
+    target: `${packageId}::wal_sign::void_reason`,
+    arguments: [
+      tx.object(args.record),
+    ],
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * Compute the SHA-256 digest of a file or byte array
+ * @param data - PDF file, blob or raw bytes to hash
+ * @returns The 32-byte digest
+ */
+export async function sha256(data: Blob | Uint8Array): Promise<Uint8Array> {
+  const bytes = data instanceof Blob ? new Uint8Array(await data.arrayBuffer()) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return new Uint8Array(digest);
+}
+
+/**
+ * Encode bytes as a lowercase hex string (no 0x prefix)
+ */
+export function toHex(bytes: Uint8Array | number[]): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,21 @@
+export { createWalSignClient } from "./client";
+export type {
+  WalSignClient,
+  MoveCallName,
+  MoveCallArgs,
+  CreateDocumentInput,
+  CreateDocumentStage,
+  SignDocumentStage,
+  SigningCapability,
+} from "./client";
+export { TESTNET_SEAL_CONFIG } from "./config";
+export type { WalSignConfig, WalrusConfig, SealConfig } from "./config";
+export { keypairSigner } from "./signer";
+export type { WalSignSigner } from "./signer";
+
+// Lower-level building blocks, each taking the config explicitly
+export * from "./registry";
+export * from "./seal";
+export * from "./walrus";
+export * from "./hash";
+export * as walSign from "./generated/walSign";
@@ -0,0 +1,948 @@
+import { SuiEvent, SuiObjectResponse } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { bcs } from "@mysten/sui/bcs";
+import { fromBase58, fromBase64, normalizeSuiAddress, normalizeSuiObjectId } from "@mysten/sui/utils";
+import { WalSignConfig } from "./config";
+import { toHex } from "./hash";
+import * as walSign from "./generated/walSign";
+
+// 0 = Pending, 1 = Partial, 2 = Complete, 3 = Expired, 4 = Declined, 5 = Voided
+export type DocumentStatus = 0 | 1 | 2 | 3 | 4 | 5;
+
+// 0 = Approver, 1 = Viewer (CC), 2 = Witness
+export type ParticipantRole = 0 | 1 | 2;
+
+export const ROLE_LABELS: Record<ParticipantRole, string> = {
+  0: 'Approver',
+  1: 'Viewer (CC)',
+  2: 'Witness',
+};
+
+export interface DocumentSignature {
+  signer: string;
+  signedAt: number;
+  signedBlobId: string; // Walrus blob ID of the signed version this signer produced
+  signedBlobHash: string; // SHA-256 of that signed PDF (hex)
+  delegate: string | null; // Set when someone signed on the signer's behalf
+}
+
+export interface DocumentDelegation {
+  delegationId: string;
+  principal: string; // Signer the delegate signs for
+  delegate: string;
+  expiresAt: number;
+}
+
+export interface DocumentDecline {
+  signer: string;
+  reason: string;
+  declinedAt: number;
+}
+
+export interface DocumentVoid {
+  reason: string;
+  voidedAt: number;
+  keepCreatorAccess: boolean; // Creator can still decrypt the document
+}
+
+export interface DocumentSummary {
+  documentId: string;
+  title: string;
+  description: string;
+  creator: string;
+  pendingCreator: string | null; // Address proposed to take over as creator, null if no transfer is pending
+  organization: string | null; // Organization whose admins can administer the document
+  template: string | null; // Template the document was instantiated from
+  slotSigners: string[]; // Address filling each template slot, empty if not created from a template
+  walrusBlobId: string;
+  contentHash: string; // SHA-256 of the original PDF (hex)
+  fieldsBlobId: string | null; // Walrus blob ID of the encrypted field definitions, null if the creator placed none
+  signedBlobIds: string[]; // Vector of signed blob IDs (newest last)
+  signedBlobHashes: string[]; // SHA-256 of each signed PDF (hex), parallel to signedBlobIds
+  authorizedSigners: string[];
+  roles: ParticipantRole[]; // Role of each authorized signer, parallel to authorizedSigners
+  revokedSigners: string[]; // Signers removed by the creator, their SignerCaps no longer work
+  sequential: boolean; // Signers must sign in the order of authorizedSigners
+  threshold: number | null; // Signatures needed to complete (M-of-N), null if every signer must sign
+  signatures: DocumentSignature[];
+  createdAt: number;
+  expiresAt: number | null; // Signing deadline (ms), null if there is none
+  status: DocumentStatus;
+  decline: DocumentDecline | null; // Set when a signer refused to sign
+  voided: DocumentVoid | null; // Set when the creator withdrew the document
+  delegations: DocumentDelegation[]; // Delegations that have not been revoked or used
+}
+
+// Transactions behind a document's on-chain history
+export interface DocumentTransactions {
+  createdTx: string | null; // Digest of the transaction that created the document
+  signatureTxs: Record<string, string>; // Signing transaction digest by signed blob ID
+}
+
+export interface OrganizationSummary {
+  organizationId: string;
+  name: string;
+  admins: string[];
+  members: string[]; // Includes the admins
+}
+
+// Signature field position, in PDF points from the top-left corner of the page
+export interface TemplateField {
+  slot: number; // Index of the slot expected to sign here
+  page: number; // Starts at 1
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DocumentTemplate {
+  templateId: string;
+  creator: string;
+  name: string;
+  walrusBlobId: string;
+  contentHash: string; // SHA-256 of the base PDF (hex)
+  slots: string[]; // Signer slot names, e.g. "Employee"
+  slotRoles: ParticipantRole[]; // Role of each slot, parallel to slots
+  fields: TemplateField[];
+  sequential: boolean;
+  threshold: number | null;
+  createdAt: number;
+}
+
+export type LibraryEntryKind = 'signature' | 'initials';
+
+// Entry kinds as stored on-chain, see ENTRY_SIGNATURE and ENTRY_INITIALS
+export const LIBRARY_ENTRY_KINDS: LibraryEntryKind[] = ['signature', 'initials'];
+
+export const LIBRARY_KIND_LABELS: Record<LibraryEntryKind, string> = {
+  signature: 'Signature',
+  initials: 'Initials',
+};
+
+export interface LibraryEntry {
+  kind: LibraryEntryKind;
+  label: string;
+  walrusBlobId: string; // Encrypted image data URL
+  addedAt: number;
+}
+
+export interface SignatureLibrary {
+  libraryId: string;
+  owner: string;
+  entries: LibraryEntry[];
+}
+
+// Documents per page when listing a user's documents
+export const DOCUMENTS_PAGE_SIZE = 20;
+
+// IDs per page when reading a registry list that is shown whole
+const LIST_PAGE_SIZE = 50;
+
+export interface DocumentPage {
+  documentIds: string[]; // Newest first
+  nextCursor: string | null; // Pass back to load the next page, null after the last one
+  total: number; // Number of documents in the whole list
+}
+
+export interface RegistryPage {
+  ids: string[]; // Newest first
+  nextCursor: string | null; // Pass back to load the next page, null after the last one
+}
+
+/**
+ * Decode the (vector<ID>, Option<ID>) returned by a paginated registry view
+ */
+function parsePage(returnValues: [number[], string][]): RegistryPage {
+  return {
+    ids: bcs.vector(bcs.Address).parse(Uint8Array.from(returnValues[0][0])),
+    nextCursor: bcs.option(bcs.Address).parse(Uint8Array.from(returnValues[1][0])),
+  };
+}
+
+/**
+ * Adds a call to one of the paginated registry views to a transaction
+ */
+type RegistryListView = (tx: Transaction, page: { cursor: string | null; limit: number }) => unknown;
+
+/**
+ * Read one page of a registry list with its paginated view function
+ * Runs in a devInspect transaction, so nothing is signed or paid for
+ */
+async function getRegistryPage(
+  config: WalSignConfig,
+  view: RegistryListView,
+  cursor: string | null,
+  limit: number
+): Promise<RegistryPage> {
+  const tx = new Transaction();
+  view(tx, { cursor, limit });
+
+  const result = await config.suiClient.devInspectTransactionBlock({
+    sender: normalizeSuiAddress('0x0'),
+    transactionBlock: tx,
+  });
+  if (result.error || !result.results) {
+    throw new Error(result.error || 'Failed to read registry list');
+  }
+  return parsePage(result.results[0].returnValues ?? []);
+}
+
+/**
+ * Read every page of a registry list, for lists that are shown whole
+ */
+async function getWholeRegistryList(config: WalSignConfig, view: RegistryListView): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await getRegistryPage(config, view, cursor, LIST_PAGE_SIZE);
+    ids.push(...page.ids);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return ids;
+}
+
+/**
+ * Read one page of a user's document list from the registry
+ * Calls the paginated view function and the matching count function in a
+ * single devInspect transaction, so nothing is signed or paid for
+ */
+async function getUserDocumentsPage(
+  config: WalSignConfig,
+  listName: 'created' | 'assigned',
+  userAddress: string,
+  cursor: string | null,
+  limit: number
+): Promise<DocumentPage> {
+  const tx = new Transaction();
+  const pageArgs = { registry: config.registryId, user: userAddress, cursor, limit };
+  const countArgs = { registry: config.registryId, user: userAddress };
+  if (listName === 'created') {
+    walSign.getCreatedDocuments(tx, config.packageId, pageArgs);
+    walSign.createdDocumentsCount(tx, config.packageId, countArgs);
+  } else {
+    walSign.getAssignedDocuments(tx, config.packageId, pageArgs);
+    walSign.assignedDocumentsCount(tx, config.packageId, countArgs);
+  }
+
+  const result = await config.suiClient.devInspectTransactionBlock({
+    sender: userAddress,
+    transactionBlock: tx,
+  });
+  if (result.error || !result.results) {
+    throw new Error(result.error || `Failed to read ${listName} documents`);
+  }
+
+  const [pageValues, countValues] = result.results.map(r => r.returnValues ?? []);
+  const { ids, nextCursor } = parsePage(pageValues);
+  return {
+    documentIds: ids,
+    nextCursor,
+    total: Number(bcs.u64().parse(Uint8Array.from(countValues[0][0]))),
+  };
+}
+
+/**
+ * Get a page of the documents created by a user, newest first
+ */
+export async function getUserCreatedDocuments(
+  config: WalSignConfig,
+  userAddress: string,
+  cursor: string | null = null,
+  limit: number = DOCUMENTS_PAGE_SIZE
+): Promise<DocumentPage> {
+  return getUserDocumentsPage(config, 'created', userAddress, cursor, limit);
+}
+
+/**
+ * Get a page of the documents assigned to a user (to sign), newest first
+ */
+export async function getUserAssignedDocuments(
+  config: WalSignConfig,
+  userAddress: string,
+  cursor: string | null = null,
+  limit: number = DOCUMENTS_PAGE_SIZE
+): Promise<DocumentPage> {
+  return getUserDocumentsPage(config, 'assigned', userAddress, cursor, limit);
+}
+
+// Narrows a document list, see getUserDocuments
+export interface DocumentListQuery {
+  search?: string; // Words in the title or description
+  statuses?: DocumentStatus[]; // Effective statuses, see getEffectiveStatus
+}
+
+export interface DocumentListPage {
+  documents: DocumentSummary[]; // Newest first
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * Read a page of a user's documents from the indexer API
+ * Its cursors are offsets into the result, unlike the document IDs used
+ * as cursors on-chain
+ */
+async function getIndexedUserDocuments(
+  config: WalSignConfig,
+  listName: 'created' | 'assigned',
+  userAddress: string,
+  offset: string | null,
+  query: DocumentListQuery
+): Promise<DocumentListPage> {
+  const params = new URLSearchParams({
+    [listName === 'created' ? 'creator' : 'participant']: userAddress,
+    limit: String(DOCUMENTS_PAGE_SIZE),
+    offset: offset ?? '0',
+  });
+  if (query.search) params.set('q', query.search);
+  if (query.statuses?.length) params.set('status', query.statuses.join(','));
+
+  const response = await fetch(`${config.indexerUrl}/documents?${params}`);
+  if (!response.ok) {
+    throw new Error(`Indexer request failed: ${response.status}`);
+  }
+
+  const page = await response.json();
+  return {
+    documents: page.documents,
+    nextCursor: page.nextOffset !== null ? String(page.nextOffset) : null,
+    total: page.total,
+  };
+}
+
+/**
+ * Get a page of a user's created or assigned documents with their details
+ * Uses the indexer when config.indexerUrl is set, which also applies the
+ * search and status filters. Without it, or if the first page cannot be
+ * read from it, the page is read from the registry over RPC and the query
+ * is ignored, so callers should filter the documents themselves too.
+ * @param cursor - nextCursor of the previous page, or null for the first page
+ */
+export async function getUserDocuments(
+  config: WalSignConfig,
+  listName: 'created' | 'assigned',
+  userAddress: string,
+  cursor: string | null = null,
+  query: DocumentListQuery = {}
+): Promise<DocumentListPage> {
+  // On-chain cursors are document IDs, indexer cursors are offsets
+  const isRpcCursor = cursor !== null && cursor.startsWith('0x');
+
+  if (config.indexerUrl && !isRpcCursor) {
+    try {
+      return await getIndexedUserDocuments(config, listName, userAddress, cursor, query);
+    } catch (error) {
+      // Later pages must come from the same source as the first
+      if (cursor !== null) throw error;
+      console.warn('Indexer unavailable, reading documents over RPC:', error);
+    }
+  }
+
+  const page = listName === 'created'
+    ? await getUserCreatedDocuments(config, userAddress, isRpcCursor ? cursor : null)
+    : await getUserAssignedDocuments(config, userAddress, isRpcCursor ? cursor : null);
+  return {
+    documents: await getMultipleDocuments(config, [...new Set(page.documentIds)]),
+    nextCursor: page.nextCursor,
+    total: page.total,
+  };
+}
+
+/**
+ * Decode an object's BCS contents with one of the generated wal_sign structs
+ * @returns The decoded struct, or null if the object was not found or is not a Move object
+ */
+function decodeObject<T>(object: SuiObjectResponse, struct: { parse: (bytes: Uint8Array) => T }): T | null {
+  const content = object.data?.bcs;
+  if (!content || content.dataType !== 'moveObject') return null;
+  return struct.parse(fromBase64(content.bcsBytes));
+}
+
+/**
+ * Decode an event's BCS contents with one of the generated wal_sign structs
+ */
+export function parseEvent<T>(event: SuiEvent, struct: { parse: (bytes: Uint8Array) => T }): T {
+  return struct.parse(event.bcsEncoding === 'base64' ? fromBase64(event.bcs) : fromBase58(event.bcs));
+}
+
+/**
+ * Convert a decoded Document into a DocumentSummary
+ */
+export function toDocumentSummary(document: walSign.Document): DocumentSummary {
+  return {
+    documentId: document.id,
+    title: document.title,
+    description: document.description,
+    creator: document.creator,
+    pendingCreator: document.pending_creator,
+    organization: document.organization,
+    template: document.template,
+    slotSigners: document.slot_signers,
+    walrusBlobId: document.walrus_blob_id,
+    contentHash: toHex(document.content_hash),
+    // Empty until the creator places fields
+    fieldsBlobId: document.fields_blob_id || null,
+    signedBlobIds: document.signed_blob_id,
+    signedBlobHashes: document.signed_blob_hashes.map(toHex),
+    authorizedSigners: document.authorized_signers,
+    roles: document.roles as ParticipantRole[],
+    revokedSigners: document.revoked_signers,
+    sequential: document.sequential,
+    threshold: document.threshold === null ? null : Number(document.threshold),
+    signatures: document.signatures.map(sig => ({
+      signer: sig.signer,
+      signedAt: Number(sig.signed_at),
+      signedBlobId: sig.signed_blob_id,
+      signedBlobHash: toHex(sig.signed_blob_hash),
+      delegate: sig.delegate,
+    })),
+    createdAt: Number(document.created_at),
+    expiresAt: document.expires_at === null ? null : Number(document.expires_at),
+    status: document.status as DocumentStatus,
+    decline: document.decline && {
+      signer: document.decline.signer,
+      reason: document.decline.reason,
+      declinedAt: Number(document.decline.declined_at),
+    },
+    voided: document.voided && {
+      reason: document.voided.reason,
+      voidedAt: Number(document.voided.voided_at),
+      keepCreatorAccess: document.voided.keep_creator_access,
+    },
+    delegations: document.delegations.map(record => ({
+      delegationId: record.delegation_id,
+      principal: record.principal,
+      delegate: record.delegate,
+      expiresAt: Number(record.expires_at),
+    })),
+  };
+}
+
+/**
+ * Get full document details
+ */
+export async function getDocumentDetails(
+  config: WalSignConfig,
+  documentId: string
+): Promise<DocumentSummary | null> {
+  try {
+    const docObject = await config.suiClient.getObject({
+      id: documentId,
+      options: {
+        showBcs: true,
+      },
+    });
+
+    const document = decodeObject(docObject, walSign.Document);
+    if (!document) {
+      console.error('Document not found or invalid');
+      return null;
+    }
+
+    return toDocumentSummary(document);
+  } catch (error) {
+    console.error('Error fetching document details:', error);
+    return null;
+  }
+}
+
+/**
+ * Get documents whose creator proposed handing them over to a user
+ * Reads the user's pending_transfers list in the DocumentRegistry and keeps
+ * the documents where that proposal is still pending
+ */
+export async function getIncomingOwnershipTransfers(
+  config: WalSignConfig,
+  userAddress: string
+): Promise<DocumentSummary[]> {
+  const documentIds = await getWholeRegistryList(config, (tx, page) =>
+    walSign.getIncomingTransfers(tx, config.packageId, { registry: config.registryId, user: userAddress, ...page })
+  );
+  const documents = await getMultipleDocuments(config, documentIds);
+  return documents.filter(doc => doc.pendingCreator === userAddress);
+}
+
+/**
+ * Find the creation and signing transactions of a document
+ * Pages through the transactions that changed the document object and
+ * matches their DocumentCreated and DocumentSigned events
+ */
+export async function getDocumentTransactions(
+  config: WalSignConfig,
+  documentId: string
+): Promise<DocumentTransactions> {
+  const result: DocumentTransactions = { createdTx: null, signatureTxs: {} };
+  // Decoded IDs are normalized, so compare against the normalized form
+  const normalizedId = normalizeSuiObjectId(documentId);
+  let cursor: string | null | undefined = null;
+
+  do {
+    const page = await config.suiClient.queryTransactionBlocks({
+      filter: { ChangedObject: documentId },
+      cursor,
+      options: { showEvents: true },
+    });
+
+    for (const tx of page.data) {
+      for (const event of tx.events ?? []) {
+        if (event.type === `${config.packageId}::wal_sign::DocumentCreated`) {
+          const created = parseEvent(event, walSign.DocumentCreated);
+          if (created.document_id === normalizedId) {
+            result.createdTx = tx.digest;
+          }
+        } else if (event.type === `${config.packageId}::wal_sign::DocumentSigned`) {
+          const signed = parseEvent(event, walSign.DocumentSigned);
+          if (signed.document_id === normalizedId) {
+            result.signatureTxs[signed.signed_blob_id] = tx.digest;
+          }
+        }
+      }
+    }
+
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return result;
+}
+
+/**
+ * Read and decode the shared DocumentRegistry
+ * @returns The registry, or null if it could not be read
+ */
+async function getRegistry(config: WalSignConfig): Promise<walSign.DocumentRegistry | null> {
+  const registry = await config.suiClient.getObject({
+    id: config.registryId,
+    options: {
+      showBcs: true,
+    },
+  });
+
+  return decodeObject(registry, walSign.DocumentRegistry);
+}
+
+/**
+ * Get the IDs of all organizations a user belongs to, newest membership first
+ */
+export async function getUserOrganizations(
+  config: WalSignConfig,
+  userAddress: string
+): Promise<string[]> {
+  return getWholeRegistryList(config, (tx, page) =>
+    walSign.getUserOrganizations(tx, config.packageId, { registry: config.registryId, user: userAddress, ...page })
+  );
+}
+
+/**
+ * Get a page of the documents created under an organization, newest first
+ */
+export async function getOrgDocuments(
+  config: WalSignConfig,
+  organizationId: string,
+  cursor: string | null = null,
+  limit: number = DOCUMENTS_PAGE_SIZE
+): Promise<RegistryPage> {
+  return getRegistryPage(
+    config,
+    (tx, page) => walSign.getOrgDocuments(tx, config.packageId, { registry: config.registryId, organizationId, ...page }),
+    cursor,
+    limit
+  );
+}
+
+/**
+ * Get organization details from the blockchain
+ */
+export async function getOrganizationDetails(
+  config: WalSignConfig,
+  organizationId: string
+): Promise<OrganizationSummary | null> {
+  try {
+    const orgObject = await config.suiClient.getObject({
+      id: organizationId,
+      options: {
+        showBcs: true,
+      },
+    });
+
+    const organization = decodeObject(orgObject, walSign.Organization);
+    if (!organization) {
+      console.error('Organization not found or invalid');
+      return null;
+    }
+
+    return {
+      organizationId,
+      name: organization.name,
+      admins: organization.admins,
+      members: organization.members,
+    };
+  } catch (error) {
+    console.error('Error fetching organization details:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the IDs of all templates a user created, newest first
+ */
+export async function getUserTemplates(
+  config: WalSignConfig,
+  userAddress: string
+): Promise<string[]> {
+  return getWholeRegistryList(config, (tx, page) =>
+    walSign.getUserTemplates(tx, config.packageId, { registry: config.registryId, user: userAddress, ...page })
+  );
+}
+
+/**
+ * Get template details from the blockchain
+ */
+export async function getTemplateDetails(
+  config: WalSignConfig,
+  templateId: string
+): Promise<DocumentTemplate | null> {
+  try {
+    const templateObject = await config.suiClient.getObject({
+      id: templateId,
+      options: {
+        showBcs: true,
+      },
+    });
+
+    const template = decodeObject(templateObject, walSign.Template);
+    if (!template) {
+      console.error('Template not found or invalid');
+      return null;
+    }
+
+    return {
+      templateId,
+      creator: template.creator,
+      name: template.name,
+      walrusBlobId: template.walrus_blob_id,
+      contentHash: toHex(template.content_hash),
+      slots: template.slots,
+      slotRoles: template.slot_roles as ParticipantRole[],
+      fields: template.fields.map(field => ({
+        slot: Number(field.slot),
+        page: Number(field.page),
+        x: Number(field.x),
+        y: Number(field.y),
+        width: Number(field.width),
+        height: Number(field.height),
+      })),
+      sequential: template.sequential,
+      threshold: template.threshold === null ? null : Number(template.threshold),
+      createdAt: Number(template.created_at),
+    };
+  } catch (error) {
+    console.error('Error fetching template details:', error);
+    return null;
+  }
+}
+
+/**
+ * Find the signature library owned by an address
+ * Each address has at most one library, recorded in the registry's
+ * libraries table
+ * @returns The library, or null if the owner has not created one yet
+ */
+export async function getSignatureLibrary(
+  config: WalSignConfig,
+  ownerAddress: string
+): Promise<SignatureLibrary | null> {
+  const tx = new Transaction();
+  walSign.getSignatureLibrary(tx, config.packageId, { registry: config.registryId, owner: ownerAddress });
+  const result = await config.suiClient.devInspectTransactionBlock({
+    sender: ownerAddress,
+    transactionBlock: tx,
+  });
+  if (result.error || !result.results) {
+    throw new Error(result.error || 'Failed to look up signature library');
+  }
+
+  const [libraryIdBytes] = result.results[0].returnValues ?? [];
+  const libraryId = libraryIdBytes && bcs.option(bcs.Address).parse(Uint8Array.from(libraryIdBytes[0]));
+  if (!libraryId) {
+    return null;
+  }
+
+  const libraryObject = await config.suiClient.getObject({
+    id: libraryId,
+    options: {
+      showBcs: true,
+    },
+  });
+
+  const library = decodeObject(libraryObject, walSign.SignatureLibrary);
+  if (!library) {
+    return null;
+  }
+
+  return {
+    libraryId: library.id,
+    owner: library.owner,
+    entries: library.entries.map(entry => ({
+      kind: LIBRARY_ENTRY_KINDS[entry.kind] ?? 'signature',
+      label: entry.label,
+      walrusBlobId: entry.walrus_blob_id,
+      addedAt: Number(entry.added_at),
+    })),
+  };
+}
+
+/**
+ * Check whether an address may administer a document, either as its
+ * creator or as an admin of the organization it belongs to
+ */
+export function canAdministerDocument(
+  document: DocumentSummary,
+  address: string,
+  organizations: OrganizationSummary[]
+): boolean {
+  if (document.creator === address) {
+    return true;
+  }
+  return organizations.some(
+    org => org.organizationId === document.organization && org.admins.includes(address)
+  );
+}
+
+/**
+ * Get multiple document details at once
+ */
+export async function getMultipleDocuments(
+  config: WalSignConfig,
+  documentIds: string[]
+): Promise<DocumentSummary[]> {
+  const documents = await Promise.all(
+    documentIds.map(id => getDocumentDetails(config, id))
+  );
+
+  return documents.filter((doc): doc is DocumentSummary => doc !== null);
+}
+
+/**
+ * Find the SignerCap a user holds for a document
+ * Pages through the user's owned objects and returns the ID of the first
+ * SignerCap whose document_id matches, or null if none is found
+ */
+export async function getSignerCapId(
+  config: WalSignConfig,
+  ownerAddress: string,
+  documentId: string
+): Promise<string | null> {
+  return findOwnedObjectId(config, ownerAddress, 'SignerCap', documentId);
+}
+
+/**
+ * Find the Delegation the owner holds for a document
+ * @returns The Delegation object ID, or null if the owner holds none
+ */
+export async function getDelegationId(
+  config: WalSignConfig,
+  ownerAddress: string,
+  documentId: string
+): Promise<string | null> {
+  return findOwnedObjectId(config, ownerAddress, 'Delegation', documentId);
+}
+
+/**
+ * Page through the owner's objects looking for a wal_sign object of the
+ * given struct type that belongs to a document
+ */
+async function findOwnedObjectId(
+  config: WalSignConfig,
+  ownerAddress: string,
+  structName: 'SignerCap' | 'Delegation',
+  documentId: string
+): Promise<string | null> {
+  let cursor: string | null | undefined = null;
+
+  do {
+    const ownedObjects = await config.suiClient.getOwnedObjects({
+      owner: ownerAddress,
+      cursor,
+      limit: 50, // Max 50 objects per page
+      options: {
+        showBcs: true,
+        showType: true,
+      },
+    });
+
+    for (const obj of ownedObjects.data) {
+      const objectType = obj.data?.type;
+      if (!objectType?.includes(`${config.packageId}::wal_sign::${structName}`)) continue;
+
+      const owned = decodeObject(obj, walSign[structName]);
+      if (owned && normalizeSuiObjectId(owned.document_id) === normalizeSuiObjectId(documentId)) {
+        return owned.id;
+      }
+    }
+
+    cursor = ownedObjects.nextCursor;
+  } while (cursor);
+
+  return null;
+}
+
+/**
+ * Get the latest blob ID for a document
+ * Returns the last element from signed_blob_id vector if it exists,
+ * otherwise returns the original walrus_blob_id
+ */
+export function getLatestBlobId(document: DocumentSummary): string {
+  if (document.signedBlobIds && document.signedBlobIds.length > 0) {
+    return document.signedBlobIds[document.signedBlobIds.length - 1];
+  }
+  return document.walrusBlobId;
+}
+
+/**
+ * Get the role of a participant
+ * Mirrors `get_role` in the Move module
+ * @returns The role, or null if the address is not an authorized signer
+ */
+export function getRole(document: DocumentSummary, address: string): ParticipantRole | null {
+  const index = document.authorizedSigners.indexOf(address);
+  return index === -1 ? null : document.roles[index] ?? 0;
+}
+
+/**
+ * Get the authorized signers whose signatures complete the document
+ */
+export function getApprovers(document: DocumentSummary): string[] {
+  return document.authorizedSigners.filter(signer => getRole(document, signer) === 0);
+}
+
+/**
+ * Get the signer whose turn it is on a sequential document
+ * Mirrors `get_next_signer` in the Move module: returns the first approver
+ * that has not signed yet, or null if the document is not sequential
+ * or every approver has signed
+ */
+export function getNextSigner(document: DocumentSummary): string | null {
+  if (!document.sequential) {
+    return null;
+  }
+  const next = getApprovers(document).find(
+    signer => !document.signatures.some(sig => sig.signer === signer)
+  );
+  return next ?? null;
+}
+
+/**
+ * Get how many signatures complete a document
+ * Mirrors `get_required_signatures` in the Move module: the threshold, capped
+ * at the number of approvers, or every approver if there is no threshold
+ */
+export function getRequiredSignatures(document: DocumentSummary): number {
+  const total = getApprovers(document).length;
+  return document.threshold === null ? total : Math.min(document.threshold, total);
+}
+
+/**
+ * Count the signatures that count towards completion
+ * Signatures from revoked signers and witnesses stay on the document but are
+ * not counted
+ */
+export function getSignedCount(document: DocumentSummary): number {
+  return getApprovers(document).filter(
+    signer => document.signatures.some(sig => sig.signer === signer)
+  ).length;
+}
+
+/**
+ * Find which recorded version of a document a PDF hash belongs to
+ * Mirrors `matches_hash` in the Move module
+ * @param hash - SHA-256 of a plaintext PDF (hex)
+ * @returns 0 for the original, n for the n-th signed version, or null if no
+ * recorded version matches
+ */
+export function findVersionByHash(document: DocumentSummary, hash: string): number | null {
+  const normalized = hash.toLowerCase();
+  if (document.contentHash === normalized) {
+    return 0;
+  }
+  const index = document.signedBlobHashes.indexOf(normalized);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Check if a document's signing deadline has passed
+ * A document that was never marked expired on-chain still counts as expired
+ * once its deadline is behind us, unless it was completed, declined or voided in time
+ */
+export function isDocumentExpired(document: DocumentSummary): boolean {
+  if (document.status === 3) {
+    return true;
+  }
+  if (
+    document.status === 2 ||
+    document.status === 4 ||
+    document.status === 5 ||
+    document.expiresAt === null
+  ) {
+    return false;
+  }
+  return Date.now() > document.expiresAt;
+}
+
+/**
+ * Get the usable delegation an address holds on a document
+ * A delegation is usable until it expires, is revoked or is used
+ */
+export function getActiveDelegation(
+  document: DocumentSummary,
+  address: string
+): DocumentDelegation | null {
+  return (
+    document.delegations.find(
+      delegation => delegation.delegate === address && delegation.expiresAt > Date.now()
+    ) ?? null
+  );
+}
+
+/**
+ * Check if an address can decrypt a document
+ * Mirrors `seal_approve` in the Move module: the creator, authorized
+ * signers and delegates with an unexpired delegation can decrypt, except
+ * that a voided document is only readable by the creator, and only if they
+ * kept access when voiding it
+ */
+export function canDecryptDocument(document: DocumentSummary, address: string): boolean {
+  if (document.voided) {
+    return document.creator === address && document.voided.keepCreatorAccess;
+  }
+  return (
+    document.authorizedSigners.includes(address) ||
+    document.creator === address ||
+    getActiveDelegation(document, address) !== null
+  );
+}
+
+/**
+ * Get the status to display for a document, taking the deadline into account
+ */
+export function getEffectiveStatus(document: DocumentSummary): DocumentStatus {
+  return isDocumentExpired(document) ? 3 : document.status;
+}
+
+/**
+ * Get registry stats (total documents, etc.)
+ */
+export async function getRegistryStats(config: WalSignConfig): Promise<{
+  totalDocuments: number;
+}> {
+  try {
+    const registry = await getRegistry(config);
+
+    return {
+      totalDocuments: registry ? Number(registry.total_documents) : 0,
+    };
+  } catch (error) {
+    console.error('Error fetching registry stats:', error);
+    return { totalDocuments: 0 };
+  }
+}
@@ -0,0 +1,184 @@
+import { SealClient, SessionKey, EncryptedObject } from "@mysten/seal";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromHex } from "@mysten/sui/utils";
+import { TESTNET_SEAL_CONFIG, WalSignConfig } from "./config";
+import * as walSign from "./generated/walSign";
+
+export type FieldType = 'signature' | 'initials' | 'date' | 'text' | 'checkbox';
+
+// Field placed by the creator, stored encrypted on Walrus next to the PDF
+export interface DocumentField {
+  id: string;
+  type: FieldType;
+  signer: string; // Address expected to fill the field
+  pageNumber: number; // Starts at 1
+  x: number; // PDF points from the top-left corner of the page
+  y: number;
+  width: number;
+  height: number;
+  required: boolean;
+  label?: string; // Shown to the signer, e.g. "Company name"
+}
+
+// One Seal client per config, so key server details are fetched once
+const sealClients = new WeakMap<WalSignConfig, SealClient>();
+
+function getSealClient(config: WalSignConfig): SealClient {
+  let sealClient = sealClients.get(config);
+  if (!sealClient) {
+    const seal = config.seal ?? TESTNET_SEAL_CONFIG;
+    sealClient = new SealClient({
+      suiClient: config.suiClient,
+      serverConfigs: seal.keyServers.map((id: string) => ({
+        objectId: id,
+        weight: 1,
+      })),
+      verifyKeyServers: seal.verifyKeyServers ?? true,
+    });
+    sealClients.set(config, sealClient);
+  }
+  return sealClient;
+}
+
+/**
+ * Encrypt bytes under a wal_sign object ID
+ */
+async function encrypt(config: WalSignConfig, id: string, data: Uint8Array): Promise<Uint8Array> {
+  const { encryptedObject } = await getSealClient(config).encrypt({
+    threshold: (config.seal ?? TESTNET_SEAL_CONFIG).threshold,
+    packageId: config.packageId,
+    id,
+    data,
+  });
+  return encryptedObject;
+}
+
+// Seal access checks in the wal_sign module, one per kind of encrypted object
+export type SealApproveFunction = 'seal_approve' | 'seal_approve_template' | 'seal_approve_library';
+
+/**
+ * Encrypt PDF file using Seal
+ */
+export async function encryptPDF(
+  config: WalSignConfig,
+  documentId: string,
+  pdfFile: Blob
+): Promise<{
+  encryptedData: Uint8Array;
+}> {
+  const arrayBuffer = await pdfFile.arrayBuffer();
+  const pdfBytes = new Uint8Array(arrayBuffer);
+
+  return {
+    encryptedData: await encrypt(config, documentId, pdfBytes),
+  };
+}
+
+/**
+ * Encrypt the creator's field definitions with Seal, under the same
+ * document ID as the PDF so the same participants can read them
+ */
+export async function encryptFields(
+  config: WalSignConfig,
+  documentId: string,
+  fields: DocumentField[]
+): Promise<{
+  encryptedData: Uint8Array;
+}> {
+  return {
+    encryptedData: await encrypt(config, documentId, new TextEncoder().encode(JSON.stringify(fields))),
+  };
+}
+
+/**
+ * Encrypt a saved signature image with Seal under the owner's signature
+ * library ID. The data URL itself is encrypted, so decrypting it gives back
+ * an image ready to place.
+ */
+export async function encryptSignatureImage(
+  config: WalSignConfig,
+  libraryId: string,
+  imageData: string
+): Promise<{
+  encryptedData: Uint8Array;
+}> {
+  return {
+    encryptedData: await encrypt(config, libraryId, new TextEncoder().encode(imageData)),
+  };
+}
+
+/**
+ * Parse field definitions decrypted with decryptPDF
+ */
+export function parseFields(decryptedBytes: Uint8Array): DocumentField[] {
+  const fields = JSON.parse(new TextDecoder().decode(decryptedBytes));
+  return Array.isArray(fields) ? fields : [];
+}
+
+/**
+ * Decrypt PDF using Seal and Session Key
+ */
+export async function decryptPDF(
+  config: WalSignConfig,
+  documentId: string,
+  encryptedBytes: Uint8Array,
+  sessionKey: SessionKey,
+  signPersonalMessage: (args: { message: Uint8Array }) => Promise<{ signature: string }>,
+  approveFunction: SealApproveFunction = 'seal_approve',
+): Promise<Uint8Array | undefined> {
+  try {
+    // Parse encrypted object
+    const encryptedObject = EncryptedObject.parse(encryptedBytes);
+
+    // Get message wallet must sign
+    const personalMessage = sessionKey.getPersonalMessage();
+    const messageBytes = personalMessage;
+
+    // Sign with connected wallet (wallet popup will appear)
+    const { signature } = await signPersonalMessage({
+      message: messageBytes, 
+    });
+
+    // Attach signature to session key
+    sessionKey.setPersonalMessageSignature(signature);
+
+    // Build the approval TX (SEAL requires this)
+    // Only seal_approve takes the clock, for delegation expiry checks
+    const tx = new Transaction();
+    const id = fromHex(encryptedObject.id);
+    if (approveFunction === 'seal_approve_template') {
+      walSign.sealApproveTemplate(tx, config.packageId, { arg0: id, template: documentId });
+    } else if (approveFunction === 'seal_approve_library') {
+      walSign.sealApproveLibrary(tx, config.packageId, { arg0: id, library: documentId });
+    } else {
+      walSign.sealApprove(tx, config.packageId, { arg0: id, document: documentId });
+    }
+
+    const txBytes = await tx.build({
+      client: config.suiClient,
+      onlyTransactionKind: true,
+    });
+
+    // Fetch key shares
+    await getSealClient(config).fetchKeys({
+      ids: [encryptedObject.id],
+      txBytes,
+      sessionKey,
+      threshold: encryptedObject.threshold,
+    });
+
+    // Decrypt PDF
+    const decrypted = await getSealClient(config).decrypt({
+      data: encryptedBytes,
+      sessionKey,
+      txBytes,
+      checkShareConsistency: true,
+    });
+
+    return decrypted;
+
+  } catch (err) {
+    console.error("SEAL DECRYPT FAILED:", err);
+    throw err;
+  }
+}
@@ -0,0 +1,39 @@
+import { SuiClient, SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { Signer } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+
+/**
+ * Signs on behalf of one address
+ * Implement it over a browser wallet, a keypair or a remote signing service
+ */
+export interface WalSignSigner {
+  address: string;
+  // Must resolve with the transaction's effects and object changes
+  signAndExecuteTransaction: (tx: Transaction) => Promise<SuiTransactionBlockResponse>;
+  // Resolves with the serialized signature, used to unlock Seal session keys
+  signPersonalMessage: (message: Uint8Array) => Promise<string>;
+}
+
+/**
+ * Sign with a local keypair, e.g. in scripts and backend services
+ * Waits for each transaction to be indexed, so its effects can be read
+ * straight away
+ */
+export function keypairSigner(keypair: Signer, suiClient: SuiClient): WalSignSigner {
+  return {
+    address: keypair.toSuiAddress(),
+    signAndExecuteTransaction: async (tx) => {
+      const result = await suiClient.signAndExecuteTransaction({
+        signer: keypair,
+        transaction: tx,
+        options: {
+          showEffects: true,
+          showObjectChanges: true,
+        },
+      });
+      await suiClient.waitForTransaction({ digest: result.digest });
+      return result;
+    },
+    signPersonalMessage: async (message) => (await keypair.signPersonalMessage(message)).signature,
+  };
+}
@@ -1,4 +1,4 @@
-import { WALRUS_CONFIG } from '../config/seal.config';
+import { WalrusConfig } from './config';
 
 export interface WalrusUploadResponse {
   blobId: string;
@@ -13,10 +13,14 @@ export interface WalrusUploadResponse {
   };
 }
 
+// Furthest ahead a publisher stores a blob
+export const MAX_STORAGE_EPOCHS = 53;
+
 /**
  * Upload encrypted data to Walrus
  */
 export async function uploadToWalrus(
+  walrus: WalrusConfig,
   encryptedData: Uint8Array,
   epochs: number = 5 // Default to 5 epochs (approximately 30 days on testnet)
 ): Promise<string> {
@@ -26,7 +30,7 @@ export async function uploadToWalrus(
     const blob = new Blob([dataArray.buffer], { type: 'application/octet-stream' });
     
     // Walrus requires the epochs parameter for storage duration
-    const storeUrl = `${WALRUS_CONFIG.publisherUrl}/v1/blobs?epochs=3`;
+    const storeUrl = `${walrus.publisherUrl}/v1/blobs?epochs=${epochs}`;
     
     const response = await fetch(storeUrl, {
       method: 'PUT',
@@ -62,6 +66,7 @@ export async function uploadToWalrus(
  * Download encrypted data from Walrus
  */
 export async function downloadFromWalrus(
+  walrus: WalrusConfig,
   blobId: string
 ): Promise<Uint8Array> {
   try {
@@ -70,7 +75,7 @@ export async function downloadFromWalrus(
       throw new Error('Blob ID is empty');
     }
 
-    const downloadUrl = `${WALRUS_CONFIG.aggregatorUrl}/v1/blobs/${blobId}`;
+    const downloadUrl = `${walrus.aggregatorUrl}/v1/blobs/${blobId}`;
     
     const response = await fetch(downloadUrl, {
       method: 'GET',
@@ -107,10 +112,10 @@ export async function downloadFromWalrus(
 /**
  * Check if blob exists on Walrus
  */
-export async function checkBlobExists(blobId: string): Promise<boolean> {
+export async function checkBlobExists(walrus: WalrusConfig, blobId: string): Promise<boolean> {
   try {
     const response = await fetch(
-      `${WALRUS_CONFIG.aggregatorUrl}/v1/blobs/${blobId}`,
+      `${walrus.aggregatorUrl}/v1/blobs/${blobId}`,
       { method: 'HEAD' }
     );
     return response.ok;